@@ -1,5 +1,7 @@
 import chalk from "chalk";
 import ora, { type Ora } from "ora";
+import type { Selection } from "../internal/Selection.js";
+import type { TsIdentLibrary } from "../internal/ts/trees.js";
 
 /**
  * Base interface for all CLI commands
@@ -10,6 +12,9 @@ export interface CommandOptions {
 	pedantic?: boolean;
 	debug?: boolean;
 	libs?: string[];
+	maxUnionLength?: number;
+	scalaJsDomName?: Map<string, string>;
+	minimize?: Selection<TsIdentLibrary>;
 }
 
 /**
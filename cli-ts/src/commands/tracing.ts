@@ -1,25 +1,30 @@
 import * as path from "node:path";
 import * as E from "fp-ts/Either";
 import { pipe } from "fp-ts/function";
+import * as O from "fp-ts/Option";
 import * as fs from "fs-extra";
 import { Flavour } from "@/Flavour.ts";
-import { InFolder } from "@/internal/files.ts";
+import { SortedMap } from "@/internal/collections/index.js";
+import { files, InFolder } from "@/internal/files.ts";
+import { IArray } from "@/internal/IArray.js";
 import {
 	Bootstrap,
 	type Bootstrapped,
 	type Unresolved,
 } from "@/internal/importer/Bootstrap.ts";
-import { MockCalculateLibraryVersion } from "@/internal/importer/CalculateLibraryVersion.js";
+import { InGitLibraryVersion } from "@/internal/importer/CalculateLibraryVersion.js";
 import {
 	ConversionOptions,
 	Versions,
 } from "@/internal/importer/ConversionOptions.ts";
 import { NormalFlavourImpl } from "@/internal/importer/FlavourImpl.js";
+import { LibScalaJs } from "@/internal/importer/LibScalaJs.js";
 import { Json, type LibTsSource } from "@/internal/importer/LibTsSource.js";
+import { PersistingParser } from "@/internal/importer/PersistingParser.js";
 import { Phase1ReadTypescript } from "@/internal/importer/Phase1ReadTypescript.js";
 import { Phase2ToScalaJs } from "@/internal/importer/Phase2ToScalaJs.js";
 import { PhaseFlavour } from "@/internal/importer/PhaseFlavour.js";
-import type { Logger } from "@/internal/logging/index.js";
+import { LoggedException, Logger } from "@/internal/logging/index.js";
 import { CollectingPhaseListener } from "@/internal/phases/PhaseListener.js";
 import {
 	Formatters,
@@ -28,13 +33,30 @@ import {
 } from "@/internal/phases/PhaseRunner.js";
 import { RecPhase } from "@/internal/phases/RecPhase.js";
 import { Selection } from "@/internal/Selection.ts";
+import {
+	type KeepIndex,
+	Minimization,
+} from "@/internal/scalajs/Minimization.js";
 import { Name } from "@/internal/scalajs/Name.ts";
+import { ParentsResolver } from "@/internal/scalajs/ParentsResolver.js";
+import { Printer } from "@/internal/scalajs/Printer.js";
+import type { QualifiedName } from "@/internal/scalajs/QualifiedName.js";
+import type { PackageTree } from "@/internal/scalajs/Tree.js";
+import { TreeScope } from "@/internal/scalajs/TreeScope.js";
 import { PackageJson } from "@/internal/ts/PackageJson.js";
-import { type TsIdentLibrary, TsParsedFile } from "@/internal/ts/trees.js";
+import type { TsIdentLibrary } from "@/internal/ts/trees.js";
 import { ExecutionLogger } from "@/utils/ExecutionLogger.js";
 import { Paths } from "@/utils/paths.js";
 import { BaseCommand, type CommandOptions } from "./base-command.js";
 
+/* compares UTF-16 code units like `Sorter`, so the library order doesn't depend on the locale */
+const byLibName = (a: LibTsSource, b: LibTsSource): number =>
+	a.libName.value < b.libName.value
+		? -1
+		: a.libName.value > b.libName.value
+			? 1
+			: 0;
+
 /**
  * Main conversion command - equivalent to Scala Tracing.scala
  * Converts TypeScript definitions to Scala.js sources
@@ -57,8 +79,13 @@ export class TracingCommand extends BaseCommand {
 		false,
 		undefined,
 		false,
+		this.options.maxUnionLength,
+		this.options.scalaJsDomName,
+		this.options.minimize,
 	);
 
+	private readonly minimizeKeep: IArray<QualifiedName> = IArray.Empty;
+
 	constructor(options: CommandOptions) {
 		super(options);
 		this.inDirectory = process.cwd();
@@ -129,8 +156,12 @@ export class TracingCommand extends BaseCommand {
 				`Converting ${sources.map((s) => s.libName.value).join(", ")} to scalajs...`,
 			);
 
+			// the libraries the project depends on are kept whole, unless told otherwise
+			const minimize =
+				this.DefaultOptions.minimize ?? Selection.AllExcept(...wantedLibs);
+
 			// Execute the three-phase pipeline
-			await this.executeThreePhasePipeline(sources, bootstrapped);
+			await this.executeThreePhasePipeline(sources, bootstrapped, minimize);
 
 			// Finalize execution log on success
 			await this.executionLogger.finalizeExecutionLog(true);
@@ -147,6 +178,7 @@ export class TracingCommand extends BaseCommand {
 	private async executeThreePhasePipeline(
 		sources: LibTsSource[],
 		bootstrapped: Bootstrapped,
+		minimize: Selection<TsIdentLibrary>,
 	): Promise<void> {
 		this.executionLogger.logStep("Setting up three-phase pipeline");
 
@@ -159,6 +191,15 @@ export class TracingCommand extends BaseCommand {
 				debug: (msg: string) =>
 					this.info(`[${id.libName.value}] DEBUG: ${msg}`),
 				withContext: (_key: string, _value: string) => getLogger(id),
+				// throwing makes the phase fail with this message, see `PhaseRes.attempt`
+				fatal: (msg: string): never => {
+					this.error(`[${id.libName.value}] ${msg}`);
+					throw new LoggedException(msg);
+				},
+				fatalMaybe: (msg: string, pedantic: boolean) => {
+					if (pedantic) getLogger(id).fatal(msg);
+					else this.warn(`[${id.libName.value}] ${msg}`);
+				},
 			} as Logger<void>;
 		};
 
@@ -194,23 +235,33 @@ export class TracingCommand extends BaseCommand {
 		const formatter = Formatters.create<LibTsSource>(
 			(source) => source.libName.value,
 		);
-		const ordering = Orderings.create<LibTsSource>((a, b) =>
-			a.libName.value.localeCompare(b.libName.value),
-		);
+		const ordering = Orderings.create<LibTsSource>(byLibName);
 
 		// Configure Phase1: TypeScript parsing
 		this.executionLogger.logStep("Configuring Phase1ReadTypescript");
 		const phase1Config = {
 			resolve: bootstrapped.libraryResolver,
-			calculateLibraryVersion: new MockCalculateLibraryVersion(),
+			calculateLibraryVersion: new InGitLibraryVersion(),
 			ignored: this.DefaultOptions.ignoredLibs,
 			ignoredModulePrefixes: this.DefaultOptions.ignoredModulePrefixes,
 			pedantic: false,
-			parser: () => E.right(TsParsedFile.createMock()), // Mock parser
+			parser: PersistingParser.apply(
+				pipe(O.fromNullable(this.options.cache), O.map((cache) => path.resolve(cache))),
+				bootstrapped.inputFolders,
+				Logger.Console("[PersistingParser] "),
+			),
 			expandTypeMappings: this.DefaultOptions.expandTypeMappings,
 		};
 		const phase1 = Phase1ReadTypescript.create(phase1Config);
 
+		const flavour = new NormalFlavourImpl(
+			this.DefaultOptions.useScalaJsDomTypes,
+			this.DefaultOptions.enableLongApplyMethod,
+			this.DefaultOptions.outputPackage,
+			this.DefaultOptions.versions,
+			this.DefaultOptions.extraScalaJsDomNames,
+		);
+
 		// Configure Phase2: TypeScript to Scala.js conversion
 		this.executionLogger.logStep("Configuring Phase2ToScalaJs");
 		console.log("🔧 [TracingCommand] Setting up Phase2ToScalaJs configuration...");
@@ -220,7 +271,8 @@ export class TracingCommand extends BaseCommand {
 			scalaVersion: this.DefaultOptions.versions.scala,
 			enableScalaJsDefined: this.DefaultOptions.enableScalaJsDefined,
 			outputPkg: this.DefaultOptions.outputPackage,
-			flavour: NormalFlavourImpl.createMock(),
+			flavour,
+			maxUnionLength: this.DefaultOptions.maxUnionLength,
 		};
 		console.log("🏗️  [TracingCommand] Creating Phase2ToScalaJs instance...");
 		const phase2 = Phase2ToScalaJs.create(phase2Config);
@@ -229,7 +281,7 @@ export class TracingCommand extends BaseCommand {
 		// Configure Phase3: Flavour transformations
 		this.executionLogger.logStep("Configuring PhaseFlavour");
 		const phase3Config = {
-			flavour: NormalFlavourImpl.createMock(),
+			flavour,
 			maybePrivateWithin: this.DefaultOptions.privateWithin
 				? { _tag: "Some" as const, value: this.DefaultOptions.privateWithin }
 				: { _tag: "None" as const },
@@ -254,6 +306,8 @@ export class TracingCommand extends BaseCommand {
 
 		// Execute pipeline for each source
 		this.executionLogger.logStep("Executing three-phase pipeline");
+		const libs: Array<readonly [LibTsSource, LibScalaJs]> = [];
+		const failed: string[] = [];
 		for (const source of sources) {
 			this.executionLogger.logProgress(
 				`Processing ${source.libName.value} through three-phase pipeline`,
@@ -265,16 +319,136 @@ export class TracingCommand extends BaseCommand {
 				this.executionLogger.logProgress(
 					`Successfully processed ${source.libName.value}`,
 				);
+				libs.push([source, result.value]);
 			} else if (result._tag === "Failure") {
-				this.executionLogger.logError(
-					`Failed to process ${source.libName.value}: ${Array.from(result.errors.values()).join(", ")}`,
-				);
+				this.executionLogger.logError("Pipeline failed with errors:");
+				result.errors.forEach((error, failedSource) => {
+					const name = failedSource.libName.value;
+					if (E.isLeft(error)) {
+						this.executionLogger.logError(
+							`  ${name}: ${error.left.message}`,
+							error.left,
+						);
+					} else {
+						this.executionLogger.logError(`  ${name}: ${error.right}`);
+					}
+				});
+				failed.push(source.libName.value);
 			} else {
 				this.executionLogger.logProgress(`Ignored ${source.libName.value}`);
 			}
 		}
 
 		this.executionLogger.logStep("Three-phase pipeline execution completed");
+
+		/* like the Scala version, nothing is written when a library failed */
+		if (failed.length > 0) {
+			throw new Error(`Failed to convert ${failed.join(", ")}`);
+		}
+
+		await this.generateSources(libs, minimize);
+	}
+
+	/**
+	 * Print the converted libraries and everything they depend on as scala sources under `<output>/<lib>`.
+	 * Libraries selected by `minimize` only keep what is referenced from the others.
+	 * Unchanged files are left alone so their mtimes survive
+	 */
+	private async generateSources(
+		converted: ReadonlyArray<readonly [LibTsSource, LibScalaJs]>,
+		minimizeLibs: Selection<TsIdentLibrary>,
+	): Promise<void> {
+		this.executionLogger.logStep("Generating source files");
+
+		const libs = TracingCommand.withDependencies(converted);
+
+		const globalScope = new TreeScope.Root(
+			this.DefaultOptions.outputPackage,
+			Name.dummy,
+			new Map(libs.map(([, l]) => [l.scalaName.unescaped, l.packageTree])),
+			Logger.DevNull(),
+			false,
+		);
+
+		// `TsIdentLibrary`s are not interned, so compare by name
+		const minimize = minimizeLibs.map((libName) => libName.value);
+
+		let referencesToKeep: KeepIndex | undefined;
+		const keepIndex = (): KeepIndex => {
+			if (referencesToKeep === undefined) {
+				referencesToKeep = Minimization.findReferences(
+					globalScope,
+					this.minimizeKeep,
+					IArray.fromArray(
+						libs.map(([s, l]): [PackageTree, boolean] => [
+							l.packageTree,
+							minimize.apply(s.libName.value),
+						]),
+					),
+				);
+			}
+			return referencesToKeep;
+		};
+
+		let writtenFiles = 0;
+		for (const [source, lib] of libs) {
+			const willMinimize = minimize.apply(source.libName.value);
+			const treeToPrint = willMinimize
+				? Minimization.apply(
+						globalScope,
+						keepIndex(),
+						Logger.DevNull(),
+						lib.packageTree,
+					)
+				: lib.packageTree;
+
+			const scalaFiles = Printer.apply(
+				globalScope,
+				new ParentsResolver(),
+				treeToPrint,
+				this.DefaultOptions.outputPackage,
+				this.DefaultOptions.versions.scala,
+			);
+
+			// the version changes whenever the typings or the converter do
+			const version = lib.libVersion.version();
+
+			const targetFolder = path.join(this.sourceOutputDir, source.libName.value);
+			const minimizedMsg = willMinimize ? "minimized " : "";
+			this.executionLogger.logProgress(
+				`Writing ${minimizedMsg}${source.libName.value} ${version} (${scalaFiles.length} files) to ${targetFolder}...`,
+			);
+
+			for (const [relPath, content] of scalaFiles.toArray()) {
+				await files.softWrite(path.join(targetFolder, relPath), (write) =>
+					write(content),
+				);
+				writtenFiles += 1;
+			}
+		}
+
+		this.executionLogger.logProgress(
+			`Successfully generated ${writtenFiles} Scala source files to ${this.sourceOutputDir}`,
+		);
+	}
+
+	/**
+	 * The converted libraries along with their transitive dependencies, once each and sorted by name
+	 */
+	private static withDependencies(
+		converted: ReadonlyArray<readonly [LibTsSource, LibScalaJs]>,
+	): Array<readonly [LibTsSource, LibScalaJs]> {
+		const byName = new Map<string, readonly [LibTsSource, LibScalaJs]>();
+		LibScalaJs.Unpack.apply(
+			new SortedMap(
+				converted.map(([s, l]): [LibTsSource, LibScalaJs] => [s, l]),
+			),
+		).forEach((lib, source) => {
+			if (!byName.has(source.libName.value)) {
+				byName.set(source.libName.value, [source, lib]);
+			}
+		});
+		return Array.from(byName.values()).sort(([a], [b]) => byLibName(a, b));
 	}
 
 	private async validateEnvironment(): Promise<void> {
@@ -261,6 +261,30 @@ export class ManglerWasJsNative implements Marker {
 	}
 }
 
+/**
+ * Marker for the ops classes holding `Future` variants of `Promise`-returning members.
+ * Has no Scala equivalent, see GenPromiseOps
+ */
+export class FutureOps implements Marker {
+	readonly _tag = "Comment" as const;
+	readonly _markerTag = "FutureOps" as const;
+
+	private static _instance: FutureOps | undefined;
+
+	static get instance(): FutureOps {
+		if (!FutureOps._instance) {
+			FutureOps._instance = new FutureOps();
+		}
+		return FutureOps._instance;
+	}
+
+	private constructor() {}
+
+	toString(): string {
+		return "FutureOps";
+	}
+}
+
 // ============================================================================
 // Marker case classes (data classes)
 // ============================================================================
@@ -455,6 +479,8 @@ export class NullLit implements ExprTreeLit {
  * Simplified TypeRef interface for markers
  * This is a minimal interface to avoid circular dependencies
  * The full TypeRef implementation is in the scalajs module
+ *
+ * The markers holding types are generic over it, so they can be created from and read as the full `TypeRef`
  */
 export interface TypeRef {
 	readonly _tag: "TypeRef";
@@ -492,11 +518,11 @@ export class WasLiteral implements Marker {
  * Marker indicating this was a union
  * Equivalent to Scala's `case class WasUnion(related: IArray[TypeRef]) extends Marker`
  */
-export class WasUnion implements Marker {
+export class WasUnion<T extends TypeRef = TypeRef> implements Marker {
 	readonly _tag = "Comment" as const;
 	readonly _markerTag = "WasUnion" as const;
 
-	constructor(public readonly related: IArray<TypeRef>) {}
+	constructor(public readonly related: IArray<T>) {}
 
 	toString(): string {
 		return `WasUnion(${this.related.length} types)`;
@@ -514,11 +540,11 @@ export class WasUnion implements Marker {
  * Disable the minimizer for object with this marker
  * Equivalent to Scala's `final case class MinimizationKeep(related: IArray[TypeRef]) extends Marker`
  */
-export class MinimizationKeep implements Marker {
+export class MinimizationKeep<T extends TypeRef = TypeRef> implements Marker {
 	readonly _tag = "Comment" as const;
 	readonly _markerTag = "MinimizationKeep" as const;
 
-	constructor(public readonly related: IArray<TypeRef>) {}
+	constructor(public readonly related: IArray<T>) {}
 
 	toString(): string {
 		return `MinimizationKeep(${this.related.length} types)`;
@@ -538,11 +564,13 @@ export class MinimizationKeep implements Marker {
  * only then include the related objects as well
  * Equivalent to Scala's `final case class MinimizationRelated(related: IArray[TypeRef]) extends Marker`
  */
-export class MinimizationRelated implements Marker {
+export class MinimizationRelated<T extends TypeRef = TypeRef>
+	implements Marker
+{
 	readonly _tag = "Comment" as const;
 	readonly _markerTag = "MinimizationRelated" as const;
 
-	constructor(public readonly related: IArray<TypeRef>) {}
+	constructor(public readonly related: IArray<T>) {}
 
 	toString(): string {
 		return `MinimizationRelated(${this.related.length} types)`;
@@ -696,6 +724,7 @@ export namespace Marker {
 	export const HasClassParentInstance = HasClassParent.instance;
 	export const ManglerLeaveAloneInstance = ManglerLeaveAlone.instance;
 	export const ManglerWasJsNativeInstance = ManglerWasJsNative.instance;
+	export const FutureOpsInstance = FutureOps.instance;
 
 	/**
 	 * Type guard to check if a marker is a specific type
@@ -731,23 +760,25 @@ export namespace Marker {
 	/**
 	 * Create a was union marker
 	 */
-	export function wasUnion(related: IArray<TypeRef>): WasUnion {
+	export function wasUnion<T extends TypeRef>(related: IArray<T>): WasUnion<T> {
 		return new WasUnion(related);
 	}
 
 	/**
 	 * Create a minimization keep marker
 	 */
-	export function minimizationKeep(related: IArray<TypeRef>): MinimizationKeep {
+	export function minimizationKeep<T extends TypeRef>(
+		related: IArray<T>,
+	): MinimizationKeep<T> {
 		return new MinimizationKeep(related);
 	}
 
 	/**
 	 * Create a minimization related marker
 	 */
-	export function minimizationRelated(
-		related: IArray<TypeRef>,
-	): MinimizationRelated {
+	export function minimizationRelated<T extends TypeRef>(
+		related: IArray<T>,
+	): MinimizationRelated<T> {
 		return new MinimizationRelated(related);
 	}
 
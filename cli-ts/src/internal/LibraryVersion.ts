@@ -14,27 +14,27 @@ import { IArray } from "./IArray.js";
  *
  * @param repo - Repository URL
  * @param isDefinitelyTyped - Whether this is a DefinitelyTyped repository
- * @param lastModified - Last modification timestamp
+ * @param lastModified - Commit date of the checked out commit, if it could be read
  */
 export class InGit {
 	constructor(
 		public readonly repo: URL,
 		public readonly isDefinitelyTyped: boolean,
-		public readonly lastModified: Date,
+		public readonly lastModified: Option<Date>,
 	) {}
 
 	/**
 	 * Format git information for version string
-	 * Returns either "dt-{YYYYMMDDZ}" for DefinitelyTyped repos or "{repo.pathname}-{YYYYMMDDZ}" for others
+	 * Returns either "dt-{YYYYMMDDZ}" for DefinitelyTyped repos or "{repo.pathname}-{YYYYMMDDZ}" for others.
+	 * The date is left out when it is unknown
 	 */
 	format(): string {
-		const dateStr = this.formatDate(this.lastModified);
-
-		if (this.isDefinitelyTyped) {
-			return `dt-${dateStr}`;
-		} else {
-			return `${this.repo.pathname}-${dateStr}`;
-		}
+		const prefix = this.isDefinitelyTyped ? "dt" : this.repo.pathname;
+		return pipe(
+			this.lastModified,
+			map((date) => `${prefix}-${this.formatDate(date)}`),
+			getOrElse(() => prefix),
+		);
 	}
 
 	/**
@@ -54,12 +54,14 @@ export class InGit {
  * @param isStdLib - Whether this is a standard library
  * @param libraryVersion - Declared library version (from package.json or comments)
  * @param inGit - Git repository information if available
+ * @param sourceDigest - Digest of the library's typings, used when `version` is not given one
  */
 export class LibraryVersion {
 	constructor(
 		public readonly isStdLib: boolean,
 		public readonly libraryVersion: Option<string>,
 		public readonly inGit: Option<InGit>,
+		public readonly sourceDigest: Option<Digest> = none,
 	) {}
 
 	/**
@@ -108,24 +110,24 @@ export class LibraryVersion {
 	}
 
 	/**
-	 * Generate version string combining library version, git info, and digest
+	 * Generate version string combining library version, git info, and digest.
+	 * Without a digest the one of the library's typings is used, if known
 	 */
-	version(digest: Digest): string {
+	version(digest?: Digest): string {
 		const libVersion = this.libraryVersionOrDefault();
 		const gitFormat = pipe(
 			this.inGit,
 			map((git) => git.format()),
 		);
-		const digestPart = digest.hexString.substring(0, 6);
+		const digestPart = pipe(
+			digest === undefined ? this.sourceDigest : some(digest),
+			map((d) => d.hexString.substring(0, 6)),
+		);
 
 		// Handle empty library version case - if empty, don't include it
 		const libVersionOption = libVersion === "" ? none : some(libVersion);
 
-		const parts = IArray.fromOptions(
-			libVersionOption,
-			gitFormat,
-			some(digestPart),
-		);
+		const parts = IArray.fromOptions(libVersionOption, gitFormat, digestPart);
 
 		return parts.toArray().join("-");
 	}
@@ -1,36 +1,339 @@
 /**
  * TypeScript port of org.scalablytyped.converter.internal.importer.AdaptiveNamingImport
  *
- * Handles adaptive naming for imports during TypeScript to Scala.js conversion
+ * Handles adaptive naming for imports during TypeScript to Scala.js conversion.
+ * Every code path in a library is assigned a unique Scala qualified name, taking care that no two names
+ * differ only by case (since that breaks on case-insensitive file systems)
  */
 
-import { Name } from "../scalajs/Name";
-import { TsIdentLibrary } from "../ts/trees";
+import { IsTrivial } from "../Comment.js";
+import { IArray, IArrayPatterns } from "../IArray.js";
+import { nameVariants } from "../nameVariants.js";
+import { joinCamelCase, toCamelCase } from "../StringUtils.js";
+import { Name } from "../scalajs/Name.js";
+import { QualifiedName } from "../scalajs/QualifiedName.js";
+import type { CodePath } from "../ts/CodePath.js";
+import { TsTreeTraverse } from "../ts/TsTreeTraverse.js";
+import {
+	TsIdent,
+	TsIdentApply,
+	TsIdentGlobal,
+	type TsIdentLibrary,
+	TsIdentLibrary as TsIdentLibraryOps,
+	type TsIdentModule,
+	TsIdentNamespaced,
+	type TsIdentSimple,
+	type TsParsedFile,
+	type TsQIdent,
+} from "../ts/trees.js";
+
+/**
+ * Key used to look up rewrites, since `IArray<TsIdent>` does not have structural equality
+ */
+const keyOf = (parts: IArray<TsIdent>): string =>
+	parts.map((p) => `${p._tag}:${p.value}`).mkString("", "\u0000", "");
 
 /**
  * Manages naming conventions for imported TypeScript libraries
  */
 export class AdaptiveNamingImport {
-	constructor(
-		public readonly outputPkg: Name,
-		public readonly libName: TsIdentLibrary,
-		public readonly useDeprecatedModuleNames: boolean = false,
-	) {}
+	constructor(private readonly rewrites: Map<string, QualifiedName>) {}
+
+	apply(qident: TsQIdent): QualifiedName {
+		const parts = qident.parts;
+		/* hack/shortcut: all qualified idents are fully qualified, which means only abstract things should have length one */
+		const one = IArrayPatterns.exactlyOne(parts);
+		if (one !== undefined && TsIdent.isSimple(one)) {
+			return QualifiedName.from([Name.necessaryRewrite(new Name(one.value))]);
+		}
+		const found = this.rewrites.get(keyOf(parts));
+		if (found !== undefined) {
+			return found;
+		}
+		/* this branch is mostly for enum members now, which don't have codepaths */
+		const initLast = IArrayPatterns.initLast(parts);
+		if (initLast !== undefined && TsIdent.isSimple(initLast[1])) {
+			const parent = this.rewrites.get(keyOf(initLast[0]));
+			if (parent !== undefined) {
+				return parent.add(Name.necessaryRewrite(new Name(initLast[1].value)));
+			}
+		}
+		throw new Error(
+			`Couldn't find rewrite for ${parts.map((p) => p.value).mkString("", ".", "")}`,
+		);
+	}
+
+	applyCodePath(cp: CodePath): QualifiedName {
+		return this.apply(cp.forceHasPath().codePath);
+	}
 
 	/**
-	 * Get the unescaped library name
+	 * Create AdaptiveNamingImport for the given library, after having seen all its code paths
 	 */
-	get unescaped(): string {
-		return this.libName.value;
+	static apply(
+		outputPkg: Name,
+		libraryName: TsIdentLibrary,
+		library: TsParsedFile,
+		depsRewrites: IArray<AdaptiveNamingImport>,
+		illegalNames: ReadonlySet<string>,
+		useDeprecatedModuleNames: boolean,
+	): AdaptiveNamingImport {
+		const seen = new Set<string>();
+		const allReferences: IArray<IArray<TsIdent>> = TsTreeTraverse.collect(
+			library,
+			(tree) => {
+				/* we won't output these, so ignore the name collision */
+				if (
+					tree._tag === "TsDeclTypeAlias" &&
+					(tree as any).comments.has(IsTrivial)
+				) {
+					return IArray.Empty as IArray<TsIdent>;
+				}
+				const codePath = (tree as any).codePath as CodePath | undefined;
+				if (
+					codePath !== undefined &&
+					(codePath._tag === "HasPath" || codePath._tag === "NoPath")
+				) {
+					return codePath.forceHasPath().codePath.parts;
+				}
+				return undefined;
+			},
+		)
+			.filter((parts) => {
+				const key = keyOf(parts);
+				if (seen.has(key)) return false;
+				seen.add(key);
+				return true;
+			})
+			.sortWith(ShortestAndLowercaseFirst);
+
+		const registeredReferences = new Map<string, QualifiedName>([
+			[keyOf(IArray.Empty), QualifiedName.from([outputPkg])],
+		]);
+
+		const lowercaseIndex = new Map<string, string>();
+
+		// very obviously a hack. node is the only library seen so far where the shortest module name (`assert`)
+		// doesnt correspond to the library name
+		if (libraryName.value === "node") {
+			lowercaseIndex.set(
+				`${outputPkg.unescaped.toLowerCase()}.node.mod`,
+				keyOf(IArray.apply<TsIdent>(TsIdent.simple("_____"))),
+			);
+		}
+
+		allReferences.forEach((whole) => {
+			const initLast = IArrayPatterns.initLast(whole);
+			if (initLast === undefined) return;
+			const [parent, current] = initLast;
+			const wholeKey = keyOf(whole);
+			const parentTranslated = registeredReferences.get(keyOf(parent));
+			if (parentTranslated === undefined) {
+				throw new Error(
+					`Couldn't translate ${whole.map((p) => p.value).mkString("", ".", "")}, parent missing`,
+				);
+			}
+			const variants = variantsFor(
+				current,
+				parent.exists(TsIdent.isModule),
+				parent.find(TsIdent.isLibrary) as TsIdentLibrary | undefined,
+				illegalNames,
+				useDeprecatedModuleNames,
+			);
+
+			for (let idx = 0; idx < variants.length; idx++) {
+				const possibleQname = parentTranslated.add(
+					Name.necessaryRewrite(new Name(variants[idx])),
+				);
+				const lowercase = possibleQname.parts
+					.map((p) => p.unescaped)
+					.mkString("", ".", "")
+					.toLowerCase();
+				const existing = lowercaseIndex.get(lowercase);
+				if (existing === wholeKey) {
+					break;
+				}
+				if (existing === undefined) {
+					registeredReferences.set(wholeKey, possibleQname);
+					lowercaseIndex.set(lowercase, wholeKey);
+					break;
+				}
+				if (idx === variants.length - 1) {
+					throw new Error(
+						`Couldn't translate ${whole.map((p) => p.value).mkString("", ".", "")}`,
+					);
+				}
+			}
+		});
+
+		depsRewrites.forEach((x) => {
+			x.rewrites.forEach((qname, key) => registeredReferences.set(key, qname));
+		});
+
+		return new AdaptiveNamingImport(registeredReferences);
+	}
+
+	static variantsForLibName(library: TsIdentLibrary): string[] {
+		return nameVariants(toCamelCase(library.value));
 	}
 
 	/**
 	 * Create a mock AdaptiveNamingImport for testing/dummy implementations
 	 */
 	static createMock(libName?: TsIdentLibrary): AdaptiveNamingImport {
-		const mockLibName = libName || TsIdentLibrary.construct("mock-library");
-		const mockOutputPkg = new Name("typings");
+		const lib = libName || TsIdentLibraryOps.construct("mock-library");
+		return new AdaptiveNamingImport(
+			new Map([
+				[
+					keyOf(IArray.apply<TsIdent>(lib)),
+					QualifiedName.from([new Name("typings"), new Name(lib.__value)]),
+				],
+			]),
+		);
+	}
+}
+
+function variantsFor(
+	tsIdent: TsIdent,
+	hasModuleParent: boolean,
+	inLib: TsIdentLibrary | undefined,
+	illegalNames: ReadonlySet<string>,
+	useDeprecatedModuleNames: boolean,
+): string[] {
+	const base = ((): string[] => {
+		switch (tsIdent._tag) {
+			case "TsIdentSimple":
+				return variantsForSimple(tsIdent as TsIdentSimple, illegalNames);
+
+			case "TsIdentModule": {
+				const mod = tsIdent as TsIdentModule;
+				// if this is an augmented module
+				if (hasModuleParent) {
+					/* todo: We should look up what the augmented module is called and reuse it. I don't care enough to do it now */
+					const scope =
+						mod.scopeOpt._tag === "Some" ? [mod.scopeOpt.value] : [];
+					return nameVariants(joinCamelCase([...scope, ...mod.fragments])).map(
+						(v) => `${v}AugmentingMod`,
+					);
+				}
 
-		return new AdaptiveNamingImport(mockOutputPkg, mockLibName, false);
+				if (useDeprecatedModuleNames) {
+					const [head, ...tail] = mod.fragments;
+					const libraryBits =
+						mod.scopeOpt._tag === "Some"
+							? [
+									mod.scopeOpt.value +
+										head.charAt(0).toUpperCase() +
+										head.slice(1),
+								]
+							: [head];
+					const withoutLibrary: string[][] = [
+						[],
+						...tail.map((_, n) => tail.slice(tail.length - (n + 1))),
+					];
+					const withLibrary = withoutLibrary.map((ss) => [
+						...libraryBits,
+						...ss,
+					]);
+					const increasingLength = [...withoutLibrary, ...withLibrary];
+
+					const unCamelCased = increasingLength.filter((frags) =>
+						frags.some((str) => str.includes("-") || str.includes("_")),
+					);
+					const preferCamelCase = [
+						...increasingLength.map((frags) => frags.map(toCamelCase)),
+						...unCamelCased,
+					];
+					return preferCamelCase.flatMap((frags) =>
+						nameVariants(addMod(joinCamelCase(frags))),
+					);
+				}
+
+				const shortenedFragments = (() => {
+					if (
+						inLib !== undefined &&
+						TsIdentLibraryOps.isSimple(inLib) &&
+						mod.fragments[0] === inLib.value
+					) {
+						return mod.fragments.slice(1);
+					}
+					if (
+						inLib !== undefined &&
+						TsIdentLibraryOps.isScoped(inLib) &&
+						mod.scopeOpt._tag === "Some" &&
+						mod.scopeOpt.value === inLib.scope &&
+						mod.fragments[0] === inLib.name
+					) {
+						return mod.fragments.slice(1);
+					}
+					return mod.fragments;
+				})();
+				return [addMod(joinCamelCase(shortenedFragments.map(toCamelCase)))];
+			}
+
+			case "TsIdentLibrarySimple":
+			case "TsIdentLibraryScoped":
+				return AdaptiveNamingImport.variantsForLibName(
+					tsIdent as TsIdentLibrary,
+				);
+
+			case "TsIdentImport":
+				throw new Error("unexpected");
+		}
+	})();
+
+	return [...base, ...base.map((v) => `${v}_`), ...base.map((v) => `${v}__`)];
+}
+
+function variantsForSimple(
+	ident: TsIdentSimple,
+	illegalNames: ReadonlySet<string>,
+): string[] {
+	if (TsIdent.equals(ident, TsIdentNamespaced))
+		return [Name.namespaced.unescaped];
+	if (TsIdent.equals(ident, TsIdentApply)) return [Name.APPLY.unescaped];
+	if (TsIdent.equals(ident, TsIdentGlobal))
+		return [Name.global.unescaped, "global_", "global__"];
+	if (illegalNames.has(ident.value)) return [`${ident.value}_`];
+	return nameVariants(ident.value);
+}
+
+function addMod(str: string): string {
+	return str === "" ? Name.mod.unescaped : `${str}Mod`;
+}
+
+const isLower = (c: string): boolean => /\p{Ll}/u.test(c);
+
+/* copied String.compareTo */
+function compareStringPreferLower(v1: string, v2: string): number {
+	const lim = Math.min(v1.length, v2.length);
+	for (let k = 0; k < lim; k++) {
+		const c1 = v1.charAt(k);
+		const c2 = v2.charAt(k);
+
+		/* added check to sort lowercase first */
+		if (isLower(c1) && !isLower(c2)) return -1;
+		if (isLower(c2) && !isLower(c1)) return 1;
+
+		if (c1 !== c2) return c1.charCodeAt(0) - c2.charCodeAt(0);
+	}
+	return v1.length - v2.length;
+}
+
+/**
+ * The point of preferring lowercase is to choose values before types. `interface Console{}; declare console:
+ * Console` should become `interface Console_{}; declare console: Console_`
+ */
+function ShortestAndLowercaseFirst(
+	one: IArray<TsIdent>,
+	two: IArray<TsIdent>,
+): number {
+	for (let idx = 0; idx < one.length && idx < two.length; idx++) {
+		const n = compareStringPreferLower(
+			one.apply(idx).value,
+			two.apply(idx).value,
+		);
+		if (n !== 0) return n;
 	}
+	return one.length - two.length;
 }
@@ -4,11 +4,19 @@
  * Calculates library versions based on various sources
  */
 
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { pipe } from "fp-ts/function";
 import type { Option } from "fp-ts/Option";
+import * as O from "fp-ts/Option";
 import type { Comments } from "../Comments";
+import { Digest } from "../Digest";
 import type { InFolder } from "../files";
+import { IArray } from "../IArray";
 import { LibraryVersion } from "../LibraryVersion";
 import type { PackageJson } from "../ts/PackageJson";
+import { ConverterVersion } from "./ConversionOptions";
+import { ReadGit } from "./ReadGit";
 
 /**
  * Interface for calculating library versions
@@ -45,6 +53,86 @@ export class PackageJsonOnly implements CalculateLibraryVersion {
 	}
 }
 
+/**
+ * Uses the version from package.json, or from the `Type definitions for` header of
+ * DefinitelyTyped files, and records which git repository the library was read from.
+ * The git checkout is read directly from disk.
+ *
+ * The digest covers the `.d.ts` files of the library and the converter version, so the
+ * version only changes when the typings or the converter do.
+ */
+export class InGitLibraryVersion implements CalculateLibraryVersion {
+	constructor(private readonly converterVersion: string = ConverterVersion) {}
+
+	calculate(
+		folder: InFolder,
+		isStdLib: boolean,
+		packageJsonOpt: Option<PackageJson>,
+		comments: Comments,
+	): LibraryVersion {
+		const libraryVersion = pipe(
+			packageJsonOpt,
+			O.flatMap((packageJson) => O.fromNullable(packageJson.version)),
+			O.alt(() => InGitLibraryVersion.headerVersion(comments)),
+		);
+
+		return new LibraryVersion(
+			isStdLib,
+			libraryVersion,
+			ReadGit.inGit(folder),
+			O.some(InGitLibraryVersion.digest(folder, this.converterVersion)),
+		);
+	}
+
+	/**
+	 * Digest of the converter version and every `.d.ts` file below `folder`, in path order.
+	 * Nested `node_modules` belong to other libraries and are skipped
+	 */
+	static digest(folder: InFolder, converterVersion: string): Digest {
+		const typings: string[] = [];
+		const walk = (dir: string): void => {
+			for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+				const file = path.join(dir, entry.name);
+				if (entry.isDirectory()) {
+					if (entry.name !== "node_modules" && !entry.name.startsWith(".")) {
+						walk(file);
+					}
+				} else if (entry.name.endsWith(".d.ts")) {
+					typings.push(path.relative(folder.path, file));
+				}
+			}
+		};
+		walk(folder.path);
+
+		/* compare code units, the order must not depend on the locale */
+		typings.sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+		return Digest.ofStrings(
+			IArray.fromArray([
+				converterVersion,
+				...typings.flatMap((relative) => [
+					relative,
+					Digest.ofBytes(
+						IArray.apply<Uint8Array>(
+							fs.readFileSync(path.join(folder.path, relative)),
+						),
+					).hexString,
+				]),
+			]),
+		);
+	}
+
+	/**
+	 * Finds `1.2` in `// Type definitions for foo 1.2`
+	 */
+	static headerVersion(comments: Comments): Option<string> {
+		for (const raw of comments.rawCs) {
+			const found = /Type definitions for .*? v?(\d+(?:\.\d+)*)\s*$/m.exec(raw);
+			if (found) return O.some(found[1]);
+		}
+		return O.none;
+	}
+}
+
 /**
  * Mock implementation for testing
  */
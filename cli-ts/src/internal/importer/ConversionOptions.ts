@@ -11,6 +11,7 @@ import {
 	type Selection,
 } from "@/internal/Selection.ts";
 import { Name } from "@/internal/scalajs/Name.ts";
+import packageJson from "../../../package.json";
 import { TsIdentLibrary } from "../ts/trees.js";
 
 // Dependency type for versions
@@ -62,6 +63,9 @@ export class ScalaJsVersion {
 	}
 }
 
+/* released version of the converter, part of the digest of converted libraries */
+export const ConverterVersion: string = packageJson.version;
+
 export class Versions {
 	public readonly runtime: Dep;
 	public readonly scalaJsDom: Dep;
@@ -126,6 +130,13 @@ export class ConversionOptions {
 		public readonly enableLongApplyMethod: boolean,
 		public readonly privateWithin?: Name,
 		public readonly useDeprecatedModuleNames: boolean = false,
+		public readonly maxUnionLength?: number,
+		public readonly extraScalaJsDomNames: ReadonlyMap<
+			string,
+			string
+		> = new Map(),
+		/* libraries which only keep what the others use, when unset everything but the project dependencies */
+		public readonly minimize?: Selection<TsIdentLibrary>,
 	) {
 		// Compute derived properties
 		this.ignoredLibs = new Set(
@@ -195,6 +206,18 @@ export class ConversionOptions {
 				privateWithin: this.privateWithin.unescaped,
 			}),
 			useDeprecatedModuleNames: this.useDeprecatedModuleNames,
+			...(this.maxUnionLength !== undefined && {
+				maxUnionLength: this.maxUnionLength,
+			}),
+			...(this.extraScalaJsDomNames.size > 0 && {
+				extraScalaJsDomNames: Object.fromEntries(this.extraScalaJsDomNames),
+			}),
+			...(this.minimize && {
+				minimize: serializeSelection(
+					this.minimize,
+					(lib: TsIdentLibrary) => lib.value,
+				),
+			}),
 		};
 	}
 
@@ -253,6 +276,13 @@ export class ConversionOptions {
 			obj.enableLongApplyMethod,
 			obj.privateWithin ? new Name(obj.privateWithin) : undefined,
 			obj.useDeprecatedModuleNames || false,
+			obj.maxUnionLength,
+			new Map(Object.entries(obj.extraScalaJsDomNames ?? {})),
+			obj.minimize
+				? deserializeSelection(obj.minimize, (lib: string) =>
+						TsIdentLibrary.construct(lib),
+					)
+				: undefined,
 		);
 	}
 
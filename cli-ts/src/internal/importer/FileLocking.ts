@@ -0,0 +1,56 @@
+/**
+ * TypeScript port of org.scalablytyped.converter.internal.importer.FileLocking
+ *
+ * Memoises a function on disk. Node has no blocking file locks, so instead of locking the cache
+ * file while it is written we write a temporary file next to it and rename that into place.
+ * Concurrent runs may compute the same value twice, but never observe a half-written file.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { Logger } from "../logging/index.js";
+
+/**
+ * Converts values to and from something `JSON.stringify` can write
+ */
+export interface FileCodec<V> {
+	encode(value: V): any;
+	decode(data: any): V;
+}
+
+export namespace FileLocking {
+	export function persistingFunction<K, V>(
+		cachedFileFor: (key: K) => string,
+		logger: Logger<void>,
+		codec: FileCodec<V>,
+	): (f: (key: K) => V) => (key: K) => V {
+		return (f) => (key) =>
+			cachedValue(cachedFileFor(key), logger, codec, () => f(key));
+	}
+
+	function cachedValue<V>(
+		filePath: string,
+		logger: Logger<void>,
+		codec: FileCodec<V>,
+		value: () => V,
+	): V {
+		if (fs.existsSync(filePath)) {
+			try {
+				return codec.decode(JSON.parse(fs.readFileSync(filePath, "utf8")));
+			} catch (error) {
+				logger.warn(`Couldn't decode cached file ${filePath}: ${error}`);
+			}
+		}
+
+		const ret = value();
+		write(filePath, JSON.stringify(codec.encode(ret)));
+		return ret;
+	}
+
+	function write(filePath: string, content: string): void {
+		fs.mkdirSync(path.dirname(filePath), { recursive: true });
+		const tmp = `${filePath}.${process.pid}.tmp`;
+		fs.writeFileSync(tmp, content, "utf8");
+		fs.renameSync(tmp, filePath);
+	}
+}
@@ -4,9 +4,23 @@
  * Interface for flavour implementations that define how Scala.js code is generated
  */
 
+import { IArray } from "../IArray";
+import { CastConversion } from "../scalajs/CastConversion";
+import { FindProps } from "../scalajs/flavours/FindProps";
+import { GenCompanions } from "../scalajs/flavours/GenCompanions";
+import { GenPromiseOps } from "../scalajs/flavours/GenPromiseOps";
+import { MemberToProp } from "../scalajs/flavours/MemberToProp";
+import { RemoveDomDuplicates } from "../scalajs/flavours/RemoveDomDuplicates";
+import { ScalaJsDomNames } from "../scalajs/flavours/ScalaJsDomNames";
+import { ScalaJsLibNames } from "../scalajs/flavours/ScalaJsLibNames";
 import { Name } from "../scalajs/Name";
-import type { PackageTree } from "../scalajs/PackageTree";
-import { Versions } from "./ConversionOptions";
+import { ParentsResolver } from "../scalajs/ParentsResolver";
+import { QualifiedName, StdNames } from "../scalajs/QualifiedName";
+import type { PackageTree } from "../scalajs/Tree";
+import type { TreeScope } from "../scalajs/TreeScope";
+import type { TreeTransformation } from "../scalajs/TreeTransformation";
+import { CleanIllegalNames } from "../scalajs/transforms/CleanIllegalNames";
+import { type Dep, Versions } from "./ConversionOptions";
 
 /**
  * Base interface for flavour implementations
@@ -20,17 +34,17 @@ export interface FlavourImpl {
 	/**
 	 * Apply flavour-specific transformations to a package tree
 	 */
-	rewrittenTree(scope: any, tree: PackageTree): PackageTree;
+	rewrittenTree(scope: TreeScope, tree: PackageTree): PackageTree;
 
 	/**
 	 * Get dependencies required by this flavour
 	 */
-	dependencies(): Set<any>;
+	dependencies(): Set<Dep>;
 
 	/**
 	 * Get type rewrites for this flavour
 	 */
-	rewrites(): any[];
+	rewrites(): IArray<CastConversion>;
 
 	/**
 	 * String representation of this flavour
@@ -39,29 +53,66 @@ export interface FlavourImpl {
 }
 
 /**
- * Normal flavour implementation
+ * Normal flavour implementation, which adds companion objects with creator methods and builders to
+ * `@ScalaJSDefined` traits
  */
 export class NormalFlavourImpl implements FlavourImpl {
+	readonly stdNames: StdNames;
+	private readonly scalaJsLibNames: ScalaJsLibNames;
+	private readonly scalaJsDomNames: ScalaJsDomNames;
+	private readonly genCompanions: TreeTransformation;
+
 	constructor(
 		public readonly useScalaJsDomTypes: boolean,
 		public readonly enableLongApplyMethod: boolean,
 		public readonly outputPackage: Name,
 		public readonly versions: Versions,
-	) {}
+		/* std type name to `scala-js-dom` type, for types the built-in table gets wrong or misses */
+		extraScalaJsDomNames: ReadonlyMap<string, string> = new Map(),
+	) {
+		this.stdNames = new StdNames(outputPackage);
+		this.scalaJsLibNames = new ScalaJsLibNames(this.stdNames);
+		this.scalaJsDomNames = new ScalaJsDomNames(
+			this.stdNames,
+			IArray.fromArray(
+				Array.from(extraScalaJsDomNames, ([from, to]) =>
+					CastConversion.apply(
+						this.stdNames.lib.add(new Name(from)),
+						QualifiedName.fromString(to),
+					),
+				),
+			),
+		);
+
+		const memberToProp = new MemberToProp.Default(this.rewrites());
+		const parentsResolver = new ParentsResolver();
+		const findProps = new FindProps(
+			new CleanIllegalNames(outputPackage),
+			memberToProp,
+			parentsResolver,
+		);
+		const genCompanions = new GenCompanions(findProps, enableLongApplyMethod)[
+			">>"
+		](new GenPromiseOps(parentsResolver));
+		this.genCompanions = useScalaJsDomTypes
+			? genCompanions[">>"](new RemoveDomDuplicates(this.scalaJsDomNames.All))
+			: genCompanions;
+	}
 
-	rewrittenTree(_scope: any, tree: PackageTree): PackageTree {
-		// DUMMY IMPLEMENTATION: Return unchanged tree
-		return tree;
+	rewrittenTree(scope: TreeScope, tree: PackageTree): PackageTree {
+		return this.genCompanions.visitPackageTree(scope)(tree);
 	}
 
-	dependencies(): Set<any> {
-		// DUMMY IMPLEMENTATION: Return empty set
-		return new Set();
+	dependencies(): Set<Dep> {
+		return this.useScalaJsDomTypes
+			? new Set([this.versions.scalaJsDom, this.versions.runtime])
+			: new Set([this.versions.runtime]);
 	}
 
-	rewrites(): any[] {
-		// DUMMY IMPLEMENTATION: Return empty array
-		return [];
+	rewrites(): IArray<CastConversion> {
+		return this.useScalaJsDomTypes
+			? this.scalaJsLibNames.All.concat(this.scalaJsDomNames.All)
+			: this.scalaJsLibNames.All;
 	}
 
 	toString(): string {
@@ -0,0 +1,312 @@
+/**
+ * TypeScript port of org.scalablytyped.converter.internal.importer.ImportEnum
+ *
+ * Enums are translated into a type (alias or sealed trait) and a companion object holding the values
+ */
+
+import {
+	Comment,
+	EnumObject,
+	IsTrivial,
+	type TypeRef as MarkerTypeRef,
+	MinimizationRelated,
+} from "../Comment.js";
+import { Comments } from "../Comments.js";
+import { IArray } from "../IArray.js";
+import { Annotation, type AnnotationUnion } from "../scalajs/Annotation.js";
+import { Name, StringToSuffix } from "../scalajs/Name.js";
+import {
+	ClassTree,
+	ClassType,
+	ExprTree,
+	FieldTree,
+	MethodTree,
+	ModuleTree,
+	NotImplemented,
+	ParamTree,
+	ProtectionLevel,
+	type Tree,
+	TypeAliasTree,
+	TypeRef,
+} from "../scalajs/Tree.js";
+import type { TsTreeScope } from "../ts/TsTreeScope.js";
+import {
+	type TsDeclEnum,
+	TsExpr,
+	TsTypeRef,
+	TsTypeUnion,
+} from "../ts/trees.js";
+import type { AdaptiveNamingImport } from "./AdaptiveNamingImport.js";
+import type { ImportExpr } from "./ImportExpr.js";
+import { ImportName } from "./ImportName.js";
+import { ImportType } from "./ImportType.js";
+
+function underlyingType(e: TsDeclEnum): TypeRef {
+	const found = e.members.mapNotNone((m) => {
+		if (m.expr._tag !== "Some" || m.expr.value._tag !== "TsExprLiteral")
+			return undefined;
+		switch ((m.expr.value as any).value._tag) {
+			case "TsLiteralStr":
+				return TypeRef.String;
+			case "TsLiteralNum":
+				return TypeRef.Double;
+			case "TsLiteralBool":
+				return TypeRef.Boolean;
+		}
+		return undefined;
+	});
+	return TypeRef.Union(found, Comments.empty(), true);
+}
+
+export const ImportEnum = {
+	apply: (
+		e: TsDeclEnum,
+		anns: IArray<AnnotationUnion>,
+		scope: TsTreeScope,
+		importName: AdaptiveNamingImport,
+		importType: ImportType,
+		illegalNames: ReadonlySet<string>,
+		importExpr: ImportExpr,
+	): IArray<Tree> => {
+		const importedCodePath = importName.applyCodePath(e.codePath);
+		const enumName = importedCodePath.parts.last;
+
+		/* exported const enum? type alias */
+		if (e.isConst && e.exportedFrom._tag === "Some") {
+			const tpe = importType.apply(scope, importName)(e.exportedFrom.value);
+			return IArray.apply<Tree>(
+				TypeAliasTree.create(
+					enumName,
+					ProtectionLevel.Public,
+					IArray.Empty,
+					tpe,
+					e.comments.add(IsTrivial.instance),
+					importedCodePath,
+				),
+			);
+		}
+
+		/* normal const enum? type alias. And output a scala object with values if possible, otherwise a comment */
+		if (e.isConst) {
+			const ta = TypeAliasTree.create(
+				enumName,
+				ProtectionLevel.Public,
+				IArray.Empty,
+				importType.apply(
+					scope,
+					importName,
+				)(TsTypeUnion.create(e.members.map((m) => TsExpr.typeOfOpt(m.expr)))),
+				e.comments,
+				importedCodePath,
+			);
+
+			const newMembers = e.members
+				.map((m): MethodTree => {
+					if (m.expr._tag !== "Some")
+						throw new Error("Expression cannot be empty here");
+					const memberName = ImportName.apply(m.name);
+					const expr = m.expr.value;
+					const tpe = importType.apply(scope, importName)(TsExpr.typeOf(expr));
+					const memberNameFixed = illegalNames.has(memberName.unescaped)
+						? memberName.withSuffix("", StringToSuffix)
+						: memberName;
+
+					return MethodTree.create(
+						IArray.apply<AnnotationUnion>(Annotation.Inline),
+						ProtectionLevel.Public,
+						memberNameFixed,
+						IArray.Empty,
+						IArray.Empty,
+						ExprTree.AsInstanceOf(
+							importExpr.apply(expr, scope, ImportType.ShouldWiden.No),
+							tpe,
+						),
+						tpe,
+						false,
+						m.comments,
+						importedCodePath.add(memberNameFixed),
+						false,
+					);
+				})
+				.distinctBy((m) => m.name.unescaped);
+
+			/* keep module members when minimizing */
+			const related = Comments.fromComment(
+				new MinimizationRelated(
+					newMembers.map((m): MarkerTypeRef => TypeRef.create(m.codePath)),
+				),
+			);
+			const module = ModuleTree.create(
+				IArray.Empty,
+				ProtectionLevel.Public,
+				enumName,
+				IArray.Empty,
+				newMembers as unknown as IArray<Tree>,
+				related,
+				importedCodePath,
+				false,
+			);
+
+			return IArray.apply<Tree>(ta, module);
+		}
+
+		/* Any other enum? a type and an object */
+		const baseInterface: TypeRef = importType.apply(
+			scope,
+			importName,
+		)(
+			TsTypeRef.create(
+				Comments.empty(),
+				e.exportedFrom._tag === "Some"
+					? e.exportedFrom.value.name
+					: e.codePath.forceHasPath().codePath,
+				IArray.Empty,
+			),
+		);
+
+		const underlying = underlyingType(e);
+
+		const typeTree: Tree =
+			e.exportedFrom._tag === "Some"
+				? TypeAliasTree.create(
+						enumName,
+						ProtectionLevel.Public,
+						IArray.Empty,
+						importType.apply(
+							scope,
+							importName,
+						)(
+							TsTypeRef.create(
+								Comments.empty(),
+								e.exportedFrom.value.name,
+								IArray.Empty,
+							),
+						),
+						Comments.fromComment(IsTrivial.instance),
+						importedCodePath,
+					)
+				: ClassTree.create(
+						false,
+						IArray.apply<AnnotationUnion>(Annotation.JsNative),
+						ProtectionLevel.Public,
+						enumName,
+						IArray.Empty,
+						IArray.Empty,
+						IArray.Empty,
+						IArray.Empty,
+						ClassType.Trait,
+						true,
+						Comments.empty(),
+						importedCodePath,
+					);
+
+		const applyMethod: MethodTree | undefined = e.isValue
+			? MethodTree.create(
+					IArray.apply<AnnotationUnion>(Annotation.JsBracketAccess),
+					ProtectionLevel.Public,
+					Name.APPLY,
+					IArray.Empty,
+					IArray.apply(
+						IArray.apply(
+							ParamTree.create(
+								Name.value,
+								false,
+								false,
+								underlying,
+								NotImplemented,
+								Comments.empty(),
+							),
+						),
+					),
+					ExprTree.native,
+					TypeRef.withOptional(
+						TypeRef.Intersection(
+							IArray.apply(baseInterface, underlying),
+							Comments.empty(),
+						),
+						true,
+					),
+					false,
+					Comments.empty(),
+					importedCodePath.add(Name.APPLY),
+					false,
+				)
+			: undefined;
+
+		const membersSyms: IArray<Tree> = e.members.flatMap((m) => {
+			const memberName = ImportName.apply(m.name);
+			const memberType: ClassTree | undefined =
+				e.exportedFrom._tag === "Some"
+					? undefined
+					: ClassTree.create(
+							false,
+							IArray.apply<AnnotationUnion>(Annotation.JsNative),
+							ProtectionLevel.Public,
+							memberName,
+							IArray.Empty,
+							IArray.apply(baseInterface),
+							IArray.Empty,
+							IArray.Empty,
+							ClassType.Trait,
+							true,
+							m.comments,
+							importedCodePath.add(memberName),
+						);
+
+			const memberTypeRef = TypeRef.create(
+				baseInterface.typeName.add(memberName),
+				baseInterface.targs,
+				baseInterface.comments,
+			);
+
+			const memberValue: Tree | undefined = (() => {
+				if (!e.isValue) return undefined;
+				const [anns, name] = illegalNames.has(memberName.unescaped)
+					? [
+							IArray.apply<AnnotationUnion>(Annotation.JsName(memberName)),
+							memberName.withSuffix("", StringToSuffix),
+						]
+					: [IArray.Empty as IArray<AnnotationUnion>, memberName];
+
+				const comments =
+					m.expr._tag === "Some"
+						? Comments.fromComment(
+								Comment.create(`/* ${TsExpr.format(m.expr.value)} */ `),
+							)
+						: Comments.empty();
+
+				return FieldTree.create(
+					anns,
+					ProtectionLevel.Public,
+					name,
+					TypeRef.Intersection(
+						IArray.apply(memberTypeRef, underlying),
+						Comments.empty(),
+					),
+					ExprTree.native,
+					true,
+					false,
+					comments,
+					importedCodePath.add(memberName),
+				);
+			})();
+
+			return IArray.fromOption<Tree>(memberType).concat(
+				IArray.fromOption<Tree>(memberValue),
+			);
+		});
+
+		const moduleTree = ModuleTree.create(
+			anns,
+			ProtectionLevel.Public,
+			enumName,
+			IArray.Empty,
+			membersSyms.concat(IArray.fromOption<Tree>(applyMethod)),
+			e.comments.add(EnumObject.instance),
+			importedCodePath,
+			false,
+		);
+
+		return IArray.apply<Tree>(moduleTree, typeTree);
+	},
+};
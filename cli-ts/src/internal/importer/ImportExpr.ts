@@ -0,0 +1,99 @@
+/**
+ * TypeScript port of org.scalablytyped.converter.internal.importer.ImportExpr
+ *
+ * Translates TypeScript expressions (enum initializers, constant values) into Scala expression trees
+ */
+
+import { BooleanLit } from "../Comment.js";
+import { IArray } from "../IArray.js";
+import { QualifiedName } from "../scalajs/QualifiedName.js";
+import { type ExprArg, ExprTree } from "../scalajs/Tree.js";
+import type { TsTreeScope } from "../ts/TsTreeScope.js";
+import type {
+	TsExpr,
+	TsExprArrayOf,
+	TsExprBinaryOp,
+	TsExprCall,
+	TsExprCast,
+	TsExprLiteral,
+	TsExprRef,
+	TsExprUnary,
+} from "../ts/trees.js";
+import type { AdaptiveNamingImport } from "./AdaptiveNamingImport.js";
+import { ImportType, type ShouldWiden } from "./ImportType.js";
+
+export class ImportExpr {
+	constructor(
+		private readonly importType: ImportType,
+		private readonly importName: AdaptiveNamingImport,
+	) {}
+
+	apply(
+		tsExpr: TsExpr,
+		scope: TsTreeScope,
+		shouldWiden: ShouldWiden,
+	): ExprTree {
+		switch (tsExpr._tag) {
+			case "TsExprRef":
+				return ExprTree.Ref(this.importName.apply((tsExpr as TsExprRef).value));
+			case "TsExprLiteral": {
+				const lit = (tsExpr as TsExprLiteral).value;
+				switch (lit._tag) {
+					case "TsLiteralNum":
+						return ImportType.numberToExpr(lit.value);
+					case "TsLiteralStr":
+						return ImportType.stringToExpr(lit.value, shouldWiden);
+					case "TsLiteralBool":
+						return new BooleanLit(lit.value === "true");
+				}
+				break;
+			}
+			case "TsExprCast": {
+				const cast = tsExpr as TsExprCast;
+				return ExprTree.AsInstanceOf(
+					this.apply(cast.expr, scope, shouldWiden),
+					this.importType.apply(scope, this.importName)(cast.tpe),
+				);
+			}
+			case "TsExprArrayOf":
+				return ExprTree.Call(
+					ExprTree.Ref(QualifiedName.JsArray),
+					IArray.apply(
+						IArray.apply<ExprArg>(
+							ExprTree.Arg.Pos(
+								this.apply((tsExpr as TsExprArrayOf).expr, scope, shouldWiden),
+							),
+						),
+					),
+				);
+			case "TsExprCall": {
+				const call = tsExpr as TsExprCall;
+				return ExprTree.Call(
+					this.apply(call.function, scope, shouldWiden),
+					IArray.apply(
+						call.params.map(
+							(p): ExprArg =>
+								ExprTree.Arg.Pos(this.apply(p, scope, shouldWiden)),
+						),
+					),
+				);
+			}
+			case "TsExprUnary": {
+				const unary = tsExpr as TsExprUnary;
+				return ExprTree.Unary(
+					unary.op,
+					this.apply(unary.expr, scope, shouldWiden),
+				);
+			}
+			case "TsExprBinaryOp": {
+				const op = tsExpr as TsExprBinaryOp;
+				return ExprTree.BinaryOp(
+					this.apply(op.one, scope, shouldWiden),
+					op.op,
+					this.apply(op.two, scope, shouldWiden),
+				);
+			}
+		}
+		throw new Error(`Unexpected expression ${tsExpr._tag}`);
+	}
+}
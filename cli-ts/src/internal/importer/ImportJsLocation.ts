@@ -0,0 +1,87 @@
+/**
+ * TypeScript port of org.scalablytyped.converter.internal.importer.ImportJsLocation
+ *
+ * Translates where a declaration lives in javascript into Scala.js location annotations
+ */
+
+import { isSome, none, type Option, some } from "fp-ts/Option";
+import { IArray } from "../IArray.js";
+import {
+	Annotation,
+	type AnnotationUnion,
+	Imported,
+	type JsGlobalAnnotation,
+	type JsImportAnnotation,
+} from "../scalajs/Annotation.js";
+import type {
+	JsLocation,
+	JsLocationBoth,
+	JsLocationGlobal,
+	JsLocationModule,
+} from "../ts/JsLocation.js";
+import type { SpecifiedModuleSpec } from "../ts/ModuleSpec.js";
+import { ImportName } from "./ImportName.js";
+
+const jsGlobal = (x: JsLocationGlobal): Option<JsGlobalAnnotation> =>
+	x.jsPath.parts.isEmpty
+		? none
+		: some(Annotation.JsGlobal(ImportName.skipConversionQIdent(x.jsPath)));
+
+const jsGlobalScope: IArray<AnnotationUnion> = IArray.apply<AnnotationUnion>(
+	Annotation.JsNative,
+	Annotation.JsGlobalScope,
+);
+
+const jsMod = (
+	x: JsLocationModule,
+	globalOpt: Option<JsGlobalAnnotation>,
+): JsImportAnnotation => {
+	switch (x.spec._tag) {
+		case "Defaulted":
+			return Annotation.JsImport(x.module.value, Imported.Default, globalOpt);
+		case "Namespaced":
+			return Annotation.JsImport(x.module.value, Imported.Namespace, globalOpt);
+		case "Specified":
+			return Annotation.JsImport(
+				x.module.value,
+				Imported.Named(
+					(x.spec as SpecifiedModuleSpec).tsIdents.map(
+						ImportName.skipConversion,
+					),
+				),
+				globalOpt,
+			);
+	}
+};
+
+export const ImportJsLocation = {
+	/**
+	 * When a declaration is available both from a module and as a global we import it from the module, and keep the
+	 * global as a fallback in the annotation. A global location with an empty path is the global scope itself, there is
+	 * no name to put in `@JSGlobal`
+	 */
+	apply: (location: JsLocation): IArray<AnnotationUnion> => {
+		switch (location._tag) {
+			case "Zero":
+				return jsGlobalScope;
+			case "Global": {
+				const global = jsGlobal(location as JsLocationGlobal);
+				return isSome(global)
+					? IArray.apply<AnnotationUnion>(global.value, Annotation.JsNative)
+					: jsGlobalScope;
+			}
+			case "Both": {
+				const both = location as JsLocationBoth;
+				return IArray.apply<AnnotationUnion>(
+					jsMod(both.module, jsGlobal(both.global)),
+					Annotation.JsNative,
+				);
+			}
+			case "Module":
+				return IArray.apply<AnnotationUnion>(
+					jsMod(location as JsLocationModule, none),
+					Annotation.JsNative,
+				);
+		}
+	},
+};
@@ -0,0 +1,48 @@
+/**
+ * TypeScript port of org.scalablytyped.converter.internal.importer.ImportName
+ *
+ * Translates TypeScript identifiers into legal Scala names
+ */
+
+import { Annotation, type JsNameAnnotation } from "../scalajs/Annotation.js";
+import { Name } from "../scalajs/Name.js";
+import { QualifiedName } from "../scalajs/QualifiedName.js";
+import type {
+	TsIdent,
+	TsIdentLibrary,
+	TsIdentSimple,
+	TsQIdent,
+} from "../ts/trees.js";
+import { AdaptiveNamingImport } from "./AdaptiveNamingImport.js";
+
+export const ImportName = {
+	skipConversion: (i: TsIdent): Name => new Name(i.value),
+
+	skipConversionQIdent: (ident: TsQIdent): QualifiedName =>
+		new QualifiedName(ident.parts.map(ImportName.skipConversion)),
+
+	apply: (i: TsIdentSimple): Name => Name.necessaryRewrite(new Name(i.value)),
+
+	library: (i: TsIdentLibrary): Name =>
+		Name.necessaryRewrite(
+			new Name(AdaptiveNamingImport.variantsForLibName(i)[0]),
+		),
+
+	/**
+	 * Rewrite a name, and keep the original around in a `@JSName` annotation if it changed (or if scala.js needs it)
+	 */
+	withJsNameAnnotation: (
+		original: TsIdentSimple,
+	): [Name, JsNameAnnotation | undefined] => {
+		const originalName = new Name(original.value);
+		const rewritten = Name.necessaryRewriteString(original.value);
+
+		if (rewritten !== undefined)
+			return [new Name(rewritten), Annotation.JsName(originalName)];
+		if (original.value.includes("$"))
+			return [originalName, Annotation.JsName(originalName)];
+		if (original.value === "apply")
+			return [originalName, Annotation.JsName(originalName)];
+		return [originalName, undefined];
+	},
+};
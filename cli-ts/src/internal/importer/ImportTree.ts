@@ -0,0 +1,1191 @@
+/**
+ * TypeScript port of org.scalablytyped.converter.internal.importer.ImportTree
+ *
+ * Walks the flattened typescript tree of a library and builds the corresponding scala tree
+ */
+
+import { isSome, none, type Option, some } from "fp-ts/Option";
+import {
+	Comment,
+	CouldBeScalaJsDefined,
+	ExpandedCallables,
+	ManglerLeaveAlone,
+	UndefinedLit,
+} from "../Comment.js";
+import { Comments } from "../Comments.js";
+import { IArray, IArrayPatterns, partialFunction } from "../IArray.js";
+import type { Logger } from "../logging/index.js";
+import {
+	Annotation,
+	type AnnotationUnion,
+	Imported,
+} from "../scalajs/Annotation.js";
+import { Name } from "../scalajs/Name.js";
+import { debugPrinter } from "../scalajs/Printer.js";
+import { QualifiedName } from "../scalajs/QualifiedName.js";
+import {
+	ClassTree,
+	ClassType,
+	CtorTree,
+	ExprTree,
+	FieldTree,
+	type ImplTree,
+	isClassTree,
+	isTypeAliasTree,
+	type MemberTree,
+	MethodTree,
+	ModuleTree,
+	NotImplemented,
+	PackageTree,
+	ParamTree,
+	ProtectionLevel,
+	setCodePath,
+	type Tree,
+	TypeAliasTree,
+	TypeParamTree,
+	TypeRef,
+} from "../scalajs/Tree.js";
+import type { CodePath } from "../ts/CodePath.js";
+import { FollowAliases } from "../ts/FollowAliases.js";
+import { Hoisting } from "../ts/Hoisting.js";
+import { JsLocation } from "../ts/JsLocation.js";
+import type { MethodType } from "../ts/MethodType.js";
+import { OptionalType } from "../ts/OptionalType.js";
+import { ParentsResolver } from "../ts/ParentsResolver.js";
+import type { TsProtectionLevel } from "../ts/TsProtectionLevel.js";
+import { TsTreeScope } from "../ts/TsTreeScope.js";
+import { TsTreeTraverse } from "../ts/TsTreeTraverse.js";
+import { TsTypeFormatter } from "../ts/TsTypeFormatter.js";
+import {
+	type IndexingDict,
+	type IndexingSingle,
+	type TsAugmentedModule,
+	type TsContainerOrDecl,
+	type TsDeclClass,
+	type TsDeclEnum,
+	type TsDeclFunction,
+	type TsDeclInterface,
+	type TsDeclModule,
+	type TsDeclNamespace,
+	type TsDeclTypeAlias,
+	type TsDeclVar,
+	type TsFunParam,
+	type TsFunSig,
+	type TsGlobal,
+	TsIdent,
+	TsIdentConstructor,
+	TsIdentSymbol,
+	TsIdentThis,
+	type TsLiteral,
+	type TsMember,
+	type TsMemberCall,
+	type TsMemberCtor,
+	type TsMemberFunction,
+	type TsMemberIndex,
+	type TsMemberProperty,
+	type TsMemberTypeMapped,
+	type TsNamedValueDecl,
+	TsQIdentAny,
+	TsQIdentNull,
+	TsQIdentString,
+	type TsTree,
+	type TsType,
+	type TsTypeConditional,
+	type TsTypeInfer,
+	TsTypeIntersect,
+	type TsTypeLookup,
+	type TsTypeObject,
+	type TsTypeParam,
+	TsTypeRef,
+} from "../ts/trees.js";
+import type { AdaptiveNamingImport } from "./AdaptiveNamingImport.js";
+import type { ScalaVersion } from "./ConversionOptions.js";
+import { ImportEnum } from "./ImportEnum.js";
+import type { ImportExpr } from "./ImportExpr.js";
+import { ImportJsLocation } from "./ImportJsLocation.js";
+import { ImportName } from "./ImportName.js";
+import type { ImportType } from "./ImportType.js";
+import { IsUserImplementable } from "./IsUserImplementable.js";
+import type { LibTs } from "./LibTs.js";
+import { RewriteNamespaceMembers } from "./RewriteNamespaceMembers.js";
+
+/**
+ * What a typescript member turns into: a constructor, a member, or something the owner should inherit
+ */
+type MemberRet =
+	| { readonly _tag: "Ctor"; readonly value: CtorTree }
+	| { readonly _tag: "Normal"; readonly value: MemberTree }
+	| { readonly _tag: "Inheritance"; readonly value: TypeRef };
+
+const MemberRet = {
+	apply: (value: MemberTree): MemberRet => ({ _tag: "Normal", value }),
+	Ctor: (value: CtorTree): MemberRet => ({ _tag: "Ctor", value }),
+	Inheritance: (value: TypeRef): MemberRet => ({ _tag: "Inheritance", value }),
+
+	unapply: (
+		es: IArray<MemberRet>,
+	): [IArray<CtorTree>, IArray<Tree>, IArray<TypeRef>, Comments] => {
+		const ctors = es.mapNotNone((e) =>
+			e._tag === "Ctor" ? e.value : undefined,
+		);
+		const others = es.mapNotNone((e): Tree | undefined =>
+			e._tag === "Normal" ? e.value : undefined,
+		);
+		const inheritance = es.mapNotNone((e) =>
+			e._tag === "Inheritance" ? e.value : undefined,
+		);
+
+		const [moreInheritance, newOthers, shouldBeEmpty, comments] =
+			RewriteNamespaceMembers.apply(others);
+		if (shouldBeEmpty.nonEmpty) {
+			throw new Error("requirement failed");
+		}
+		return [
+			ctors,
+			newOthers as unknown as IArray<Tree>,
+			inheritance.concat(moreInheritance),
+			comments,
+		];
+	},
+};
+
+const KnownSymbols = new Set([
+	"hasInstance",
+	"isConcatSpreadable",
+	"iterator",
+	"match",
+	"replace",
+	"search",
+	"species",
+	"split",
+	"toPrimitive",
+	"toStringTag",
+	"unscopables",
+]);
+
+/**
+ * Stable ordering for inheritance we synthesize from members
+ */
+const sortedTypeRefs = (trs: IArray<TypeRef>): IArray<TypeRef> =>
+	trs.sortBy(debugPrinter.formatTypeRef(0));
+
+const refersTo = (tpe: TsType, ident: TsIdent): boolean =>
+	tpe._tag === "TsTypeRef" &&
+	(tpe as TsTypeRef).tparams.isEmpty &&
+	(tpe as TsTypeRef).name.parts.length === 1 &&
+	TsIdent.equals((tpe as TsTypeRef).name.parts.apply(0), ident);
+
+export class ImportTree {
+	constructor(
+		private readonly outputPkg: Name,
+		private readonly importName: AdaptiveNamingImport,
+		private readonly importType: ImportType,
+		private readonly illegalNames: ReadonlySet<string>,
+		private readonly importExpr: ImportExpr,
+		private readonly enableScalaJsDefined: boolean,
+		private readonly scalaVersion: ScalaVersion,
+	) {}
+
+	apply(lib: LibTs, logger: Logger<void>): PackageTree {
+		const deps = new Map<LibTs["source"], LibTs["parsed"]>();
+		lib.transitiveDependencies.forEach((depLib, source) =>
+			deps.set(source, depLib.parsed),
+		);
+
+		const scope = TsTreeScope.create(lib.name, true, deps, logger)
+			.caching()
+			["/"](lib.parsed);
+
+		const ret = this.container(
+			this.importName,
+			scope,
+			lib.parsed.comments,
+			JsLocation.zero(),
+			lib.parsed.members,
+			lib.parsed.codePath,
+		);
+
+		const require = (() => {
+			const libName = ImportName.library(lib.name);
+			const name = new Name(`${libName.unescaped}Require`);
+			return ModuleTree.create(
+				IArray.apply<AnnotationUnion>(
+					Annotation.JsImport(lib.name.value, Imported.Namespace, undefined),
+					Annotation.JsNative,
+				),
+				ProtectionLevel.Public,
+				name,
+				IArray.Empty,
+				IArray.Empty,
+				Comments.apply([
+					Comment.create(`/* This can be used to \`require\` the library as a side effect.
+  If it is a global library this will make scalajs-bundler include it */
+`),
+					ManglerLeaveAlone.instance,
+				]),
+				QualifiedName.from([this.outputPkg, libName, name]),
+				false,
+			);
+		})();
+
+		const withRequire = ret.withMembers(ret.members.append(require));
+
+		return PackageTree.create(
+			IArray.Empty,
+			this.outputPkg,
+			IArray.apply<Tree>(withRequire),
+			Comments.empty(),
+			QualifiedName.from([this.outputPkg]),
+		);
+	}
+
+	decl(_scope: TsTreeScope): (t1: TsContainerOrDecl) => IArray<Tree> {
+		return (t1) => {
+			const scope: TsTreeScope = _scope["/"](t1);
+
+			switch (t1._tag) {
+				case "TsDeclModule": {
+					const m = t1 as TsDeclModule;
+					return IArray.apply<Tree>(
+						this.container(
+							this.importName,
+							scope,
+							m.comments,
+							m.jsLocation,
+							m.members,
+							m.codePath,
+						),
+					);
+				}
+
+				case "TsAugmentedModule": {
+					const m = t1 as TsAugmentedModule;
+					return IArray.apply<Tree>(
+						this.container(
+							this.importName,
+							scope,
+							m.comments.add(Comment.create("/* augmented module */\n")),
+							m.jsLocation,
+							m.members,
+							m.codePath,
+						),
+					);
+				}
+
+				case "TsDeclNamespace": {
+					const ns = t1 as TsDeclNamespace;
+					return IArray.apply<Tree>(
+						this.container(
+							this.importName,
+							scope,
+							ns.comments,
+							ns.jsLocation,
+							ns.members,
+							ns.codePath,
+						),
+					);
+				}
+
+				case "TsGlobal": {
+					const g = t1 as TsGlobal;
+					return IArray.apply<Tree>(
+						this.container(
+							this.importName,
+							scope,
+							g.comments,
+							JsLocation.zero(),
+							g.members,
+							g.codePath,
+						),
+					);
+				}
+
+				case "TsDeclVar": {
+					const v = t1 as TsDeclVar;
+					const importedCp = this.importName.applyCodePath(v.codePath);
+					const name = importedCp.parts.last;
+					const tpe =
+						isSome(v.tpe) && refersTo(v.tpe.value, TsQIdentNull.parts.head)
+							? TypeRef.withComments(
+									TypeRef.Any,
+									Comments.create(
+										"/* is `Null`, but independent javascript fields cannot be in scala 3 */",
+									),
+								)
+							: this.importType.orAny(scope, this.importName)(v.tpe);
+
+					const anns = ImportJsLocation.apply(v.jsLocation);
+
+					/* need to reach well known symbols through a stable path */
+					if (name.equals(Name.Symbol)) {
+						return IArray.apply<Tree>(
+							ModuleTree.create(
+								anns,
+								ProtectionLevel.Public,
+								name,
+								IArray.apply(tpe),
+								IArray.Empty,
+								v.comments,
+								importedCp,
+								false,
+							),
+						);
+					}
+					return IArray.apply<Tree>(
+						FieldTree.create(
+							anns,
+							ProtectionLevel.Public,
+							name,
+							tpe,
+							ExprTree.native,
+							v.readOnly,
+							false,
+							v.comments,
+							importedCp,
+						),
+					);
+				}
+
+				case "TsDeclEnum": {
+					const e = t1 as TsDeclEnum;
+					return ImportEnum.apply(
+						e,
+						ImportJsLocation.apply(e.jsLocation),
+						scope,
+						this.importName,
+						this.importType,
+						this.illegalNames,
+						this.importExpr,
+					);
+				}
+
+				case "TsDeclClass":
+					return this.importClass(scope, t1 as TsDeclClass);
+
+				case "TsDeclInterface":
+					return this.importInterface(scope, t1 as TsDeclInterface);
+
+				case "TsDeclTypeAlias":
+					return this.importTypeAlias(scope, t1 as TsDeclTypeAlias);
+
+				case "TsDeclFunction": {
+					const f = t1 as TsDeclFunction;
+					const importedCp = this.importName.applyCodePath(f.codePath);
+					const name = importedCp.parts.last;
+					return IArray.apply<Tree>(
+						this.tsMethod(
+							scope,
+							ProtectionLevel.Public,
+							name,
+							ImportJsLocation.apply(f.jsLocation),
+							f.comments,
+							{ _tag: "Normal" },
+							f.signature,
+							false,
+							importedCp,
+						),
+					);
+				}
+
+				case "TsExportAsNamespace":
+				case "TsImport":
+					return IArray.Empty;
+
+				default:
+					scope.fatalMaybe(`Unexpected: ${t1._tag}`);
+					return IArray.Empty;
+			}
+		};
+	}
+
+	private importClass(scope: TsTreeScope, cls: TsDeclClass): IArray<Tree> {
+		const newCodePath = this.importName.applyCodePath(cls.codePath);
+
+		const [statics, nonStatics] = cls.members.partitionCollect(
+			partialFunction(
+				(x: TsMember) =>
+					(x._tag === "TsMemberFunction" && (x as TsMemberFunction).isStatic) ||
+					(x._tag === "TsMemberProperty" && (x as TsMemberProperty).isStatic),
+				(x: TsMember): Option<TsNamedValueDecl> =>
+					Hoisting.memberToDecl(cls.codePath, cls.jsLocation)(x),
+			),
+		);
+
+		const [ctors, ms, extraInheritance, cs2] = MemberRet.unapply(
+			nonStatics.flatMap(this.tsMember(scope, false, newCodePath)),
+		);
+
+		const importedStatics = statics.flatMap((static_) =>
+			isSome(static_) ? this.decl(scope)(static_.value) : IArray.Empty,
+		);
+		const anns = ImportJsLocation.apply(cls.jsLocation);
+		const parents = IArray.fromOption(
+			isSome(cls.parent) ? cls.parent.value : undefined,
+		)
+			.concat(cls.implementsInterfaces)
+			.map(this.importType.apply(scope, this.importName));
+
+		const abstractComment = cls.isAbstract
+			? Comments.create("/* note: abstract class */")
+			: Comments.empty();
+
+		const clsTree = ClassTree.create(
+			false,
+			anns,
+			ProtectionLevel.Public,
+			newCodePath.parts.last,
+			cls.tparams.map(this.typeParam(scope, this.importName)),
+			parents.concat(sortedTypeRefs(extraInheritance)),
+			ctors,
+			ms,
+			ClassType.Class,
+			false,
+			cls.comments.concat(cs2).concat(abstractComment),
+			newCodePath,
+		);
+
+		const module: ModuleTree | undefined = importedStatics.nonEmpty
+			? ModuleTree.create(
+					anns,
+					ProtectionLevel.Public,
+					newCodePath.parts.last,
+					IArray.Empty,
+					importedStatics,
+					Comments.fromComment(Comment.create("/* static members */\n")),
+					newCodePath,
+					false,
+				)
+			: undefined;
+
+		return IArray.apply<Tree>(clsTree).concat(IArray.fromOption<Tree>(module));
+	}
+
+	private importInterface(
+		scope: TsTreeScope,
+		i: TsDeclInterface,
+	): IArray<Tree> {
+		const withParents = ParentsResolver.apply(scope, i);
+
+		const [anns, newComments, isScalaJsDefined]: [
+			IArray<AnnotationUnion>,
+			Comments,
+			boolean,
+		] = (() => {
+			if (!IsUserImplementable.apply(withParents)) {
+				return [
+					IArray.apply<AnnotationUnion>(Annotation.JsNative),
+					i.comments,
+					false,
+				];
+			}
+			if (this.enableScalaJsDefined) {
+				return [
+					IArray.apply<AnnotationUnion>(Annotation.ScalaJSDefined),
+					i.comments,
+					true,
+				];
+			}
+			return [
+				IArray.apply<AnnotationUnion>(Annotation.JsNative),
+				i.comments.add(CouldBeScalaJsDefined.instance),
+				false,
+			];
+		})();
+
+		const newCodePath = this.importName.applyCodePath(i.codePath);
+		const [ctors, ms, extraInheritance, cs2] = MemberRet.unapply(
+			i.members.flatMap(this.tsMember(scope, isScalaJsDefined, newCodePath)),
+		);
+		const parents = i.inheritance.map(
+			this.importType.apply(scope, this.importName),
+		);
+
+		return IArray.apply<Tree>(
+			ClassTree.create(
+				false,
+				anns,
+				ProtectionLevel.Public,
+				newCodePath.parts.last,
+				i.tparams.map(this.typeParam(scope, this.importName)),
+				parents.concat(sortedTypeRefs(extraInheritance)),
+				ctors,
+				ms,
+				ClassType.Trait,
+				false,
+				newComments.concat(cs2),
+				newCodePath,
+			),
+		);
+	}
+
+	private importTypeAlias(
+		scope: TsTreeScope,
+		ta: TsDeclTypeAlias,
+	): IArray<Tree> {
+		/* Conditional types. Proper handling (of static) cases is done elsewhere, this just takes care of the dependencies */
+		if (ta.alias._tag === "TsTypeConditional") {
+			return this.importConditional(scope, ta, ta.alias as TsTypeConditional);
+		}
+
+		/* Mapped types. Proper handling (of static) cases is done elsewhere, this just takes care of the dependencies */
+		if (ta.alias._tag === "TsTypeObject") {
+			const mtm = IArrayPatterns.exactlyOne((ta.alias as TsTypeObject).members);
+			if (mtm !== undefined && mtm._tag === "TsMemberTypeMapped") {
+				return this.importMapped(
+					scope,
+					ta,
+					ta.alias as TsTypeObject,
+					mtm as TsMemberTypeMapped,
+				);
+			}
+		}
+
+		const importedCp = this.importName.applyCodePath(ta.codePath);
+		return IArray.apply<Tree>(
+			TypeAliasTree.create(
+				importedCp.parts.last,
+				ProtectionLevel.Public,
+				ta.tparams.map(this.typeParam(scope, this.importName)),
+				this.importType.apply(scope, this.importName)(ta.alias),
+				ta.comments,
+				importedCp,
+			),
+		);
+	}
+
+	private importConditional(
+		scope: TsTreeScope,
+		ta: TsDeclTypeAlias,
+		tpe: TsTypeConditional,
+	): IArray<Tree> {
+		const importedCp = this.importName.applyCodePath(ta.codePath);
+		const importedName = importedCp.parts.last;
+		const importedTparams = ta.tparams.map(
+			this.typeParam(scope, this.importName),
+		);
+		const ownCodePath = ta.codePath.forceHasPath().codePath;
+
+		const warning = (explain: string): Comments =>
+			ta.comments.concat(
+				Comments.create(`/** NOTE: Conditional type definitions are impossible to translate to Scala.
+ * See https://www.typescriptlang.org/docs/handbook/2/conditional-types.html for an intro.
+ * ${explain}.
+ * TS definition: {{{
+ ${TsTypeFormatter.apply(tpe)}
+ }}}
+ */
+`),
+			);
+
+		const isInferred = (inferred: IArray<TsTypeRef>, tr: TsTypeRef): boolean =>
+			inferred.exists((i) => TsTypeIntersect.areLogicallyEqual(i, tr));
+
+		/**
+		 * Find the first referenced type in the conditional type which
+		 *   - is not recursive
+		 *   - does not refer to any inferred types
+		 *   - does not translate to `Any` or similar, since those types are not useful
+		 */
+		const findCandidates = (
+			x: TsType,
+			depth: number,
+			inferred: IArray<TsTypeRef>,
+		): IArray<TsType> => {
+			if (x._tag === "TsTypeRef" && isInferred(inferred, x as TsTypeRef))
+				return IArray.Empty;
+
+			const followed = FollowAliases.apply(scope, true)(x);
+			/* It's common to nest these things, so handle that */
+			if (followed._tag === "TsTypeConditional" && depth < 3) {
+				const xx = followed as TsTypeConditional;
+				const inferredThis = TsTreeTraverse.collect(xx.pred, (t: TsTree) =>
+					t._tag === "TsTypeInfer"
+						? TsTypeRef.fromIdent((t as TsTypeInfer).tparam.name)
+						: undefined,
+				);
+				const inferredAll = inferred.concat(inferredThis);
+				return findCandidates(xx.ifTrue, depth + 1, inferredAll).concat(
+					findCandidates(xx.ifFalse, depth + 1, inferredAll),
+				);
+			}
+
+			// keep types which do not refer to inferred types (or back to self)
+			const referencesInferred = TsTreeTraverse.collect(x, (t: TsTree) => {
+				if (t._tag !== "TsTypeRef") return undefined;
+				const tr = t as TsTypeRef;
+				if (isInferred(inferred, tr)) return tr;
+				// break recursion by referencing back to initial type alias (the depth check is more through)
+				if (tr.name.asString === ownCodePath.asString) return tr;
+				return undefined;
+			});
+			return referencesInferred.isEmpty ? IArray.apply(x) : IArray.Empty;
+		};
+
+		const approximationCandidates = findCandidates(tpe, 0, IArray.Empty);
+
+		const abstractRef = approximationCandidates.find(
+			(x) =>
+				x._tag === "TsTypeRef" &&
+				(x as TsTypeRef).tparams.isEmpty &&
+				scope.isAbstract((x as TsTypeRef).name),
+		);
+		const chosen: TypeRef | undefined =
+			abstractRef !== undefined
+				? this.importType.apply(scope, this.importName)(abstractRef)
+				: approximationCandidates
+						.map(this.importType.apply(scope, this.importName))
+						.find(
+							(x) =>
+								!TypeRef.equals(x, TypeRef.Any) &&
+								!TypeRef.equals(x, TypeRef.JsObject) &&
+								!TypeRef.equals(x, TypeRef.JsAny) &&
+								!TypeRef.equals(x, TypeRef.Nothing),
+						);
+
+		if (chosen !== undefined) {
+			return IArray.apply<Tree>(
+				TypeAliasTree.create(
+					importedName,
+					ProtectionLevel.Public,
+					importedTparams,
+					chosen,
+					warning(
+						"This RHS of the type alias is guess work. You should cast if it's not correct in your case",
+					),
+					importedCp,
+				),
+			);
+		}
+
+		return IArray.apply<Tree>(
+			ClassTree.create(
+				false,
+				IArray.apply<AnnotationUnion>(Annotation.JsNative),
+				ProtectionLevel.Public,
+				importedName,
+				importedTparams,
+				IArray.Empty,
+				IArray.Empty,
+				IArray.Empty,
+				ClassType.Trait,
+				false,
+				warning(
+					"You'll have to cast your way around this structure, unfortunately",
+				),
+				importedCp,
+			),
+		);
+	}
+
+	private importMapped(
+		scope: TsTreeScope,
+		ta: TsDeclTypeAlias,
+		tpe: TsTypeObject,
+		mtm: TsMemberTypeMapped,
+	): IArray<Tree> {
+		const importedCp = this.importName.applyCodePath(ta.codePath);
+		const importedName = importedCp.parts.last;
+		const importedTparams = ta.tparams.map(
+			this.typeParam(scope, this.importName),
+		);
+		const tparams = ta.tparams;
+
+		const warning = (explain: string): Comments =>
+			ta.comments.concat(
+				Comments.create(`/** NOTE: Mapped type definitions are impossible to translate to Scala.
+ * See https://www.typescriptlang.org/docs/handbook/2/mapped-types.html for an intro.
+ * ${explain}.
+ * TS definition: {{{
+ ${TsTypeFormatter.apply(tpe)}
+ }}}
+ */
+`),
+			);
+
+		// is this a `Record`-like structure? in that case translate to string dictionary
+		const keyBound = tparams.length === 2 ? tparams.apply(0).upperBound : none;
+		const isRecordLike =
+			mtm.readonly._tag === "Noop" &&
+			!isSome(mtm.as) &&
+			isSome(keyBound) &&
+			(keyBound.value._tag === "TsTypeKeyOf" ||
+				refersTo(keyBound.value, TsQIdentString.parts.head)) &&
+			refersTo(mtm.from, tparams.apply(0).name) &&
+			refersTo(mtm.to, tparams.apply(1).name);
+
+		if (isRecordLike) {
+			return IArray.apply<Tree>(
+				TypeAliasTree.create(
+					importedName,
+					ProtectionLevel.Public,
+					importedTparams,
+					TypeRef.StringDictionary(
+						TypeRef.fromName(importedTparams.apply(1).name),
+						Comments.empty(),
+					),
+					warning("This translation throws away the known field names"),
+					importedCp,
+				),
+			);
+		}
+
+		// can we ignore the effects of the type mapping and get more or less correct types? This is meant to cover `Readonly`, `Partial`, `Pick` and more
+		if (!isSome(mtm.as) && mtm.to._tag === "TsTypeLookup") {
+			const base = this.importType.apply(
+				scope,
+				this.importName,
+			)((mtm.to as TsTypeLookup).from);
+			const alias = this.scalaVersion.is3
+				? base
+				: TypeRef.Intersection(
+						IArray.apply(
+							TypeRef.StringLiteral(importedName.unescaped),
+							TypeRef.TopLevel(base),
+						),
+						Comments.create(
+							"/* note, weird intersection type is needed for scala 2 since it doesn't handle `Id[Id[T]]`, and things like `Partial` frequently ends up applied twice */\n",
+						),
+					);
+
+			return IArray.apply<Tree>(
+				TypeAliasTree.create(
+					importedName,
+					ProtectionLevel.Public,
+					importedTparams,
+					alias,
+					warning(
+						"This translation is imprecise and ignores the effect of the type mapping",
+					),
+					importedCp,
+				),
+			);
+		}
+
+		// for all other cases generate a new trait and have users cast
+		return IArray.apply<Tree>(
+			ClassTree.create(
+				false,
+				IArray.apply<AnnotationUnion>(Annotation.JsNative),
+				ProtectionLevel.Public,
+				importedName,
+				importedTparams,
+				IArray.Empty,
+				IArray.Empty,
+				IArray.Empty,
+				ClassType.Trait,
+				false,
+				warning(
+					"You'll have to cast your way around this structure, unfortunately",
+				),
+				importedCp,
+			),
+		);
+	}
+
+	tsMember(
+		_scope: TsTreeScope,
+		scalaJsDefined: boolean,
+		ownerCP: QualifiedName,
+	): (t1: TsMember) => IArray<MemberRet> {
+		return (t1) => {
+			const scope = _scope["/"](t1);
+
+			switch (t1._tag) {
+				case "TsMemberCall": {
+					const call = t1 as TsMemberCall;
+					return IArray.apply(
+						MemberRet.apply(
+							this.tsMethod(
+								scope,
+								ProtectionLevel.Public,
+								Name.APPLY,
+								IArray.Empty,
+								call.comments.addOption(protectionLevelComment(call.level)),
+								{ _tag: "Normal" },
+								call.signature,
+								scalaJsDefined,
+								ownerCP,
+							),
+						),
+					);
+				}
+
+				case "TsMemberCtor": {
+					const ctor = t1 as TsMemberCtor;
+					return IArray.apply(
+						MemberRet.Inheritance(
+							this.importType.newableFunction(
+								scope,
+								this.importName,
+								ctor.signature,
+								ctor.comments,
+							),
+						),
+					);
+				}
+
+				case "TsMemberProperty": {
+					const m = t1 as TsMemberProperty;
+					if (m.isStatic) break;
+					return this.tsMemberProperty(
+						scope,
+						scalaJsDefined,
+						this.importName,
+						ownerCP,
+					)(m);
+				}
+
+				case "TsMemberFunction": {
+					const f = t1 as TsMemberFunction;
+					if (TsIdent.equals(f.name, TsIdentConstructor) && !f.isStatic) {
+						if (f.methodType._tag !== "Normal") {
+							throw new Error(`unexpected ${f.asString}`);
+						}
+						return IArray.apply(
+							MemberRet.Ctor(
+								CtorTree.create(
+									ProtectionLevel.Public,
+									this.tsFunParams(
+										scope["/"](f.signature),
+										this.importName,
+										f.signature.params,
+									),
+									f.comments
+										.concat(f.signature.comments)
+										.addOption(protectionLevelComment(f.level)),
+								),
+							),
+						);
+					}
+					if (f.isStatic) break;
+
+					const [newName, annOpt] = ImportName.withJsNameAnnotation(f.name);
+					return IArray.apply(
+						MemberRet.apply(
+							this.tsMethod(
+								scope,
+								ProtectionLevel.Public,
+								newName,
+								IArray.fromOption<AnnotationUnion>(annOpt),
+								f.comments.addOption(protectionLevelComment(f.level)),
+								f.methodType,
+								f.signature,
+								scalaJsDefined,
+								ownerCP,
+							),
+						),
+					);
+				}
+
+				case "TsMemberIndex": {
+					const m = t1 as TsMemberIndex;
+					if (m.indexing._tag === "IndexingDict") {
+						const { name: indexName, tpe: indexType } =
+							m.indexing as IndexingDict;
+						const indexTpe = this.importType.apply(
+							scope,
+							this.importName,
+						)(indexType);
+						const valueTpe = this.importType.orAny(
+							scope,
+							this.importName,
+						)(m.valueType);
+						const cs = m.comments.add(
+							Comment.create(`/* ${indexName.value} */`),
+						);
+
+						const rewritten = TypeRef.equals(indexTpe, TypeRef.Double)
+							? TypeRef.NumberDictionary(valueTpe, cs)
+							: TypeRef.StringDictionary(valueTpe, cs);
+
+						return IArray.apply(MemberRet.Inheritance(rewritten));
+					}
+
+					const name = (m.indexing as IndexingSingle).name;
+					const two = IArrayPatterns.exactlyTwo(name.parts);
+					if (
+						two !== undefined &&
+						TsIdent.equals(two[0], TsIdentSymbol) &&
+						KnownSymbols.has(two[1].value)
+					) {
+						const symName = ImportName.skipConversion(two[1]);
+						const a = Annotation.JsNameSymbol(
+							QualifiedName.JsSymbol.add(symName),
+						);
+						const isOptional =
+							isSome(m.valueType) &&
+							isSome(OptionalType.unapply(m.valueType.value));
+						const fieldType: ImplTree = scalaJsDefined
+							? isOptional
+								? UndefinedLit.instance
+								: NotImplemented
+							: ExprTree.native;
+
+						return IArray.apply(
+							MemberRet.apply(
+								FieldTree.create(
+									IArray.apply<AnnotationUnion>(a),
+									ProtectionLevel.Public,
+									symName,
+									this.importType.orAny(scope, this.importName)(m.valueType),
+									fieldType,
+									m.isReadOnly,
+									false,
+									m.comments,
+									ownerCP.add(symName),
+								),
+							),
+						);
+					}
+					scope.logger.info(`Dropping ${TsTypeFormatter.member(m)}`);
+					return IArray.Empty;
+				}
+			}
+
+			scope.logger.info(`Dropping ${TsTypeFormatter.member(t1)}`);
+			return IArray.Empty;
+		};
+	}
+
+	private tsMemberProperty(
+		scope: TsTreeScope,
+		scalaJsDefined: boolean,
+		importName: AdaptiveNamingImport,
+		ownerCP: QualifiedName,
+	): (m: TsMemberProperty) => IArray<MemberRet> {
+		return (m) => {
+			const tpeOpt = m.tpe;
+			if (isSome(tpeOpt) && tpeOpt.value._tag === "TsTypeQuery") {
+				scope.logger.info(`Dropping ${TsTypeFormatter.member(m)}`);
+				return IArray.Empty;
+			}
+
+			const [name, annOpt] = ImportName.withJsNameAnnotation(m.name);
+
+			if (isSome(tpeOpt) && tpeOpt.value._tag === "TsTypeObject") {
+				const members = (tpeOpt.value as TsTypeObject).members;
+				// alternative notation for overload methods
+				if (members.forall((x) => x._tag === "TsMemberCall")) {
+					return members.map((x) => {
+						const call = x as TsMemberCall;
+						return MemberRet.apply(
+							this.tsMethod(
+								scope["/"](call),
+								ProtectionLevel.Public,
+								name,
+								IArray.fromOption<AnnotationUnion>(annOpt),
+								call.comments.addOption(protectionLevelComment(call.level)),
+								{ _tag: "Normal" },
+								call.signature,
+								scalaJsDefined,
+								ownerCP,
+							),
+						);
+					});
+				}
+			}
+
+			const importedType = this.importType.orAny(scope, importName)(tpeOpt);
+			const impl: ImplTree = !scalaJsDefined
+				? ExprTree.native
+				: TypeRef.UndefOr.unapply(importedType) !== undefined
+					? UndefinedLit.instance
+					: NotImplemented;
+
+			return IArray.fromOption(
+				this.hack(
+					FieldTree.create(
+						IArray.fromOption<AnnotationUnion>(annOpt),
+						ProtectionLevel.Public,
+						name,
+						importedType,
+						impl,
+						m.isReadOnly,
+						false,
+						m.comments.addOption(protectionLevelComment(m.level)),
+						ownerCP.add(name),
+					),
+				),
+			).map(MemberRet.apply);
+		};
+	}
+
+	hack(f: FieldTree): FieldTree | undefined {
+		if (!f.comments.has(ExpandedCallables)) return f;
+		if (f.name.equals(Name.namespaced)) return undefined;
+		return FieldTree.withSuffix(f, "Original");
+	}
+
+	typeParam(
+		scope: TsTreeScope,
+		importName: AdaptiveNamingImport,
+	): (tp: TsTypeParam) => TypeParamTree {
+		return (tp) =>
+			TypeParamTree.create(
+				ImportName.apply(tp.name),
+				IArray.Empty,
+				isSome(tp.upperBound)
+					? this.importType.apply(
+							scope["/"](tp),
+							importName,
+						)(tp.upperBound.value)
+					: undefined,
+				tp.comments,
+				true,
+			);
+	}
+
+	private tsFunParams(
+		scope: TsTreeScope,
+		importName: AdaptiveNamingImport,
+		params: IArray<TsFunParam>,
+	): IArray<ParamTree> {
+		return params.map((param) => {
+			const tpe = this.importType.orAny(
+				scope["/"](param),
+				importName,
+			)(param.tpe);
+			return ParamTree.create(
+				ImportName.apply(param.name),
+				false,
+				false,
+				tpe,
+				NotImplemented,
+				param.comments,
+			);
+		});
+	}
+
+	private tsMethod(
+		scope: TsTreeScope,
+		level: ProtectionLevel,
+		name: Name,
+		annotations: IArray<AnnotationUnion>,
+		cs: Comments,
+		methodType: MethodType,
+		sig: TsFunSig,
+		scalaJsDefined: boolean,
+		ownerCP: QualifiedName,
+	): MethodTree {
+		const impl: ImplTree = scalaJsDefined ? NotImplemented : ExprTree.native;
+
+		/**
+		 * This is how typescript specifies what types of objects the given method can be legally called on. It's useful
+		 * information, but only if we wanted to output say implicit conversions where we add the given methods. Let's drop
+		 * them for now
+		 */
+		const first = sig.params.headOption;
+		const trimmedParams =
+			first !== undefined && TsIdent.equals(first.name, TsIdentThis)
+				? sig.params.drop(1)
+				: sig.params;
+
+		const params: IArray<IArray<ParamTree>> =
+			methodType._tag === "Getter"
+				? IArray.Empty
+				: IArray.apply(this.tsFunParams(scope, this.importName, trimmedParams));
+
+		const [correctedName, resultType]: [Name, TypeRef] =
+			methodType._tag === "Setter"
+				? [new Name(`${name.unescaped}_=`), TypeRef.Unit]
+				: [
+						name,
+						isSome(sig.resultType) &&
+						!refersTo(sig.resultType.value, TsQIdentAny.parts.head)
+							? this.importType.apply(
+									scope,
+									this.importName,
+								)(sig.resultType.value)
+							: TypeRef.Any,
+					];
+
+		const ret = MethodTree.create(
+			annotations,
+			level,
+			correctedName,
+			sig.tparams.map(this.typeParam(scope, this.importName)),
+			params,
+			impl,
+			resultType,
+			false,
+			cs.concat(sig.comments),
+			ownerCP.add(correctedName),
+			false,
+		);
+
+		if (name.equals(Name.APPLY) || name.equals(Name.namespaced)) return ret;
+
+		const containedLiterals: IArray<string> = sig.params.flatMap((param) =>
+			TsTreeTraverse.collect(param, (t: TsTree) =>
+				t._tag === "TsLiteralStr" ||
+				t._tag === "TsLiteralNum" ||
+				t._tag === "TsLiteralBool"
+					? (t as TsLiteral).value
+					: undefined,
+			),
+		);
+
+		const suffixes = [...new Set(containedLiterals.toArray())]
+			.map((lit) =>
+				Array.from(lit)
+					.filter((c) => /[\p{L}\p{Nd}]/u.test(c))
+					.join(""),
+			)
+			.filter((s) => s.length > 0);
+
+		return suffixes.length === 1
+			? MethodTree.withSuffix(ret, suffixes[0])
+			: ret;
+	}
+
+	container(
+		importName: AdaptiveNamingImport,
+		scope: TsTreeScope,
+		cs: Comments,
+		jsLocation: JsLocation,
+		tsMembers: IArray<TsContainerOrDecl>,
+		codePath: CodePath,
+	): ModuleTree {
+		const [inheritance, memberTrees, restTrees, cs2] =
+			RewriteNamespaceMembers.apply(tsMembers.flatMap(this.decl(scope)));
+		const importedCp = importName.applyCodePath(codePath);
+
+		const patchedRestTrees = IArray.fromArray(
+			Array.from(restTrees.groupBy((t) => t.name.unescaped).values()),
+		).flatMap((sameName) => {
+			const hasTypeAlias = sameName.exists(isTypeAliasTree);
+			const classes = sameName.filter(isClassTree);
+			if (hasTypeAlias && classes.nonEmpty) {
+				return classes.concat(
+					sameName.filter((x) => !isTypeAliasTree(x) && !isClassTree(x)),
+				);
+			}
+			return sameName;
+		});
+
+		return setCodePath(
+			importedCp,
+			ModuleTree.create(
+				ImportJsLocation.apply(jsLocation),
+				ProtectionLevel.Public,
+				importedCp.parts.last,
+				inheritance,
+				memberTrees.concat(patchedRestTrees),
+				cs.concat(cs2),
+				importedCp,
+				false,
+			),
+		);
+	}
+}
+
+function protectionLevelComment(pl: TsProtectionLevel): Option<Comment> {
+	switch (pl._tag) {
+		case "Default":
+			return none;
+		case "Private":
+			return some(Comment.create("/* private */"));
+		case "Protected":
+			return some(Comment.create("/* protected */"));
+	}
+}
@@ -0,0 +1,776 @@
+/**
+ * TypeScript port of org.scalablytyped.converter.internal.importer.ImportType
+ *
+ * Translates typescript types into scala type references
+ */
+
+import { isSome, type Option, some } from "fp-ts/Option";
+import {
+	Comment,
+	DoubleLit,
+	type ExprTreeLit,
+	IntLit,
+	StringLit,
+	WasLiteral,
+} from "../Comment.js";
+import { Comments } from "../Comments.js";
+import { IArray, partialFunction } from "../IArray.js";
+import { QualifiedName, type StdNames } from "../scalajs/QualifiedName.js";
+import { ExprTree, TypeRef } from "../scalajs/Tree.js";
+import { AllMembersFor } from "../ts/AllMembersFor.js";
+import { FillInTParams } from "../ts/FillInTParams.js";
+import { FollowAliases } from "../ts/FollowAliases.js";
+import { LoopDetector, type TsTreeScope } from "../ts/TsTreeScope.js";
+import { TsTypeFormatter } from "../ts/TsTypeFormatter.js";
+import { isDictionary } from "../ts/transforms/ExtractInterfaces.js";
+import {
+	type IndexingDict,
+	type TsDeclClass,
+	type TsDeclInterface,
+	type TsFunParam,
+	type TsFunSig,
+	TsIdent,
+	TsIdentThis,
+	type TsMemberFunction,
+	type TsMemberIndex,
+	type TsMemberProperty,
+	type TsQIdent,
+	TsQIdentAny,
+	TsQIdentArray,
+	TsQIdentBigInt,
+	TsQIdentBigint,
+	TsQIdentBoolean,
+	TsQIdentBooleanConstructor,
+	TsQIdentFunction,
+	TsQIdentNever,
+	TsQIdentNull,
+	TsQIdentNumber,
+	TsQIdentObject,
+	TsQIdentObjectConstructor,
+	TsQIdentReadonlyArray,
+	TsQIdentStd,
+	TsQIdentString,
+	TsQIdentStringConstructor,
+	TsQIdentSymbol,
+	TsQIdentUndefined,
+	TsQIdentUnknown,
+	TsQIdentVoid,
+	type TsTupleElement,
+	type TsType,
+	type TsTypeAsserts,
+	type TsTypeConstructor,
+	type TsTypeFunction,
+	type TsTypeIntersect,
+	type TsTypeIs,
+	type TsTypeKeyOf,
+	type TsTypeLiteral,
+	type TsTypeObject,
+	TsTypeRef,
+	type TsTypeRepeated,
+	type TsTypeTuple,
+	TsTypeUnion,
+} from "../ts/trees.js";
+import type { AdaptiveNamingImport } from "./AdaptiveNamingImport.js";
+
+/**
+ * Decides whether a string literal should be widened to `String`
+ */
+export type ShouldWiden = (str: string) => boolean;
+
+const sameQIdent = (one: TsQIdent, two: TsQIdent): boolean =>
+	one.parts.length === two.parts.length &&
+	one.parts.zip(two.parts).forall(([a, b]) => TsIdent.equals(a, b));
+
+/* comments never participate in equality, same as in the Scala implementation */
+const isRefTo = (tpe: TsType, qident: TsQIdent): boolean =>
+	tpe._tag === "TsTypeRef" &&
+	(tpe as TsTypeRef).tparams.isEmpty &&
+	sameQIdent((tpe as TsTypeRef).name, qident);
+
+/* like scala's `TypeRef.Intersection`, which leaves a single remaining type alone */
+const intersection = (types: IArray<TypeRef>): TypeRef => {
+	const ret = TypeRef.Intersection(types, Comments.empty());
+	return ret.targs.length === 1 &&
+		ret.typeName.equals(QualifiedName.INTERSECTION)
+		? ret.targs.apply(0)
+		: ret;
+};
+
+export class ImportType {
+	/**
+	 * The point here? Dont inherit from sealed classes in scala.js, but otherwise prefer types from there. Handle
+	 * resolved and unresolved qidents
+	 */
+	private readonly Mappings: ReadonlyArray<
+		readonly [TsQIdent, ImportType.Mapping]
+	>;
+
+	constructor(stdNames: StdNames) {
+		const ArrayM = ImportType.NameMapping(
+			stdNames.Array,
+			stdNames.Array,
+			QualifiedName.JsArray,
+		);
+		const BooleanM = ImportType.RefMapping(
+			TypeRef.create(stdNames.Boolean),
+			TypeRef.create(stdNames.Boolean),
+			TypeRef.Boolean,
+		);
+		const FunctionM = ImportType.RefMapping(
+			TypeRef.JsFunctionBase,
+			TypeRef.JsFunctionBase,
+			TypeRef.JsFunctionBase,
+		);
+		const ObjectM = ImportType.RefMapping(
+			TypeRef.create(stdNames.Object),
+			TypeRef.create(stdNames.Object),
+			TypeRef.JsObject,
+		);
+		const StringM = ImportType.RefMapping(
+			TypeRef.create(stdNames.String),
+			TypeRef.create(stdNames.String),
+			TypeRef.String,
+		);
+		const BigIntM = ImportType.RefMapping(
+			TypeRef.create(stdNames.BigInt),
+			TypeRef.create(stdNames.BigInt),
+			TypeRef.JsBigInt,
+		);
+
+		this.Mappings = [
+			[TsQIdentArray, ArrayM],
+			[TsQIdentBigint, BigIntM],
+			[TsQIdentBigInt, BigIntM],
+			[TsQIdentBoolean, BooleanM],
+			[TsQIdentBooleanConstructor, BooleanM],
+			[TsQIdentFunction, FunctionM],
+			[
+				TsQIdentNever,
+				ImportType.RefMapping(TypeRef.Any, TypeRef.Any, TypeRef.Nothing),
+			],
+			[
+				TsQIdentNull,
+				ImportType.RefMapping(TypeRef.Any, TypeRef.Any, TypeRef.Null),
+			],
+			[
+				TsQIdentNumber,
+				ImportType.RefMapping(
+					TypeRef.create(stdNames.Number),
+					TypeRef.create(stdNames.Number),
+					TypeRef.Double,
+				),
+			],
+			[TsQIdentObject, ObjectM],
+			[TsQIdentObjectConstructor, ObjectM],
+			[TsQIdentStd.Array, ArrayM],
+			[TsQIdentStd.Boolean, BooleanM],
+			[TsQIdentStd.BigInt, BigIntM],
+			[
+				TsQIdentStd.ConcatArray,
+				ImportType.NameMapping(
+					stdNames.ConcatArray,
+					stdNames.ConcatArray,
+					QualifiedName.JsArray,
+				),
+			],
+			[TsQIdentStd.Function, FunctionM],
+			[TsQIdentStd.Object, ObjectM],
+			[
+				TsQIdentStd.ReadonlyArray,
+				ImportType.NameMapping(
+					stdNames.ReadonlyArray,
+					stdNames.ReadonlyArray,
+					QualifiedName.JsArray,
+				),
+			],
+			[TsQIdentStd.String, StringM],
+			[TsQIdentString, StringM],
+			[TsQIdentStringConstructor, StringM],
+			[
+				TsQIdentSymbol,
+				ImportType.RefMapping(
+					TypeRef.create(stdNames.Symbol),
+					TypeRef.create(stdNames.Symbol),
+					TypeRef.JsSymbol,
+				),
+			],
+			[
+				TsQIdentUndefined,
+				ImportType.RefMapping(TypeRef.Any, TypeRef.Any, TypeRef.Unit),
+			],
+			[
+				TsQIdentVoid,
+				ImportType.RefMapping(TypeRef.Any, TypeRef.Any, TypeRef.Unit),
+			],
+		];
+	}
+
+	private mappingFor(qident: TsQIdent): ImportType.Mapping | undefined {
+		return this.Mappings.find(([key]) => sameQIdent(key, qident))?.[1];
+	}
+
+	orAny(
+		scope: TsTreeScope,
+		importName: AdaptiveNamingImport,
+	): (ott: Option<TsType>) => TypeRef {
+		return (ott) =>
+			isSome(ott) ? this.apply(scope, importName)(ott.value) : TypeRef.Any;
+	}
+
+	apply(
+		outerScope: TsTreeScope,
+		importName: AdaptiveNamingImport,
+	): (t1: TsType) => TypeRef {
+		return (t1) => {
+			const scope = outerScope["/"](t1);
+
+			switch (t1._tag) {
+				case "TsTypeRef": {
+					const { comments: cs, name: base, tparams: targs } = t1 as TsTypeRef;
+
+					if (sameQIdent(base, TsQIdentStd.Readonly) && targs.length === 1) {
+						const one = targs.apply(0);
+						const withComments =
+							one._tag === "TsTypeRef"
+								? (one as TsTypeRef).withComments(
+										cs.concat((one as TsTypeRef).comments),
+									)
+								: one;
+						return this.apply(scope, importName)(withComments);
+					}
+
+					/* val x: Unit = js.native is not legal. */
+					const willBeVal = outerScope.stack[0]?._tag === "TsDeclVar";
+					if (sameQIdent(base, TsQIdentUndefined) && willBeVal) {
+						return TypeRef.withComments(
+							TypeRef.withComments(
+								TypeRef.Any,
+								Comments.create("/* undefined */"),
+							),
+							cs,
+						);
+					}
+
+					if (
+						sameQIdent(base, TsQIdentAny) ||
+						sameQIdent(base, TsQIdentUnknown)
+					) {
+						return TypeRef.withComments(TypeRef.Any, cs);
+					}
+
+					const isInheritance = () =>
+						ImportType.IsInheritance.apply(base, scope);
+					const targs2 = () => targs.map(this.apply(scope, importName));
+
+					const mapping = this.mappingFor(base);
+					if (mapping !== undefined && !scope.isAbstract(base)) {
+						switch (mapping._tag) {
+							case "RefMapping":
+								return TypeRef.withComments(
+									ImportType.pick(mapping, isInheritance()),
+									cs,
+								);
+							case "NameMapping":
+								return TypeRef.create(
+									ImportType.pick(mapping, isInheritance()),
+									targs2(),
+									cs,
+								);
+						}
+					}
+
+					try {
+						return TypeRef.create(importName.apply(base), targs2(), cs);
+					} catch (e) {
+						const msg = e instanceof Error ? e.message : String(e);
+						return TypeRef.withComments(
+							TypeRef.Any,
+							Comments.create(`/* Couldn't translate: '${msg}' */`),
+						);
+					}
+				}
+
+				case "TsTypeObject": {
+					const ms = (t1 as TsTypeObject).members;
+					if (ms.isEmpty) {
+						return TypeRef.create(
+							QualifiedName.JsObject,
+							IArray.Empty,
+							Comments.empty(),
+						);
+					}
+					if (isDictionary(ms)) {
+						const indices = ms as unknown as IArray<TsMemberIndex>;
+						const [numbers, strings] = indices.partition((x) =>
+							isRefTo((x.indexing as IndexingDict).tpe, TsQIdentNumber),
+						);
+
+						const dict = (
+							xs: IArray<TsMemberIndex>,
+							f: (typeParam: TypeRef, comments: Comments) => TypeRef,
+						): TypeRef | undefined => {
+							if (xs.isEmpty) return undefined;
+							const translated = xs.map((x): [Comments, TypeRef] => [
+								x.comments,
+								this.orAny(scope, importName)(x.valueType),
+							]);
+							return f(
+								intersection(translated.map(([, tpe]) => tpe)),
+								Comments.flatten(translated, ([cs]) => cs),
+							);
+						};
+
+						const stringDict = dict(strings, TypeRef.StringDictionary);
+						const numberDict = dict(numbers, TypeRef.NumberDictionary);
+						return intersection(
+							IArray.fromOption(stringDict).concat(
+								IArray.fromOption(numberDict),
+							),
+						);
+					}
+					break;
+				}
+
+				case "TsTypeFunction": {
+					const sig = (t1 as TsTypeFunction).signature;
+					if (sig.params.length > 22) return TypeRef.JsFunctionBase;
+
+					const newSig = FillInTParams.inlineTParams(sig);
+					const first = newSig.params.headOption;
+					const [thisType, restParams] =
+						first !== undefined && TsIdent.equals(first.name, TsIdentThis)
+							? [this.funParam(scope, importName)(first), newSig.params.tail]
+							: [undefined, newSig.params];
+
+					return TypeRef.JsFunction(
+						thisType,
+						restParams.map(this.funParam(scope, importName)),
+						this.orAny(scope, importName)(newSig.resultType),
+						newSig.comments,
+					);
+				}
+
+				case "TsTypeUnion": {
+					const types = (t1 as TsTypeUnion).types;
+					const patched = types.exists((t) => isRefTo(t, TsQIdentBoolean))
+						? types.filter((t) => {
+								if (t._tag !== "TsTypeLiteral") return true;
+								const lit = (t as TsTypeLiteral).literal;
+								return !(
+									(lit._tag === "TsLiteralStr" ||
+										lit._tag === "TsLiteralBool") &&
+									(lit.value === "true" || lit.value === "false")
+								);
+							})
+						: types;
+
+					const imported = patched.map((t) =>
+						isRefTo(t, TsQIdentUndefined)
+							? TypeRef.undefined
+							: this.apply(scope, importName)(t),
+					);
+
+					return TypeRef.Union(imported, Comments.empty(), false);
+				}
+
+				case "TsTypeIntersect": {
+					const types1 = (t1 as TsTypeIntersect).types.map(
+						this.apply(scope, importName),
+					);
+					const withoutObject = types1.filter(
+						(t) => !TypeRef.equals(t, TypeRef.JsObject),
+					);
+					const types2 = withoutObject.nonEmpty ? withoutObject : types1;
+					return intersection(types2);
+				}
+
+				case "TsTypeConstructor": {
+					const ctor = (t1 as TsTypeConstructor).signature;
+					return this.newableFunction(
+						scope,
+						importName,
+						ctor.signature,
+						Comments.empty(),
+					);
+				}
+
+				case "TsTypeKeyOf": {
+					const keyof = t1 as TsTypeKeyOf;
+					const names = AllMembersFor.forType(
+						scope,
+						LoopDetector.initial,
+					)(keyof.key).mapNotNone((x) =>
+						x._tag === "TsMemberFunction"
+							? (x as TsMemberFunction).name
+							: x._tag === "TsMemberProperty"
+								? (x as TsMemberProperty).name
+								: undefined,
+					);
+					const ret = names.isEmpty
+						? TypeRef.String
+						: TypeRef.Union(
+								names.map((n) => TypeRef.StringLiteral(n.value)),
+								Comments.empty(),
+								true,
+							);
+
+					return TypeRef.withComments(
+						ret,
+						Comments.fromComment(
+							Comment.create(`/* ${TsTypeFormatter.apply(keyof)} */`),
+						),
+					);
+				}
+
+				case "TsTypeTuple": {
+					const labelComment = (elem: TsTupleElement): Comments =>
+						isSome(elem.label)
+							? Comments.create(`/* ${elem.label.value.value} */`)
+							: Comments.empty();
+
+					const [repeateds, rest] = (t1 as TsTypeTuple).elems.partitionCollect(
+						partialFunction(
+							(elem: TsTupleElement) => elem.tpe._tag === "TsTypeRepeated",
+							(elem: TsTupleElement): [TsTupleElement, TsType] => [
+								elem,
+								(elem.tpe as TsTypeRepeated).underlying,
+							],
+						),
+					);
+
+					const firstRepeated = repeateds.headOption;
+					if (firstRepeated === undefined) {
+						return TypeRef.JsTuple(
+							rest.map((elem) =>
+								TypeRef.withComments(
+									this.apply(scope, importName)(elem.tpe),
+									labelComment(elem),
+								),
+							),
+						);
+					}
+
+					const [repeatedElem, repeated] = firstRepeated;
+					const followed = FollowAliases.apply(scope)(repeated);
+					const isArray =
+						followed._tag === "TsTypeRef" &&
+						(followed as TsTypeRef).tparams.length === 1 &&
+						[
+							TsQIdentStd.Array,
+							TsQIdentStd.ReadonlyArray,
+							TsQIdentArray,
+							TsQIdentReadonlyArray,
+						].some((q) => sameQIdent((followed as TsTypeRef).name, q));
+
+					if (isArray) {
+						const tpe = (followed as TsTypeRef).tparams.apply(0);
+						return TypeRef.create(
+							importName.apply(TsQIdentArray),
+							IArray.apply(
+								this.apply(
+									scope,
+									importName,
+								)(TsTypeUnion.create(rest.map((e) => e.tpe).append(tpe))),
+							),
+							labelComment(repeatedElem),
+						);
+					}
+
+					const c = Comment.warning(
+						`repeated non-array type: ${TsTypeFormatter.apply(followed)}`,
+					);
+					return this.apply(
+						scope,
+						importName,
+					)(
+						TsTypeRef.create(
+							Comments.fromComment(c).concat(labelComment(repeatedElem)),
+							TsQIdentArray,
+							IArray.apply(followed),
+						),
+					);
+				}
+
+				case "TsTypeRepeated":
+					return TypeRef.Repeated(
+						this.apply(scope, importName)((t1 as TsTypeRepeated).underlying),
+						Comments.empty(),
+					);
+
+				case "TsTypeIs": {
+					const tpe = (t1 as TsTypeIs).tpe;
+					return tpe._tag === "TsTypeRef"
+						? TypeRef.withComments(
+								TypeRef.Boolean,
+								Comments.create(`/* is ${TsTypeFormatter.apply(tpe)} */`),
+							)
+						: TypeRef.Boolean;
+				}
+
+				case "TsTypeAsserts": {
+					const { ident, isOpt } = t1 as TsTypeAsserts;
+					const is = isSome(isOpt)
+						? `is ${TsTypeFormatter.apply(isOpt.value)}`
+						: "";
+					return TypeRef.withComments(
+						TypeRef.Boolean,
+						Comments.create(`/* asserts ${ident.value} ${is}*/`),
+					);
+				}
+
+				case "TsTypeLiteral": {
+					const lit = (t1 as TsTypeLiteral).literal;
+					switch (lit._tag) {
+						case "TsLiteralNum":
+							return numberToTypeRef(lit.value);
+						case "TsLiteralStr":
+							return stringToTypeRef(lit.value, ImportType.ShouldWiden.Some);
+						case "TsLiteralBool":
+							return TypeRef.BooleanLiteral(lit.value);
+					}
+					break;
+				}
+
+				case "TsTypeThis":
+					return TypeRef.ThisType(Comments.empty());
+			}
+
+			const msg = `Failed type conversion: ${TsTypeFormatter.apply(t1)}`;
+			scope.logger.info(msg);
+			return TypeRef.create(
+				QualifiedName.JsAny,
+				IArray.Empty,
+				Comments.fromComment(Comment.warning(msg)),
+			);
+		};
+	}
+
+	/**
+	 * TsTypeUnion.simplified simplifies a set of types into a union types, a normal type, or `never`. The latter is the
+	 * least useful, so let's rewrite it to any
+	 */
+	unify(types: IArray<TsType>): TsType {
+		const toIgnore = [TsQIdentNever, TsQIdentAny, TsQIdentObject];
+		const simplified = TsTypeUnion.simplified(
+			types.filter((t) => !toIgnore.some((q) => isRefTo(t, q))),
+		);
+		return isRefTo(simplified, TsQIdentNever) ? TsTypeRef.any : simplified;
+	}
+
+	newableFunction(
+		scope: TsTreeScope,
+		importName: AdaptiveNamingImport,
+		_sig: TsFunSig,
+		comments: Comments,
+	): TypeRef {
+		/* get rid of type parameters and fill them with bound / object */
+		const targs = _sig.tparams.map((p) =>
+			isSome(p.upperBound) ? p.upperBound.value : TsTypeRef.object,
+		);
+		const sig = FillInTParams.apply(_sig, targs);
+
+		const params = sig.params.map((param) => {
+			const repeated =
+				isSome(param.tpe) && param.tpe.value._tag === "TsTypeRepeated"
+					? (param.tpe.value as TsTypeRepeated).underlying
+					: undefined;
+			const isRepeated = repeated !== undefined;
+			const baseType: Option<TsType> = isRepeated ? some(repeated) : param.tpe;
+			const comment = Comment.create(
+				`/* ${param.name.value}${isRepeated ? " (repeated)" : ""} */`,
+			);
+			return TypeRef.withComments(
+				this.orAny(scope, importName)(baseType),
+				Comments.fromComment(comment),
+			);
+		});
+
+		const ret = this.orAny(scope, importName)(sig.resultType);
+
+		if (sig.params.length > 22) {
+			return TypeRef.withComments(
+				TypeRef.Any,
+				Comments.create(
+					`/* untranslatable newable function with more than 22 parameters: ${TsTypeFormatter.sig(_sig)} */`,
+				),
+			);
+		}
+		return TypeRef.create(
+			QualifiedName.Instantiable(sig.params.length),
+			params.append(ret),
+			comments,
+		);
+	}
+
+	private funParam(
+		scope: TsTreeScope,
+		importName: AdaptiveNamingImport,
+	): (param: TsFunParam) => TypeRef {
+		return (param) =>
+			TypeRef.withComments(
+				this.orAny(scope["/"](param), importName)(param.tpe),
+				Comments.create(`/* ${param.name.value} */`),
+			);
+	}
+}
+
+const IntMax = 2147483647;
+const IntMin = -2147483648;
+
+/**
+ * Equivalent of `java.lang.Long.decode`, which accepts decimal, hex and octal notation
+ */
+function decodeLong(value: string): number | undefined {
+	const m = /^([-+]?)(0[xX][0-9a-fA-F]+|#[0-9a-fA-F]+|0[0-7]+|\d+)$/.exec(
+		value,
+	);
+	if (m === null) return undefined;
+	const sign = m[1] === "-" ? -1 : 1;
+	const digits = m[2];
+	if (/^0[xX]/.test(digits)) return sign * Number.parseInt(digits.slice(2), 16);
+	if (digits.startsWith("#"))
+		return sign * Number.parseInt(digits.slice(1), 16);
+	if (digits.length > 1 && digits.startsWith("0"))
+		return sign * Number.parseInt(digits.slice(1), 8);
+	return sign * Number.parseInt(digits, 10);
+}
+
+const validInt = (value: string): boolean => {
+	const int = decodeLong(value);
+	return int !== undefined && int < IntMax && int > IntMin;
+};
+
+const validDouble = (value: string): boolean =>
+	value.trim() !== "" && Number.isFinite(Number(value));
+
+function numberToTypeRef(value: string): TypeRef {
+	if (validInt(value)) return TypeRef.IntLiteral(value);
+	if (validDouble(value)) return TypeRef.DoubleLiteral(value);
+	/* not expressible */
+	return TypeRef.withComments(
+		TypeRef.create(QualifiedName.Double),
+		Comments.create(`/* ${value} */ `),
+	);
+}
+
+function stringToTypeRef(value: string, shouldWiden: ShouldWiden): TypeRef {
+	if (!shouldWiden(value)) return TypeRef.StringLiteral(value);
+	return TypeRef.withComments(
+		TypeRef.String,
+		Comments.apply([
+			Comment.create(`/* ${value} */ `),
+			new WasLiteral(new StringLit(value)),
+		]),
+	);
+}
+
+export namespace ImportType {
+	export interface RefMapping {
+		readonly _tag: "RefMapping";
+		readonly inTraitInheritance: TypeRef;
+		readonly inClassInheritance: TypeRef;
+		readonly normal: TypeRef;
+	}
+
+	export interface NameMapping {
+		readonly _tag: "NameMapping";
+		readonly inTraitInheritance: QualifiedName;
+		readonly inClassInheritance: QualifiedName;
+		readonly normal: QualifiedName;
+	}
+
+	export type Mapping = RefMapping | NameMapping;
+
+	export const RefMapping = (
+		inTraitInheritance: TypeRef,
+		inClassInheritance: TypeRef,
+		normal: TypeRef,
+	): RefMapping => ({
+		_tag: "RefMapping",
+		inTraitInheritance,
+		inClassInheritance,
+		normal,
+	});
+
+	export const NameMapping = (
+		inTraitInheritance: QualifiedName,
+		inClassInheritance: QualifiedName,
+		normal: QualifiedName,
+	): NameMapping => ({
+		_tag: "NameMapping",
+		inTraitInheritance,
+		inClassInheritance,
+		normal,
+	});
+
+	export function pick<T>(
+		mapping: {
+			readonly inTraitInheritance: T;
+			readonly inClassInheritance: T;
+			readonly normal: T;
+		},
+		isInheritance: IsInheritance,
+	): T {
+		switch (isInheritance) {
+			case IsInheritance.InClass:
+				return mapping.inClassInheritance;
+			case IsInheritance.InTrait:
+				return mapping.inTraitInheritance;
+			case IsInheritance.Not:
+				return mapping.normal;
+		}
+	}
+
+	export enum IsInheritance {
+		InClass = "InClass",
+		InTrait = "InTrait",
+		Not = "Not",
+	}
+
+	export namespace IsInheritance {
+		export function apply(tpe: TsQIdent, scope: TsTreeScope): IsInheritance {
+			const owner = scope.stack[1];
+			switch (owner?._tag) {
+				case "TsDeclInterface":
+					return (owner as TsDeclInterface).inheritance.exists(
+						(x) => x.name === tpe,
+					)
+						? IsInheritance.InTrait
+						: IsInheritance.Not;
+				case "TsDeclClass": {
+					const cls = owner as TsDeclClass;
+					const inherits =
+						cls.implementsInterfaces.exists((x) => x.name === tpe) ||
+						(isSome(cls.parent) && cls.parent.value.name === tpe);
+					return inherits ? IsInheritance.InClass : IsInheritance.Not;
+				}
+				default:
+					return IsInheritance.Not;
+			}
+		}
+	}
+
+	export const ShouldWiden = {
+		No: ((_) => false) as ShouldWiden,
+		Yes: ((_) => true) as ShouldWiden,
+
+		// it's hard to say when keeping it as a literal is beneficial.
+		// we sometimes widen because we may bump into max class length for the generated literal traits
+		Some: ((value) =>
+			/['()\\]/.test(value) || value.length > 60) as ShouldWiden,
+	};
+
+	export function numberToExpr(value: string): ExprTree {
+		if (validInt(value)) return new IntLit(value);
+		if (validDouble(value)) return new DoubleLit(value);
+		return ExprTree.Ref(QualifiedName.Double);
+	}
+
+	export function stringToExpr(
+		value: string,
+		shouldWiden: ShouldWiden,
+	): ExprTree {
+		const lit: ExprTreeLit = new StringLit(value);
+		return shouldWiden(value) ? ExprTree.Ref(QualifiedName.String) : lit;
+	}
+}
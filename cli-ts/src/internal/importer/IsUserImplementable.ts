@@ -0,0 +1,105 @@
+/**
+ * TypeScript port of org.scalablytyped.converter.internal.importer.IsUserImplementable
+ *
+ * This is a heuristic.
+ *
+ * For our purposes, there are two kind of javascript objects:
+ *   - code (implementation of libraries)
+ *   - data (may be implemented by user)
+ *
+ * For the latter, we want to provide different ways of instantiating an instance of the structure, either through
+ * mutable builders or `@ScalaJSDefined` traits.
+ */
+
+import { ExpandedCallables } from "../Comment.js";
+import { IArray, IArrayPatterns } from "../IArray.js";
+import type { InterfaceOrClass, WithParents } from "../ts/ParentsResolver.js";
+import {
+	type TsDeclInterface,
+	TsIdent,
+	TsIdentApply,
+	TsIdentNamespaced,
+	type TsMember,
+	type TsMemberFunction,
+	type TsMemberIndex,
+	type TsMemberProperty,
+	TsQIdentFunction,
+} from "../ts/trees.js";
+
+const legalName = (name: TsIdent): boolean =>
+	!TsIdent.equals(name, TsIdentApply) &&
+	!TsIdent.equals(name, TsIdentNamespaced);
+
+export const IsUserImplementable = {
+	apply: (iface: WithParents<TsDeclInterface>): boolean => {
+		if (iface.unresolved.nonEmpty) return false;
+		return (
+			IsUserImplementable.pred(iface.value) &&
+			iface.parents.forall(IsUserImplementable.pred)
+		);
+	},
+
+	pred: (x: InterfaceOrClass): boolean => {
+		if (x._tag !== "TsDeclInterface") return false;
+		const int = x as TsDeclInterface;
+		if (TsIdent.equals(TsQIdentFunction.parts.head, int.name)) return false;
+
+		const fromUnnamed = int.unnamed.forall((m) => {
+			if (m._tag === "TsMemberTypeMapped") return false;
+			if (
+				m._tag === "TsMemberIndex" &&
+				(m as TsMemberIndex).indexing._tag === "IndexingSingle"
+			)
+				return false;
+			return true;
+		});
+
+		const fromNamed = Array.from(int.membersByName).every(
+			([name, sameName]) => {
+				if (TsIdent.equals(name, TsIdentApply)) return false;
+
+				// the logic here:
+				// if something is declared in typescript with overloads, it's very likely not meant to be user implementable.
+				// however, if we have created these overloads (one property and one or more synthetic functions), don't consider those
+				const expanded = sameName.find(
+					(m) =>
+						m._tag === "TsMemberProperty" &&
+						(m as TsMemberProperty).comments.has(ExpandedCallables),
+				);
+				const toConsider: IArray<TsMember> =
+					expanded !== undefined ? IArray.apply(expanded) : sameName;
+
+				const one = IArrayPatterns.exactlyOne(toConsider);
+				if (one !== undefined) {
+					switch (one._tag) {
+						case "TsMemberCtor":
+						case "TsMemberCall":
+							return false;
+						case "TsMemberProperty": {
+							const prop = one as TsMemberProperty;
+							return !prop.isStatic && legalName(prop.name);
+						}
+						case "TsMemberFunction": {
+							const fun = one as TsMemberFunction;
+							return (
+								!fun.isStatic &&
+								legalName(fun.name) &&
+								fun.methodType._tag === "Normal"
+							);
+						}
+						default:
+							return true;
+					}
+				}
+
+				// will combine later
+				return toConsider.forall(
+					(m) =>
+						m._tag === "TsMemberProperty" && !(m as TsMemberProperty).isStatic,
+				);
+			},
+		);
+
+		return fromUnnamed && fromNamed;
+	},
+};
@@ -4,10 +4,13 @@
  * Represents a Scala.js library after Phase2 processing
  */
 
+import { Comments } from "../Comments";
 import { SortedMap } from "../collections";
+import { IArray } from "../IArray";
 import { LibraryVersion } from "../LibraryVersion";
 import { Name } from "../scalajs/Name";
-import { PackageTree } from "../scalajs/PackageTree";
+import { QualifiedName } from "../scalajs/QualifiedName";
+import { PackageTree } from "../scalajs/Tree";
 import { AdaptiveNamingImport } from "./AdaptiveNamingImport";
 import type { LibTsSource } from "./LibTsSource";
 
@@ -39,7 +42,13 @@ export class LibScalaJs {
 			null, // inGit
 		);
 
-		const mockPackageTree = PackageTree.createMock(mockScalaName);
+		const mockPackageTree = PackageTree.create(
+			IArray.Empty,
+			mockScalaName,
+			IArray.Empty,
+			Comments.empty(),
+			QualifiedName.from([mockScalaName]),
+		);
 		const emptyDependencies = new Map<LibTsSource, LibScalaJs>();
 		const mockNames = AdaptiveNamingImport.createMock();
 
@@ -0,0 +1,91 @@
+/**
+ * TypeScript port of org.scalablytyped.converter.internal.importer.PersistingParser
+ *
+ * Parses typescript files, optionally caching the result on disk keyed by the digest of the file
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { Either } from "fp-ts/Either";
+import * as E from "fp-ts/Either";
+import type { Option } from "fp-ts/Option";
+import * as O from "fp-ts/Option";
+import { Digest } from "../Digest.js";
+import type { InFile, InFolder } from "../files.js";
+import { IArray } from "../IArray.js";
+import type { Logger } from "../logging/index.js";
+import { parseFileContent, TsParserVersion } from "../ts/parser/TsParser.js";
+import {
+	TsParsedFileDecoder,
+	TsParsedFileEncoder,
+	TsTreeCodecVersion,
+} from "../ts/TsTreeCodec.js";
+import type { TsParsedFile } from "../ts/trees.js";
+import { type FileCodec, FileLocking } from "./FileLocking.js";
+
+/* parse failures are cached as well, they are just as expensive to find */
+const ParseResultCodec: FileCodec<Either<string, TsParsedFile>> = {
+	encode: (result) =>
+		E.isRight(result)
+			? { _tag: "Right", value: TsParsedFileEncoder.encode(result.right) }
+			: { _tag: "Left", value: result.left },
+	decode: (data) =>
+		data._tag === "Right"
+			? E.right(TsParsedFileDecoder.decode(data.value))
+			: E.left(data.value),
+};
+
+const parse = (
+	inFile: InFile,
+	bytes: Uint8Array,
+): Either<string, TsParsedFile> => {
+	const result = parseFileContent(inFile, Buffer.from(bytes).toString("utf8"));
+	return result._tag === "Right" ? E.right(result.value) : E.left(result.value);
+};
+
+/* the shortest path relative to an input folder which contains the file. Files outside all input folders would
+ * produce `..` segments and escape the cache directory, so they are keyed by a digest of their absolute path */
+const cacheKey = (inputFolders: IArray<InFolder>, file: InFile): string => {
+	const inside = inputFolders
+		.map((f) => path.relative(f.path, file.path))
+		.filter(
+			(relative) =>
+				relative.length > 0 &&
+				!path.isAbsolute(relative) &&
+				relative.split(path.sep)[0] !== "..",
+		);
+	return inside.isEmpty
+		? path.join("external", Digest.ofStrings(IArray.apply(file.path)).hexString)
+		: inside.sortBy((relative) => relative.length).head;
+};
+
+export namespace PersistingParser {
+	export function apply(
+		cacheDirOpt: Option<string>,
+		inputFolders: IArray<InFolder>,
+		logger: Logger<void>,
+	): (inFile: InFile) => Either<string, TsParsedFile> {
+		if (O.isNone(cacheDirOpt)) {
+			return (inFile) => parse(inFile, fs.readFileSync(inFile.path));
+		}
+
+		const cacheDir = cacheDirOpt.value;
+		const pf = FileLocking.persistingFunction<
+			readonly [InFile, Uint8Array],
+			Either<string, TsParsedFile>
+		>(
+			([file, bytes]) => {
+				const base = path.join(
+					cacheDir,
+					`${TsParserVersion}.${TsTreeCodecVersion}`,
+					cacheKey(inputFolders, file),
+				);
+				return path.join(base, Digest.ofBytes(IArray.apply(bytes)).hexString);
+			},
+			logger,
+			ParseResultCodec,
+		)(([inFile, bytes]) => parse(inFile, bytes));
+
+		return (inFile) => pf([inFile, fs.readFileSync(inFile.path)]);
+	}
+}
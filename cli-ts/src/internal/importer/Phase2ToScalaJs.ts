@@ -5,21 +5,42 @@
  * scala.js limitations, like ensuring no methods erase to the same signature
  */
 
-import { right } from "fp-ts/Either";
-import { pipe } from "fp-ts/function";
 import { type SortedMap, SortedSet } from "../collections";
+import { IArray } from "../IArray";
 import type { Logger } from "../logging";
-import { flatMap, PhaseRes } from "../phases/PhaseRes";
+import { map, type PhaseRes } from "../phases/PhaseRes";
 import type { GetDeps, IsCircular } from "../phases/types";
 import type { Selection } from "../Selection";
-import { Name } from "../scalajs/Name";
-import { PackageTree } from "../scalajs/PackageTree";
-import type { TsIdentLibrary } from "../ts/trees";
+import { CastConversion } from "../scalajs/CastConversion";
+import { Erasure } from "../scalajs/Erasure";
+import type { Name } from "../scalajs/Name";
+import { ParentsResolver } from "../scalajs/ParentsResolver";
+import { StdNames } from "../scalajs/QualifiedName";
+import type { PackageTree } from "../scalajs/Tree";
+import { TreeScope } from "../scalajs/TreeScope";
+import { Adapter } from "../scalajs/transforms/Adapter";
+import { CleanIllegalNames } from "../scalajs/transforms/CleanIllegalNames";
+import { CombineOverloads } from "../scalajs/transforms/CombineOverloads";
+import { CompleteClass } from "../scalajs/transforms/CompleteClass";
+import { FakeLiterals } from "../scalajs/transforms/FakeLiterals";
+import { FilterMemberOverrides } from "../scalajs/transforms/FilterMemberOverrides";
+import { InferMemberOverrides } from "../scalajs/transforms/InferMemberOverrides";
+import { LimitUnionLength } from "../scalajs/transforms/LimitUnionLength";
+import { RemoveDuplicateInheritance } from "../scalajs/transforms/RemoveDuplicateInheritance";
+import { RemoveMultipleInheritance } from "../scalajs/transforms/RemoveMultipleInheritance";
+import { UnionToInheritance } from "../scalajs/transforms/UnionToInheritance";
+import { TsTreeTraverse } from "../ts/TsTreeTraverse";
+import { TsIdent, type TsIdentLibrary } from "../ts/trees";
+import { AdaptiveNamingImport } from "./AdaptiveNamingImport";
 import type { ScalaVersion } from "./ConversionOptions";
 import type { FlavourImpl } from "./FlavourImpl";
+import { ImportExpr } from "./ImportExpr";
+import { ImportName } from "./ImportName";
+import { ImportTree } from "./ImportTree";
+import { ImportType } from "./ImportType";
 import { LibScalaJs } from "./LibScalaJs";
 import type { LibTs } from "./LibTs";
-import type { LibTsSource } from "./LibTsSource";
+import { LibTsSource } from "./LibTsSource";
 
 /**
  * Configuration for Phase2ToScalaJs
@@ -31,6 +52,8 @@ export interface Phase2Config {
 	readonly enableScalaJsDefined: Selection<TsIdentLibrary>;
 	readonly outputPkg: Name;
 	readonly flavour: FlavourImpl;
+	/* unions with more members are collapsed by `LimitUnionLength`, which has a default */
+	readonly maxUnionLength?: number;
 }
 
 /**
@@ -44,143 +67,143 @@ export class Phase2ToScalaJs {
 	 * Apply the phase transformation
 	 */
 	apply(
-		source: LibTsSource,
+		_source: LibTsSource,
 		tsLibrary: LibTs,
 		getDeps: GetDeps<LibTsSource, LibScalaJs>,
 		_isCircular: IsCircular,
 		logger: Logger<void>,
 	): PhaseRes<LibTsSource, LibScalaJs> {
-		// Always log to console for visibility, regardless of debug flag
-		console.log(`🔄 [Phase2ToScalaJs] Starting conversion of: ${tsLibrary.name.value}`);
-
-		logger.info(
-			`Converting TypeScript library to Scala.js: ${tsLibrary.name.value}`,
-		);
-
-		try {
-			// DUMMY IMPLEMENTATION: Get dependencies (but don't use them for real processing)
-			console.log(`🔍 [Phase2ToScalaJs] Garbage collecting libraries for: ${tsLibrary.name.value}`);
-			const knownLibs = this.garbageCollectLibs(tsLibrary, logger);
-
-			return pipe(
-				getDeps(knownLibs),
-				flatMap((scalaDeps: SortedMap<LibTsSource, LibScalaJs>) => {
-					console.log(`📦 [Phase2ToScalaJs] Processing ${tsLibrary.name.value} with ${scalaDeps.size} dependencies`);
-
-					logger.info(
-						`Processing ${tsLibrary.name.value} with ${scalaDeps.size} dependencies`,
-					);
-
-					// DUMMY IMPLEMENTATION: Create mock Scala.js library
-					console.log(`🏗️  [Phase2ToScalaJs] Creating mock Scala.js library for: ${tsLibrary.name.value}`);
-					const mockLibScalaJs = this.createMockLibScalaJs(
-						source,
-						tsLibrary,
-						scalaDeps,
-						logger,
-					);
-
-					console.log(`✅ [Phase2ToScalaJs] Successfully completed conversion of: ${tsLibrary.name.value}`);
-					logger.info(
-						`Successfully created mock LibScalaJs for ${tsLibrary.name.value}`,
-					);
-					return PhaseRes.Ok<LibTsSource, LibScalaJs>(mockLibScalaJs);
-				}),
-			);
-		} catch (error) {
-			const errorMessage =
-				error instanceof Error ? error.message : String(error);
-			console.error(`❌ [Phase2ToScalaJs] Failed to convert ${tsLibrary.name.value}: ${errorMessage}`);
-
-			logger.error(
-				`Failed to convert ${tsLibrary.name.value} to Scala.js: ${errorMessage}`,
-			);
-
-			return PhaseRes.Failure<LibTsSource, LibScalaJs>(
-				new Map([[source, right(`Phase2 processing failed: ${errorMessage}`)]]),
-			);
-		}
-	}
-
-	/**
-	 * Garbage collect libraries (dummy implementation)
-	 */
-	private garbageCollectLibs(
-		tsLibrary: LibTs,
-		logger: Logger<void>,
-	): SortedSet<LibTsSource> {
-		console.log(`🗑️  [Phase2ToScalaJs] Garbage collecting ${tsLibrary.dependencies.size} dependencies for ${tsLibrary.name.value}`);
-
-		logger.info(`Garbage collecting libraries for ${tsLibrary.name.value}`);
-
-		// DUMMY IMPLEMENTATION: Just return the dependencies as a set
-		const deps = new Set<LibTsSource>();
-		for (const [source, _lib] of tsLibrary.dependencies) {
-			console.log(`   📚 Adding dependency: ${source.libName.value}`);
-			deps.add(source);
-		}
-
-		console.log(`🔗 [Phase2ToScalaJs] Collected ${deps.size} dependencies for ${tsLibrary.name.value}`);
-		return new SortedSet(deps);
+		const {
+			pedantic,
+			outputPkg,
+			scalaVersion,
+			enableScalaJsDefined,
+			useDeprecatedModuleNames,
+			flavour,
+			maxUnionLength,
+		} = this._config;
+		const knownLibs = this.garbageCollectLibs(tsLibrary);
+
+		return map<LibTsSource, SortedMap<LibTsSource, LibScalaJs>, LibScalaJs>(
+			(scalaDeps) => {
+				const scalaName = ImportName.library(tsLibrary.name);
+
+				const scope = new TreeScope.Root(
+					outputPkg,
+					scalaName,
+					new Map(
+						Array.from(scalaDeps.values(), (l) => [
+							l.scalaName.unescaped,
+							l.packageTree,
+						]),
+					),
+					logger,
+					pedantic,
+				);
+
+				logger.warn(`Processing ${tsLibrary.name.value}`);
+
+				const cleanIllegalNames = new CleanIllegalNames(outputPkg);
+
+				// this has a cache inside
+				const erasure = () => new Erasure(scalaVersion);
+				const parentResolver = () => new ParentsResolver();
+
+				const scalaTransforms: Array<(tree: PackageTree) => PackageTree> = [
+					new CastConversion.TypeRewriterCast(
+						flavour.rewrites(),
+					).visitPackageTree(scope),
+					new RemoveDuplicateInheritance(parentResolver())
+						[">>"](cleanIllegalNames)
+						.visitPackageTree(scope),
+					Adapter(scope)((tree, s) =>
+						FakeLiterals.apply(outputPkg, s, cleanIllegalNames)(tree),
+					),
+					// after FakeLiterals
+					Adapter(scope)((tree, s) =>
+						UnionToInheritance.apply(s, tree, scalaName),
+					),
+					new LimitUnionLength(maxUnionLength).visitPackageTree(scope), // after UnionToInheritance
+					new RemoveMultipleInheritance(parentResolver()).visitPackageTree(
+						scope,
+					),
+					// must have stable types, so FakeLiterals run before
+					new CombineOverloads(erasure()).visitPackageTree(scope),
+					new FilterMemberOverrides(
+						erasure(),
+						parentResolver(),
+					).visitPackageTree(scope),
+					// runs in phase after FilterMemberOverrides
+					new InferMemberOverrides(
+						erasure(),
+						parentResolver(),
+					).visitPackageTree(scope),
+					// after FilterMemberOverrides
+					new CompleteClass(
+						erasure(),
+						parentResolver(),
+						scalaVersion,
+					).visitPackageTree(scope),
+				];
+
+				const depsNames = IArray.fromArray(
+					Array.from(scalaDeps.values()).map((l) => l.names),
+				);
+				const importName = AdaptiveNamingImport.apply(
+					outputPkg,
+					tsLibrary.name,
+					tsLibrary.parsed,
+					depsNames,
+					cleanIllegalNames.Illegal,
+					useDeprecatedModuleNames,
+				);
+
+				const importType = new ImportType(new StdNames(outputPkg));
+				const importTree = new ImportTree(
+					outputPkg,
+					importName,
+					importType,
+					cleanIllegalNames.Illegal,
+					new ImportExpr(importType, importName),
+					enableScalaJsDefined.apply(tsLibrary.name),
+					scalaVersion,
+				);
+
+				const scalaTree = importTree.apply(tsLibrary, logger);
+				const transformedScalaTree = scalaTransforms.reduce(
+					(acc, f) => f(acc),
+					scalaTree,
+				);
+
+				const dependencies = new Map<LibTsSource, LibScalaJs>();
+				scalaDeps.forEach((lib, source) => dependencies.set(source, lib));
+
+				return new LibScalaJs(
+					tsLibrary.source,
+					tsLibrary.name.__value.replace(/\./g, "_dot_"),
+					scalaName,
+					tsLibrary.version,
+					transformedScalaTree,
+					dependencies,
+					tsLibrary.parsed.isStdLib,
+					importName,
+				);
+			},
+		)(getDeps(knownLibs));
 	}
 
-	/**
-	 * Create a mock LibScalaJs for dummy implementation
-	 */
-	private createMockLibScalaJs(
-		source: LibTsSource,
-		tsLibrary: LibTs,
-		scalaDeps: SortedMap<LibTsSource, LibScalaJs>,
-		logger: Logger<void>,
-	): LibScalaJs {
-		console.log(`🏭 [Phase2ToScalaJs] Creating mock Scala.js library for ${tsLibrary.name.value}`);
-
-		logger.info(`Creating mock Scala.js library for ${tsLibrary.name.value}`);
-
-		// Create mock Scala name
-		const scalaName = new Name(tsLibrary.name.value.replace(/\./g, "_"));
-		console.log(`📝 [Phase2ToScalaJs] Generated Scala name: ${scalaName.value}`);
-
-		// Create mock package tree
-		const mockPackageTree = this.createMockPackageTree(scalaName, logger);
-
-		// Convert dependencies map
-		const dependencies = new Map<LibTsSource, LibScalaJs>();
-		scalaDeps.forEach((lib, source) => {
-			console.log(`🔗 [Phase2ToScalaJs] Adding dependency mapping: ${source.libName.value} -> ${lib.scalaName.value}`);
-			dependencies.set(source, lib);
-		});
-
-		console.log(`🎯 [Phase2ToScalaJs] Created LibScalaJs with ${dependencies.size} dependencies for ${tsLibrary.name.value}`);
-
-		return new LibScalaJs(
-			source,
-			tsLibrary.name.value.replace(/\./g, "_dot_"), // libName
-			scalaName, // scalaName
-			tsLibrary.version, // libVersion
-			mockPackageTree, // packageTree
-			dependencies, // dependencies
-			tsLibrary.parsed.isStdLib, // isStdLib
-			LibScalaJs.createMock(source).names, // names (mock)
+	private garbageCollectLibs(lib: LibTs): SortedSet<LibTsSource> {
+		const referenced = new Set(
+			TsTreeTraverse.collect(lib.parsed, (x) =>
+				TsIdent.isLibrary(x as TsIdent) ? (x as TsIdent).value : undefined,
+			).toArray(),
 		);
-	}
-
-	/**
-	 * Create a mock package tree
-	 */
-	private createMockPackageTree(
-		scalaName: Name,
-		logger: Logger<void>,
-	): PackageTree {
-		console.log(`🌳 [Phase2ToScalaJs] Creating mock package tree for ${scalaName.value}`);
-
-		logger.info(`Creating mock package tree for ${scalaName.value}`);
 
-		// DUMMY IMPLEMENTATION: In real implementation, this would involve complex AST transformations
-		const mockTree = PackageTree.createMock(scalaName);
-		console.log(`🌲 [Phase2ToScalaJs] Mock package tree created for ${scalaName.value}`);
-
-		return mockTree;
+		const all = Array.from(lib.transitiveDependencies.keys());
+		return new SortedSet(
+			all.filter((x) => referenced.has(x.libName.value)),
+			LibTsSource.compare,
+		);
 	}
 
 	/**
@@ -191,42 +214,11 @@ export class Phase2ToScalaJs {
 	}
 }
 
-/**
- * Companion object with utility methods
- */
 export namespace Phase2ToScalaJs {
 	/**
-	 * Create mock Scala transformations for dummy implementation
+	 * Names which cannot be used for members or packages in the generated code
 	 */
-	export function createMockScalaTransforms(
-		outputPkg: Name,
-		_scalaVersion: ScalaVersion,
-		logger: Logger<void>,
-	): ((tree: PackageTree) => PackageTree)[] {
-		logger.info(`Creating mock Scala transforms for ${outputPkg.value}`);
-
-		// DUMMY IMPLEMENTATION: Return identity transformations
-		return [
-			(tree: PackageTree) => {
-				logger.info("Mock transformation: CleanupTrivial");
-				return tree;
-			},
-			(tree: PackageTree) => {
-				logger.info("Mock transformation: ModulesCombine");
-				return tree;
-			},
-			(tree: PackageTree) => {
-				logger.info("Mock transformation: TypeRewriterCast");
-				return tree;
-			},
-			(tree: PackageTree) => {
-				logger.info("Mock transformation: RemoveDuplicateInheritance");
-				return tree;
-			},
-			(tree: PackageTree) => {
-				logger.info("Mock transformation: CombineOverloads");
-				return tree;
-			},
-		];
+	export function illegalNames(outputPkg: Name): ReadonlySet<string> {
+		return new CleanIllegalNames(outputPkg).Illegal;
 	}
 }
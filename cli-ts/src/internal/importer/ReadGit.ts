@@ -0,0 +1,302 @@
+/**
+ * Reads git metadata for a library straight from the `.git` directory, so no `git` executable is needed.
+ *
+ * Only what `InGit` needs is supported: the `origin` remote, the commit `HEAD` points to,
+ * and its commit date, read from a loose object or an undeltified entry of a pack file.
+ * When the commit can't be read the date is left out, it must not depend on when the
+ * repository was checked out.
+ *
+ * Only checkouts containing the library are considered, so the walk up stops at `node_modules`:
+ * an installed package must not pick up the repository of the project depending on it.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { constants, inflateSync } from "node:zlib";
+import { pipe } from "fp-ts/function";
+import type { Option } from "fp-ts/Option";
+import * as O from "fp-ts/Option";
+import type { InFolder } from "../files";
+import { InGit } from "../LibraryVersion";
+
+const DefinitelyTyped = "DefinitelyTyped/DefinitelyTyped";
+
+/**
+ * Where the repository state lives. For linked worktrees `HEAD` is private to `gitDir`,
+ * while refs, objects and config are shared through `commonDir`
+ */
+export interface GitDirs {
+	readonly gitDir: string;
+	readonly commonDir: string;
+}
+
+const readFile = (file: string): Option<string> =>
+	fs.existsSync(file) && fs.statSync(file).isFile()
+		? O.some(fs.readFileSync(file, "utf8"))
+		: O.none;
+
+export namespace ReadGit {
+	/**
+	 * Git information for the repository containing `folder`, if any
+	 */
+	export function inGit(folder: InFolder): Option<InGit> {
+		return pipe(
+			findGitDirs(folder.path),
+			O.flatMap((dirs) =>
+				pipe(
+					remoteUrl(dirs),
+					O.flatMap((repo) =>
+						pipe(
+							resolveHead(dirs),
+							O.map(
+								(head) =>
+									new InGit(
+										repo,
+										repo.pathname.includes(DefinitelyTyped),
+										commitDate(dirs, head.sha),
+									),
+							),
+						),
+					),
+				),
+			),
+		);
+	}
+
+	/**
+	 * Walks up from `start` until it finds a `.git` directory, or a `.git` file pointing to one.
+	 * Gives up at `node_modules`, what is above belongs to the project installing the library
+	 */
+	export function findGitDirs(start: string): Option<GitDirs> {
+		let current = path.resolve(start);
+		while (true) {
+			if (path.basename(current) === "node_modules") return O.none;
+			const dotGit = path.join(current, ".git");
+			if (fs.existsSync(dotGit)) {
+				const gitDir = fs.statSync(dotGit).isDirectory()
+					? O.some(dotGit)
+					: pipe(
+							readFile(dotGit),
+							O.flatMap((content) =>
+								O.fromNullable(/^gitdir:\s*(.+)$/m.exec(content)?.[1]),
+							),
+							O.map((dir) => path.resolve(current, dir.trim())),
+						);
+
+				return pipe(
+					gitDir,
+					O.map((gitDir) => ({
+						gitDir,
+						commonDir: pipe(
+							readFile(path.join(gitDir, "commondir")),
+							O.map((dir) => path.resolve(gitDir, dir.trim())),
+							O.getOrElse(() => gitDir),
+						),
+					})),
+				);
+			}
+			const parent = path.dirname(current);
+			if (parent === current) return O.none;
+			current = parent;
+		}
+	}
+
+	/**
+	 * The url of the `origin` remote. scp-like urls (`git@host:owner/repo.git`) are rewritten to https
+	 */
+	export function remoteUrl(dirs: GitDirs): Option<URL> {
+		return pipe(
+			readFile(path.join(dirs.commonDir, "config")),
+			O.flatMap((config) => {
+				let inOrigin = false;
+				for (const line of config.split(/\r?\n/)) {
+					const section = /^\s*\[(.+)\]\s*$/.exec(line);
+					if (section) {
+						inOrigin = /^remote\s+"origin"$/.test(section[1].trim());
+					} else if (inOrigin) {
+						const url = /^\s*url\s*=\s*(.+?)\s*$/.exec(line);
+						if (url) return O.some(url[1]);
+					}
+				}
+				return O.none;
+			}),
+			O.flatMap(parseUrl),
+		);
+	}
+
+	/**
+	 * The commit `HEAD` points to, along with the file it was read from
+	 */
+	export function resolveHead(
+		dirs: GitDirs,
+	): Option<{ readonly sha: string; readonly file: string }> {
+		const headFile = path.join(dirs.gitDir, "HEAD");
+		return pipe(
+			readFile(headFile),
+			O.flatMap((content) => {
+				const ref = /^ref:\s*(.+)$/.exec(content.trim());
+				return ref
+					? resolveRef(dirs, ref[1].trim())
+					: O.some({ sha: content.trim(), file: headFile });
+			}),
+		);
+	}
+
+	/**
+	 * The commit date of a commit stored as a loose object, or in a pack file
+	 */
+	export function commitDate(dirs: GitDirs, sha: string): Option<Date> {
+		return pipe(
+			looseObject(dirs, sha),
+			O.alt(() => packedCommit(dirs, sha)),
+			O.flatMap((commit) => {
+				const committer = /^committer .* (\d+) [+-]\d{4}$/m.exec(commit);
+				return committer
+					? O.some(new Date(Number(committer[1]) * 1000))
+					: O.none;
+			}),
+		);
+	}
+}
+
+const looseObject = (dirs: GitDirs, sha: string): Option<string> => {
+	const objectFile = path.join(
+		dirs.commonDir,
+		"objects",
+		sha.slice(0, 2),
+		sha.slice(2),
+	);
+	if (!fs.existsSync(objectFile)) return O.none;
+
+	try {
+		return O.some(inflateSync(fs.readFileSync(objectFile)).toString("utf8"));
+	} catch {
+		return O.none;
+	}
+};
+
+/* pack object type of commits, deltified entries are not supported */
+const PackCommit = 1;
+
+/**
+ * Finds `sha` in the version 2 pack indices and inflates the commit from the pack next to the index
+ */
+const packedCommit = (dirs: GitDirs, sha: string): Option<string> => {
+	const packDir = path.join(dirs.commonDir, "objects", "pack");
+	if (!/^[0-9a-f]{40}$/.test(sha) || !fs.existsSync(packDir)) return O.none;
+
+	for (const idxName of fs
+		.readdirSync(packDir)
+		.filter((f) => f.endsWith(".idx"))) {
+		try {
+			const found = packOffset(
+				fs.readFileSync(path.join(packDir, idxName)),
+				sha,
+			);
+			if (O.isSome(found)) {
+				return readPackedCommit(
+					path.join(packDir, idxName.replace(/\.idx$/, ".pack")),
+					found.value,
+				);
+			}
+		} catch {
+			/* a broken pack only costs us the date */
+		}
+	}
+	return O.none;
+};
+
+const packOffset = (idx: Buffer, sha: string): Option<number> => {
+	if (idx.readUInt32BE(0) !== 0xff744f63 || idx.readUInt32BE(4) !== 2) {
+		return O.none;
+	}
+	const fanout = 8;
+	const first = Number.parseInt(sha.slice(0, 2), 16);
+	const from = first === 0 ? 0 : idx.readUInt32BE(fanout + (first - 1) * 4);
+	const until = idx.readUInt32BE(fanout + first * 4);
+	const count = idx.readUInt32BE(fanout + 255 * 4);
+
+	const shas = fanout + 256 * 4;
+	const offsets = shas + count * 20 + count * 4;
+	const largeOffsets = offsets + count * 4;
+	const wanted = Buffer.from(sha, "hex");
+
+	for (let i = from; i < until; i++) {
+		if (wanted.compare(idx, shas + i * 20, shas + (i + 1) * 20) === 0) {
+			const offset = idx.readUInt32BE(offsets + i * 4);
+			return O.some(
+				offset & 0x80000000
+					? Number(
+							idx.readBigUInt64BE(largeOffsets + (offset & 0x7fffffff) * 8),
+						)
+					: offset,
+			);
+		}
+	}
+	return O.none;
+};
+
+const readPackedCommit = (packFile: string, offset: number): Option<string> => {
+	const fd = fs.openSync(packFile, "r");
+	try {
+		const header = Buffer.alloc(16);
+		fs.readSync(fd, header, 0, header.length, offset);
+
+		const type = (header[0] >> 4) & 7;
+		let size = header[0] & 0x0f;
+		let pos = 0;
+		for (let shift = 4; header[pos] & 0x80; shift += 7) {
+			pos += 1;
+			size += (header[pos] & 0x7f) * 2 ** shift;
+		}
+		if (type !== PackCommit) return O.none;
+
+		/* deflate only grows tiny inputs, and only by a few bytes */
+		const data = Buffer.alloc(size + 1024);
+		const read = fs.readSync(fd, data, 0, data.length, offset + pos + 1);
+		return O.some(
+			inflateSync(data.subarray(0, read), {
+				finishFlush: constants.Z_SYNC_FLUSH,
+			}).toString("utf8"),
+		);
+	} finally {
+		fs.closeSync(fd);
+	}
+};
+
+const resolveRef = (
+	dirs: GitDirs,
+	ref: string,
+): Option<{ readonly sha: string; readonly file: string }> => {
+	for (const dir of [dirs.gitDir, dirs.commonDir]) {
+		const file = path.join(dir, ref);
+		const loose = readFile(file);
+		if (O.isSome(loose)) return O.some({ sha: loose.value.trim(), file });
+	}
+
+	const packedRefs = path.join(dirs.commonDir, "packed-refs");
+	return pipe(
+		readFile(packedRefs),
+		O.flatMap((content) =>
+			O.fromNullable(
+				content
+					.split(/\r?\n/)
+					.map((line) => line.split(" "))
+					.find(([sha, name]) => name === ref && /^[0-9a-f]{40}$/.test(sha)),
+			),
+		),
+		O.map(([sha]) => ({ sha, file: packedRefs })),
+	);
+};
+
+const parseUrl = (url: string): Option<URL> => {
+	const scpLike = /^[\w.-]+@([\w.-]+):(.+)$/.exec(url);
+	const normalized = (
+		scpLike ? `https://${scpLike[1]}/${scpLike[2]}` : url
+	).replace(/\.git$/, "");
+	try {
+		return O.some(new URL(normalized));
+	} catch {
+		return O.none;
+	}
+};
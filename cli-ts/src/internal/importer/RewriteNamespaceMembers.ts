@@ -52,22 +52,22 @@ export const RewriteNamespaceMembers = {
 		// Use partitionCollect4 to separate different types of namespaced elements
 		const [namespacedFields, namespacedMethods, namespacedContainers, memberTrees, remaining] =
 			original.partitionCollect4(
-				// Namespaced fields: FieldTree with name === Name.namespaced
+				// Namespaced fields: FieldTree named Name.namespaced
 				partialFunction(
 					(x: Tree): x is FieldTree =>
-						isFieldTree(x) && x.name === Name.namespaced,
+						isFieldTree(x) && x.name.equals(Name.namespaced),
 					(x: Tree) => x as FieldTree,
 				),
-				// Namespaced methods: MethodTree with name === Name.namespaced
+				// Namespaced methods: MethodTree named Name.namespaced
 				partialFunction(
 					(x: Tree): x is MethodTree =>
-						isMethodTree(x) && x.name === Name.namespaced,
+						isMethodTree(x) && x.name.equals(Name.namespaced),
 					(x: Tree) => x as MethodTree,
 				),
-				// Namespaced containers: ContainerTree with name === Name.namespaced
+				// Namespaced containers: ContainerTree named Name.namespaced
 				partialFunction(
 					(x: Tree): x is ContainerTree =>
-						isContainerTree(x) && x.name === Name.namespaced,
+						isContainerTree(x) && x.name.equals(Name.namespaced),
 					(x: Tree) => x as ContainerTree,
 				),
 				// Regular member trees: any MemberTree
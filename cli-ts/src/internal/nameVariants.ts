@@ -0,0 +1,93 @@
+/**
+ * TypeScript port of org.scalablytyped.converter.internal.nameVariants
+ *
+ * Generates increasingly less cleaned up variants of a name, used when we need to find a name which doesn't collide
+ */
+
+export type NameVariant =
+	| { readonly _tag: "Clean" }
+	| { readonly _tag: "KeepSymbolNum"; readonly n: number }
+	| { readonly _tag: "Unchanged" };
+
+const Clean: NameVariant = { _tag: "Clean" };
+const Unchanged: NameVariant = { _tag: "Unchanged" };
+const KeepSymbolNum = (n: number): NameVariant => ({
+	_tag: "KeepSymbolNum",
+	n,
+});
+
+/* you would be surprised what shows up */
+const WordBoundary = new Set([
+	".",
+	",",
+	":",
+	";",
+	"?",
+	"!",
+	" ",
+	"\t",
+	"\n",
+	"-",
+	"_",
+	"/",
+]);
+
+const isLetterOrDigit = (c: string): boolean => /[\p{L}\p{Nd}]/u.test(c);
+const isUpper = (c: string): boolean => /\p{Lu}/u.test(c);
+const isDigit = (c: string): boolean => /\p{Nd}/u.test(c);
+
+export function nameVariants(value: string): string[] {
+	const chars = Array.from(value);
+	if (chars.every((c) => isUpper(c) || c === "_" || isDigit(c))) {
+		return [value];
+	}
+
+	const numSymbols = chars.filter((c) => !isLetterOrDigit(c)).length;
+	const variants: NameVariant[] =
+		numSymbols === 0
+			? [Unchanged]
+			: numSymbols === 1
+				? [Clean, Unchanged]
+				: [
+						Clean,
+						...Array.from({ length: numSymbols + 1 }, (_, n) =>
+							KeepSymbolNum(n),
+						),
+						Unchanged,
+					];
+
+	return variants.map(nameVariants.rewrite(value));
+}
+
+export namespace nameVariants {
+	export function rewrite(value: string): (variant: NameVariant) => string {
+		const keepSymbolNum = (n: number): string => {
+			let sb = "";
+			let s = 0;
+			let wasWordBoundary = false;
+			for (const c of Array.from(value)) {
+				if (isLetterOrDigit(c)) {
+					sb += wasWordBoundary && sb.length > 0 ? c.toUpperCase() : c;
+				} else {
+					if (n === s) {
+						sb += c;
+					}
+					s += 1;
+				}
+				wasWordBoundary = WordBoundary.has(c);
+			}
+			return sb;
+		};
+
+		return (variant) => {
+			switch (variant._tag) {
+				case "Unchanged":
+					return value;
+				case "Clean":
+					return keepSymbolNum(-1); // remove all symbols
+				case "KeepSymbolNum":
+					return keepSymbolNum(variant.n);
+			}
+		};
+	}
+}
@@ -0,0 +1,148 @@
+/**
+ * TypeScript port of org.scalablytyped.converter.internal.scalajs.CastConversion
+ *
+ * A mapping from one javascript type to another.
+ */
+
+import { Comments } from "../Comments.js";
+import { IArray } from "../IArray.js";
+import { FollowAliases } from "./FollowAliases.js";
+import { Name } from "./Name.js";
+import type { QualifiedName } from "./QualifiedName.js";
+import { isInheritanceTree, isTypeRef, TypeRef } from "./Tree.js";
+import type { TreeScope } from "./TreeScope.js";
+import { TreeTransformation } from "./TreeTransformation.js";
+
+/**
+ * @param from typically from ScalablyTyped
+ * @param to typically from the library you want to convert into
+ * @param tparams Since the set of type parameters might differ you can pick among the provided type arguments in the `from` type
+ */
+export interface CastConversion {
+	readonly from: QualifiedName;
+	readonly to: QualifiedName;
+	readonly tparams: IArray<CastConversion.TParam>;
+}
+
+export namespace CastConversion {
+	export type TParam =
+		/* pick the first type argument */
+		| { readonly _tag: "_1" }
+		/* pick the second type argument */
+		| { readonly _tag: "_2" }
+		/* I'm sure you get the point */
+		| { readonly _tag: "_3" }
+		/* default to a given type */
+		| { readonly _tag: "Ref"; readonly typeRef: TypeRef }
+		/* If we need to adhere to a type bound which isn't (directly) in Typescript */
+		| {
+				readonly _tag: "Constrained";
+				readonly outer: TParam;
+				readonly among: IArray<QualifiedName>;
+				readonly default: QualifiedName;
+		  };
+
+	export const TParam = {
+		_1: { _tag: "_1" } as TParam,
+		_2: { _tag: "_2" } as TParam,
+		_3: { _tag: "_3" } as TParam,
+		Ref: (typeRef: TypeRef): TParam => ({ _tag: "Ref", typeRef }),
+
+		among: (
+			outer: TParam,
+			among: IArray<QualifiedName>,
+			default_: QualifiedName,
+		): TParam => ({ _tag: "Constrained", outer, among, default: default_ }),
+
+		eval: (tparam: TParam, provided: IArray<TypeRef>): TypeRef => {
+			switch (tparam._tag) {
+				case "_1":
+					return provided.applyOrElse(0, () => TypeRef.Any);
+				case "_2":
+					return provided.applyOrElse(1, () => TypeRef.Any);
+				case "_3":
+					return provided.applyOrElse(2, () => TypeRef.Any);
+				case "Ref":
+					return tparam.typeRef;
+				case "Constrained": {
+					const tr = TParam.eval(tparam.outer, provided);
+					return tparam.among.exists((qn) => qn.equals(tr.typeName))
+						? tr
+						: TypeRef.Intersection(
+								IArray.apply(tr, TypeRef.create(tparam.default)),
+								Comments.empty(),
+							);
+				}
+			}
+		},
+	};
+
+	export function apply(
+		from: QualifiedName,
+		to: QualifiedName,
+		...tparams: TParam[]
+	): CastConversion {
+		return { from, to, tparams: IArray.fromArray(tparams) };
+	}
+
+	/**
+	 * Rewrites references to the `from` types into the `to` types, except in inheritance clauses
+	 */
+	export class TypeRewriterCast extends TreeTransformation {
+		private readonly conversionsForTypeName: Map<string, CastConversion>;
+
+		constructor(conversions: IArray<CastConversion>) {
+			super();
+			this.conversionsForTypeName = new Map(
+				conversions.toArray().map((c) => [c.from.value, c]),
+			);
+		}
+
+		private maybeRewrite(
+			original: TypeRef,
+			scope: TreeScope,
+		): TypeRef | undefined {
+			const conversion = this.conversionsForTypeName.get(
+				original.typeName.value,
+			);
+			if (conversion === undefined) return undefined;
+			const targs = conversion.tparams.map((tp) =>
+				this.visitTypeRef(scope)(TParam.eval(tp, original.targs)),
+			);
+			return TypeRef.create(conversion.to, targs, original.comments);
+		}
+
+		private isInheritanceClause(scope: TreeScope): boolean {
+			const [first, second, third] = scope.stack;
+			if (first === undefined || !isTypeRef(first) || second === undefined) {
+				return false;
+			}
+			if (isInheritanceTree(second)) return true;
+			return (
+				isTypeRef(second) &&
+				[...Name.Internal].some((n) => n.equals(second.name)) &&
+				third !== undefined &&
+				isInheritanceTree(third)
+			);
+		}
+
+		leaveTypeRef(scope: TreeScope): (s: TypeRef) => TypeRef {
+			return (original) => {
+				if (this.isInheritanceClause(scope)) return original;
+
+				const rewritten =
+					this.maybeRewrite(original, scope) ??
+					this.maybeRewrite(FollowAliases.apply(scope)(original), scope);
+				if (rewritten) return rewritten;
+
+				const intersection = TypeRef.Intersection.unapply(original);
+				if (intersection) {
+					return TypeRef.Intersection(intersection[0], intersection[1]);
+				}
+				const union = TypeRef.Union.unapply(original);
+				if (union) return TypeRef.Union(union[0], union[1], false);
+				return original;
+			};
+		}
+	}
+}
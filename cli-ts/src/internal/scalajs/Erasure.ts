@@ -0,0 +1,249 @@
+/**
+ * TypeScript port of org.scalablytyped.converter.internal.scalajs.Erasure
+ *
+ * Computes what the JVM (and therefore Scala.js) sees of a method signature after erasure
+ */
+
+import { WasLiteral } from "../Comment.js";
+import { Comments } from "../Comments.js";
+import { IArray, type Ordering } from "../IArray.js";
+import type { ScalaVersion } from "../importer/ConversionOptions.js";
+import { FillInTParams } from "./FillInTParams.js";
+import type { Name } from "./Name.js";
+import { QualifiedName } from "./QualifiedName.js";
+import {
+	ClassType,
+	isClassTree,
+	isNative,
+	isTypeAliasTree,
+	type MethodTree,
+	TypeRef,
+} from "./Tree.js";
+import type { TreeScope } from "./TreeScope.js";
+
+export class MethodErasure {
+	constructor(
+		readonly name: Name,
+		readonly params: IArray<QualifiedName>,
+		readonly ret: QualifiedName,
+	) {}
+
+	get key(): string {
+		return `${this.name.unescaped}(${this.params.map((p) => p.value).mkString("", ",", "")}):${this.ret.value}`;
+	}
+
+	equals(other: MethodErasure): boolean {
+		return this.key === other.key;
+	}
+}
+
+export class MethodBase {
+	constructor(
+		readonly name: Name,
+		readonly params: IArray<QualifiedName>,
+	) {}
+
+	get key(): string {
+		return `${this.name.unescaped}(${this.params.map((p) => p.value).mkString("", ",", "")})`;
+	}
+
+	equals(other: MethodBase): boolean {
+		return this.key === other.key;
+	}
+}
+
+const ByName: Ordering<QualifiedName> = {
+	compare: (x, y) => {
+		const len = Math.min(x.parts.length, y.parts.length);
+		for (let i = 0; i < len; i++) {
+			const a = x.parts.apply(i).unescaped;
+			const b = y.parts.apply(i).unescaped;
+			if (a !== b) return a < b ? -1 : 1;
+		}
+		return x.parts.length - y.parts.length;
+	},
+};
+
+const intersectNames = (
+	one: IArray<QualifiedName>,
+	two: IArray<QualifiedName>,
+): IArray<QualifiedName> => {
+	const inTwo = new Set(two.map((qn) => qn.value).toArray());
+	return one.filter((qn) => inTwo.has(qn.value));
+};
+
+/**
+ * Note, this requires that the method tree has already filled in type params for containing context!
+ */
+export class Erasure {
+	constructor(private readonly scalaVersion: ScalaVersion) {}
+
+	base(scope: TreeScope): (s: MethodTree) => MethodBase {
+		return (s) => {
+			const newScope = scope["/"](s);
+			return new MethodBase(
+				s.name,
+				s.params.flatten().map((param) => this.simplify(newScope, param.tpe)),
+			);
+		};
+	}
+
+	erasure(scope: TreeScope): (s: MethodTree) => MethodErasure {
+		return (s) => {
+			const newScope = scope["/"](s);
+			return new MethodErasure(
+				s.name,
+				s.params.flatten().map((param) => this.simplify(newScope, param.tpe)),
+				this.simplify(newScope, s.resultType),
+			);
+		};
+	}
+
+	private simplify(scope: TreeScope, tpe: TypeRef): QualifiedName {
+		const is3 = this.scalaVersion.is3;
+		const typeName = tpe.typeName;
+
+		if (typeName.equals(QualifiedName.AnyVal)) return QualifiedName.Any;
+		if (typeName.equals(QualifiedName.AnyRef)) return QualifiedName.Any;
+		if (typeName.equals(QualifiedName.UNDEFINED)) {
+			return is3 ? QualifiedName.Unit : QualifiedName.Union;
+		}
+		if (typeName.equals(QualifiedName.WILDCARD)) return QualifiedName.Any;
+		if (typeName.equals(QualifiedName.JsUndefOr)) {
+			return is3
+				? this.simplify(
+						scope,
+						TypeRef.Union(
+							tpe.targs.append(TypeRef.Unit),
+							Comments.empty(),
+							false,
+						),
+					)
+				: QualifiedName.Union;
+		}
+		if (typeName.equals(QualifiedName.UNION)) {
+			if (!is3) return QualifiedName.Union;
+
+			// `Null` seems to be disregarded when in a union type
+			const targs =
+				tpe.targs.length > 1
+					? tpe.targs.filter((t) => !TypeRef.equals(t, TypeRef.Null))
+					: tpe.targs;
+
+			// we don't really use scala arrays, so let's just go with a too broad erasure for that
+			if (targs.exists((t) => t.typeName.equals(QualifiedName.Array))) {
+				return QualifiedName.Any;
+			}
+
+			return (
+				targs.map((t) => this.typeLattice(scope, t)).reduce(intersectNames)
+					.lastOption ?? QualifiedName.Any
+			);
+		}
+		if (typeName.equals(QualifiedName.THIS)) {
+			const cls = scope.stack.find(isClassTree);
+			return cls ? cls.codePath : QualifiedName.THIS;
+		}
+		if (typeName.equals(QualifiedName.REPEATED)) return QualifiedName.Array;
+
+		// the way we fake literal means these are true enough
+		if (TypeRef.isLiteral(typeName)) return tpe.targs.head.typeName;
+
+		if (typeName.equals(QualifiedName.INTERSECTION)) {
+			return is3
+				? this.simplifyIntersection3(scope, tpe)
+				: this.simplifyIntersection2(scope, tpe);
+		}
+
+		// if this is a type parameter
+		if (
+			typeName.parts.length === 1 &&
+			scope.tparams.has(typeName.parts.head.unescaped)
+		) {
+			return QualifiedName.Any;
+		}
+
+		// if run after FakeSingletons
+		if (typeName.parts.length > 2 && tpe.comments.has(WasLiteral)) {
+			return typeName;
+		}
+
+		for (const [found] of scope.lookup(typeName).toArray()) {
+			if (isTypeAliasTree(found)) {
+				if (found.alias.typeName.equals(typeName)) return QualifiedName.Any;
+				const newTa = FillInTParams.typeAlias(
+					found,
+					scope,
+					tpe.targs,
+					IArray.Empty,
+				);
+				return this.simplify(scope["/"](newTa), newTa.alias);
+			}
+			if (isClassTree(found)) return found.codePath;
+		}
+		return typeName;
+	}
+
+	private simplifyIntersection3(scope: TreeScope, tpe: TypeRef): QualifiedName {
+		// this is not in the spec, but for instance `foo(String & Double)` clashes with `foo(Double)` regardless of order, etc
+		const fromPrimitive = tpe.targs.find(TypeRef.isPrimitive)?.typeName;
+		if (fromPrimitive) return fromPrimitive;
+
+		const fromClass = tpe.targs.firstDefined((t) => {
+			for (const [found] of scope.lookup(this.simplify(scope, t)).toArray()) {
+				if (isClassTree(found) && found.classType === ClassType.Class) {
+					return found.codePath;
+				}
+			}
+			return undefined;
+		});
+		if (fromClass) return fromClass;
+
+		return tpe.targs.map((targ) => this.simplify(scope, targ)).min(ByName);
+	}
+
+	/* approximate intersections. scalac seems to use the first type, unless that is a supertype of a later mentioned type */
+	private simplifyIntersection2(scope: TreeScope, tpe: TypeRef): QualifiedName {
+		const isPrimitive = tpe.targs.find(
+			(tr) =>
+				TypeRef.equals(tr, TypeRef.String) ||
+				TypeRef.equals(tr, TypeRef.Boolean) ||
+				TypeRef.equals(tr, TypeRef.Double),
+		);
+		if (isPrimitive) return isPrimitive.typeName;
+
+		return (
+			tpe.targs
+				.map((t) => this.typeLattice(scope, t))
+				.foldLeft<IArray<QualifiedName>>(IArray.Empty, (nonEmpty, lattice) => {
+					const latticeSet = new Set(lattice.map((qn) => qn.value).toArray());
+					const other = nonEmpty.filter((qn) => !latticeSet.has(qn.value));
+					return other.isEmpty ? lattice : other;
+				}).headOption ?? QualifiedName.Any
+		);
+	}
+
+	// The erased type for A | B is the erased least upper bound of the erased types of A and B. Quoting from the documentation of TypeErasure#erasedLub
+	private typeLattice(
+		scope: TreeScope,
+		current: TypeRef,
+	): IArray<QualifiedName> {
+		for (const [found, newScope] of scope
+			.lookup(this.simplify(scope, current))
+			.toArray()) {
+			if (isClassTree(found)) {
+				// this is an ST specific hack. the printer still adds `StObject` parent for native parents :/
+				if (found.parents.isEmpty && isNative(found)) {
+					return this.typeLattice(
+						scope,
+						TypeRef.create(QualifiedName.StObject),
+					).append(found.codePath);
+				}
+				return found.parents
+					.flatMap((p) => this.typeLattice(newScope, p))
+					.append(found.codePath);
+			}
+		}
+		return IArray.Empty;
+	}
+}
@@ -0,0 +1,86 @@
+/**
+ * TypeScript port of org.scalablytyped.converter.internal.scalajs.FillInTParams
+ *
+ * Replaces the type parameters of a class, type alias or method with the provided type arguments
+ */
+
+import { WasUnion } from "../Comment.js";
+import type { IArray } from "../IArray.js";
+import {
+	type ClassTree,
+	type MethodTree,
+	type TypeAliasTree,
+	type TypeParamTree,
+	TypeRef,
+} from "./Tree.js";
+import type { TreeScope } from "./TreeScope.js";
+import { TypeRewriter } from "./TypeRewriter.js";
+
+const rewrites = (
+	expectedTParams: IArray<TypeParamTree>,
+	providedTParams: IArray<TypeRef>,
+): IArray<[TypeRef, TypeRef]> =>
+	expectedTParams
+		.zip(providedTParams)
+		.map(([expected, provided]) => [TypeRef.fromName(expected.name), provided]);
+
+export const FillInTParams = {
+	classTree: (
+		cls: ClassTree,
+		scope: TreeScope,
+		providedTParams: IArray<TypeRef>,
+		newTParams: IArray<TypeParamTree>,
+	): ClassTree => {
+		if (providedTParams.isEmpty) return cls;
+
+		const rewriter = new TypeRewriter(rewrites(cls.tparams, providedTParams));
+		const newCls = rewriter.visitClassTree(scope)(cls);
+
+		// the types a union was rewritten from are part of the class as far as we are concerned
+		const wasUnion = newCls.comments.extract((marker) => {
+			if (marker instanceof WasUnion) return marker.related;
+			throw new Error("Not a WasUnion marker");
+		});
+		const withComments: ClassTree =
+			wasUnion._tag === "Some"
+				? {
+						...newCls,
+						comments: wasUnion.value[1].add(
+							new WasUnion(wasUnion.value[0].map(rewriter.visitTypeRef(scope))),
+						),
+					}
+				: newCls;
+
+		return { ...withComments, tparams: newTParams };
+	},
+
+	typeAlias: (
+		x: TypeAliasTree,
+		scope: TreeScope,
+		providedTParams: IArray<TypeRef>,
+		newTParams: IArray<TypeParamTree>,
+	): TypeAliasTree =>
+		providedTParams.isEmpty
+			? x
+			: {
+					...new TypeRewriter(
+						rewrites(x.tparams, providedTParams),
+					).visitTypeAliasTree(scope)(x),
+					tparams: newTParams,
+				},
+
+	method: (
+		x: MethodTree,
+		scope: TreeScope,
+		providedTParams: IArray<TypeRef>,
+		newTParams: IArray<TypeParamTree>,
+	): MethodTree =>
+		providedTParams.isEmpty
+			? x
+			: {
+					...new TypeRewriter(
+						rewrites(x.tparams, providedTParams),
+					).visitMethodTree(scope)(x),
+					tparams: newTParams,
+				},
+};
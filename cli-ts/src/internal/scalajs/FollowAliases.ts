@@ -0,0 +1,82 @@
+/**
+ * TypeScript port of org.scalablytyped.converter.internal.scalajs.FollowAliases
+ *
+ * Resolves type aliases, and classes which were rewritten from union types, to what they stand for
+ */
+
+import { WasUnion } from "../Comment.js";
+import { Comments } from "../Comments.js";
+import { IArray } from "../IArray.js";
+import { FillInTParams } from "./FillInTParams.js";
+import {
+	type ClassTree,
+	isClassTree,
+	isTypeAliasTree,
+	isTypeRef,
+	TypeRef,
+} from "./Tree.js";
+import type { TreeScope } from "./TreeScope.js";
+
+export const FollowAliases = {
+	apply:
+		(scope: TreeScope) =>
+		(tpe: TypeRef): TypeRef => {
+			const topLevel = TypeRef.TopLevel.unapply(tpe);
+			if (topLevel) return FollowAliases.apply(scope)(topLevel);
+
+			const union = TypeRef.Union.unapply(tpe);
+			if (union) {
+				return TypeRef.Union(
+					union[0].map(FollowAliases.apply(scope)),
+					union[1],
+					false,
+				);
+			}
+
+			const intersection = TypeRef.Intersection.unapply(tpe);
+			if (intersection) {
+				return TypeRef.Intersection(
+					intersection[0].map(FollowAliases.apply(scope)),
+					intersection[1],
+				);
+			}
+
+			if (scope.isAbstract(tpe)) return tpe;
+
+			const outer = scope.stack[1];
+			if (outer && isTypeRef(outer) && TypeRef.isLiteral(outer.typeName)) {
+				return tpe;
+			}
+
+			for (const [found] of scope.lookup(tpe.typeName).toArray()) {
+				if (isTypeAliasTree(found)) {
+					const ta = FillInTParams.typeAlias(
+						found,
+						scope,
+						tpe.targs,
+						IArray.Empty,
+					);
+					return FollowAliases.apply(scope["/"](ta))(ta.alias);
+				}
+				if (isClassTree(found) && found.comments.has(WasUnion)) {
+					const cls = FillInTParams.classTree(
+						found,
+						scope,
+						tpe.targs,
+						IArray.Empty,
+					);
+					const types = wasUnionTypes(cls);
+					return types ? TypeRef.Union(types, Comments.empty(), true) : tpe;
+				}
+			}
+			return tpe;
+		},
+};
+
+const wasUnionTypes = (cls: ClassTree): IArray<TypeRef> | undefined => {
+	const extracted = cls.comments.extract((marker) => {
+		if (marker instanceof WasUnion) return marker.related;
+		throw new Error("Not a WasUnion marker");
+	});
+	return extracted._tag === "Some" ? extracted.value[0] : undefined;
+};
@@ -0,0 +1,193 @@
+/**
+ * TypeScript port of org.scalablytyped.converter.internal.scalajs.Minimization
+ *
+ * Large libraries like `std` or `node` are mostly unused. We compute which declarations are reachable from
+ * the libraries we keep in full, and drop everything else from the libraries we minimize.
+ */
+
+import { MinimizationKeep, MinimizationRelated } from "../Comment.js";
+import { Comments } from "../Comments.js";
+import { IArray } from "../IArray.js";
+import type { Logger } from "../logging/index.js";
+import { QualifiedName } from "./QualifiedName.js";
+import type {
+	HasCodePath,
+	ModuleTree,
+	PackageTree,
+	Tree,
+	TypeRef,
+} from "./Tree.js";
+import type { TreeScope } from "./TreeScope.js";
+import { TreeTransformation } from "./TreeTransformation.js";
+import { TreeTraverse } from "./TreeTraverse.js";
+
+/* some refs we only keep when they refer to objects/packages */
+type OnlyStatic = boolean;
+
+/**
+ * Everything we keep, keyed by `QualifiedName.value`
+ */
+export type KeepIndex = Map<string, OnlyStatic>;
+
+function isTypeRef(a: object): a is TypeRef {
+	return (a as Tree)._tag === "TypeRef";
+}
+
+function hasCodePath(a: object): a is Tree & HasCodePath {
+	return (
+		typeof (a as Tree)._tag === "string" &&
+		(a as Partial<HasCodePath>).codePath instanceof QualifiedName
+	);
+}
+
+function minimizationRelated(comments: Comments): IArray<TypeRef> | undefined {
+	const extracted = comments.extract((marker) => {
+		if (marker instanceof MinimizationRelated) return marker.related;
+		throw new Error("Not a MinimizationRelated marker");
+	});
+	return extracted._tag === "Some" ? extracted.value[0] : undefined;
+}
+
+function minimizationKeep(comments: Comments): IArray<TypeRef> | undefined {
+	const extracted = comments.extract((marker) => {
+		if (marker instanceof MinimizationKeep) return marker.related;
+		throw new Error("Not a MinimizationKeep marker");
+	});
+	return extracted._tag === "Some" ? extracted.value[0] : undefined;
+}
+
+class FilteringTransformation extends TreeTransformation {
+	constructor(private readonly keep: KeepIndex) {
+		super();
+	}
+
+	leaveModuleTree(_scope: TreeScope): (s: ModuleTree) => ModuleTree {
+		return (s) =>
+			s.comments.has(MinimizationKeep)
+				? s
+				: {
+						...s,
+						parents: s.parents.filter((tr) => this.keep.has(tr.typeName.value)),
+						members: this.filterMembers(s.members),
+					};
+	}
+
+	leavePackageTree(_scope: TreeScope): (s: PackageTree) => PackageTree {
+		return (s) => ({ ...s, members: this.filterMembers(s.members) });
+	}
+
+	private filterMembers(members: IArray<Tree>): IArray<Tree> {
+		return members.filter((x) => {
+			if (!hasCodePath(x)) return false;
+			const onlyStatic = this.keep.get(x.codePath.value);
+			switch (x._tag) {
+				case "ClassTree":
+				case "TypeAliasTree":
+					return onlyStatic === false;
+				default:
+					return onlyStatic !== undefined;
+			}
+		});
+	}
+}
+
+export const Minimization = {
+	KeepMarker: Comments.apply([new MinimizationKeep(IArray.Empty)]),
+
+	findReferences(
+		globalScope: TreeScope,
+		entryPoints: IArray<QualifiedName>,
+		packagesWithShouldMinimize: IArray<[PackageTree, boolean]>,
+	): KeepIndex {
+		const keep: KeepIndex = new Map();
+		/* names kept in full whose references we have yet to follow. Iterative to not exhaust the stack */
+		const pending: QualifiedName[] = [];
+
+		const addStaticParents = (qname: QualifiedName): void => {
+			for (let idx = 1; idx < qname.parts.length; idx++) {
+				const parent = new QualifiedName(qname.parts.take(idx));
+
+				if (!keep.has(parent.value)) {
+					keep.set(parent.value, true);
+
+					addStaticParents(parent);
+
+					globalScope.lookup(parent).forEach(([tree]) => {
+						const related = minimizationRelated(tree.comments);
+						if (related !== undefined) {
+							TreeTraverse.foreach(related, (a) => {
+								if (isTypeRef(a) && !a.typeName.equals(parent)) {
+									expand(a.typeName);
+								}
+							});
+						}
+					});
+				}
+			}
+		};
+
+		const expand = (qname: QualifiedName): void => {
+			if (keep.get(qname.value) === false) return;
+			keep.set(qname.value, false);
+
+			addStaticParents(qname);
+			pending.push(qname);
+		};
+
+		const followReferences = (qname: QualifiedName): void => {
+			const trees = globalScope.lookup(qname).map(([tree]) => tree);
+			const relatedRefs = trees.flatMap(
+				(t) => minimizationRelated(t.comments) ?? IArray.Empty,
+			);
+
+			TreeTraverse.foreach(
+				IArray.fromArray<object>([
+					...relatedRefs.toArray(),
+					...trees.toArray(),
+				]),
+				(a) => {
+					if (isTypeRef(a) && !a.typeName.equals(qname)) {
+						expand(a.typeName);
+					}
+				},
+			);
+		};
+
+		const drain = (): void => {
+			for (let next = pending.pop(); next !== undefined; next = pending.pop()) {
+				followReferences(next);
+			}
+		};
+
+		entryPoints.forEach(expand);
+		drain();
+
+		packagesWithShouldMinimize.forEach(([pkg, shouldMinimize]) => {
+			TreeTraverse.foreach(pkg, (a) => {
+				if (hasCodePath(a)) {
+					const related = minimizationKeep(a.comments);
+					if (related !== undefined) {
+						expand(a.codePath);
+						TreeTraverse.foreach(related, (r) => {
+							if (isTypeRef(r)) expand(r.typeName);
+						});
+					}
+				} else if (isTypeRef(a) && !shouldMinimize) {
+					expand(a.typeName);
+				}
+			});
+			drain();
+		});
+
+		return keep;
+	},
+
+	apply(
+		globalScope: TreeScope,
+		keep: KeepIndex,
+		_logger: Logger<void>,
+		lib: PackageTree,
+	): PackageTree {
+		return new FilteringTransformation(keep).visitPackageTree(globalScope)(lib);
+	},
+};
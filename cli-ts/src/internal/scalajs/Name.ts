@@ -134,6 +134,7 @@ export class Name {
 	static readonly WILDCARD = new Name("Wildcard");
 	static readonly REPEATED = new Name("Repeated");
 	static readonly APPLY = new Name("<apply>");
+	static readonly CONSTRUCTOR = new Name("<init>");
 	static readonly UNDEFINED = new Name("Undefined");
 
 	// Internal names set
@@ -0,0 +1,68 @@
+/**
+ * TypeScript port of org.scalablytyped.converter.internal.scalajs.Optional
+ *
+ * Splits `null` and `undefined` out of union types
+ */
+
+import type { IArray } from "../IArray.js";
+import { TypeRef } from "./Tree.js";
+
+const isOptional = (tpe: TypeRef): boolean =>
+	TypeRef.equals(tpe, TypeRef.Null) || TypeRef.equals(tpe, TypeRef.undefined);
+
+const contains = (types: IArray<TypeRef>, tpe: TypeRef): boolean =>
+	types.exists((t) => TypeRef.equals(t, tpe));
+
+export const Optional = {
+	isOptional,
+
+	/**
+	 * The type without `null` and `undefined`, if it contained any of them
+	 */
+	unapply: (tpe: TypeRef): TypeRef | undefined => {
+		const union = TypeRef.Union.unapply(tpe);
+		if (!union) return undefined;
+		const [optionals, remaining] = union[0].partition(isOptional);
+		return optionals.isEmpty
+			? undefined
+			: TypeRef.Union(remaining, union[1], false);
+	},
+};
+
+export enum Optionality {
+	No = "No",
+	Null = "Null",
+	Undef = "Undef",
+	NullOrUndef = "NullOrUndef",
+}
+
+export namespace Optionality {
+	export const All: readonly Optionality[] = [
+		Optionality.No,
+		Optionality.Null,
+		Optionality.Undef,
+		Optionality.NullOrUndef,
+	];
+
+	export function compare(one: Optionality, two: Optionality): number {
+		return All.indexOf(one) - All.indexOf(two);
+	}
+
+	export function apply(tpe: TypeRef): [Optionality, TypeRef] {
+		const union = TypeRef.Union.unapply(tpe);
+		if (!union) return [Optionality.No, tpe];
+
+		const [foundNulls, remaining] = union[0].partition(isOptional);
+		const hasNull = contains(foundNulls, TypeRef.Null);
+		const hasUndefined = contains(foundNulls, TypeRef.undefined);
+		const optionality = hasNull
+			? hasUndefined
+				? Optionality.NullOrUndef
+				: Optionality.Null
+			: hasUndefined
+				? Optionality.Undef
+				: Optionality.No;
+
+		return [optionality, TypeRef.Union(remaining, union[1], false)];
+	}
+}
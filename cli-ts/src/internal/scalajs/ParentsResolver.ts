@@ -0,0 +1,220 @@
+/**
+ * TypeScript port of org.scalablytyped.converter.internal.scalajs.ParentsResolver
+ *
+ * Resolves the parents of a class or module to the `ClassTree`s they refer to, recursively.
+ * Parents which don't resolve to a class (primitives, type parameters and so on) are kept as `unresolved`.
+ *
+ * Note that this doesn't handle any of `Name.Internal`.
+ */
+
+import { IArray } from "../IArray.js";
+import { FillInTParams } from "./FillInTParams.js";
+import type { QualifiedName } from "./QualifiedName.js";
+import {
+	type ClassTree,
+	ClassType,
+	type FieldTree,
+	type InheritanceTree,
+	isClassTree,
+	isFieldTree,
+	isTypeAliasTree,
+	type Tree,
+	type TypeParamTree,
+	type TypeRef,
+} from "./Tree.js";
+import type { TreeScope } from "./TreeScope.js";
+
+export class Parent {
+	private _members: IArray<Tree> | undefined;
+
+	constructor(
+		readonly refs: IArray<TypeRef>,
+		readonly classTree: ClassTree,
+		readonly foundIn: TreeScope,
+		readonly parents: IArray<Parent>,
+		readonly unresolved: IArray<TypeRef>,
+	) {}
+
+	/**
+	 * Members of this class and all its parents, parents first
+	 */
+	get members(): IArray<Tree> {
+		if (this._members === undefined) {
+			this._members = this.parents
+				.flatMap((p) => p.members)
+				.concat(this.classTree.members);
+		}
+		return this._members;
+	}
+
+	get fields(): IArray<FieldTree> {
+		return this.members.mapNotNone((m) => (isFieldTree(m) ? m : undefined));
+	}
+
+	get transitiveParents(): IArray<Parent> {
+		return this.parents.flatMap((p) =>
+			IArray.apply(p).concat(p.transitiveParents),
+		);
+	}
+
+	get transitiveUnresolved(): IArray<TypeRef> {
+		return this.unresolved.concat(
+			this.parents.flatMap((p) => p.transitiveUnresolved),
+		);
+	}
+}
+
+export class Parents {
+	constructor(
+		readonly directParents: IArray<Parent>,
+		readonly unresolved: IArray<TypeRef>,
+	) {}
+
+	get transitiveParents(): IArray<Parent> {
+		return this.directParents.flatMap((p) =>
+			IArray.apply(p).concat(p.transitiveParents),
+		);
+	}
+
+	get transitiveUnresolved(): IArray<TypeRef> {
+		return this.unresolved.concat(
+			this.directParents.flatMap((p) => p.transitiveUnresolved),
+		);
+	}
+
+	/**
+	 * Drop classes (as opposed to traits), along with everything they inherit from
+	 */
+	pruneClasses(): Parents {
+		const go = (it: Parent): Parent | undefined =>
+			it.classTree.classType === ClassType.Class
+				? undefined
+				: new Parent(
+						it.refs,
+						it.classTree,
+						it.foundIn,
+						it.parents.mapNotNone(go),
+						it.unresolved,
+					);
+		return new Parents(this.directParents.mapNotNone(go), this.unresolved);
+	}
+}
+
+type Res =
+	| { readonly _tag: "Circular" }
+	| { readonly _tag: "Resolved"; readonly parent: Parent }
+	| { readonly _tag: "Unresolved"; readonly refs: IArray<TypeRef> };
+
+const Circular: Res = { _tag: "Circular" };
+
+/**
+ * Stops us from following a cycle of parents, which typescript allows through type aliases
+ */
+class LoopDetector {
+	constructor(private readonly seen: ReadonlySet<string> = new Set()) {}
+
+	including(wanted: QualifiedName, scope: TreeScope): LoopDetector | undefined {
+		const key = `${wanted.value} in ${scope.toString()}`;
+		return this.seen.has(key)
+			? undefined
+			: new LoopDetector(new Set([...this.seen, key]));
+	}
+}
+
+const findParentRefs = (tree: InheritanceTree): IArray<TypeRef> => tree.parents;
+
+const typeParams = (tree: InheritanceTree): IArray<TypeParamTree> =>
+	isClassTree(tree) ? tree.tparams : IArray.Empty;
+
+function recurse(
+	scope: TreeScope,
+	typeRefs: IArray<TypeRef>,
+	ld: LoopDetector,
+	newTParams: IArray<TypeParamTree>,
+): Res {
+	const head = typeRefs.head;
+	const newLd = ld.including(head.typeName, scope);
+	if (newLd === undefined) return Circular;
+
+	for (const [found, foundInScope] of scope.lookup(head.typeName).toArray()) {
+		if (isClassTree(found)) {
+			const rewritten = FillInTParams.classTree(
+				found,
+				scope,
+				head.targs,
+				newTParams,
+			);
+			const results = findParentRefs(rewritten).map((tr) =>
+				recurse(foundInScope, IArray.apply(tr), newLd, newTParams),
+			);
+			if (results.exists((r) => r._tag === "Circular")) return Circular;
+
+			return {
+				_tag: "Resolved",
+				parent: new Parent(
+					typeRefs,
+					rewritten,
+					foundInScope,
+					results.mapNotNone((r) =>
+						r._tag === "Resolved" ? r.parent : undefined,
+					),
+					results.flatMap((r) =>
+						r._tag === "Unresolved" ? r.refs : IArray.Empty,
+					),
+				),
+			};
+		}
+
+		if (isTypeAliasTree(found)) {
+			const rewritten = FillInTParams.typeAlias(
+				found,
+				scope,
+				head.targs,
+				newTParams,
+			);
+			const res = recurse(
+				foundInScope,
+				typeRefs.prepend(rewritten.alias),
+				newLd,
+				newTParams,
+			);
+			return res._tag === "Unresolved"
+				? { _tag: "Unresolved", refs: typeRefs }
+				: res;
+		}
+	}
+
+	return { _tag: "Unresolved", refs: typeRefs };
+}
+
+export class ParentsResolver {
+	private readonly cache = new Map<InheritanceTree, Parents>();
+
+	apply(scope: TreeScope, tree: InheritanceTree): Parents {
+		const cached = this.cache.get(tree);
+		if (cached) return cached;
+
+		const ret = this.fromRefs(scope, findParentRefs(tree), typeParams(tree));
+		this.cache.set(tree, ret);
+		return ret;
+	}
+
+	/**
+	 * Resolves parent references which don't belong to a tree, like `js.Object`
+	 */
+	fromRefs(
+		scope: TreeScope,
+		parentRefs: IArray<TypeRef>,
+		tparams: IArray<TypeParamTree> = IArray.Empty,
+	): Parents {
+		const ld = new LoopDetector();
+		const results = parentRefs.map((tr) =>
+			recurse(scope, IArray.apply(tr), ld, tparams),
+		);
+
+		return new Parents(
+			results.mapNotNone((r) => (r._tag === "Resolved" ? r.parent : undefined)),
+			results.flatMap((r) => (r._tag === "Unresolved" ? r.refs : IArray.Empty)),
+		);
+	}
+}
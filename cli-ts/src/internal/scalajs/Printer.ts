@@ -0,0 +1,943 @@
+/**
+ * TypeScript port of org.scalablytyped.converter.internal.scalajs.Printer
+ *
+ * Renders scala trees as scala source code, split into one file per top-level declaration
+ */
+
+import * as path from "node:path";
+import { isSome } from "fp-ts/Option";
+import {
+	type BooleanLit,
+	type DoubleLit,
+	HasClassParent,
+	type IntLit,
+	type StringLit,
+} from "../Comment.js";
+import { Comments } from "../Comments.js";
+import { IArray } from "../IArray.js";
+import { type ScalaVersion, Versions } from "../importer/ConversionOptions.js";
+import { quote } from "../StringUtils.js";
+import type { AnnotationUnion } from "./Annotation.js";
+import { Name } from "./Name.js";
+import type { ParentsResolver } from "./ParentsResolver.js";
+import { QualifiedName } from "./QualifiedName.js";
+import { ScalaOutput } from "./ScalaOutput.js";
+import {
+	type ClassTree,
+	ClassType,
+	type ContainerTree,
+	CtorTree,
+	type ExprTree,
+	type FieldTree,
+	type ImplTree,
+	isMemberTree,
+	isNative,
+	type MethodTree,
+	type ModuleTree,
+	originalName,
+	type PackageTree,
+	type ParamTree,
+	ProtectionLevel,
+	type Tree,
+	type TypeAliasTree,
+	type TypeParamTree,
+	TypeRef,
+} from "./Tree.js";
+import type { TreeScope } from "./TreeScope.js";
+import { ShortenNames } from "./transforms/ShortenNames.js";
+
+export namespace Printer {
+	/**
+	 * Accumulates the contents of a file
+	 */
+	export class Writer {
+		private readonly chunks: string[] = [];
+
+		append(s: string): void {
+			this.chunks.push(s);
+		}
+
+		println(s = ""): void {
+			this.chunks.push(s, "\n");
+		}
+
+		toString(): string {
+			return this.chunks.join("");
+		}
+	}
+
+	/**
+	 * Collects all files written by the printer, as paths relative to the output folder
+	 */
+	export class Registry {
+		private readonly files: Array<readonly [string, string]> = [];
+
+		write(file: string, f: (writer: Writer) => void): void {
+			const w = new Writer();
+			f(w);
+			this.files.push([file, w.toString()]);
+		}
+
+		get result(): IArray<readonly [string, string]> {
+			return IArray.fromArray(this.files);
+		}
+	}
+
+	export function apply(
+		scope: TreeScope,
+		parentsResolver: ParentsResolver,
+		tree: ContainerTree,
+		outputPackage: Name,
+		scalaVersion: ScalaVersion,
+	): IArray<readonly [string, string]> {
+		const reg = new Registry();
+
+		new Impl(outputPackage, scalaVersion).apply(
+			scope,
+			parentsResolver,
+			reg,
+			IArray.apply(tree.name),
+			tree.name.unescaped,
+			tree,
+		);
+
+		return reg.result;
+	}
+
+	export class Indenter {
+		private hasIndented = false;
+
+		constructor(private readonly a: Writer) {}
+
+		private doIndent(indent: number): void {
+			this.a.append(" ".repeat(indent));
+			this.hasIndented = true;
+		}
+
+		print(indent: number): (original: string) => void {
+			return (original) => {
+				for (const c of original) {
+					if (!this.hasIndented) {
+						this.doIndent(indent);
+					}
+
+					this.a.append(c);
+
+					if (c === "\n") {
+						this.hasIndented = false;
+					}
+				}
+			};
+		}
+	}
+
+	export class Impl {
+		readonly Imports: string;
+
+		constructor(
+			private readonly outputPackage: Name,
+			private readonly scalaVersion: ScalaVersion,
+		) {
+			this.Imports = scalaVersion.is3
+				? [
+						"import org.scalablytyped.runtime.StObject",
+						"import scala.scalajs.js",
+						"import scala.scalajs.js.annotation.{JSGlobalScope, JSGlobal, JSImport, JSName, JSBracketAccess}",
+					].join("\n")
+				: [
+						"import org.scalablytyped.runtime.StObject",
+						"import scala.scalajs.js",
+						"import scala.scalajs.js.`|`",
+						"import scala.scalajs.js.annotation.{JSGlobalScope, JSGlobal, JSImport, JSName, JSBracketAccess}",
+					].join("\n");
+		}
+
+		apply(
+			scope: TreeScope,
+			parentsResolver: ParentsResolver,
+			reg: Registry,
+			packages: IArray<Name>,
+			targetFolder: string,
+			tree: ContainerTree,
+		): void {
+			const files: Array<readonly [ScalaOutput, IArray<Tree>]> =
+				tree._tag === "PackageTree"
+					? Array.from(
+							tree.members
+								.groupBy((m) => ScalaOutput.key(ScalaOutput.outputAs(m)))
+								.values(),
+						).map((ms) => [ScalaOutput.outputAs(ms.head), ms] as const)
+					: [[ScalaOutput.File(tree.name), IArray.apply<Tree>(tree)]];
+			const treeScope = scope["/"](tree);
+
+			const packageScalaFileName = (() => {
+				const normal = "package";
+				const escaped = "package_";
+
+				const toEscape = (name: Name) =>
+					name.unescaped.toLowerCase() === normal;
+
+				const shouldBeEscaped = files.some(
+					([scalaOutput]) =>
+						scalaOutput._tag !== "PackageObject" && toEscape(scalaOutput.name),
+				);
+				const name = shouldBeEscaped ? escaped : normal;
+				return `${name}.scala`;
+			})();
+
+			for (const [scalaOutput, members] of files) {
+				switch (scalaOutput._tag) {
+					case "File":
+						reg.write(
+							path.join(targetFolder, `${scalaOutput.name.unescaped}.scala`),
+							(writer) => {
+								const [imports, shortenedMembers] = ShortenNames.apply(
+									tree,
+									treeScope,
+									parentsResolver,
+								)(members);
+								writer.println(
+									`package ${this.formatQN(new QualifiedName(packages))}`,
+								);
+								writer.println("");
+								imports.forEach((i) =>
+									writer.println(`import ${this.formatQN(i.imported)}`),
+								);
+								writer.println(this.Imports);
+								this.printTrees(
+									treeScope,
+									parentsResolver,
+									reg,
+									new Indenter(writer),
+									packages,
+									targetFolder,
+									0,
+									shortenedMembers,
+								);
+							},
+						);
+						break;
+
+					case "Package":
+						members.forEach((pkg) => {
+							if (pkg._tag !== "PackageTree") {
+								throw new Error(`Expected a package, got ${pkg._tag}`);
+							}
+							this.apply(
+								treeScope,
+								parentsResolver,
+								reg,
+								packages.append(scalaOutput.name),
+								path.join(targetFolder, scalaOutput.name.unescaped),
+								pkg as PackageTree,
+							);
+						});
+						break;
+
+					case "PackageObject":
+						if (this.scalaVersion.is3) {
+							reg.write(
+								path.join(targetFolder, packageScalaFileName),
+								(writer) => {
+									const [imports, shortenedMembers] = ShortenNames.apply(
+										tree,
+										treeScope,
+										parentsResolver,
+									)(members);
+									writer.println(
+										`package ${this.formatQN(new QualifiedName(packages))}`,
+									);
+									writer.println("");
+									imports.forEach((i) =>
+										writer.println(`import ${this.formatQN(i.imported)}`),
+									);
+									writer.println(this.Imports);
+									writer.println("");
+									this.printTrees(
+										treeScope,
+										parentsResolver,
+										reg,
+										new Indenter(writer),
+										packages,
+										targetFolder,
+										0,
+										shortenedMembers,
+									);
+								},
+							);
+						} else {
+							reg.write(
+								path.join(targetFolder, packageScalaFileName),
+								(writer) => {
+									const remaining = packages.dropRight(1);
+									if (remaining.nonEmpty) {
+										writer.println(
+											`package ${this.formatQN(new QualifiedName(remaining))}`,
+										);
+									}
+
+									writer.println("");
+									writer.println(this.Imports);
+									writer.println("");
+									writer.println(
+										`package object ${this.formatName(tree.name)} {`,
+									);
+									this.printTrees(
+										treeScope,
+										parentsResolver,
+										reg,
+										new Indenter(writer),
+										packages,
+										targetFolder,
+										2,
+										members,
+									);
+									writer.println("}");
+								},
+							);
+						}
+						break;
+				}
+			}
+		}
+
+		printTrees(
+			scope: TreeScope,
+			parentsResolver: ParentsResolver,
+			reg: Registry,
+			w: Indenter,
+			packageNames: IArray<Name>,
+			folder: string,
+			indent: number,
+			trees: IArray<Tree>,
+		): void {
+			const nameFor = (x: Tree): string => {
+				const name0 = isMemberTree(x) ? originalName(x) : x.name;
+				const unescaped = name0.unescaped;
+				return unescaped.endsWith("_=") ? unescaped.slice(0, -2) : unescaped;
+			};
+
+			let last: Tree | undefined;
+
+			trees.forEach((tree) => {
+				if (last === undefined || nameFor(last) !== nameFor(tree)) {
+					w.print(indent)("\n");
+				}
+
+				this.printTree(
+					scope,
+					parentsResolver,
+					reg,
+					w,
+					packageNames,
+					folder,
+					indent,
+				)(tree);
+
+				last = tree;
+			});
+		}
+
+		printTree(
+			scope: TreeScope,
+			parentsResolver: ParentsResolver,
+			reg: Registry,
+			w: Indenter,
+			packageNames: IArray<Name>,
+			folder: string,
+			indent: number,
+		): (tree: Tree) => void {
+			return (tree) => {
+				const treeScope = scope["/"](tree);
+				const print = (...ss: string[]): void => {
+					for (const s of ss) w.print(indent)(s);
+				};
+
+				const println = (...ss: string[]): void => {
+					print(...ss);
+					print("\n");
+				};
+
+				switch (tree._tag) {
+					case "PackageTree":
+						this.apply(
+							treeScope,
+							parentsResolver,
+							reg,
+							packageNames.append(tree.name),
+							path.join(folder, tree.name.value),
+							tree as PackageTree,
+						);
+						break;
+
+					case "ClassTree": {
+						const c = tree as ClassTree;
+						print(Comments.format(c.comments));
+						print(this.formatAnns(c.annotations));
+
+						const sorted = c.ctors.sortBy((ctor) => ctor.params.length);
+						const [defaultCtor, restCtors]: [CtorTree, IArray<CtorTree>] =
+							sorted.isEmpty
+								? [CtorTree.defaultPublic, IArray.Empty]
+								: sorted.head.params.isEmpty || !isNative(c)
+									? [sorted.head, sorted.tail]
+									: [CtorTree.defaultProtected, sorted];
+
+						print(Comments.format(defaultCtor.comments));
+						print(
+							this.formatProtectionLevel(c.level),
+							c.isImplicit ? "implicit " : "",
+							c.isSealed
+								? "sealed "
+								: this.scalaVersion.is3 && c.classType === ClassType.Class
+									? "open "
+									: "",
+							ClassType.asString(c.classType),
+							" ",
+							this.formatName(c.name),
+						);
+
+						if (c.tparams.nonEmpty) {
+							print(
+								"[",
+								c.tparams
+									.map(this.formatTypeParamTree(indent))
+									.mkString("", ", ", ""),
+								"]",
+							);
+						}
+
+						if (c.classType !== ClassType.Trait) {
+							print(" ");
+							print(this.formatProtectionLevel(defaultCtor.level));
+							print(this.formatParams(indent + 2)(defaultCtor.params));
+						}
+
+						print(
+							this.extendsClause(c.comments, c.parents, isNative(c), indent),
+						);
+
+						if (c.members.nonEmpty || restCtors.nonEmpty) {
+							println(" {");
+
+							if (c.classType !== ClassType.Trait) {
+								restCtors.forEach(
+									this.printTree(
+										treeScope,
+										parentsResolver,
+										reg,
+										w,
+										packageNames,
+										folder,
+										indent + 2,
+									),
+								);
+							}
+
+							this.printTrees(
+								treeScope,
+								parentsResolver,
+								reg,
+								w,
+								packageNames,
+								folder,
+								indent + 2,
+								c.members,
+							);
+							println("}");
+						} else {
+							println();
+						}
+						break;
+					}
+
+					case "ModuleTree": {
+						const m = tree as ModuleTree;
+						print(Comments.format(m.comments));
+						print(this.formatAnns(m.annotations));
+
+						print(
+							m.isOverride ? "override " : "",
+							this.formatProtectionLevel(m.level),
+							"object ",
+							this.formatName(m.name),
+							this.extendsClause(m.comments, m.parents, isNative(m), indent),
+						);
+
+						if (m.members.nonEmpty) {
+							println(" {");
+
+							this.printTrees(
+								treeScope,
+								parentsResolver,
+								reg,
+								w,
+								packageNames,
+								folder,
+								indent + 2,
+								m.members,
+							);
+							println("}");
+						} else {
+							println();
+						}
+						break;
+					}
+
+					case "TypeAliasTree": {
+						const ta = tree as TypeAliasTree;
+						print(Comments.format(ta.comments));
+
+						print(
+							this.formatProtectionLevel(ta.level),
+							"type ",
+							this.formatName(ta.name),
+						);
+						if (ta.tparams.nonEmpty) {
+							print(
+								"[",
+								ta.tparams
+									.map(this.formatTypeParamTree(indent))
+									.mkString("", ", ", ""),
+								"]",
+							);
+						}
+
+						println(" = ", this.formatTypeRef(indent)(ta.alias));
+						break;
+					}
+
+					case "FieldTree": {
+						const f = tree as FieldTree;
+						print(Comments.format(f.comments));
+						print(this.formatAnns(f.annotations));
+
+						print(
+							"",
+							this.formatProtectionLevel(f.level),
+							f.isOverride ? "override " : "",
+							f.isReadOnly ? "val" : "var",
+							" ",
+							this.typeAnnotation(this.formatName(f.name), indent, f.tpe),
+						);
+
+						println(this.formatImpl(indent)(f.impl));
+						break;
+					}
+
+					case "MethodTree": {
+						const m = tree as MethodTree;
+						print(Comments.format(m.comments));
+						if (this.scalaVersion.is3) {
+							const [inline, rest] = m.annotations.partition(
+								(a) => a._tag === "Inline",
+							);
+							print(this.formatAnns(rest));
+							if (inline.nonEmpty) print("inline ");
+						} else {
+							print(this.formatAnns(m.annotations));
+						}
+						print(this.formatProtectionLevel(m.level));
+						print(m.isImplicit ? "implicit " : "");
+						print(`${m.isOverride ? "override " : ""}def `);
+
+						const tparamString = m.tparams.isEmpty
+							? ""
+							: m.tparams
+									.map(this.formatTypeParamTree(indent))
+									.mkString("[", ", ", "]");
+
+						let paramString = m.params.map((ps) =>
+							ps.map(this.formatParamTree(indent)).mkString("(", ", ", ")"),
+						);
+						if (paramString.foldLeft(0, (acc, s) => acc + s.length) > 100) {
+							paramString = m.params.map((ps) =>
+								ps
+									.map(this.formatParamTree(indent))
+									.mkString("(\n  ", ",\n  ", "\n)"),
+							);
+						}
+
+						print(
+							this.typeAnnotation(
+								this.formatName(m.name) +
+									tparamString +
+									paramString.mkString("", "", ""),
+								indent,
+								m.resultType,
+							),
+						);
+						println(this.formatImpl(indent)(m.impl));
+						break;
+					}
+
+					case "CtorTree": {
+						const ctor = tree as CtorTree;
+						print(Comments.format(ctor.comments));
+						println(
+							"",
+							this.formatProtectionLevel(ctor.level),
+							"def this",
+							this.formatParams(indent + 2)(ctor.params),
+							" = this()",
+						);
+						break;
+					}
+
+					default:
+						throw new Error(`unexpected ${tree._tag}`);
+				}
+			};
+		}
+
+		formatParams(indent: number): (ps: IArray<ParamTree>) => string {
+			return (ps) => {
+				const base = ps.map(this.formatParamTree(indent));
+				let paramString = base.mkString("(", ", ", ")");
+				if (paramString.length > 100 && ps.length > 1) {
+					paramString = base.mkString("(\n  ", ",\n  ", "\n)");
+				}
+				return paramString;
+			};
+		}
+
+		/**
+		 * This is unfortunate, the the `Printer` still changes the AST somewhat before printing: Namely it adds
+		 * `StObject` to the list of parents for native types.
+		 * The reason why it's still done here is that it significantly degrades the quality of the output if we do it
+		 * earlier because of a number of type computations which would need exceptions.
+		 */
+		extendsClause(
+			cs: Comments,
+			parents: IArray<TypeRef>,
+			isNative: boolean,
+			indent: number,
+		): string {
+			const hasClass = cs.has(HasClassParent);
+			const formattedParents = parents
+				.toArray()
+				.map((parent) =>
+					TypeRef.equals(parent, TypeRef.JsObject)
+						? "StObject"
+						: this.formatTypeRef(indent + 6)(parent),
+				);
+
+			const patchedParents =
+				isNative && (parents.isEmpty || !hasClass)
+					? Array.from(new Set(["StObject", ...formattedParents]))
+					: formattedParents;
+
+			if (patchedParents.length === 0) return "";
+			const [head, ...tail] = patchedParents;
+			if (tail.length === 0) {
+				return head.includes(".") ? `\n  extends ${head}` : ` extends ${head}`;
+			}
+			return `\n  extends ${head}${tail.map((t) => `\n     with ${t}`).join("")}`;
+		}
+
+		formatTypeParams(
+			indent: number,
+		): (tparams: IArray<TypeParamTree>) => string {
+			return (tparams) =>
+				tparams.isEmpty
+					? ""
+					: tparams
+							.map(this.formatTypeParamTree(indent))
+							.mkString("[", ", ", "]");
+		}
+
+		formatTypeParamTree(indent: number): (tree: TypeParamTree) => string {
+			return (tree) => {
+				const bound =
+					tree.upperBound === undefined
+						? ""
+						: tree.ignoreBound
+							? ` /* <: ${this.formatTypeRef(indent)(tree.upperBound)} */`
+							: ` <: ${this.formatTypeRef(indent)(tree.upperBound)}`;
+
+				return (
+					Comments.format(tree.comments) +
+					this.formatName(tree.name) +
+					this.formatTypeParams(indent)(tree.params) +
+					bound
+				);
+			};
+		}
+
+		formatParamTree(indent: number): (tree: ParamTree) => string {
+			return (tree) =>
+				[
+					Comments.format(tree.comments),
+					tree.isImplicit ? "implicit " : "",
+					tree.isVal ? "val " : "",
+					this.typeAnnotation(this.formatName(tree.name), indent + 2, tree.tpe),
+					this.formatImpl(indent)(tree.default),
+				].join("");
+		}
+
+		formatQN(q: QualifiedName): string {
+			if (q.startsWith(QualifiedName.scala_js)) {
+				return this.formatQN(
+					new QualifiedName(
+						q.parts.drop(QualifiedName.scala_js.parts.length - 1),
+					),
+				);
+			}
+			return q.parts.map((n) => this.formatName(n)).mkString("", ".", "");
+		}
+
+		formatName(name: Name): string {
+			// this let's dots in chosen package name slip through
+			if (name.equals(this.outputPackage)) return this.outputPackage.unescaped;
+			if (name.equals(Name.APPLY)) return "apply";
+			// `THIS` and `SUPER` are spelled like ordinary identifiers, so only the singletons are keywords
+			if (name === Name.THIS) return "this";
+			if (name === Name.SUPER) return "super";
+			return name.value;
+		}
+
+		/* for instance `val foo: Type_: Int` needs a space between `_` and `:` */
+		maybeSpace(tpe: string): string {
+			const last = tpe[tpe.length - 1];
+			return last === "_" || last === "^" || last === "=" ? `${tpe} ` : tpe;
+		}
+
+		typeAnnotation(preceding: string, indent: number, tpe: TypeRef): string {
+			return `${this.maybeSpace(preceding)}: ${this.formatTypeRef(indent)(tpe)}`;
+		}
+
+		formatTypeRef(indent: number): (t1: TypeRef) => string {
+			return (t1) => {
+				const format = this.formatTypeRef(indent);
+
+				const ret = ((): string => {
+					const fn = TypeRef.ScalaFunction.unapply(t1);
+					if (fn !== undefined) {
+						const [paramTypes, retType] = fn;
+						const params =
+							paramTypes.length === 1
+								? format(paramTypes.apply(0))
+								: paramTypes.map(format).mkString("(", ", ", ")");
+						return `${params} => ${format(retType)}`;
+					}
+
+					if (TypeRef.ThisType.unapply(t1) !== undefined) return "this.type";
+
+					if (TypeRef.equals(t1, TypeRef.Wildcard)) {
+						return this.scalaVersion.is3 ? "?" : "_";
+					}
+
+					const singleton = TypeRef.Singleton.unapply(t1);
+					if (singleton !== undefined) return `${format(singleton)}.type`;
+
+					const intersection = TypeRef.Intersection.unapply(t1);
+					if (intersection !== undefined) {
+						return intersection[0]
+							.map(format)
+							.map((s) => this.paramsIfNeeded(s))
+							.mkString("", this.scalaVersion.is3 ? " & " : " with ", "");
+					}
+
+					const undefOr = TypeRef.UndefOr.unapply(t1);
+					if (undefOr !== undefined) {
+						return format(
+							TypeRef.create(QualifiedName.JsUndefOr, IArray.apply(undefOr[0])),
+						);
+					}
+
+					// keep this after UndefOr. This covers `undefined` outside a union type
+					if (TypeRef.equals(t1, TypeRef.undefined))
+						return format(TypeRef.Unit);
+
+					const union = TypeRef.Union.unapply(t1);
+					if (union !== undefined) {
+						return union[0]
+							.map(format)
+							.map((s) => this.paramsIfNeeded(s))
+							.mkString("", " | ", "");
+					}
+
+					const stringLiteral = TypeRef.StringLiteral.unapply(t1);
+					if (stringLiteral !== undefined) return quote(stringLiteral);
+					const doubleLiteral = TypeRef.DoubleLiteral.unapply(t1);
+					if (doubleLiteral !== undefined) return doubleLiteral;
+					const intLiteral = TypeRef.IntLiteral.unapply(t1);
+					if (intLiteral !== undefined) return intLiteral;
+					const booleanLiteral = TypeRef.BooleanLiteral.unapply(t1);
+					if (booleanLiteral !== undefined) return booleanLiteral;
+
+					const repeated = TypeRef.Repeated.unapply(t1);
+					if (repeated !== undefined) {
+						return `${this.maybeSpace(this.paramsIfNeeded(format(repeated[0])))}*`;
+					}
+
+					const targsStr = (() => {
+						if (t1.targs.isEmpty) return "";
+						const targStrs = t1.targs.map(this.formatTypeRef(indent + 2));
+						const targsLength = targStrs.foldLeft(
+							0,
+							(acc, s) => acc + s.length,
+						);
+						const sep = targsLength > 80 ? `\n${" ".repeat(indent)}` : "";
+						return targStrs.mkString(
+							`[${sep}`,
+							`, ${sep}`,
+							`${sep.slice(0, -2)}]`,
+						);
+					})();
+
+					return this.formatQN(t1.typeName) + targsStr;
+				})();
+
+				return Comments.format(t1.comments) + ret;
+			};
+		}
+
+		paramsIfNeeded(s: string): string {
+			return /\s/.test(s) ? `(${s})` : s;
+		}
+
+		formatProtectionLevel(p: ProtectionLevel): string {
+			if (ProtectionLevel.isPrivateWithin(p)) {
+				return `private[${p.within.unescaped}] `;
+			}
+			switch (p) {
+				case ProtectionLevel.Public:
+					return "";
+				case ProtectionLevel.Private:
+					return "private ";
+				case ProtectionLevel.Protected:
+					return "protected ";
+			}
+		}
+
+		formatAnn(a: AnnotationUnion): string {
+			switch (a._tag) {
+				case "Inline":
+					return "@scala.inline";
+				case "JsBracketAccess":
+					return "@JSBracketAccess";
+				case "JsBracketCall":
+					return "@JSBracketCall";
+				case "JsNative":
+					return "@js.native";
+				case "JsName":
+					return `@JSName(${quote(a.name.unescaped)})`;
+				case "JsNameSymbol":
+					return `@JSName(${this.formatQN(a.name)})`;
+				case "JsImport": {
+					const importedString =
+						a.imported._tag === "Namespace"
+							? "JSImport.Namespace"
+							: a.imported._tag === "Default"
+								? "JSImport.Default"
+								: quote(
+										a.imported.name
+											.map((n) => n.unescaped)
+											.mkString("", ".", ""),
+									);
+					const global = isSome(a.global)
+						? `, ${quote(a.global.value.name.parts.map((n) => n.unescaped).mkString("", ".", ""))}`
+						: "";
+					return `@JSImport(${quote(a.module)}, ${importedString}${global})`;
+				}
+				case "ScalaJSDefined":
+					return ""; // "@ScalaJSDefined"
+				case "JsGlobal":
+					return `@JSGlobal(${quote(a.name.parts.map((n) => n.unescaped).mkString("", ".", ""))})`;
+				case "JsGlobalScope":
+					return "@JSGlobalScope";
+			}
+		}
+
+		formatAnns(anns: IArray<AnnotationUnion>): string {
+			const formatted = anns
+				.map((a) => this.formatAnn(a))
+				.filterNot((s) => s.length === 0);
+			return formatted.isEmpty
+				? ""
+				: formatted.sorted().mkString("", "\n", "\n");
+		}
+
+		formatExpr(indent: number): (e: ExprTree) => string {
+			return (e) => {
+				const format = this.formatExpr(indent);
+				switch (e._tag) {
+					case "Val":
+						return `val ${e.name.value} = ${format(e.value)}`;
+					case "TApply":
+						return `${this.formatExpr(0)(e.ref)}[${e.targs.map(this.formatTypeRef(indent)).mkString("", ", ", "")}]`;
+					case "If":
+						return e.ifFalse !== undefined
+							? `if (${format(e.pred)}) ${format(e.ifTrue)} else ${format(e.ifFalse)}`
+							: `if (${format(e.pred)}) ${format(e.ifTrue)}`;
+					case "Block":
+						return e.expressions
+							.map((x) => `  ${format(x)}`)
+							.mkString("{\n", "\n", "\n}");
+					case "VarArgs":
+						return this.scalaVersion.is3
+							? `${format(e.expr)}*`
+							: `${format(e.expr)} :_*`;
+					case "Ref":
+						return this.formatQN(e.value);
+					case "ExprTreeLit":
+						switch (e._litTag) {
+							case "StringLit":
+								return quote((e as StringLit).value);
+							case "IntLit":
+								return (e as IntLit).value;
+							case "DoubleLit": {
+								const value = (e as DoubleLit).value;
+								return value.includes("e") ? value : `${value}d`;
+							}
+							case "BooleanLit":
+								return String((e as BooleanLit).value);
+							case "UndefinedLit":
+								return "js.undefined";
+							case "NullLit":
+								return "null";
+							default:
+								throw new Error(`unexpected literal ${e._litTag}`);
+						}
+					case "Unary":
+						return `${e.op}${format(e.expr)}`;
+					case "BinaryOp":
+						return `${format(e.one)} ${e.op} ${format(e.two)}`;
+					case "New":
+						return e.params.isEmpty
+							? `new ${this.formatTypeRef(indent)(e.expr)}`
+							: `new ${this.formatTypeRef(indent)(e.expr)}${e.params.map(format).mkString("(", ", ", ")")}`;
+					case "Lambda":
+						return `${e.params.map(this.formatParamTree(indent)).mkString("(", ", ", ")")} => ${format(e.body)}`;
+					case "Call": {
+						const ps = e.params
+							.map((params) => params.map(format).mkString("(", ", ", ")"))
+							.mkString("", "", "");
+						return `${format(e.function)}${ps}`;
+					}
+					case "Select":
+						return `${this.paramsIfNeeded(format(e.from))}.${this.formatName(e.path)}`;
+					case "ArgNamed":
+						return `${this.formatName(e.name)} = ${format(e.expr)}`;
+					case "ArgPos":
+						return format(e.expr);
+					case "ArgVariable":
+						return `${format(e.expr)} :_*`;
+					case "Throw":
+						return `throw ${format(e.expr)}`;
+				}
+			};
+		}
+
+		formatImpl(indent: number): (e: ImplTree) => string {
+			return (e) =>
+				e._tag === "NotImplemented" ? "" : ` = ${this.formatExpr(indent)(e)}`;
+		}
+	}
+}
+
+/**
+ * A printer which is convenient for debugging and for ordering trees by their rendered form
+ */
+export const debugPrinter = new Printer.Impl(new Name(""), Versions.Scala3);
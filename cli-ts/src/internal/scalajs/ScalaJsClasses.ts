@@ -0,0 +1,223 @@
+/**
+ * TypeScript port of org.scalablytyped.converter.internal.scalajs.ScalaJsClasses
+ *
+ * Definitions of the scala and scala.js classes generated code refers to, so they can be resolved
+ * by `TreeScope` like everything else. The Scala implementation additionally loads a precomputed
+ * description of all of `scala.scalajs.js`, we only hardcode the classes the converter reasons about.
+ */
+
+import { Comments } from "../Comments.js";
+import { IArray } from "../IArray.js";
+import { Name } from "./Name.js";
+import { QualifiedName } from "./QualifiedName.js";
+import {
+	ClassTree,
+	ClassType,
+	ExprTree,
+	MethodTree,
+	NotImplemented,
+	ParamTree,
+	ProtectionLevel,
+	type Tree,
+	TypeRef,
+} from "./Tree.js";
+
+const method = (
+	name: string,
+	params: IArray<ParamTree>,
+	resultType: TypeRef,
+	level: ProtectionLevel = ProtectionLevel.Public,
+): MethodTree =>
+	MethodTree.create(
+		IArray.Empty,
+		level,
+		new Name(name),
+		IArray.Empty,
+		IArray.apply(params),
+		ExprTree.native,
+		resultType,
+		false,
+		Comments.empty(),
+		QualifiedName.Any.add(new Name(name)),
+		false,
+	);
+
+const param = (name: string, tpe: TypeRef): ParamTree =>
+	ParamTree.create(
+		new Name(name),
+		false,
+		false,
+		tpe,
+		NotImplemented,
+		Comments.empty(),
+	);
+
+const cls = (
+	cp: QualifiedName,
+	parents: IArray<TypeRef>,
+	classType: ClassType,
+	isSealed: boolean,
+	members: IArray<Tree> = IArray.Empty,
+): ClassTree =>
+	ClassTree.create(
+		false,
+		IArray.Empty,
+		ProtectionLevel.Public,
+		cp.parts.last,
+		IArray.Empty,
+		parents,
+		IArray.Empty,
+		members,
+		classType,
+		isSealed,
+		Comments.empty(),
+		cp,
+	);
+
+export namespace ScalaJsClasses {
+	export const Any: ClassTree = cls(
+		QualifiedName.Any,
+		IArray.Empty,
+		ClassType.Class,
+		false,
+		IArray.apply<Tree>(
+			method(
+				"getClass",
+				IArray.Empty,
+				TypeRef.create(
+					QualifiedName.from([Name.java, Name.lang, new Name("Class")]),
+					IArray.apply(TypeRef.Wildcard),
+				),
+			),
+			method("hashCode", IArray.Empty, TypeRef.Int),
+			method("eq", IArray.apply(param("obj", TypeRef.Any)), TypeRef.Boolean),
+			method(
+				"equals",
+				IArray.apply(param("obj", TypeRef.Any)),
+				TypeRef.Boolean,
+			),
+			method("toString", IArray.Empty, TypeRef.String),
+			method("ne", IArray.apply(param("obj", TypeRef.Any)), TypeRef.Boolean),
+			method("notify", IArray.Empty, TypeRef.Unit),
+			method("notifyAll", IArray.Empty, TypeRef.Unit),
+			method("wait", IArray.Empty, TypeRef.Unit),
+			method("clone", IArray.Empty, TypeRef.Any, ProtectionLevel.Protected),
+			method("finalize", IArray.Empty, TypeRef.Unit, ProtectionLevel.Protected),
+		),
+	);
+
+	export const hardcoded: IArray<ClassTree> = IArray.apply(
+		Any,
+		cls(
+			QualifiedName.AnyRef,
+			IArray.apply(TypeRef.Any),
+			ClassType.Trait,
+			false,
+		),
+		cls(
+			QualifiedName.AnyVal,
+			IArray.apply(TypeRef.Any),
+			ClassType.Trait,
+			false,
+		),
+		cls(
+			QualifiedName.Boolean,
+			IArray.apply(TypeRef.AnyVal),
+			ClassType.Class,
+			true,
+		),
+		cls(
+			QualifiedName.Byte,
+			IArray.apply(TypeRef.AnyVal),
+			ClassType.Class,
+			true,
+		),
+		cls(
+			QualifiedName.Double,
+			IArray.apply(TypeRef.AnyVal),
+			ClassType.Class,
+			true,
+		),
+		cls(
+			QualifiedName.Float,
+			IArray.apply(TypeRef.AnyVal),
+			ClassType.Class,
+			true,
+		),
+		cls(QualifiedName.Int, IArray.apply(TypeRef.AnyVal), ClassType.Class, true),
+		cls(
+			QualifiedName.Long,
+			IArray.apply(TypeRef.AnyVal),
+			ClassType.Class,
+			true,
+		),
+		cls(
+			QualifiedName.Nothing,
+			IArray.apply(TypeRef.Any),
+			ClassType.Class,
+			true,
+		),
+		cls(
+			QualifiedName.Null,
+			IArray.apply(TypeRef.AnyRef),
+			ClassType.Trait,
+			false,
+		),
+		cls(
+			QualifiedName.Short,
+			IArray.apply(TypeRef.AnyVal),
+			ClassType.Class,
+			true,
+		),
+		cls(
+			QualifiedName.String,
+			IArray.apply(TypeRef.AnyRef),
+			ClassType.Class,
+			true,
+		),
+		cls(
+			QualifiedName.Unit,
+			IArray.apply(TypeRef.AnyVal),
+			ClassType.Class,
+			true,
+		),
+		cls(
+			QualifiedName.JsAny,
+			IArray.apply(TypeRef.AnyRef),
+			ClassType.Trait,
+			false,
+		),
+		cls(
+			QualifiedName.JsObject,
+			IArray.apply(TypeRef.JsAny),
+			ClassType.Class,
+			false,
+		),
+		cls(
+			QualifiedName.StObject,
+			IArray.apply(TypeRef.JsObject),
+			ClassType.Trait,
+			false,
+		),
+	);
+
+	/**
+	 * Keyed by `QualifiedName.value`
+	 */
+	export const ScalaJsTypes: Map<string, ClassTree> = new Map(
+		hardcoded.toArray().map((c) => [c.codePath.value, c]),
+	);
+
+	/**
+	 * Members every javascript object has from the Scala point of view
+	 */
+	export const jsObjectMembers: IArray<Tree> = Any.members;
+
+	/**
+	 * `jsObjectMembers`, keyed by unescaped name
+	 */
+	export const jsObjectMembersByName: Map<
+		string,
+		IArray<Tree>
+	> = jsObjectMembers.groupBy((m) => m.name.unescaped);
+}
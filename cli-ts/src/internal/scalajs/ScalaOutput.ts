@@ -0,0 +1,48 @@
+/**
+ * TypeScript port of org.scalablytyped.converter.internal.scalajs.ScalaOutput
+ *
+ * Maps the in-memory `Tree` structure to a file structure
+ */
+
+import type { Name } from "./Name.js";
+import type { Tree } from "./Tree.js";
+
+export type ScalaOutput =
+	| { readonly _tag: "PackageObject" }
+	| { readonly _tag: "File"; readonly name: Name }
+	| { readonly _tag: "Package"; readonly name: Name };
+
+export const ScalaOutput = {
+	PackageObject: { _tag: "PackageObject" as const },
+
+	File: (name: Name): ScalaOutput => ({ _tag: "File", name }),
+
+	Package: (name: Name): ScalaOutput => ({ _tag: "Package", name }),
+
+	/**
+	 * Outputs with the same key end up in the same place.
+	 * Files account for case insensitive file systems
+	 */
+	key: (output: ScalaOutput): string => {
+		switch (output._tag) {
+			case "PackageObject":
+				return "PackageObject";
+			case "File":
+				return `File(${output.name.unescaped.toLowerCase()})`;
+			case "Package":
+				return `Package(${output.name.unescaped})`;
+		}
+	},
+
+	outputAs: (s: Tree): ScalaOutput => {
+		switch (s._tag) {
+			case "PackageTree":
+				return ScalaOutput.Package(s.name);
+			case "ModuleTree":
+			case "ClassTree":
+				return ScalaOutput.File(s.name);
+			default:
+				return ScalaOutput.PackageObject;
+		}
+	},
+};
@@ -4,10 +4,16 @@
  * Represents the ScalaJS tree structure for the converter
  */
 
+import { CouldBeScalaJsDefined, type ExprTreeLit } from "../Comment.js";
 import { Comments } from "../Comments.js";
 import { IArray } from "../IArray.js";
-import type { Annotation } from "./Annotation.js";
-import type { Name } from "./Name.js";
+import {
+	Annotation,
+	type AnnotationUnion,
+	Imported,
+	type LocationAnnotationUnion,
+} from "./Annotation.js";
+import { Name, StringToSuffix } from "./Name.js";
 import { QualifiedName } from "./QualifiedName.js";
 
 // ============================================================================
@@ -37,7 +43,7 @@ export interface HasCodePath {
  * Equivalent to Scala's trait HasAnnotations
  */
 export interface HasAnnotations {
-	readonly annotations: IArray<Annotation>;
+	readonly annotations: IArray<AnnotationUnion>;
 }
 
 /**
@@ -66,7 +72,6 @@ export interface ContainerTree extends Tree, HasCodePath, HasAnnotations, HasMem
  */
 export interface InheritanceTree extends Tree, HasCodePath, HasAnnotations, HasMembers {
 	readonly parents: IArray<TypeRef>;
-	readonly isOverride: boolean;
 }
 
 // ============================================================================
@@ -79,9 +84,29 @@ export interface InheritanceTree extends Tree, HasCodePath, HasAnnotations, HasM
  */
 export interface PackageTree extends ContainerTree {
 	readonly _tag: "PackageTree";
-	readonly annotations: IArray<Annotation>;
+	readonly annotations: IArray<AnnotationUnion>;
+	readonly name: Name;
+	readonly members: IArray<Tree>;
+	readonly comments: Comments;
+	readonly codePath: QualifiedName;
+}
+
+/**
+ * Class tree implementation, used both for classes and traits
+ * Equivalent to Scala's case class ClassTree
+ */
+export interface ClassTree extends InheritanceTree {
+	readonly _tag: "ClassTree";
+	readonly isImplicit: boolean;
+	readonly annotations: IArray<AnnotationUnion>;
+	readonly level: ProtectionLevel;
 	readonly name: Name;
+	readonly tparams: IArray<TypeParamTree>;
+	readonly parents: IArray<TypeRef>;
+	readonly ctors: IArray<CtorTree>;
 	readonly members: IArray<Tree>;
+	readonly classType: ClassType;
+	readonly isSealed: boolean;
 	readonly comments: Comments;
 	readonly codePath: QualifiedName;
 }
@@ -92,7 +117,7 @@ export interface PackageTree extends ContainerTree {
  */
 export interface ModuleTree extends ContainerTree, InheritanceTree {
 	readonly _tag: "ModuleTree";
-	readonly annotations: IArray<Annotation>;
+	readonly annotations: IArray<AnnotationUnion>;
 	readonly level: ProtectionLevel;
 	readonly name: Name;
 	readonly parents: IArray<TypeRef>;
@@ -119,7 +144,7 @@ export interface MemberTree extends Tree, HasCodePath, HasAnnotations {
  */
 export interface FieldTree extends MemberTree {
 	readonly _tag: "FieldTree";
-	readonly annotations: IArray<Annotation>;
+	readonly annotations: IArray<AnnotationUnion>;
 	readonly level: ProtectionLevel;
 	readonly name: Name;
 	readonly tpe: TypeRef;
@@ -136,7 +161,7 @@ export interface FieldTree extends MemberTree {
  */
 export interface MethodTree extends MemberTree {
 	readonly _tag: "MethodTree";
-	readonly annotations: IArray<Annotation>;
+	readonly annotations: IArray<AnnotationUnion>;
 	readonly level: ProtectionLevel;
 	readonly name: Name;
 	readonly tparams: IArray<TypeParamTree>;
@@ -163,38 +188,84 @@ export interface TypeAliasTree extends Tree, HasCodePath {
 	readonly codePath: QualifiedName;
 }
 
+/**
+ * Constructor tree implementation
+ * Equivalent to Scala's case class CtorTree
+ */
+export interface CtorTree extends Tree {
+	readonly _tag: "CtorTree";
+	readonly level: ProtectionLevel;
+	readonly params: IArray<ParamTree>;
+	readonly comments: Comments;
+}
+
 // ============================================================================
 // Supporting Types
 // ============================================================================
 
 /**
- * Protection level enumeration
- * Equivalent to Scala's ProtectionLevel
+ * `private[within]`, visible only inside the enclosing package `within`
  */
-export enum ProtectionLevel {
-	Public = "Public",
-	Protected = "Protected",
-	Private = "Private"
+export interface PrivateWithin {
+	readonly _tag: "PrivateWithin";
+	readonly within: Name;
 }
 
 /**
- * Implementation tree type
- * Equivalent to Scala's ImplTree
+ * Protection level
+ * Equivalent to Scala's ProtectionLevel, where `Private(None)` is `Private` and `Private(Some(within))` is `PrivateWithin`
  */
-export type ImplTree = 
-	| { readonly _tag: "NotImplemented" }
-	| { readonly _tag: "ExprTree"; readonly value: any };
+export type ProtectionLevel = "Public" | "Protected" | "Private" | PrivateWithin;
+
+export const ProtectionLevel = {
+	Public: "Public",
+	Protected: "Protected",
+	Private: "Private",
+
+	PrivateWithin: (within: Name): PrivateWithin => ({ _tag: "PrivateWithin", within }),
+
+	isPrivateWithin: (level: ProtectionLevel): level is PrivateWithin => typeof level === "object",
+
+	/**
+	 * The most restrictive of the two levels, used when merging trees
+	 */
+	stricter(one: ProtectionLevel, two: ProtectionLevel): ProtectionLevel {
+		if (one === ProtectionLevel.Private || two === ProtectionLevel.Private) return ProtectionLevel.Private;
+		if (ProtectionLevel.isPrivateWithin(one)) return one;
+		if (ProtectionLevel.isPrivateWithin(two)) return two;
+		if (one === ProtectionLevel.Protected || two === ProtectionLevel.Protected) return ProtectionLevel.Protected;
+		return ProtectionLevel.Public;
+	},
+} as const;
 
 /**
- * NotImplemented singleton
+ * Whether a ClassTree is rendered as a `class` or a `trait`
+ * Equivalent to Scala's ClassType
  */
-export const NotImplemented: ImplTree = { _tag: "NotImplemented" };
+export enum ClassType {
+	Class = "Class",
+	Trait = "Trait",
+}
+
+export namespace ClassType {
+	/**
+	 * A class merged with anything stays a class
+	 */
+	export function combine(one: ClassType, two: ClassType): ClassType {
+		return one === ClassType.Class || two === ClassType.Class ? ClassType.Class : ClassType.Trait;
+	}
+
+	export function asString(classType: ClassType): string {
+		return classType === ClassType.Class ? "class" : "trait";
+	}
+}
 
 /**
  * Type reference interface
  * Equivalent to Scala's TypeRef
  */
-export interface TypeRef {
+export interface TypeRef extends Tree {
+	readonly _tag: "TypeRef";
 	readonly typeName: QualifiedName;
 	readonly targs: IArray<TypeRef>;
 	readonly comments: Comments;
@@ -210,6 +281,7 @@ export interface TypeParamTree extends Tree {
 	readonly params: IArray<TypeParamTree>;
 	readonly upperBound: TypeRef | undefined;
 	readonly comments: Comments;
+	/** we ignore all bounds for code coming from typescript */
 	readonly ignoreBound: boolean;
 }
 
@@ -220,10 +292,141 @@ export interface TypeParamTree extends Tree {
 export interface ParamTree extends Tree {
 	readonly _tag: "ParamTree";
 	readonly name: Name;
+	readonly isImplicit: boolean;
+	readonly isVal: boolean;
 	readonly tpe: TypeRef;
+	readonly default: ImplTree;
 	readonly comments: Comments;
 }
 
+// ============================================================================
+// Implementation / Expression Trees
+// ============================================================================
+
+/**
+ * Marks a member without a body
+ * Equivalent to Scala's case object NotImplemented
+ */
+export interface NotImplementedTree {
+	readonly _tag: "NotImplemented";
+}
+
+/**
+ * NotImplemented singleton
+ */
+export const NotImplemented: NotImplementedTree = { _tag: "NotImplemented" };
+
+export interface ExprBinaryOp {
+	readonly _tag: "BinaryOp";
+	readonly one: ExprTree;
+	readonly op: string;
+	readonly two: ExprTree;
+}
+export interface ExprBlock {
+	readonly _tag: "Block";
+	readonly expressions: IArray<ExprTree>;
+}
+export interface ExprCall {
+	readonly _tag: "Call";
+	readonly function: ExprTree;
+	readonly params: IArray<IArray<ExprArg>>;
+}
+/** Scala's `:_*` */
+export interface ExprVarArgs {
+	readonly _tag: "VarArgs";
+	readonly expr: ExprTree;
+}
+export interface ExprIf {
+	readonly _tag: "If";
+	readonly pred: ExprTree;
+	readonly ifTrue: ExprTree;
+	readonly ifFalse: ExprTree | undefined;
+}
+export interface ExprLambda {
+	readonly _tag: "Lambda";
+	readonly params: IArray<ParamTree>;
+	readonly body: ExprTree;
+}
+export interface ExprNew {
+	readonly _tag: "New";
+	readonly expr: TypeRef;
+	readonly params: IArray<ExprTree>;
+}
+export interface ExprRef {
+	readonly _tag: "Ref";
+	readonly value: QualifiedName;
+}
+export interface ExprSelect {
+	readonly _tag: "Select";
+	readonly from: ExprTree;
+	readonly path: Name;
+}
+export interface ExprTApply {
+	readonly _tag: "TApply";
+	readonly ref: ExprTree;
+	readonly targs: IArray<TypeRef>;
+}
+export interface ExprUnary {
+	readonly _tag: "Unary";
+	readonly op: string;
+	readonly expr: ExprTree;
+}
+export interface ExprVal {
+	readonly _tag: "Val";
+	readonly name: Name;
+	readonly value: ExprTree;
+}
+export interface ExprThrow {
+	readonly _tag: "Throw";
+	readonly expr: ExprTree;
+}
+export interface ExprArgNamed {
+	readonly _tag: "ArgNamed";
+	readonly name: Name;
+	readonly expr: ExprTree;
+}
+export interface ExprArgPos {
+	readonly _tag: "ArgPos";
+	readonly expr: ExprTree;
+}
+export interface ExprArgVariable {
+	readonly _tag: "ArgVariable";
+	readonly expr: ExprTree;
+}
+
+/**
+ * Arguments to an ExprTree.Call
+ * Equivalent to Scala's ExprTree.Arg
+ */
+export type ExprArg = ExprArgNamed | ExprArgPos | ExprArgVariable;
+
+/**
+ * Expression trees. Literals reuse the `ExprTreeLit` classes from Comment.ts so they can be carried by markers
+ * Equivalent to Scala's sealed trait ExprTree
+ */
+export type ExprTree =
+	| ExprBinaryOp
+	| ExprBlock
+	| ExprCall
+	| ExprVarArgs
+	| ExprIf
+	| ExprLambda
+	| ExprNew
+	| ExprRef
+	| ExprSelect
+	| ExprTApply
+	| ExprUnary
+	| ExprVal
+	| ExprThrow
+	| ExprTreeLit
+	| ExprArg;
+
+/**
+ * Implementation tree type
+ * Equivalent to Scala's ImplTree
+ */
+export type ImplTree = NotImplementedTree | ExprTree;
+
 // ============================================================================
 // Type Guards
 // ============================================================================
@@ -256,10 +459,482 @@ export function isTypeAliasTree(tree: Tree): tree is TypeAliasTree {
 	return tree._tag === "TypeAliasTree";
 }
 
+export function isClassTree(tree: Tree): tree is ClassTree {
+	return tree._tag === "ClassTree";
+}
+
+export function isInheritanceTree(tree: Tree): tree is InheritanceTree {
+	return tree._tag === "ClassTree" || tree._tag === "ModuleTree";
+}
+
+export function isCtorTree(tree: Tree): tree is CtorTree {
+	return tree._tag === "CtorTree";
+}
+
+export function isTypeRef(tree: Tree): tree is TypeRef {
+	return tree._tag === "TypeRef";
+}
+
+// ============================================================================
+// Tree Utilities
+// ============================================================================
+
+/**
+ * Equivalent to Scala's HasAnnotations.originalName
+ */
+export function originalName(tree: Tree & HasAnnotations): Name {
+	for (const ann of tree.annotations.toArray()) {
+		switch (ann._tag) {
+			case "JsName":
+				return ann.name;
+			case "JsGlobal":
+				if (ann.name.parts.nonEmpty) return ann.name.parts.last;
+				break;
+			case "JsImport":
+				if (Imported.isDefault(ann.imported)) return Name.Default;
+				if (Imported.isNamed(ann.imported) && ann.imported.name.nonEmpty) return ann.imported.name.last;
+				break;
+		}
+	}
+	return tree.name;
+}
+
+/**
+ * Equivalent to Scala's HasAnnotations.location
+ */
+export function location(tree: HasAnnotations): LocationAnnotationUnion | undefined {
+	return tree.annotations.find(Annotation.isLocationAnnotation) as
+		| LocationAnnotationUnion
+		| undefined;
+}
+
+/**
+ * Equivalent to Scala's InheritanceTree.isScalaJsDefined
+ */
+export function isScalaJsDefined(tree: HasAnnotations): boolean {
+	return tree.annotations.exists((a) => a._tag === "ScalaJSDefined");
+}
+
+/**
+ * Equivalent to Scala's InheritanceTree.isNative
+ */
+export function isNative(tree: HasAnnotations): boolean {
+	return tree.annotations.exists((a) => a._tag === "JsNative" || a._tag === "ScalaJSDefined");
+}
+
+/**
+ * Equivalent to Scala's MemberTree.isNative
+ */
+export function isNativeMember(tree: MemberTree): boolean {
+	return tree.impl._tag === "NotImplemented" || ExprTree.isNative(tree.impl);
+}
+
+/**
+ * Equivalent to Scala's HasMembers.index
+ */
+export function membersByName(tree: HasMembers): Map<string, IArray<Tree>> {
+	return tree.members.groupBy((m) => m.name.unescaped);
+}
+
+/**
+ * Rewrite codepaths of a tree and everything below it to be rooted at `base`
+ * Equivalent to Scala's object setCodePath
+ */
+export function setCodePath<T extends Tree>(base: QualifiedName, t: T): T {
+	const tree: Tree = t;
+	switch (tree._tag) {
+		case "ModuleTree":
+		case "PackageTree":
+		case "ClassTree": {
+			const x = tree as ModuleTree | PackageTree | ClassTree;
+			return {
+				...x,
+				members: x.members.map((m) => setCodePath(base.add(m.name), m)),
+				codePath: base,
+			} as unknown as T;
+		}
+		case "TypeAliasTree":
+		case "FieldTree":
+		case "MethodTree":
+			return { ...tree, codePath: base } as unknown as T;
+		default:
+			return t;
+	}
+}
+
+// ============================================================================
+// Tree Factories
+// ============================================================================
+
+/**
+ * PackageTree factory
+ */
+export const PackageTree = {
+	create: (
+		annotations: IArray<AnnotationUnion>,
+		name: Name,
+		members: IArray<Tree>,
+		comments: Comments,
+		codePath: QualifiedName,
+	): PackageTree => ({
+		_tag: "PackageTree",
+		annotations,
+		name,
+		members,
+		comments,
+		codePath,
+		withMembers(newMembers: IArray<Tree>): PackageTree {
+			return { ...this, members: newMembers };
+		},
+	}),
+};
+
+/**
+ * ClassTree factory
+ */
+export const ClassTree = {
+	create: (
+		isImplicit: boolean,
+		annotations: IArray<AnnotationUnion>,
+		level: ProtectionLevel,
+		name: Name,
+		tparams: IArray<TypeParamTree>,
+		parents: IArray<TypeRef>,
+		ctors: IArray<CtorTree>,
+		members: IArray<Tree>,
+		classType: ClassType,
+		isSealed: boolean,
+		comments: Comments,
+		codePath: QualifiedName,
+	): ClassTree => ({
+		_tag: "ClassTree",
+		isImplicit,
+		annotations,
+		level,
+		name,
+		tparams,
+		parents,
+		ctors,
+		members,
+		classType,
+		isSealed,
+		comments,
+		codePath,
+	}),
+
+	/**
+	 * Equivalent to Scala's InheritanceTree.receivesCompanion
+	 */
+	receivesCompanion: (cls: ClassTree): boolean =>
+		isScalaJsDefined(cls) || cls.comments.has(CouldBeScalaJsDefined),
+};
+
+/**
+ * ModuleTree factory
+ */
+export const ModuleTree = {
+	create: (
+		annotations: IArray<AnnotationUnion>,
+		level: ProtectionLevel,
+		name: Name,
+		parents: IArray<TypeRef>,
+		members: IArray<Tree>,
+		comments: Comments,
+		codePath: QualifiedName,
+		isOverride: boolean,
+	): ModuleTree => ({
+		_tag: "ModuleTree",
+		annotations,
+		level,
+		name,
+		parents,
+		members,
+		comments,
+		codePath,
+		isOverride,
+		withMembers(newMembers: IArray<Tree>): ModuleTree {
+			return { ...this, members: newMembers };
+		},
+	}),
+};
+
+/**
+ * TypeAliasTree factory
+ */
+export const TypeAliasTree = {
+	create: (
+		name: Name,
+		level: ProtectionLevel,
+		tparams: IArray<TypeParamTree>,
+		alias: TypeRef,
+		comments: Comments,
+		codePath: QualifiedName,
+	): TypeAliasTree => ({
+		_tag: "TypeAliasTree",
+		name,
+		level,
+		tparams,
+		alias,
+		comments,
+		codePath,
+	}),
+};
+
+/**
+ * FieldTree factory
+ */
+export const FieldTree = {
+	create: (
+		annotations: IArray<AnnotationUnion>,
+		level: ProtectionLevel,
+		name: Name,
+		tpe: TypeRef,
+		impl: ImplTree,
+		isReadOnly: boolean,
+		isOverride: boolean,
+		comments: Comments,
+		codePath: QualifiedName,
+	): FieldTree => ({
+		_tag: "FieldTree",
+		annotations,
+		level,
+		name,
+		tpe,
+		impl,
+		isReadOnly,
+		isOverride,
+		comments,
+		codePath,
+		withCodePath(newCodePath: QualifiedName): FieldTree {
+			return { ...this, codePath: newCodePath };
+		},
+		renamed(newName: Name): FieldTree {
+			return {
+				...this,
+				name: newName,
+				annotations: Annotation.renamedFrom(this.name)(this.annotations),
+				isOverride: false,
+				codePath: this.codePath.init.add(newName),
+			};
+		},
+	}),
+
+	withSuffix: (f: FieldTree, suffix: string): FieldTree => f.renamed(f.name.withSuffix(suffix, StringToSuffix)) as FieldTree,
+};
+
+/**
+ * MethodTree factory
+ */
+export const MethodTree = {
+	create: (
+		annotations: IArray<AnnotationUnion>,
+		level: ProtectionLevel,
+		name: Name,
+		tparams: IArray<TypeParamTree>,
+		params: IArray<IArray<ParamTree>>,
+		impl: ImplTree,
+		resultType: TypeRef,
+		isOverride: boolean,
+		comments: Comments,
+		codePath: QualifiedName,
+		isImplicit: boolean,
+	): MethodTree => ({
+		_tag: "MethodTree",
+		annotations,
+		level,
+		name,
+		tparams,
+		params,
+		impl,
+		resultType,
+		isOverride,
+		comments,
+		codePath,
+		isImplicit,
+		withCodePath(newCodePath: QualifiedName): MethodTree {
+			return { ...this, codePath: newCodePath };
+		},
+		renamed(newName: Name): MethodTree {
+			return {
+				...this,
+				name: newName,
+				annotations: Annotation.renamedFrom(this.name)(this.annotations),
+				isOverride: false,
+				codePath: this.codePath.init.add(newName),
+			};
+		},
+	}),
+
+	withSuffix: (m: MethodTree, suffix: string): MethodTree => m.renamed(m.name.withSuffix(suffix, StringToSuffix)) as MethodTree,
+};
+
+/**
+ * CtorTree factory
+ */
+export const CtorTree = {
+	create: (level: ProtectionLevel, params: IArray<ParamTree>, comments: Comments): CtorTree => ({
+		_tag: "CtorTree",
+		name: Name.CONSTRUCTOR,
+		level,
+		params,
+		comments,
+	}),
+
+	get defaultPublic(): CtorTree {
+		return CtorTree.create(ProtectionLevel.Public, IArray.Empty, Comments.empty());
+	},
+
+	get defaultProtected(): CtorTree {
+		return CtorTree.create(ProtectionLevel.Protected, IArray.Empty, Comments.empty());
+	},
+};
+
+/**
+ * TypeParamTree factory
+ */
+export const TypeParamTree = {
+	create: (
+		name: Name,
+		params: IArray<TypeParamTree>,
+		upperBound: TypeRef | undefined,
+		comments: Comments,
+		ignoreBound: boolean,
+	): TypeParamTree => ({
+		_tag: "TypeParamTree",
+		name,
+		params,
+		upperBound,
+		comments,
+		ignoreBound,
+	}),
+
+	asTypeArgs: (tps: IArray<TypeParamTree>): IArray<TypeRef> => tps.map((tp) => TypeRef.fromName(tp.name)),
+};
+
+/**
+ * ParamTree factory
+ */
+export const ParamTree = {
+	create: (
+		name: Name,
+		isImplicit: boolean,
+		isVal: boolean,
+		tpe: TypeRef,
+		defaultValue: ImplTree,
+		comments: Comments,
+	): ParamTree => ({
+		_tag: "ParamTree",
+		name,
+		isImplicit,
+		isVal,
+		tpe,
+		default: defaultValue,
+		comments,
+	}),
+};
+
+// ============================================================================
+// ExprTree Utilities
+// ============================================================================
+
+/**
+ * ExprTree constructors and utilities
+ * Equivalent to Scala's object ExprTree
+ */
+export const ExprTree = {
+	BinaryOp: (one: ExprTree, op: string, two: ExprTree): ExprBinaryOp => ({ _tag: "BinaryOp", one, op, two }),
+	Block: (...expressions: ExprTree[]): ExprBlock => ({ _tag: "Block", expressions: IArray.fromArray(expressions) }),
+	BlockFlatten: (...es: IArray<ExprTree>[]): ExprBlock => ({ _tag: "Block", expressions: IArray.fromArray(es).flatten() }),
+	Call: (fn: ExprTree, params: IArray<IArray<ExprArg>>): ExprCall => ({ _tag: "Call", function: fn, params }),
+	VarArgs: (expr: ExprTree): ExprVarArgs => ({ _tag: "VarArgs", expr }),
+	If: (pred: ExprTree, ifTrue: ExprTree, ifFalse: ExprTree | undefined): ExprIf => ({ _tag: "If", pred, ifTrue, ifFalse }),
+	Lambda: (params: IArray<ParamTree>, body: ExprTree): ExprLambda => ({ _tag: "Lambda", params, body }),
+	New: (expr: TypeRef, params: IArray<ExprTree>): ExprNew => ({ _tag: "New", expr, params }),
+	Ref: (value: QualifiedName): ExprRef => ({ _tag: "Ref", value }),
+	RefName: (name: Name): ExprRef => ExprTree.Ref(QualifiedName.from([name])),
+	RefType: (tr: TypeRef): ExprTree =>
+		tr.targs.isEmpty ? ExprTree.Ref(tr.typeName) : ExprTree.TApply(ExprTree.Ref(tr.typeName), tr.targs),
+	Select: (from: ExprTree, path: Name): ExprSelect => ({ _tag: "Select", from, path }),
+	TApply: (ref: ExprTree, targs: IArray<TypeRef>): ExprTApply => ({ _tag: "TApply", ref, targs }),
+	Unary: (op: string, expr: ExprTree): ExprUnary => ({ _tag: "Unary", op, expr }),
+	Val: (name: Name, value: ExprTree): ExprVal => ({ _tag: "Val", name, value }),
+	Throw: (expr: ExprTree): ExprThrow => ({ _tag: "Throw", expr }),
+
+	Arg: {
+		Named: (name: Name, expr: ExprTree): ExprArgNamed => ({ _tag: "ArgNamed", name, expr }),
+		Pos: (expr: ExprTree): ExprArgPos => ({ _tag: "ArgPos", expr }),
+		Variable: (expr: ExprTree): ExprArgVariable => ({ _tag: "ArgVariable", expr }),
+	},
+
+	select: (from: ExprTree, ...strings: string[]): ExprTree =>
+		strings.reduce<ExprTree>((acc, str) => ExprTree.Select(acc, new Name(str)), from),
+
+	IsInstanceOf: (target: ExprTree, of: TypeRef): ExprTree =>
+		ExprTree.TApply(ExprTree.Select(target, new Name("isInstanceOf")), IArray.apply(of)),
+
+	AsInstanceOf: (target: ExprTree, of: TypeRef): ExprTree =>
+		ExprTree.TApply(ExprTree.Select(target, new Name("asInstanceOf")), IArray.apply(of)),
+
+	/**
+	 * `js.native`, the body of members of native traits and classes
+	 */
+	get native(): ExprRef {
+		return ExprTree.Ref(QualifiedName.scala_js.add(new Name("native")));
+	},
+
+	isNative: (impl: ImplTree): boolean =>
+		impl._tag === "Ref" && impl.value.equals(QualifiedName.scala_js.add(new Name("native"))),
+
+	isLit: (impl: ImplTree): impl is ExprTreeLit => impl._tag === "ExprTreeLit",
+};
+
 // ============================================================================
 // TypeRef Utilities
 // ============================================================================
 
+/**
+ * Attach an extractor to a constructor function, mirroring Scala's apply/unapply pairs
+ */
+function extractor<F extends (...args: any[]) => TypeRef, U>(
+	apply: F,
+	unapply: (tr: TypeRef) => U | undefined,
+): F & { unapply: (tr: TypeRef) => U | undefined } {
+	return Object.assign(apply, { unapply });
+}
+
+const literal = (qname: QualifiedName) =>
+	extractor(
+		(underlying: string): TypeRef =>
+			TypeRef.create(qname, IArray.apply(TypeRef.create(QualifiedName.from([new Name(underlying)])))),
+		(tr: TypeRef): string | undefined => {
+			if (!tr.typeName.equals(qname) || tr.targs.length !== 1) return undefined;
+			const inner = tr.targs.apply(0);
+			return inner.targs.isEmpty && inner.typeName.parts.length === 1 ? inner.typeName.parts.apply(0).unescaped : undefined;
+		},
+	);
+
+const FunctionName = /^Function(\d+)$/;
+
+function rewriteRepeated(typeParams: IArray<TypeRef>): IArray<TypeRef> {
+	const last = typeParams.lastOption;
+	const repeated = last ? TypeRef.Repeated.unapply(last) : undefined;
+	return repeated
+		? typeParams.dropRight(1).append(TypeRef.withComments(repeated[0], Comments.create("/* repeated */")))
+		: typeParams;
+}
+
+function flattenUnion(types: IArray<TypeRef>): IArray<TypeRef> {
+	return types.flatMap((t) => (t.typeName.equals(QualifiedName.UNION) ? flattenUnion(t.targs) : IArray.apply(t)));
+}
+
+function distinctTypeRefs(types: IArray<TypeRef>): IArray<TypeRef> {
+	const result: TypeRef[] = [];
+	types.forEach((t) => {
+		if (!result.some((r) => TypeRef.equals(r, t))) result.push(t);
+	});
+	return result.length === types.length ? types : IArray.fromArray(result);
+}
+
 /**
  * TypeRef factory and utilities
  * Equivalent to Scala's object TypeRef
@@ -269,22 +944,255 @@ export const TypeRef = {
 	 * Create a TypeRef
 	 */
 	create: (typeName: QualifiedName, targs: IArray<TypeRef> = IArray.Empty, comments: Comments = Comments.empty()): TypeRef => ({
+		_tag: "TypeRef",
+		name: typeName.parts.last,
 		typeName,
 		targs,
-		comments
+		comments,
 	}),
 
+	/**
+	 * Reference something which is in scope by name, typically a type parameter
+	 */
+	fromName: (name: Name): TypeRef => TypeRef.create(QualifiedName.from([name])),
+
+	/**
+	 * Structural equality. Comments never participate, same as in the Scala implementation
+	 */
+	equals: (one: TypeRef, two: TypeRef): boolean =>
+		one === two ||
+		(one.typeName.equals(two.typeName) &&
+			one.targs.length === two.targs.length &&
+			one.targs.zip(two.targs).forall(([a, b]) => TypeRef.equals(a, b))),
+
+	withComments: (tr: TypeRef, cs: Comments): TypeRef =>
+		cs.isEmpty ? tr : TypeRef.create(tr.typeName, tr.targs, tr.comments.concat(cs)),
+
+	withOptional: (tr: TypeRef, optional: boolean): TypeRef => (optional ? TypeRef.UndefOr(tr) : tr),
+
+	stripTargs: (tr: TypeRef): TypeRef => ({ ...tr, targs: tr.targs.map(() => TypeRef.Any) }),
+
 	/**
 	 * Create an intersection type
 	 * Equivalent to Scala's TypeRef.Intersection
 	 */
-	Intersection: (types: IArray<TypeRef>, comments: Comments = Comments.empty()): TypeRef => ({
-		typeName: QualifiedName.INTERSECTION,
-		targs: types,
-		comments
-	}),
+	Intersection: extractor(
+		(types: IArray<TypeRef>, comments: Comments = Comments.empty()): TypeRef => {
+			const flattened = distinctTypeRefs(
+				types.flatMap((t) => (t.typeName.equals(QualifiedName.INTERSECTION) ? t.targs : IArray.apply(t))),
+			);
+			return flattened.isEmpty
+				? TypeRef.withComments(TypeRef.Nothing, comments)
+				: TypeRef.create(QualifiedName.INTERSECTION, flattened, comments);
+		},
+		(tr: TypeRef): [IArray<TypeRef>, Comments] | undefined =>
+			tr.typeName.equals(QualifiedName.INTERSECTION) ? [tr.targs, tr.comments] : undefined,
+	),
+
+	/**
+	 * @param sort matters surprisingly much, since union types dont commute. When we construct a union type it's
+	 *   sorted (for consistent builds), and when we encounter an existing one we don't change it
+	 */
+	Union: extractor(
+		(types: IArray<TypeRef>, comments: Comments, sort: boolean): TypeRef => {
+			const flat = flattenUnion(types);
+			const flattened = sort ? flat.sortBy((t) => t.typeName.parts.last.unescaped) : flat;
+
+			/* "a" | "a" | Foo[A] | Foo[B] => "a" | Foo[A | B] */
+			const isInternal = (t: TypeRef) =>
+				t.typeName.parts.length === 1 && [...Name.Internal].some((n) => n.equals(t.typeName.parts.last));
+			const compressed = distinctTypeRefs(
+				flattened.zipWithIndex().mapNotNone(([tr, idx]) => {
+					if (isInternal(tr) || tr.targs.isEmpty) return tr;
+					const sameName = flattened.filter((o) => !isInternal(o) && o.typeName.equals(tr.typeName));
+					if (sameName.length <= 1 || sameName.exists((o) => o.targs.length !== tr.targs.length)) return tr;
+					const isFirst = flattened.indexWhere((o) => o.typeName.equals(tr.typeName)) === idx;
+					return isFirst
+						? { ...tr, targs: sameName.map((o) => o.targs).transpose().map((ts) => TypeRef.Union(ts, Comments.empty(), true)) }
+						: undefined;
+				}),
+			);
+
+			const ret =
+				compressed.length === 0
+					? TypeRef.Nothing
+					: compressed.length === 1
+						? compressed.apply(0)
+						: TypeRef.create(QualifiedName.UNION, compressed);
+			return TypeRef.withComments(ret, comments);
+		},
+		(tr: TypeRef): [IArray<TypeRef>, Comments] | undefined =>
+			tr.typeName.equals(QualifiedName.UNION) ? [tr.targs, tr.comments] : undefined,
+	),
+
+	/**
+	 * We represent `js.UndefOr` as a fake type ref inside a union type. Note that it can also appear on its own
+	 */
+	UndefOr: extractor(
+		(tpe: TypeRef): TypeRef => TypeRef.Union(IArray.apply(TypeRef.undefined, tpe), Comments.empty(), false),
+		(tr: TypeRef): [TypeRef, Comments] | undefined => {
+			const union = TypeRef.Union.unapply(tr);
+			if (!union || !union[0].exists((t) => TypeRef.equals(t, TypeRef.undefined))) return undefined;
+			const rest = union[0].filter((t) => !TypeRef.equals(t, TypeRef.undefined) && !TypeRef.equals(t, TypeRef.Nothing));
+			const tpe =
+				rest.length === 0
+					? TypeRef.Nothing
+					: rest.length === 1
+						? rest.apply(0)
+						: TypeRef.Union(rest, Comments.empty(), false);
+			return [tpe, union[1]];
+		},
+	),
+
+	TopLevel: extractor(
+		(tr: TypeRef): TypeRef => TypeRef.create(QualifiedName.TopLevel, IArray.apply(tr)),
+		(tr: TypeRef): TypeRef | undefined =>
+			tr.typeName.equals(QualifiedName.TopLevel) && tr.targs.length === 1 ? tr.targs.apply(0) : undefined,
+	),
+
+	JsFunction: extractor(
+		(thisType: TypeRef | undefined, typeParams: IArray<TypeRef>, resType: TypeRef, comments: Comments): TypeRef =>
+			TypeRef.create(
+				QualifiedName.FunctionArity(thisType !== undefined, typeParams.length),
+				IArray.fromOption(thisType).concat(rewriteRepeated(typeParams).append(resType)),
+				comments,
+			),
+		(tr: TypeRef): [IArray<TypeRef>, TypeRef] | undefined =>
+			tr.typeName.startsWith(QualifiedName.scala_js) &&
+			tr.typeName.parts.length === QualifiedName.scala_js.parts.length + 1 &&
+			FunctionName.test(tr.typeName.parts.last.unescaped) &&
+			tr.targs.nonEmpty
+				? [tr.targs.init, tr.targs.last]
+				: undefined,
+	),
+
+	ScalaFunction: extractor(
+		(typeParams: IArray<TypeRef>, resType: TypeRef, comments: Comments): TypeRef =>
+			TypeRef.create(
+				QualifiedName.ScalaFunctionArity(typeParams.length),
+				rewriteRepeated(typeParams).append(resType),
+				comments,
+			),
+		(tr: TypeRef): [IArray<TypeRef>, TypeRef] | undefined =>
+			TypeRef.isScalaFunction(tr.typeName) && tr.targs.nonEmpty ? [tr.targs.init, tr.targs.last] : undefined,
+	),
+
+	isScalaFunction: (qn: QualifiedName): boolean =>
+		qn.parts.length === 2 && qn.parts.apply(0).equals(Name.scala) && FunctionName.test(qn.parts.apply(1).unescaped),
+
+	JsTuple: (typeParams: IArray<TypeRef>): TypeRef => {
+		if (typeParams.isEmpty || typeParams.length > 22) {
+			return TypeRef.create(QualifiedName.JsArray, IArray.apply(TypeRef.Any));
+		}
+		if (typeParams.length === 1) {
+			return TypeRef.create(QualifiedName.JsArray, typeParams);
+		}
+		return TypeRef.create(QualifiedName.Tuple(typeParams.length), typeParams);
+	},
+
+	Repeated: extractor(
+		(underlying: TypeRef, comments: Comments): TypeRef =>
+			TypeRef.create(QualifiedName.REPEATED, IArray.apply(underlying), comments),
+		(tr: TypeRef): [TypeRef, Comments] | undefined =>
+			tr.typeName.equals(QualifiedName.REPEATED) && tr.targs.length === 1 ? [tr.targs.apply(0), tr.comments] : undefined,
+	),
+
+	Singleton: extractor(
+		(underlying: TypeRef): TypeRef => TypeRef.create(QualifiedName.SINGLETON, IArray.apply(underlying)),
+		(tr: TypeRef): TypeRef | undefined =>
+			tr.typeName.equals(QualifiedName.SINGLETON) && tr.targs.length === 1 ? tr.targs.apply(0) : undefined,
+	),
+
+	ThisType: extractor(
+		(comments: Comments): TypeRef => TypeRef.create(QualifiedName.THIS, IArray.Empty, comments),
+		(tr: TypeRef): Comments | undefined => (tr.typeName.equals(QualifiedName.THIS) ? tr.comments : undefined),
+	),
+
+	StringLiteral: literal(QualifiedName.STRING_LITERAL),
+	DoubleLiteral: literal(QualifiedName.DOUBLE_LITERAL),
+	IntLiteral: literal(QualifiedName.INT_LITERAL),
+	BooleanLiteral: literal(QualifiedName.BOOLEAN_LITERAL),
+
+	isLiteral: (typeName: QualifiedName): boolean =>
+		typeName.equals(QualifiedName.STRING_LITERAL) ||
+		typeName.equals(QualifiedName.DOUBLE_LITERAL) ||
+		typeName.equals(QualifiedName.INT_LITERAL) ||
+		typeName.equals(QualifiedName.BOOLEAN_LITERAL),
+
+	StringDictionary: (typeParam: TypeRef, comments: Comments): TypeRef =>
+		TypeRef.create(QualifiedName.StringDictionary, IArray.apply(typeParam), comments),
+
+	NumberDictionary: (typeParam: TypeRef, comments: Comments): TypeRef =>
+		TypeRef.create(QualifiedName.NumberDictionary, IArray.apply(typeParam), comments),
+
+	isPrimitive: (tr: TypeRef): boolean =>
+		tr.targs.isEmpty &&
+		[
+			QualifiedName.Boolean,
+			QualifiedName.Byte,
+			QualifiedName.Double,
+			QualifiedName.Float,
+			QualifiedName.Int,
+			QualifiedName.Long,
+			QualifiedName.Nothing,
+			QualifiedName.Null,
+			QualifiedName.Short,
+			QualifiedName.Unit,
+		].some((qn) => qn.equals(tr.typeName)),
+
+	// Common type references
+	get Wildcard(): TypeRef {
+		return TypeRef.create(QualifiedName.WILDCARD);
+	},
+
+	get AnyRef(): TypeRef {
+		return TypeRef.create(QualifiedName.AnyRef);
+	},
+
+	get Any(): TypeRef {
+		return TypeRef.create(QualifiedName.Any);
+	},
+
+	get AnyVal(): TypeRef {
+		return TypeRef.create(QualifiedName.AnyVal);
+	},
+
+	get Boolean(): TypeRef {
+		return TypeRef.create(QualifiedName.Boolean);
+	},
+
+	get Byte(): TypeRef {
+		return TypeRef.create(QualifiedName.Byte);
+	},
+
+	get Double(): TypeRef {
+		return TypeRef.create(QualifiedName.Double);
+	},
+
+	get Float(): TypeRef {
+		return TypeRef.create(QualifiedName.Float);
+	},
+
+	get Int(): TypeRef {
+		return TypeRef.create(QualifiedName.Int);
+	},
+
+	get Long(): TypeRef {
+		return TypeRef.create(QualifiedName.Long);
+	},
+
+	get Nothing(): TypeRef {
+		return TypeRef.create(QualifiedName.Nothing);
+	},
+
+	get Null(): TypeRef {
+		return TypeRef.create(QualifiedName.Null);
+	},
+
+	get Short(): TypeRef {
+		return TypeRef.create(QualifiedName.Short);
+	},
 
-	// Common type references - defined as getters to avoid circular reference
 	get String(): TypeRef {
 		return TypeRef.create(QualifiedName.String);
 	},
@@ -293,7 +1201,31 @@ export const TypeRef = {
 		return TypeRef.create(QualifiedName.Unit);
 	},
 
-	get Boolean(): TypeRef {
-		return TypeRef.create(QualifiedName.Boolean);
+	get JsAny(): TypeRef {
+		return TypeRef.create(QualifiedName.JsAny);
+	},
+
+	get JsBigInt(): TypeRef {
+		return TypeRef.create(QualifiedName.JsBigInt);
+	},
+
+	get JsDynamic(): TypeRef {
+		return TypeRef.create(QualifiedName.JsDynamic);
+	},
+
+	get JsFunctionBase(): TypeRef {
+		return TypeRef.create(QualifiedName.JsFunction);
+	},
+
+	get JsObject(): TypeRef {
+		return TypeRef.create(QualifiedName.JsObject);
+	},
+
+	get JsSymbol(): TypeRef {
+		return TypeRef.create(QualifiedName.JsSymbol);
+	},
+
+	get undefined(): TypeRef {
+		return TypeRef.create(QualifiedName.UNDEFINED);
 	},
 };
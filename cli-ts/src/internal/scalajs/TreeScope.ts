@@ -0,0 +1,243 @@
+/**
+ * TypeScript port of org.scalablytyped.converter.internal.scalajs.TreeScope
+ *
+ * Tracks where we are while walking a Scala tree, and resolves `QualifiedName`s against the library
+ * being converted and the libraries it depends on.
+ */
+
+import { IArray } from "../IArray.js";
+import type { Logger } from "../logging/index.js";
+import { Name } from "./Name.js";
+import type { QualifiedName } from "./QualifiedName.js";
+import { ScalaJsClasses } from "./ScalaJsClasses.js";
+import {
+	type ClassTree,
+	type ContainerTree,
+	type InheritanceTree,
+	isContainerTree,
+	isFieldTree,
+	isInheritanceTree,
+	isNative,
+	type MethodTree,
+	membersByName,
+	type Tree,
+	type TypeAliasTree,
+	type TypeParamTree,
+	TypeRef,
+} from "./Tree.js";
+
+export abstract class TreeScope {
+	abstract readonly outputPkg: Name;
+	abstract readonly libName: Name;
+	abstract readonly logger: Logger<void>;
+	abstract readonly pedantic: boolean;
+
+	/**
+	 * Trees we are inside of, innermost first
+	 */
+	abstract get stack(): readonly Tree[];
+
+	/**
+	 * Type parameters in scope, keyed by unescaped name
+	 */
+	abstract get tparams(): Map<string, TypeParamTree>;
+
+	abstract _lookup(fragments: IArray<Name>): IArray<[Tree, TreeScope]>;
+
+	abstract lookupNoBacktrack(names: IArray<Name>): IArray<[Tree, TreeScope]>;
+
+	/**
+	 * Equivalent to Scala's `..`
+	 */
+	get parent(): TreeScope {
+		return this instanceof TreeScope.Scoped ? this.outer : this;
+	}
+
+	get root(): TreeScope.Root {
+		return this instanceof TreeScope.Scoped
+			? this.outer.root
+			: (this as unknown as TreeScope.Root);
+	}
+
+	/**
+	 * Names are always looked up fully qualified, so we start from the outermost tree
+	 */
+	lookup(wanted: QualifiedName): IArray<[Tree, TreeScope]> {
+		const scalaJsType = ScalaJsClasses.ScalaJsTypes.get(wanted.value);
+		if (scalaJsType)
+			return IArray.apply<[Tree, TreeScope]>([scalaJsType, this]);
+		if (wanted.parts.isEmpty) return IArray.Empty;
+		const last = wanted.parts.last;
+		if ([...Name.Internal].some((n) => n.equals(last))) return IArray.Empty;
+
+		let searchFrom: TreeScope = this;
+		while (
+			searchFrom instanceof TreeScope.Scoped &&
+			searchFrom.outer instanceof TreeScope.Scoped
+		) {
+			searchFrom = searchFrom.outer;
+		}
+
+		const res = searchFrom._lookup(wanted.parts);
+		if (res.isEmpty && this.pedantic) {
+			this.logger.fatal(`Couldn't resolve ${wanted.value}`);
+		}
+		return res;
+	}
+
+	"/"(current: Tree): TreeScope.Scoped {
+		return new TreeScope.Scoped(this.outputPkg, this.libName, this, current);
+	}
+
+	get nameStack(): Name[] {
+		return [...this.stack].reverse().map((t) => t.name);
+	}
+
+	toString(): string {
+		return this.nameStack.map((n) => n.value).join(" / ");
+	}
+
+	/**
+	 * Whether `tr` refers to a type parameter
+	 */
+	isAbstract(tr: TypeRef): boolean {
+		return (
+			tr.targs.isEmpty &&
+			tr.typeName.parts.length === 1 &&
+			this.tparams.has(tr.typeName.parts.head.unescaped)
+		);
+	}
+
+	get owner(): InheritanceTree | undefined {
+		return this.stack.find(isInheritanceTree);
+	}
+
+	get isNative(): boolean {
+		const owner = this.owner;
+		return owner === undefined || isNative(owner);
+	}
+}
+
+export namespace TreeScope {
+	/**
+	 * The scope outside of all trees. It resolves names within dependencies by their library name,
+	 * that is `typings.<lib>.<...>`
+	 */
+	export class Root extends TreeScope {
+		private _dependencyScopes: Map<string, TreeScope> | undefined;
+
+		constructor(
+			readonly outputPkg: Name,
+			readonly libName: Name,
+			private readonly _dependencies: Map<string, ContainerTree>,
+			readonly logger: Logger<void>,
+			readonly pedantic: boolean,
+		) {
+			super();
+		}
+
+		get dependencies(): Map<string, TreeScope> {
+			if (this._dependencyScopes === undefined) {
+				this._dependencyScopes = new Map(
+					Array.from(this._dependencies, ([name, tree]) => [
+						name,
+						this["/"](tree),
+					]),
+				);
+			}
+			return this._dependencyScopes;
+		}
+
+		get stack(): readonly Tree[] {
+			return [];
+		}
+
+		get tparams(): Map<string, TypeParamTree> {
+			return new Map();
+		}
+
+		_lookup(fragments: IArray<Name>): IArray<[Tree, TreeScope]> {
+			if (fragments.length < 2 || !fragments.head.equals(this.outputPkg)) {
+				return IArray.Empty;
+			}
+			const dep = this.dependencies.get(fragments.apply(1).unescaped);
+			return dep ? dep.lookupNoBacktrack(fragments) : IArray.Empty;
+		}
+
+		lookupNoBacktrack(_names: IArray<Name>): IArray<[Tree, TreeScope]> {
+			return IArray.Empty;
+		}
+	}
+
+	export class Scoped extends TreeScope {
+		private _stack: readonly Tree[] | undefined;
+		private _tparams: Map<string, TypeParamTree> | undefined;
+
+		constructor(
+			readonly outputPkg: Name,
+			readonly libName: Name,
+			readonly outer: TreeScope,
+			readonly current: Tree,
+		) {
+			super();
+		}
+
+		get logger(): Logger<void> {
+			return this.outer.logger;
+		}
+
+		get pedantic(): boolean {
+			return this.outer.pedantic;
+		}
+
+		get stack(): readonly Tree[] {
+			if (this._stack === undefined) {
+				this._stack = [this.current, ...this.outer.stack];
+			}
+			return this._stack;
+		}
+
+		get tparams(): Map<string, TypeParamTree> {
+			if (this._tparams === undefined) {
+				const current = this.current;
+				const newTParams: IArray<TypeParamTree> =
+					current._tag === "ClassTree"
+						? (current as ClassTree).tparams
+						: current._tag === "TypeAliasTree"
+							? (current as TypeAliasTree).tparams
+							: current._tag === "MethodTree"
+								? (current as MethodTree).tparams
+								: IArray.Empty;
+
+				this._tparams = new Map(this.outer.tparams);
+				newTParams.forEach((tp) => this._tparams?.set(tp.name.unescaped, tp));
+			}
+			return this._tparams;
+		}
+
+		lookupNoBacktrack(names: IArray<Name>): IArray<[Tree, TreeScope]> {
+			if (names.isEmpty || !names.head.equals(this.current.name)) {
+				return IArray.Empty;
+			}
+			if (names.length === 1) {
+				return IArray.apply<[Tree, TreeScope]>([this.current, this]);
+			}
+			if (!isContainerTree(this.current)) return IArray.Empty;
+
+			const rest = names.tail;
+			const founds = membersByName(this.current).get(rest.head.unescaped);
+			if (founds === undefined) return IArray.Empty;
+
+			return founds.flatMap((tree) =>
+				isFieldTree(tree) && TypeRef.ThisType.unapply(tree.tpe) !== undefined
+					? this.lookupNoBacktrack(rest.tail)
+					: this["/"](tree).lookupNoBacktrack(rest),
+			);
+		}
+
+		_lookup(names: IArray<Name>): IArray<[Tree, TreeScope]> {
+			const found = this.lookupNoBacktrack(names);
+			return found.isEmpty ? this.outer._lookup(names) : found;
+		}
+	}
+}
@@ -0,0 +1,423 @@
+/**
+ * TypeScript port of org.scalablytyped.converter.internal.scalajs.TreeTransformation
+ *
+ * Rewrites Scala trees bottom-up. Subclasses override the `leave*` methods they care about, the
+ * `visit*` methods take care of recursing into children and keeping track of the `TreeScope`.
+ */
+
+import {
+	type ClassTree,
+	type ContainerTree,
+	type CtorTree,
+	type ExprTree,
+	type FieldTree,
+	type ImplTree,
+	isContainerTree,
+	type MemberTree,
+	type MethodTree,
+	type ModuleTree,
+	type PackageTree,
+	type ParamTree,
+	type Tree,
+	type TypeAliasTree,
+	type TypeParamTree,
+	type TypeRef,
+} from "./Tree.js";
+import type { TreeScope } from "./TreeScope.js";
+
+export class TreeTransformation {
+	leaveClassTree(_scope: TreeScope): (s: ClassTree) => ClassTree {
+		return (s) => s;
+	}
+	leaveContainerTree(_scope: TreeScope): (s: ContainerTree) => ContainerTree {
+		return (s) => s;
+	}
+	leaveCtorTree(_scope: TreeScope): (s: CtorTree) => CtorTree {
+		return (s) => s;
+	}
+	leaveExprTree(_scope: TreeScope): (s: ExprTree) => ExprTree {
+		return (s) => s;
+	}
+	leaveFieldTree(_scope: TreeScope): (s: FieldTree) => FieldTree {
+		return (s) => s;
+	}
+	leaveImplTree(_scope: TreeScope): (s: ImplTree) => ImplTree {
+		return (s) => s;
+	}
+	leaveMemberTree(_scope: TreeScope): (s: MemberTree) => MemberTree {
+		return (s) => s;
+	}
+	leaveMethodTree(_scope: TreeScope): (s: MethodTree) => MethodTree {
+		return (s) => s;
+	}
+	leaveModuleTree(_scope: TreeScope): (s: ModuleTree) => ModuleTree {
+		return (s) => s;
+	}
+	leavePackageTree(_scope: TreeScope): (s: PackageTree) => PackageTree {
+		return (s) => s;
+	}
+	leaveParamTree(_scope: TreeScope): (s: ParamTree) => ParamTree {
+		return (s) => s;
+	}
+	leaveTree(_scope: TreeScope): (s: Tree) => Tree {
+		return (s) => s;
+	}
+	leaveTypeAliasTree(_scope: TreeScope): (s: TypeAliasTree) => TypeAliasTree {
+		return (s) => s;
+	}
+	leaveTypeParamTree(_scope: TreeScope): (s: TypeParamTree) => TypeParamTree {
+		return (s) => s;
+	}
+	leaveTypeRef(_scope: TreeScope): (s: TypeRef) => TypeRef {
+		return (s) => s;
+	}
+
+	visitClassTree(scope: TreeScope): (s: ClassTree) => ClassTree {
+		return (s) => {
+			const childrenScope = scope["/"](s);
+			const updated: ClassTree = {
+				...s,
+				tparams: s.tparams.map(this.visitTypeParamTree(childrenScope)),
+				parents: s.parents.map(this.visitTypeRef(childrenScope)),
+				ctors: s.ctors.map(this.visitCtorTree(childrenScope)),
+				members: s.members.map(this.visitTree(childrenScope)),
+			};
+			return this.leaveClassTree(scope["/"](updated))(updated);
+		};
+	}
+
+	visitCtorTree(scope: TreeScope): (s: CtorTree) => CtorTree {
+		return (s) => {
+			const childrenScope = scope["/"](s);
+			const updated: CtorTree = {
+				...s,
+				params: s.params.map(this.visitParamTree(childrenScope)),
+			};
+			return this.leaveCtorTree(scope["/"](updated))(updated);
+		};
+	}
+
+	visitFieldTree(scope: TreeScope): (s: FieldTree) => FieldTree {
+		return (s) => {
+			const childrenScope = scope["/"](s);
+			const updated: FieldTree = {
+				...s,
+				tpe: this.visitTypeRef(childrenScope)(s.tpe),
+				impl: this.visitImplTree(childrenScope)(s.impl),
+			};
+			return this.leaveFieldTree(scope["/"](updated))(updated);
+		};
+	}
+
+	/**
+	 * Expressions are not `Tree`s on this side, so they don't get their own scope
+	 */
+	visitExprTree(scope: TreeScope): (s: ExprTree) => ExprTree {
+		return (s) => {
+			const visit = this.visitExprTree(scope);
+			let updated: ExprTree;
+			switch (s._tag) {
+				case "VarArgs":
+				case "Throw":
+				case "Unary":
+				case "ArgPos":
+				case "ArgVariable":
+				case "ArgNamed":
+					updated = { ...s, expr: visit(s.expr) };
+					break;
+				case "Val":
+					updated = { ...s, value: visit(s.value) };
+					break;
+				case "TApply":
+					updated = {
+						...s,
+						ref: visit(s.ref),
+						targs: s.targs.map(this.visitTypeRef(scope)),
+					};
+					break;
+				case "If":
+					updated = {
+						...s,
+						pred: visit(s.pred),
+						ifTrue: visit(s.ifTrue),
+						ifFalse: s.ifFalse === undefined ? undefined : visit(s.ifFalse),
+					};
+					break;
+				case "Block":
+					updated = { ...s, expressions: s.expressions.map(visit) };
+					break;
+				case "Select":
+					updated = { ...s, from: visit(s.from) };
+					break;
+				case "Call":
+					updated = {
+						...s,
+						function: visit(s.function),
+						params: s.params.map((ps) => ps.map((p) => visit(p) as typeof p)),
+					};
+					break;
+				case "BinaryOp":
+					updated = { ...s, one: visit(s.one), two: visit(s.two) };
+					break;
+				case "New":
+					updated = {
+						...s,
+						expr: this.visitTypeRef(scope)(s.expr),
+						params: s.params.map(visit),
+					};
+					break;
+				case "Lambda":
+					updated = {
+						...s,
+						params: s.params.map(this.visitParamTree(scope)),
+						body: visit(s.body),
+					};
+					break;
+				case "Ref":
+				case "ExprTreeLit":
+					updated = s;
+					break;
+			}
+			return this.leaveExprTree(scope)(updated);
+		};
+	}
+
+	visitMethodTree(scope: TreeScope): (s: MethodTree) => MethodTree {
+		return (s) => {
+			const childrenScope = scope["/"](s);
+			const updated: MethodTree = {
+				...s,
+				tparams: s.tparams.map(this.visitTypeParamTree(childrenScope)),
+				params: s.params.map((ps) =>
+					ps.map(this.visitParamTree(childrenScope)),
+				),
+				impl: this.visitImplTree(childrenScope)(s.impl),
+				resultType: this.visitTypeRef(childrenScope)(s.resultType),
+			};
+			return this.leaveMethodTree(scope["/"](updated))(updated);
+		};
+	}
+
+	visitModuleTree(scope: TreeScope): (s: ModuleTree) => ModuleTree {
+		return (s) => {
+			const childrenScope = scope["/"](s);
+			const updated: ModuleTree = {
+				...s,
+				parents: s.parents.map(this.visitTypeRef(childrenScope)),
+				members: s.members.map(this.visitTree(childrenScope)),
+			};
+			return this.leaveModuleTree(scope["/"](updated))(updated);
+		};
+	}
+
+	visitPackageTree(scope: TreeScope): (s: PackageTree) => PackageTree {
+		return (s) => {
+			const childrenScope = scope["/"](s);
+			const updated: PackageTree = {
+				...s,
+				members: s.members.map(this.visitTree(childrenScope)),
+			};
+			return this.leavePackageTree(scope["/"](updated))(updated);
+		};
+	}
+
+	visitParamTree(scope: TreeScope): (s: ParamTree) => ParamTree {
+		return (s) => {
+			const childrenScope = scope["/"](s);
+			const updated: ParamTree = {
+				...s,
+				tpe: this.visitTypeRef(childrenScope)(s.tpe),
+				default: this.visitImplTree(childrenScope)(s.default),
+			};
+			return this.leaveParamTree(scope["/"](updated))(updated);
+		};
+	}
+
+	visitTypeAliasTree(scope: TreeScope): (s: TypeAliasTree) => TypeAliasTree {
+		return (s) => {
+			const childrenScope = scope["/"](s);
+			const updated: TypeAliasTree = {
+				...s,
+				tparams: s.tparams.map(this.visitTypeParamTree(childrenScope)),
+				alias: this.visitTypeRef(childrenScope)(s.alias),
+			};
+			return this.leaveTypeAliasTree(scope["/"](updated))(updated);
+		};
+	}
+
+	visitTypeParamTree(scope: TreeScope): (s: TypeParamTree) => TypeParamTree {
+		return (s) => {
+			const childrenScope = scope["/"](s);
+			const updated: TypeParamTree = {
+				...s,
+				upperBound:
+					s.upperBound === undefined
+						? undefined
+						: this.visitTypeRef(childrenScope)(s.upperBound),
+				params: s.params.map(this.visitTypeParamTree(childrenScope)),
+			};
+			return this.leaveTypeParamTree(scope["/"](updated))(updated);
+		};
+	}
+
+	visitTypeRef(scope: TreeScope): (s: TypeRef) => TypeRef {
+		return (s) => {
+			const childrenScope = scope["/"](s);
+			const updated: TypeRef = s.targs.isEmpty
+				? s
+				: { ...s, targs: s.targs.map(this.visitTypeRef(childrenScope)) };
+			return this.leaveTypeRef(scope["/"](updated))(updated);
+		};
+	}
+
+	visitContainerTree(scope: TreeScope): (s: ContainerTree) => ContainerTree {
+		return (s) => {
+			const updated =
+				s._tag === "PackageTree"
+					? this.visitPackageTree(scope)(s as PackageTree)
+					: this.visitModuleTree(scope)(s as ModuleTree);
+			return this.leaveContainerTree(scope["/"](updated))(updated);
+		};
+	}
+
+	visitImplTree(scope: TreeScope): (s: ImplTree) => ImplTree {
+		return (s) =>
+			this.leaveImplTree(scope)(
+				s._tag === "NotImplemented" ? s : this.visitExprTree(scope)(s),
+			);
+	}
+
+	visitMemberTree(scope: TreeScope): (s: MemberTree) => MemberTree {
+		return (s) => {
+			const updated =
+				s._tag === "MethodTree"
+					? this.visitMethodTree(scope)(s as MethodTree)
+					: this.visitFieldTree(scope)(s as FieldTree);
+			return this.leaveMemberTree(scope["/"](updated))(updated);
+		};
+	}
+
+	visitTree(scope: TreeScope): (s: Tree) => Tree {
+		return (s) => {
+			let updated: Tree;
+			if (isContainerTree(s)) updated = this.visitContainerTree(scope)(s);
+			else {
+				switch (s._tag) {
+					case "ClassTree":
+						updated = this.visitClassTree(scope)(s as ClassTree);
+						break;
+					case "CtorTree":
+						updated = this.visitCtorTree(scope)(s as CtorTree);
+						break;
+					case "FieldTree":
+					case "MethodTree":
+						updated = this.visitMemberTree(scope)(s as MemberTree);
+						break;
+					case "ParamTree":
+						updated = this.visitParamTree(scope)(s as ParamTree);
+						break;
+					case "TypeAliasTree":
+						updated = this.visitTypeAliasTree(scope)(s as TypeAliasTree);
+						break;
+					case "TypeParamTree":
+						updated = this.visitTypeParamTree(scope)(s as TypeParamTree);
+						break;
+					case "TypeRef":
+						updated = this.visitTypeRef(scope)(s as TypeRef);
+						break;
+					default:
+						updated = s;
+				}
+			}
+			return this.leaveTree(scope["/"](updated))(updated);
+		};
+	}
+
+	/**
+	 * Run the `leave*` methods of `this` and then of `that` in the same traversal
+	 */
+	combine(that: TreeTransformation): TreeTransformation {
+		return new CombinedTreeTransformation(this, that);
+	}
+
+	">>"(that: TreeTransformation): TreeTransformation {
+		return this.combine(that);
+	}
+}
+
+class CombinedTreeTransformation extends TreeTransformation {
+	constructor(
+		private readonly first: TreeTransformation,
+		private readonly second: TreeTransformation,
+	) {
+		super();
+	}
+
+	leaveClassTree(scope: TreeScope): (s: ClassTree) => ClassTree {
+		return (s) =>
+			this.second.leaveClassTree(scope)(this.first.leaveClassTree(scope)(s));
+	}
+	leaveContainerTree(scope: TreeScope): (s: ContainerTree) => ContainerTree {
+		return (s) =>
+			this.second.leaveContainerTree(scope)(
+				this.first.leaveContainerTree(scope)(s),
+			);
+	}
+	leaveCtorTree(scope: TreeScope): (s: CtorTree) => CtorTree {
+		return (s) =>
+			this.second.leaveCtorTree(scope)(this.first.leaveCtorTree(scope)(s));
+	}
+	leaveExprTree(scope: TreeScope): (s: ExprTree) => ExprTree {
+		return (s) =>
+			this.second.leaveExprTree(scope)(this.first.leaveExprTree(scope)(s));
+	}
+	leaveFieldTree(scope: TreeScope): (s: FieldTree) => FieldTree {
+		return (s) =>
+			this.second.leaveFieldTree(scope)(this.first.leaveFieldTree(scope)(s));
+	}
+	leaveImplTree(scope: TreeScope): (s: ImplTree) => ImplTree {
+		return (s) =>
+			this.second.leaveImplTree(scope)(this.first.leaveImplTree(scope)(s));
+	}
+	leaveMemberTree(scope: TreeScope): (s: MemberTree) => MemberTree {
+		return (s) =>
+			this.second.leaveMemberTree(scope)(this.first.leaveMemberTree(scope)(s));
+	}
+	leaveMethodTree(scope: TreeScope): (s: MethodTree) => MethodTree {
+		return (s) =>
+			this.second.leaveMethodTree(scope)(this.first.leaveMethodTree(scope)(s));
+	}
+	leaveModuleTree(scope: TreeScope): (s: ModuleTree) => ModuleTree {
+		return (s) =>
+			this.second.leaveModuleTree(scope)(this.first.leaveModuleTree(scope)(s));
+	}
+	leavePackageTree(scope: TreeScope): (s: PackageTree) => PackageTree {
+		return (s) =>
+			this.second.leavePackageTree(scope)(
+				this.first.leavePackageTree(scope)(s),
+			);
+	}
+	leaveParamTree(scope: TreeScope): (s: ParamTree) => ParamTree {
+		return (s) =>
+			this.second.leaveParamTree(scope)(this.first.leaveParamTree(scope)(s));
+	}
+	leaveTree(scope: TreeScope): (s: Tree) => Tree {
+		return (s) => this.second.leaveTree(scope)(this.first.leaveTree(scope)(s));
+	}
+	leaveTypeAliasTree(scope: TreeScope): (s: TypeAliasTree) => TypeAliasTree {
+		return (s) =>
+			this.second.leaveTypeAliasTree(scope)(
+				this.first.leaveTypeAliasTree(scope)(s),
+			);
+	}
+	leaveTypeParamTree(scope: TreeScope): (s: TypeParamTree) => TypeParamTree {
+		return (s) =>
+			this.second.leaveTypeParamTree(scope)(
+				this.first.leaveTypeParamTree(scope)(s),
+			);
+	}
+	leaveTypeRef(scope: TreeScope): (s: TypeRef) => TypeRef {
+		return (s) =>
+			this.second.leaveTypeRef(scope)(this.first.leaveTypeRef(scope)(s));
+	}
+}
@@ -0,0 +1,112 @@
+/**
+ * TypeScript port of org.scalablytyped.converter.internal.scalajs.TreeTraverse
+ *
+ * Walks everything reachable from a Scala tree, the counterpart of `TsTreeTraverse` for the TS AST.
+ * Where the Scala version recurses through `Product`s, we recurse through the own data properties of objects.
+ * Like there, `Comments` are not descended into.
+ */
+
+import { Comments } from "../Comments.js";
+import { IArray } from "../IArray.js";
+import type { Tree } from "./Tree.js";
+
+/**
+ * Returns the value to collect, or `undefined` if the function is not defined for the given tree
+ */
+export type ExtractFunction<T> = (tree: Tree) => T | undefined;
+
+/* every `_tag` of the scala `Tree` hierarchy, including expressions */
+const TreeTags: ReadonlySet<string> = new Set([
+	"PackageTree",
+	"ClassTree",
+	"ModuleTree",
+	"FieldTree",
+	"MethodTree",
+	"TypeAliasTree",
+	"CtorTree",
+	"TypeRef",
+	"TypeParamTree",
+	"ParamTree",
+	"NotImplemented",
+	"BinaryOp",
+	"Block",
+	"Call",
+	"VarArgs",
+	"If",
+	"Lambda",
+	"New",
+	"Ref",
+	"Select",
+	"TApply",
+	"Unary",
+	"Val",
+	"Throw",
+	"ArgNamed",
+	"ArgPos",
+	"ArgVariable",
+	"ExprTreeLit",
+]);
+
+function isTree(a: object): a is Tree {
+	const tag = (a as { _tag?: unknown })._tag;
+	return typeof tag === "string" && TreeTags.has(tag);
+}
+
+/* the values an object is made of, like `productIterator` */
+function children(a: object): unknown[] {
+	if (a instanceof IArray) return a.toArray();
+	if (Array.isArray(a)) return a;
+	if (a instanceof Comments) return [];
+	return Object.keys(a).map((key) => (a as Record<string, unknown>)[key]);
+}
+
+function isTraversable(a: unknown): a is object {
+	return typeof a === "object" && a !== null;
+}
+
+export const TreeTraverse = {
+	collect<T>(tree: Tree, extract: ExtractFunction<T>): IArray<T> {
+		return TreeTraverse.collectIArray(IArray.apply(tree), extract);
+	},
+
+	collectIArray<T>(
+		trees: IArray<Tree>,
+		extract: ExtractFunction<T>,
+	): IArray<T> {
+		const buf: T[] = [];
+
+		const go = (tree: Tree): void => {
+			const extracted = extract(tree);
+			if (extracted !== undefined) buf.push(extracted);
+
+			const rec = (a: unknown): void => {
+				if (!isTraversable(a)) return;
+				if (a !== tree && isTree(a)) go(a);
+				else children(a).forEach(rec);
+			};
+
+			rec(tree);
+		};
+
+		trees.forEach(go);
+
+		return IArray.fromArray(buf);
+	},
+
+	/**
+	 * Calls `run` for `tree` and every object reachable from it. Collections are traversed, but not passed to `run`
+	 */
+	foreach(tree: object, run: (a: object) => void): void {
+		const rec = (a: unknown): void => {
+			if (!isTraversable(a)) return;
+			if (a instanceof IArray || Array.isArray(a)) {
+				children(a).forEach(rec);
+			} else {
+				run(a);
+				children(a).forEach(rec);
+			}
+		};
+
+		rec(tree);
+	},
+};
@@ -0,0 +1,32 @@
+/**
+ * TypeScript port of org.scalablytyped.converter.internal.scalajs.TypeRewriter
+ */
+
+import type { IArray } from "../IArray.js";
+import { TypeRef } from "./Tree.js";
+import type { TreeScope } from "./TreeScope.js";
+import { TreeTransformation } from "./TreeTransformation.js";
+
+/**
+ * Replaces type references which are structurally equal to one of the keys
+ */
+export class TypeRewriter extends TreeTransformation {
+	constructor(readonly replacements: IArray<[TypeRef, TypeRef]>) {
+		super();
+	}
+
+	leaveTypeRef(_scope: TreeScope): (x: TypeRef) => TypeRef {
+		return (x) =>
+			this.replacements.find(([from]) => TypeRef.equals(from, x))?.[1] ?? x;
+	}
+}
+
+export class TypeRewriterFn extends TreeTransformation {
+	constructor(readonly replacements: (x: TypeRef) => TypeRef) {
+		super();
+	}
+
+	leaveTypeRef(_scope: TreeScope): (x: TypeRef) => TypeRef {
+		return this.replacements;
+	}
+}
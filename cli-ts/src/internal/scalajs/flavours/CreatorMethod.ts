@@ -0,0 +1,303 @@
+/**
+ * TypeScript port of org.scalablytyped.converter.internal.scalajs.flavours.CreatorMethod
+ *
+ * A definition of how to construct a Javascript object on a low-level
+ *
+ * ST has two way of constructing objects:
+ *   - with an initial `apply` creator method and a builder to set all optional props
+ *   - the so called `enableLongApplyMethod` mode, where all props are provided via an `apply` method.
+ *
+ * This piece of code is only concerned with creating the apply methods. It's reused both for react flavours and for
+ * companions
+ *
+ * A `Prop` can be either constant or provided by the user.
+ *   - constants are literals and `null`
+ *   - provided are parameters which the user will provide. These values may be rewritten before we put them into the
+ *     object
+ */
+
+import {
+	type ExprTreeLit,
+	NullLit,
+	StringLit,
+	UndefinedLit,
+	WasLiteral,
+} from "../../Comment.js";
+import { Comments } from "../../Comments.js";
+import { IArray } from "../../IArray.js";
+import { Name } from "../Name.js";
+import { Optionality } from "../Optional.js";
+import { QualifiedName } from "../QualifiedName.js";
+import {
+	type ExprArg,
+	type ExprArgNamed,
+	ExprTree,
+	type ImplTree,
+	NotImplemented,
+	ParamTree,
+	TypeRef,
+} from "../Tree.js";
+import type { NormalProp, Prop } from "./Prop.js";
+
+export type ObjectUpdater =
+	| { readonly _tag: "Initializer"; readonly value: ExprArgNamed }
+	| { readonly _tag: "Mutator"; readonly value: (ref: ExprTree) => ExprTree };
+
+type Mutator = Extract<ObjectUpdater, { _tag: "Mutator" }>;
+type Initializer = Extract<ObjectUpdater, { _tag: "Initializer" }>;
+
+export const ObjectUpdater = {
+	Initializer: (value: ExprArgNamed): Initializer => ({
+		_tag: "Initializer",
+		value,
+	}),
+	Mutator: (value: (ref: ExprTree) => ExprTree): Mutator => ({
+		_tag: "Mutator",
+		value,
+	}),
+};
+
+export interface CreatorMethod {
+	readonly params: IArray<ParamTree>;
+	readonly initializers: IArray<Initializer>;
+	readonly mutators: IArray<Mutator>;
+}
+
+type CreatorMethodFragment =
+	| { readonly _tag: "Const"; readonly objectUpdater: ObjectUpdater }
+	| {
+			readonly _tag: "Provide";
+			readonly objectUpdater: ObjectUpdater;
+			readonly param: ParamTree;
+	  }
+	| { readonly _tag: "NotNeeded" };
+
+const Const = (objectUpdater: ObjectUpdater): CreatorMethodFragment => ({
+	_tag: "Const",
+	objectUpdater,
+});
+const Provide = (
+	objectUpdater: ObjectUpdater,
+	param: ParamTree,
+): CreatorMethodFragment => ({
+	_tag: "Provide",
+	objectUpdater,
+	param,
+});
+const NotNeeded: CreatorMethodFragment = { _tag: "NotNeeded" };
+
+const Null: ExprTree = NullLit.instance;
+const undefined_: ExprTree = UndefinedLit.instance;
+
+const param = (name: Name, tpe: TypeRef, default_: ImplTree): ParamTree =>
+	ParamTree.create(name, false, false, tpe, default_, Comments.empty());
+
+const call1 = (fn: ExprTree, ...args: ExprTree[]): ExprTree =>
+	ExprTree.Call(
+		fn,
+		IArray.apply(
+			IArray.fromArray(args.map((a): ExprArg => ExprTree.Arg.Pos(a))),
+		),
+	);
+
+const isDefined = (name: Name): ExprTree =>
+	ExprTree.Unary(
+		"!",
+		call1(ExprTree.Ref(QualifiedName.isUndefined), ExprTree.RefName(name)),
+	);
+
+const wasLiteral = (tpe: TypeRef): ExprTreeLit | undefined => {
+	const extracted = tpe.comments.extract((marker) => {
+		if (marker instanceof WasLiteral) return marker.lit;
+		throw new Error("Not a WasLiteral marker");
+	});
+	return extracted._tag === "Some" ? extracted.value[0] : undefined;
+};
+
+/**
+ * The default `asExpr` of a prop casts to `js.Any`, in which case we don't need to special case `null`
+ */
+const isDefaultCastOfNull = (e: ExprTree): boolean =>
+	e._tag === "TApply" &&
+	e.targs.length === 1 &&
+	TypeRef.equals(e.targs.head, TypeRef.JsAny) &&
+	e.ref._tag === "Select" &&
+	e.ref.path.unescaped === "asInstanceOf" &&
+	e.ref.from === Null;
+
+const requiredProp = (prop: NormalProp, value: ExprTree): ObjectUpdater =>
+	prop.canBeInitializer
+		? ObjectUpdater.Initializer(ExprTree.Arg.Named(prop.name, value))
+		: updateObj(prop, value);
+
+const updateObj = (prop: NormalProp, value: ExprTree): Mutator =>
+	ObjectUpdater.Mutator((ref) =>
+		ExprTree.Call(
+			ExprTree.Select(ref, new Name("updateDynamic")),
+			IArray.apply(
+				IArray.apply<ExprArg>(
+					ExprTree.Arg.Pos(new StringLit(prop.originalName.unescaped)),
+				),
+				IArray.apply<ExprArg>(ExprTree.Arg.Pos(value)),
+			),
+		),
+	);
+
+// use this to construct a minimal object, with required props, null and literals
+const minimal = (prop: Prop): CreatorMethodFragment => {
+	if (prop._tag === "CompressedProp") {
+		// this branch is very rarely needed, only if there are > 254 required props (including in parents)
+		// will the user have to provide a valid instance of a parent type
+		return prop.isRequired
+			? Provide(
+					ObjectUpdater.Mutator(prop.asExpr),
+					param(prop.name, prop.tpe, NotImplemented),
+				)
+			: NotNeeded;
+	}
+
+	const { tpe, asExpr } = prop.main;
+	switch (prop.optionality) {
+		case Optionality.No: {
+			// required literals
+			const literal = wasLiteral(tpe);
+			if (literal) return Const(requiredProp(prop, literal));
+			// required props
+			return Provide(
+				requiredProp(prop, asExpr(ExprTree.RefName(prop.name))),
+				param(prop.name, tpe, NotImplemented),
+			);
+		}
+		// required null
+		case Optionality.Null:
+			return Const(requiredProp(prop, Null));
+		default:
+			return NotNeeded;
+	}
+};
+
+const full = (prop: Prop): CreatorMethodFragment => {
+	if (prop._tag === "CompressedProp") {
+		const { name, asExpr, isRequired } = prop;
+		return Provide(
+			ObjectUpdater.Mutator((ref) =>
+				isRequired
+					? asExpr(ref)
+					: ExprTree.If(
+							ExprTree.BinaryOp(ExprTree.RefName(name), "!=", Null),
+							asExpr(ref),
+							undefined,
+						),
+			),
+			param(name, prop.tpe, isRequired ? NotImplemented : Null),
+		);
+	}
+
+	const { tpe, asExpr } = prop.main;
+	const ref = ExprTree.RefName(prop.name);
+
+	switch (prop.optionality) {
+		case Optionality.No: {
+			const literal = wasLiteral(tpe);
+			if (literal) return Const(requiredProp(prop, literal));
+			return Provide(
+				requiredProp(prop, asExpr(ref)),
+				param(prop.name, tpe, NotImplemented),
+			);
+		}
+
+		case Optionality.Null: {
+			const default_ = prop.main.extendsAnyVal
+				? ExprTree.AsInstanceOf(Null, tpe)
+				: Null;
+			return Provide(
+				updateObj(
+					prop,
+					ExprTree.If(
+						ExprTree.BinaryOp(ref, "!=", Null),
+						asExpr(ExprTree.AsInstanceOf(ref, tpe)),
+						Null,
+					),
+				),
+				param(prop.name, tpe, default_),
+			);
+		}
+
+		case Optionality.Undef:
+			if (prop.main.extendsAnyVal) {
+				return Provide(
+					ObjectUpdater.Mutator((obj) =>
+						ExprTree.If(
+							isDefined(prop.name),
+							updateObj(prop, asExpr(ref)).value(obj),
+							undefined,
+						),
+					),
+					param(prop.name, TypeRef.UndefOr(tpe), undefined_),
+				);
+			}
+			return Provide(
+				ObjectUpdater.Mutator((obj) =>
+					ExprTree.If(
+						ExprTree.BinaryOp(ref, "!=", Null),
+						updateObj(prop, asExpr(ref)).value(obj),
+						undefined,
+					),
+				),
+				param(prop.name, tpe, Null),
+			);
+
+		case Optionality.NullOrUndef: {
+			const updater = ObjectUpdater.Mutator((obj) => {
+				// default implementation, save boilerplate
+				const shortedDefaultImplementation = isDefaultCastOfNull(asExpr(Null))
+					? updateObj(prop, asExpr(ref))
+					: updateObj(
+							prop,
+							ExprTree.If(
+								ExprTree.BinaryOp(ref, "!=", Null),
+								asExpr(ExprTree.AsInstanceOf(ref, tpe)),
+								Null,
+							),
+						);
+
+				return ExprTree.If(
+					isDefined(prop.name),
+					shortedDefaultImplementation.value(obj),
+					undefined,
+				);
+			});
+
+			const newType = TypeRef.Union(
+				IArray.apply(TypeRef.undefined, TypeRef.Null, tpe),
+				Comments.empty(),
+				false,
+			);
+			return Provide(updater, param(prop.name, newType, undefined_));
+		}
+	}
+};
+
+export const CreatorMethod = {
+	apply: (props: IArray<Prop>, longApplyMethod: boolean): CreatorMethod => {
+		const interpretedProps = props.map((prop) =>
+			longApplyMethod ? full(prop) : minimal(prop),
+		);
+
+		const updaters = interpretedProps.mapNotNone((f) =>
+			f._tag === "NotNeeded" ? undefined : f.objectUpdater,
+		);
+
+		return {
+			params: interpretedProps.mapNotNone((f) =>
+				f._tag === "Provide" ? f.param : undefined,
+			),
+			initializers: updaters.mapNotNone((u) =>
+				u._tag === "Initializer" ? u : undefined,
+			),
+			mutators: updaters.mapNotNone((u) =>
+				u._tag === "Mutator" ? u : undefined,
+			),
+		};
+	},
+};
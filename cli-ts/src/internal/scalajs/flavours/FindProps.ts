@@ -0,0 +1,494 @@
+/**
+ * TypeScript port of org.scalablytyped.converter.internal.scalajs.flavours.FindProps
+ *
+ * Collects the props of a trait, including the ones it inherits, so we can generate code to construct it
+ */
+
+import { ExpandedCallables, WasUnion } from "../../Comment.js";
+import { Comments } from "../../Comments.js";
+import { IArray, NumberOrdering, partialFunction } from "../../IArray.js";
+import type { AnnotationUnion } from "../Annotation.js";
+import { FillInTParams } from "../FillInTParams.js";
+import { FollowAliases } from "../FollowAliases.js";
+import { Name, StringToSuffix } from "../Name.js";
+import { Optional, Optionality } from "../Optional.js";
+import type { Parent, ParentsResolver } from "../ParentsResolver.js";
+import { QualifiedName } from "../QualifiedName.js";
+import { ScalaJsClasses } from "../ScalaJsClasses.js";
+import {
+	ClassTree,
+	ClassType,
+	type ExprArg,
+	ExprTree,
+	type FieldTree,
+	isClassTree,
+	isFieldTree,
+	isMemberTree,
+	isMethodTree,
+	type MemberTree,
+	type MethodTree,
+	membersByName,
+	type TypeParamTree,
+	TypeRef,
+} from "../Tree.js";
+import type { TreeScope } from "../TreeScope.js";
+import { TypeRewriter } from "../TypeRewriter.js";
+import type { CleanIllegalNames } from "../transforms/CleanIllegalNames.js";
+import type { MemberToProp } from "./MemberToProp.js";
+import { CompressedProp, Prop } from "./Prop.js";
+
+/**
+ * A readable name for a type, used to name generated methods
+ */
+export function nameFor(tpe: TypeRef): string {
+	if (tpe.typeName.equals(QualifiedName.REPEATED)) return "Varargs";
+	if ([...Name.Internal].some((n) => n.equals(tpe.name)))
+		return tpe.targs.map(nameFor).mkString("", "", "");
+	return tpe.name.unescaped;
+}
+
+export type Res<E, T> =
+	| { readonly _tag: "Error"; readonly msg: E }
+	| { readonly _tag: "One"; readonly name: TypeRef; readonly value: T }
+	| { readonly _tag: "Many"; readonly values: IArray<[TypeRef, T]> };
+
+export const Res = {
+	Error: <E, T>(msg: E): Res<E, T> => ({ _tag: "Error", msg }),
+	One: <E, T>(name: TypeRef, value: T): Res<E, T> => ({
+		_tag: "One",
+		name,
+		value,
+	}),
+	Many: <E, T>(values: IArray<[TypeRef, T]>): Res<E, T> => ({
+		_tag: "Many",
+		values,
+	}),
+
+	headOption: <E, T>(res: Res<E, T>): T | undefined => {
+		switch (res._tag) {
+			case "One":
+				return res.value;
+			case "Many":
+				return res.values.head[1];
+			case "Error":
+				return undefined;
+		}
+	},
+
+	combine: <E, T>(ress: IArray<Res<IArray<E>, T>>): Res<IArray<E>, T> => {
+		const errors = ress.flatMap((r) =>
+			r._tag === "Error" ? r.msg : IArray.Empty,
+		);
+		if (ress.exists((r) => r._tag === "Error")) return Res.Error(errors);
+
+		const all = ress.flatMap(
+			(r): IArray<[TypeRef, T]> =>
+				r._tag === "One"
+					? IArray.apply<[TypeRef, T]>([r.name, r.value])
+					: r._tag === "Many"
+						? r.values
+						: IArray.Empty,
+		);
+
+		const distinctByName = new Map<string, [TypeRef, T]>();
+		all.forEach(([tr, t]) => distinctByName.set(nameFor(tr), [tr, t]));
+
+		const values = IArray.fromArray(Array.from(distinctByName.values()));
+		return values.length === 1
+			? Res.One(values.head[0], values.head[1])
+			: Res.Many(values);
+	},
+};
+
+/* javascript limitation */
+const MaxParamsForMethod = 254;
+
+const parentParameter = (
+	name: Name,
+	typeRef: TypeRef,
+	isRequired: boolean,
+): [string, Prop] => [
+	name.unescaped,
+	new CompressedProp(
+		name,
+		typeRef,
+		(ref) =>
+			ExprTree.Call(
+				ExprTree.select(
+					ExprTree.Ref(QualifiedName.JsDynamic),
+					"global",
+					"Object",
+					"assign",
+				),
+				IArray.apply(
+					IArray.apply<ExprArg>(
+						ExprTree.Arg.Pos(ref),
+						ExprTree.Arg.Pos(ExprTree.RefName(name)),
+					),
+				),
+			),
+		isRequired,
+	),
+];
+
+const format = (tr: TypeRef): string => tr.typeName.value;
+
+export class FindProps {
+	static readonly MaxParamsForMethod = MaxParamsForMethod;
+
+	constructor(
+		private readonly cleanIllegalNames: CleanIllegalNames,
+		private readonly memberToProp: MemberToProp,
+		private readonly parentsResolver: ParentsResolver,
+	) {}
+
+	forType(
+		typeRef: TypeRef,
+		tparams: IArray<TypeParamTree>,
+		scope: TreeScope,
+		maxNum: number,
+		acceptNativeTraits: boolean,
+	): Res<IArray<string>, IArray<Prop>> {
+		const dealiased = FollowAliases.apply(scope)(typeRef);
+
+		// todo: now that we can resolve `Any` we need a not found type or something.
+		if (TypeRef.equals(dealiased, TypeRef.Any)) {
+			return Res.Error(
+				IArray.apply(
+					`Could't extract props from ${format(typeRef)} because couldn't resolve ClassTree.`,
+				),
+			);
+		}
+		if (TypeRef.equals(dealiased, TypeRef.JsObject))
+			return Res.One(typeRef, IArray.Empty);
+
+		const intersection = TypeRef.Intersection.unapply(dealiased);
+		if (intersection) {
+			const results = intersection[0].map((tpe) =>
+				this.forType(tpe, tparams, scope, maxNum, acceptNativeTraits),
+			);
+			const errors = results.flatMap((r) =>
+				r._tag === "Error" ? r.msg : IArray.Empty,
+			);
+
+			if (results.exists((r) => r._tag === "Error")) {
+				return Res.Error(
+					IArray.apply(
+						`Couldn't find props for ${format(typeRef)} because: ${errors.mkString("", ", ", "")}`,
+					),
+				);
+			}
+			if (results.exists((r) => r._tag === "Many")) {
+				return Res.Error(
+					IArray.apply(
+						"Support for combinations of intersection and union types not implemented",
+					),
+				);
+			}
+			const props = results
+				.flatMap((r) => (r._tag === "One" ? r.value : IArray.Empty))
+				.sorted(Prop.ordering)
+				.distinctBy((p) => p.name.unescaped);
+			return Res.One(typeRef, props);
+		}
+
+		const union = TypeRef.Union.unapply(dealiased);
+		if (union) {
+			return Res.combine(
+				union[0].map((tpe) =>
+					this.forType(tpe, tparams, scope, maxNum, acceptNativeTraits),
+				),
+			);
+		}
+
+		for (const [found, newScope] of scope
+			.lookup(dealiased.typeName)
+			.toArray()) {
+			if (isClassTree(found)) {
+				const cls = FillInTParams.classTree(
+					found,
+					newScope,
+					dealiased.targs,
+					tparams,
+				);
+				return this.forClassTree(
+					cls,
+					scope["/"](cls),
+					maxNum,
+					acceptNativeTraits,
+					dealiased,
+				);
+			}
+		}
+
+		return Res.Error(
+			IArray.apply(
+				`Could't extract props from ${format(dealiased)} because couldn't resolve ClassTree.`,
+			),
+		);
+	}
+
+	forClassTree(
+		cls: ClassTree,
+		scope: TreeScope,
+		maxNum: number,
+		acceptNativeTraits: boolean,
+		selfRef: TypeRef,
+	): Res<IArray<string>, IArray<Prop>> {
+		const subclassRefs = cls.comments.extract((marker) => {
+			if (marker instanceof WasUnion) return marker.related;
+			throw new Error("Not a WasUnion marker");
+		});
+
+		if (subclassRefs._tag === "Some") {
+			return Res.combine(
+				subclassRefs.value[0].map((subClsRef) => {
+					for (const [subCls] of scope.lookup(subClsRef.typeName).toArray()) {
+						if (isClassTree(subCls)) {
+							const subCls_ = FillInTParams.classTree(
+								subCls,
+								scope,
+								subClsRef.targs,
+								cls.tparams,
+							);
+							return this.forClassTree(
+								subCls_,
+								scope,
+								maxNum,
+								acceptNativeTraits,
+								subClsRef,
+							);
+						}
+					}
+					return Res.Error<IArray<string>, IArray<Prop>>(
+						IArray.apply(`Could not find ${format(subClsRef)}`),
+					);
+				}),
+			);
+		}
+
+		if (cls.classType !== ClassType.Trait)
+			return Res.Error(IArray.apply("Not a trait"));
+		if (!acceptNativeTraits && !ClassTree.receivesCompanion(cls)) {
+			return Res.Error(IArray.apply("Not a @ScalaJSDefined trait"));
+		}
+
+		const parents = this.parentsResolver.apply(scope, cls);
+
+		/* treat dictionaries specially, as they have no declared members */
+		const [treatAsUnresolved, keptDirectParents] =
+			parents.directParents.partitionCollect(
+				partialFunction(
+					(p: Parent) =>
+						p.refs.head.typeName.equals(QualifiedName.StringDictionary) ||
+						p.refs.head.typeName.equals(QualifiedName.NumberDictionary),
+					(p) => p.refs.head,
+				),
+			);
+
+		const RemoveThis = new TypeRewriter(
+			IArray.apply<[TypeRef, TypeRef]>([
+				TypeRef.ThisType(Comments.empty()),
+				selfRef,
+			]),
+		);
+
+		const unresolvedProps = new Map<string, Prop>(
+			parents.unresolved
+				.concat(treatAsUnresolved)
+				.map((typeRef) => parentParameter(typeRef.name, typeRef, false))
+				.toArray(),
+		);
+
+		/* extract one per name, while undoing some renaming damage that we have done */
+		const membersFrom = (cls: ClassTree): Map<string, MemberTree> => {
+			const members = RemoveThis.visitClassTree(scope)(cls)
+				.members.collect(partialFunction(isMemberTree, (x) => x as MemberTree))
+				/* worthless and for instance `(???: js.UndefOr[Nothing]).get` doesn't compile */
+				.filter(
+					(x) =>
+						!(
+							isFieldTree(x) &&
+							TypeRef.equals(Optionality.apply(x.tpe)[1], TypeRef.Nothing)
+						),
+				);
+
+			const anyMembers = membersByName(ScalaJsClasses.Any);
+			const ret = new Map<string, MemberTree>();
+			members
+				.groupBy((x) => this.realNameFrom(x.annotations, x.name).unescaped)
+				.forEach((ms, key) => {
+					const name = new Name(key);
+					if (anyMembers.has(key)) {
+						ret.set(
+							key,
+							this.combine(ms).renamed(name.withSuffix("", StringToSuffix)),
+						);
+					} else if (
+						!name.equals(Name.APPLY) &&
+						!name.equals(Name.namespaced)
+					) {
+						ret.set(key, this.combine(ms).renamed(name));
+					}
+				});
+			return ret;
+		};
+
+		const propsFrom = (
+			members: Map<string, MemberTree>,
+			isInherited: boolean,
+		): Map<string, Prop> => {
+			const ret = new Map<string, Prop>();
+			members.forEach((member, key) => {
+				const prop = this.memberToProp.apply(scope, member, isInherited);
+				if (prop) ret.set(key, prop);
+			});
+			return ret;
+		};
+
+		const ownProps = propsFrom(membersFrom(cls), false);
+
+		/**
+		 * The total number of props might be too large, so we gradually try to limit it by "compressing" props, and
+		 * taking the best option (or truncating variant with the fewest props)
+		 *
+		 * Compressing in this context means to take a whole object which corresponds to a parent type
+		 */
+		const propsFor = (n: number): IArray<Prop> => {
+			const inlineParents = keptDirectParents.take(n);
+			const compressedParents = keptDirectParents.drop(n);
+
+			const go = (p: Parent): Map<string, MemberTree> =>
+				p.classTree.codePath.equals(QualifiedName.Any) ||
+				p.classTree.codePath.equals(QualifiedName.JsObject)
+					? new Map()
+					: new Map([
+							...p.parents.toArray().flatMap((pp) => [...go(pp)]),
+							...membersFrom(p.classTree),
+						]);
+
+			const inlinedPropsFromParent = propsFrom(
+				new Map(inlineParents.toArray().flatMap((p) => [...go(p)])),
+				true,
+			);
+
+			const compressedProps = new Map<string, Prop>(
+				compressedParents
+					.map((parent) => {
+						const isRequired = parent.classTree.members.exists(
+							(m) =>
+								isMethodTree(m) ||
+								(isFieldTree(m) && Optional.unapply(m.tpe) === undefined),
+						);
+						return parentParameter(
+							parent.refs.head.name,
+							parent.refs.head,
+							isRequired,
+						);
+					})
+					.toArray(),
+			);
+
+			/**
+			 * It's not *the* most precise way of going about this (will lose useful overloads), but has the nice
+			 * property that it keeps the closest/most specific definition of a member
+			 */
+			const all = new Map([
+				...inlinedPropsFromParent,
+				...unresolvedProps,
+				...compressedProps,
+				...ownProps,
+			]);
+
+			return IArray.fromArray(Array.from(all.values())).sorted(Prop.ordering);
+		};
+
+		let last: IArray<Prop> | undefined;
+		for (let n = keptDirectParents.length; n >= 0; n--) {
+			last = propsFor(n);
+			if (last.length <= maxNum) return Res.One(selfRef, last);
+		}
+		if (last === undefined)
+			throw new Error(
+				`Empty stream for class ${cls.codePath.parts.mkString("", ".", "")}`,
+			);
+		return Res.One(selfRef, last.take(maxNum));
+	}
+
+	private combine(ms: IArray<MemberTree>): MemberTree {
+		const [fields, methods, rest] = ms.partitionCollect2(
+			partialFunction(isFieldTree, (x) => x as FieldTree),
+			partialFunction(isMethodTree, (x) => x as MethodTree),
+		);
+
+		if (fields.length === 1 && fields.head.comments.has(ExpandedCallables))
+			return fields.head;
+		if (methods.length === 1 && rest.isEmpty) return methods.head;
+		if (methods.nonEmpty && rest.isEmpty) {
+			const tparams = methods.maxBy(
+				(m) => m.tparams.length,
+				NumberOrdering,
+			).tparams;
+			const paramsForMethods = methods.map((m) => m.params.flatten());
+			const longestParams = paramsForMethods.maxBy(
+				(ps) => ps.length,
+				NumberOrdering,
+			);
+			const params = longestParams.zipWithIndex().map(([param, idx]) => {
+				const forIdx = paramsForMethods.map((paramsForMethod) =>
+					paramsForMethod.isDefinedAt(idx)
+						? paramsForMethod.apply(idx).tpe
+						: TypeRef.undefined,
+				);
+				return { ...param, tpe: TypeRef.Union(forIdx, Comments.empty(), true) };
+			});
+			const resultType = TypeRef.Union(
+				methods.map((m) => m.resultType),
+				Comments.empty(),
+				true,
+			);
+			const merged: MethodTree = {
+				...methods.head,
+				tparams,
+				params: IArray.apply(params),
+				resultType,
+			};
+			return merged;
+		}
+		if (fields.length === 1 && rest.isEmpty) return fields.head;
+		if (fields.nonEmpty && rest.isEmpty) {
+			const merged: FieldTree = {
+				...fields.head,
+				tpe: TypeRef.Union(
+					fields.map((f) => f.tpe),
+					Comments.empty(),
+					true,
+				),
+			};
+			return merged;
+		}
+		throw new Error(
+			`Unexpected: ${ms.map((m) => m.name.value).mkString("", ", ", "")}`,
+		);
+	}
+
+	private realNameFrom(anns: IArray<AnnotationUnion>, fallback: Name): Name {
+		const found = anns.firstDefined((ann): Name | undefined => {
+			switch (ann._tag) {
+				case "JsName":
+					return ann.name;
+				case "JsImport":
+					return ann.imported._tag === "Named"
+						? ann.imported.name.lastOption
+						: undefined;
+				case "JsGlobal":
+					return ann.name.parts.lastOption;
+				default:
+					return undefined;
+			}
+		});
+		return found && !this.cleanIllegalNames.Illegal.has(found.unescaped)
+			? Name.necessaryRewrite(found)
+			: fallback;
+	}
+}
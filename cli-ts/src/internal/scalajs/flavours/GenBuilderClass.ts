@@ -0,0 +1,239 @@
+/**
+ * TypeScript port of org.scalablytyped.converter.internal.scalajs.flavours.GenBuilderClass
+ *
+ * Generates an implicit class with one setter per prop, for mutating an object after it's been created
+ */
+
+import { NullLit, StringLit, UndefinedLit } from "../../Comment.js";
+import { Comments } from "../../Comments.js";
+import { IArray } from "../../IArray.js";
+import { Annotation, type AnnotationUnion } from "../Annotation.js";
+import { Name } from "../Name.js";
+import { Optionality } from "../Optional.js";
+import { QualifiedName } from "../QualifiedName.js";
+import {
+	ClassTree,
+	ClassType,
+	CtorTree,
+	type ExprArg,
+	ExprTree,
+	MethodTree,
+	NotImplemented,
+	ParamTree,
+	ProtectionLevel,
+	type Tree,
+	TypeParamTree,
+	TypeRef,
+} from "../Tree.js";
+import { nameFor } from "./FindProps.js";
+import { NormalProp, type Prop, type Variant } from "./Prop.js";
+
+const capitalize = (s: string): string =>
+	s.length === 0 ? s : s.charAt(0).toUpperCase() + s.slice(1);
+
+/**
+ * Hands out names which are not already in use, by appending underscores
+ */
+export class AvailableName {
+	private readonly usedNames: Set<string>;
+
+	constructor(...usedNamess: IArray<Name>[]) {
+		this.usedNames = new Set(
+			usedNamess.flatMap((ns) => ns.toArray().map((n) => n.unescaped)),
+		);
+	}
+
+	apply(wanted: Name): Name {
+		if (this.usedNames.has(wanted.unescaped))
+			return this.apply(new Name(`${wanted.unescaped}_`));
+		this.usedNames.add(wanted.unescaped);
+		return wanted;
+	}
+}
+
+export const GenBuilderClass = {
+	apply: (
+		original: ClassTree,
+		props: IArray<Prop>,
+		ownerCp: QualifiedName,
+	): ClassTree | undefined => {
+		const x = new Name("x");
+		const clsName = new Name("MutableBuilder");
+		const clsCodePath = ownerCp.add(clsName);
+		const value = new Name("value");
+
+		/* we need to add a few type parameter names into an unknown set, so this avoids collisions */
+		const mutableAllocateTypeName = new AvailableName(
+			original.tparams.map((tp) => tp.name),
+			IArray.apply(original.name),
+		);
+
+		/**
+		 * We generate a Self type like this: `implicit class DOMAttributesOps[Self[t] <: DOMAttributes[t], T] (val x: Self[T])`
+		 * because subclasses can use the methods defined here without losing the type of the subclass
+		 */
+		const SelfName = mutableAllocateTypeName.apply(new Name("Self"));
+		const selfRef = TypeRef.fromName(SelfName);
+
+		const selfTParam = TypeParamTree.create(
+			SelfName,
+			IArray.Empty,
+			TypeRef.create(
+				original.codePath,
+				original.tparams.map(() => TypeRef.Wildcard),
+			),
+			Comments.empty(),
+			false,
+		);
+		const tparams = original.tparams.prepend(selfTParam);
+
+		const globalSet = ExprTree.Select(
+			ExprTree.Ref(QualifiedName.StObject),
+			new Name("set"),
+		);
+
+		const setter = (
+			name: Name,
+			params: IArray<IArray<ParamTree>>,
+			setTo: ExprTree,
+			prop: NormalProp,
+		): MethodTree =>
+			MethodTree.create(
+				IArray.apply<AnnotationUnion>(Annotation.Inline),
+				ProtectionLevel.Public,
+				name,
+				IArray.Empty,
+				params,
+				ExprTree.Call(
+					globalSet,
+					IArray.apply(
+						IArray.apply<ExprArg>(
+							ExprTree.Arg.Pos(ExprTree.RefName(x)),
+							ExprTree.Arg.Pos(new StringLit(prop.originalName.unescaped)),
+							ExprTree.Arg.Pos(setTo),
+						),
+					),
+				),
+				selfRef,
+				false,
+				Comments.empty(),
+				clsCodePath.add(name),
+				false,
+			);
+
+		const sugarMembers = props.flatMap((prop): IArray<MethodTree> => {
+			/* ignore inherited props, there will already be implicit sugar for those */
+			if (!(prop instanceof NormalProp) || prop.isInherited)
+				return IArray.Empty;
+
+			const propName = capitalize(prop.name.unescaped);
+
+			const variantsForProp = new Map<string, Variant>();
+			prop.variants
+				.filter((v) => v.isRewritten)
+				.groupBy((v) => nameFor(v.tpe))
+				.forEach((vs, alternativeName) =>
+					variantsForProp.set(
+						`set${propName}${capitalize(alternativeName)}`,
+						vs.head,
+					),
+				);
+			variantsForProp.set(`set${propName}`, prop.main);
+
+			const variantsMethods = IArray.fromArray(
+				Array.from(variantsForProp, ([methodName, variant]) => {
+					const valueParam = ParamTree.create(
+						value,
+						false,
+						false,
+						variant.tpe,
+						NotImplemented,
+						Comments.empty(),
+					);
+					return setter(
+						new Name(methodName),
+						IArray.apply(IArray.apply(valueParam)),
+						variant.asExpr(ExprTree.RefName(value)),
+						prop,
+					);
+				}),
+			);
+
+			const undefinedCase =
+				prop.optionality === Optionality.Undef ||
+				prop.optionality === Optionality.NullOrUndef
+					? setter(
+							new Name(`set${propName}Undefined`),
+							IArray.Empty,
+							UndefinedLit.instance,
+							prop,
+						)
+					: undefined;
+
+			const nullCase =
+				prop.optionality === Optionality.Null ||
+				prop.optionality === Optionality.NullOrUndef
+					? setter(
+							new Name(`set${propName}Null`),
+							IArray.Empty,
+							NullLit.instance,
+							prop,
+						)
+					: undefined;
+
+			return variantsMethods.concat(
+				IArray.fromArray(
+					[undefinedCase, nullCase].filter((m) => m !== undefined),
+				),
+			);
+		});
+
+		// append an intersection type to bind otherwise free type parameters to `Self`
+		const paramType = original.tparams.isEmpty
+			? selfRef
+			: TypeRef.Intersection(
+					IArray.apply(
+						selfRef,
+						TypeRef.create(ownerCp, TypeParamTree.asTypeArgs(original.tparams)),
+					),
+					Comments.empty(),
+				);
+
+		const sugarCtor = CtorTree.create(
+			ProtectionLevel.Public,
+			IArray.apply(
+				ParamTree.create(
+					x,
+					false,
+					true,
+					paramType,
+					NotImplemented,
+					Comments.empty(),
+				),
+			),
+			Comments.empty(),
+		);
+
+		// throw away setters for two fields with same name but different casing,
+		const allMembers = sugarMembers.distinctBy((m) =>
+			m.name.unescaped.toLowerCase(),
+		);
+
+		return allMembers.nonEmpty
+			? ClassTree.create(
+					true,
+					IArray.apply<AnnotationUnion>(Annotation.Inline),
+					ProtectionLevel.Public,
+					clsName,
+					tparams,
+					IArray.apply(TypeRef.AnyVal),
+					IArray.apply(sugarCtor),
+					allMembers as unknown as IArray<Tree>,
+					ClassType.Class,
+					false,
+					Comments.empty(),
+					clsCodePath,
+				)
+			: undefined;
+	},
+};
@@ -0,0 +1,255 @@
+/**
+ * TypeScript port of org.scalablytyped.converter.internal.scalajs.flavours.GenCompanions
+ *
+ * Add a companion object to `@ScalaJSDefined` traits for creating instances with method syntax
+ */
+
+import { MinimizationRelated, WasUnion } from "../../Comment.js";
+import { Comments } from "../../Comments.js";
+import { IArray } from "../../IArray.js";
+import { Annotation, type AnnotationUnion } from "../Annotation.js";
+import { FollowAliases } from "../FollowAliases.js";
+import { Name } from "../Name.js";
+import { QualifiedName } from "../QualifiedName.js";
+import {
+	type ClassTree,
+	type ContainerTree,
+	type ExprArg,
+	ExprTree,
+	isClassTree,
+	isContainerTree,
+	isMemberTree,
+	MethodTree,
+	ModuleTree,
+	membersByName,
+	ProtectionLevel,
+	type Tree,
+	TypeParamTree,
+	TypeRef,
+} from "../Tree.js";
+import type { TreeScope } from "../TreeScope.js";
+import { TreeTransformation } from "../TreeTransformation.js";
+import { ModulesCombine } from "../transforms/ModulesCombine.js";
+import { CreatorMethod } from "./CreatorMethod.js";
+import { FindProps } from "./FindProps.js";
+import { GenBuilderClass } from "./GenBuilderClass.js";
+
+export class GenCompanions extends TreeTransformation {
+	constructor(
+		private readonly findProps: FindProps,
+		private readonly enableLongApplyMethod: boolean,
+	) {
+		super();
+	}
+
+	leaveContainerTree(
+		scope: TreeScope,
+	): (container: ContainerTree) => ContainerTree {
+		return (container) => {
+			const newCompanions = this.genCompanions(scope, container);
+			return newCompanions.isEmpty
+				? container
+				: ModulesCombine.combineModules(
+						container.withMembers(container.members.concat(newCompanions)),
+					);
+		};
+	}
+
+	genCompanions(
+		scope: TreeScope,
+		container: ContainerTree,
+	): IArray<ModuleTree> {
+		const index = membersByName(container);
+		return container.members.mapNotNone((tree) =>
+			isClassTree(tree) ? this.genCompanion(scope, index, tree) : undefined,
+		);
+	}
+
+	private genCompanion(
+		scope: TreeScope,
+		index: Map<string, IArray<Tree>>,
+		cls: ClassTree,
+	): ModuleTree | undefined {
+		const clsRef = TypeRef.create(
+			cls.codePath,
+			TypeParamTree.asTypeArgs(cls.tparams),
+		);
+		const sameName = index.get(cls.name.unescaped) ?? IArray.Empty;
+
+		let generatedBuilder: ClassTree | undefined;
+		if (!this.enableLongApplyMethod) {
+			const res = this.findProps.forClassTree(
+				cls,
+				scope["/"](cls),
+				Number.MAX_SAFE_INTEGER,
+				false,
+				clsRef,
+			);
+			if (res._tag === "One" && res.value.nonEmpty) {
+				generatedBuilder = GenBuilderClass.apply(cls, res.value, cls.codePath);
+			}
+		}
+
+		/**
+		 * When we rewrite type unions to inheritance we might produce two companions in the same scope, see
+		 * `echarts` test. This test catches a bit too much (meaning we might not generate some companions), but it
+		 * should be fairly safe
+		 */
+		const hasImplementation = cls.comments.has(WasUnion)
+			? sameName.length > 1
+			: sameName.exists((t) =>
+					isContainerTree(t)
+						? membersByName(t).has(Name.APPLY.unescaped)
+						: isMemberTree(t),
+				);
+
+		const generatedCreators: IArray<Tree> = hasImplementation
+			? IArray.Empty
+			: this.generatedCreators(scope, cls);
+
+		const some: IArray<Tree> = generatedBuilder
+			? generatedCreators.append<Tree>(generatedBuilder)
+			: generatedCreators;
+
+		if (some.isEmpty) return undefined;
+
+		const related = new MinimizationRelated(
+			some.map((m) => TypeRef.create((m as MethodTree | ClassTree).codePath)),
+		);
+		return ModuleTree.create(
+			IArray.Empty,
+			ProtectionLevel.Public,
+			cls.name,
+			IArray.Empty,
+			some,
+			Comments.apply([related]),
+			cls.codePath,
+			false,
+		);
+	}
+
+	private generatedCreators(scope: TreeScope, cls: ClassTree): IArray<Tree> {
+		const clsRef = TypeRef.create(
+			cls.codePath,
+			TypeParamTree.asTypeArgs(cls.tparams),
+		);
+		const res = this.findProps.forClassTree(
+			cls,
+			scope["/"](cls),
+			FindProps.MaxParamsForMethod,
+			false,
+			clsRef,
+		);
+
+		switch (res._tag) {
+			case "Error":
+				return IArray.Empty;
+			case "One": {
+				if (res.value.isEmpty) return IArray.Empty;
+				const cm = CreatorMethod.apply(res.value, this.enableLongApplyMethod);
+				const creator = this.generateCreator(
+					Name.APPLY,
+					cm,
+					cls.codePath,
+					cls.tparams,
+				);
+				return creator.params.head.nonEmpty &&
+					this.ensureNotTooManyStrings(scope)(creator)
+					? IArray.apply<Tree>(creator)
+					: IArray.Empty;
+			}
+			case "Many":
+				return res.values.mapNotNone(([propsRef, props]): Tree | undefined => {
+					if (props.isEmpty) return undefined;
+					const cm = CreatorMethod.apply(props, this.enableLongApplyMethod);
+					const tparams = cls.tparams.filter((tp) =>
+						propsRef.targs.exists((t) => t.name.equals(tp.name)),
+					);
+					const creator = this.generateCreator(
+						propsRef.name,
+						cm,
+						propsRef.typeName,
+						tparams,
+					);
+					return creator.params.head.nonEmpty &&
+						this.ensureNotTooManyStrings(scope)(creator)
+						? creator
+						: undefined;
+				});
+		}
+	}
+
+	/**
+	 * Avoid errors like this [E] [E-1] Error while emitting
+	 * typingsJapgolly/csstype/csstypeMod/StandardLonghandPropertiesHyphenFallback$ [E] UTF8 string too large
+	 */
+	private ensureNotTooManyStrings(
+		scope: TreeScope,
+	): (mod: MethodTree) => boolean {
+		const MaxWeight = 32768; // an estimate. If you see the error again, decrease this
+
+		const dealias = FollowAliases.apply(scope);
+		const lengthOf = (qn: QualifiedName): number =>
+			qn.parts.foldLeft(0, (acc, p) => acc + p.unescaped.length);
+		const weightOf = (tr: TypeRef): number => {
+			const dealiased = dealias(tr);
+			return (
+				lengthOf(dealiased.typeName) +
+				dealiased.targs.foldLeft(0, (acc, t) => acc + weightOf(t))
+			);
+		};
+		const weightOfTParam = (tp: TypeParamTree): number =>
+			tp.upperBound ? weightOf(tp.upperBound) : 0;
+
+		return (mod) => {
+			const stringLength =
+				lengthOf(mod.codePath) +
+				weightOf(mod.resultType) +
+				mod.tparams.foldLeft(0, (acc, tp) => acc + weightOfTParam(tp)) +
+				mod.params.flatten().foldLeft(0, (acc, p) => acc + weightOf(p.tpe));
+			return stringLength < MaxWeight;
+		};
+	}
+
+	private generateCreator(
+		name: Name,
+		creatorMethod: CreatorMethod,
+		typeCp: QualifiedName,
+		typeTparams: IArray<TypeParamTree>,
+	): MethodTree {
+		const ret = TypeRef.create(typeCp, TypeParamTree.asTypeArgs(typeTparams));
+
+		const objName = new Name("__obj");
+		const impl = ExprTree.BlockFlatten(
+			IArray.apply<ExprTree>(
+				ExprTree.Val(
+					objName,
+					ExprTree.Call(
+						ExprTree.select(ExprTree.Ref(QualifiedName.JsDynamic), "literal"),
+						IArray.apply(
+							creatorMethod.initializers.map((i): ExprArg => i.value),
+						),
+					),
+				),
+			),
+			creatorMethod.mutators.map((f) => f.value(ExprTree.RefName(objName))),
+			IArray.apply<ExprTree>(
+				ExprTree.AsInstanceOf(ExprTree.RefName(objName), ret),
+			),
+		);
+
+		return MethodTree.create(
+			IArray.apply<AnnotationUnion>(Annotation.Inline),
+			ProtectionLevel.Public,
+			name,
+			typeTparams,
+			IArray.apply(creatorMethod.params),
+			impl,
+			ret,
+			false,
+			Comments.empty(),
+			typeCp.add(name),
+			false,
+		);
+	}
+}
@@ -0,0 +1,370 @@
+/**
+ * TypeScript port of org.scalablytyped.converter.internal.scalajs.flavours.GenPromiseOps
+ *
+ * Adds implicit ops classes to the companions of `std.Promise` and `std.PromiseLike`, so values of those types can be
+ * converted with `.toPromise` and `.toFuture` without casting by hand.
+ *
+ * Not in the Scala original: the companions of traits also get an ops class with a `fooFuture` variant of each
+ * `Promise`-returning method or `Promise`-typed field `foo`. Variants whose name is already taken by the trait, its
+ * parents or the companion are skipped. The class is marked with `FutureOps`, so the `Sorter` keeps it last in the
+ * companion.
+ */
+
+import { FutureOps } from "../../Comment.js";
+import { Comments } from "../../Comments.js";
+import { IArray, partialFunction } from "../../IArray.js";
+import { Annotation, type AnnotationUnion } from "../Annotation.js";
+import { Name } from "../Name.js";
+import type { ParentsResolver } from "../ParentsResolver.js";
+import { QualifiedName } from "../QualifiedName.js";
+import {
+	ClassTree,
+	ClassType,
+	type ContainerTree,
+	CtorTree,
+	type ExprArg,
+	ExprTree,
+	isClassTree,
+	isFieldTree,
+	isMethodTree,
+	isModuleTree,
+	MethodTree,
+	ModuleTree,
+	membersByName,
+	NotImplemented,
+	ParamTree,
+	ProtectionLevel,
+	type Tree,
+	TypeParamTree,
+	TypeRef,
+} from "../Tree.js";
+import type { TreeScope } from "../TreeScope.js";
+import { TreeTransformation } from "../TreeTransformation.js";
+
+const ScalaFuture = QualifiedName.from([
+	Name.scala,
+	new Name("concurrent"),
+	new Name("Future"),
+]);
+
+function genPromiseOps(cls: ClassTree, mod: ModuleTree): ClassTree {
+	const paramName = new Name("promise");
+	const Ops = new Name(`${cls.name.unescaped}Ops`);
+	const OpsCP = mod.codePath.add(Ops);
+	const targs = TypeParamTree.asTypeArgs(cls.tparams);
+
+	const toPromise = (() => {
+		const name = new Name("toPromise");
+		const tpe = TypeRef.create(QualifiedName.JsPromise, targs);
+		return MethodTree.create(
+			IArray.Empty,
+			ProtectionLevel.Public,
+			name,
+			IArray.Empty,
+			IArray.Empty,
+			ExprTree.AsInstanceOf(ExprTree.Ref(QualifiedName.from([paramName])), tpe),
+			tpe,
+			false,
+			Comments.empty(),
+			OpsCP.add(name),
+			false,
+		);
+	})();
+
+	const toFuture = (() => {
+		const name = new Name("toFuture");
+		const tpe = TypeRef.create(ScalaFuture, targs);
+		return MethodTree.create(
+			IArray.Empty,
+			ProtectionLevel.Public,
+			name,
+			IArray.Empty,
+			IArray.Empty,
+			ExprTree.Select(
+				ExprTree.Ref(QualifiedName.from([toPromise.name])),
+				new Name("toFuture"),
+			),
+			tpe,
+			false,
+			Comments.empty(),
+			OpsCP.add(name),
+			false,
+		);
+	})();
+
+	return ClassTree.create(
+		true,
+		IArray.apply<AnnotationUnion>(Annotation.Inline),
+		ProtectionLevel.Public,
+		Ops,
+		cls.tparams,
+		IArray.apply(TypeRef.AnyVal),
+		IArray.apply(
+			CtorTree.create(
+				ProtectionLevel.Public,
+				IArray.apply(
+					ParamTree.create(
+						paramName,
+						false,
+						true,
+						TypeRef.create(cls.codePath, targs),
+						NotImplemented,
+						Comments.empty(),
+					),
+				),
+				Comments.empty(),
+			),
+		),
+		IArray.apply<Tree>(toPromise, toFuture),
+		ClassType.Class,
+		false,
+		Comments.empty(),
+		OpsCP,
+	);
+}
+
+/* `Promise` and `PromiseLike` from the std library, and `js.Promise` */
+function promiseNames(outputPkg: Name): IArray<QualifiedName> {
+	const std = QualifiedName.from([outputPkg, Name.std]);
+	return IArray.apply(
+		std.add(new Name("Promise")),
+		std.add(new Name("PromiseLike")),
+		QualifiedName.JsPromise,
+	);
+}
+
+/* `self.foo[T](a, b*)` for a member `foo` of the wrapped trait */
+function forward(self: Name, m: MethodTree): ExprTree {
+	const selected = ExprTree.Select(ExprTree.RefName(self), m.name);
+	const fn = m.tparams.isEmpty
+		? selected
+		: ExprTree.TApply(selected, TypeParamTree.asTypeArgs(m.tparams));
+	return m.params.isEmpty
+		? fn
+		: ExprTree.Call(
+				fn,
+				m.params.map((params) =>
+					params.map(
+						(p): ExprArg =>
+							ExprTree.Arg.Pos(
+								TypeRef.Repeated.unapply(p.tpe) === undefined
+									? ExprTree.RefName(p.name)
+									: ExprTree.VarArgs(ExprTree.RefName(p.name)),
+							),
+					),
+				),
+			);
+}
+
+/* the type wrapped by a `Promise`-like type, if `tpe` is one */
+function promisedBy(
+	tpe: TypeRef,
+	promises: IArray<QualifiedName>,
+): TypeRef | undefined {
+	return promises.exists((p) => p.equals(tpe.typeName))
+		? tpe.targs.headOption
+		: undefined;
+}
+
+/* `FooFutureOps`, or `FooFutureOps1` and so on if the companion already has a member by that name */
+function opsName(cls: ClassTree, mod: ModuleTree): Name {
+	const base = `${cls.name.unescaped}FutureOps`;
+	const inCompanion = new Set(
+		mod.members.map((m) => m.name.unescaped).toArray(),
+	);
+	let n = 0;
+	while (inCompanion.has(n === 0 ? base : `${base}${n}`)) n += 1;
+	return new Name(n === 0 ? base : `${base}${n}`);
+}
+
+function genFutureOps(
+	cls: ClassTree,
+	mod: ModuleTree,
+	inherited: IArray<Tree>,
+	promises: IArray<QualifiedName>,
+): ClassTree | undefined {
+	const self = new Name("self");
+	const Ops = opsName(cls, mod);
+	const OpsCP = mod.codePath.add(Ops);
+	/* a variant named like an existing member would be shadowed by it, or shadow it */
+	const taken = new Set(
+		cls.members
+			.concat(inherited)
+			.concat(mod.members)
+			.map((m) => m.name.unescaped)
+			.toArray(),
+	);
+
+	const variants = cls.members.mapNotNone((m): Tree | undefined => {
+		const promised = isMethodTree(m)
+			? promisedBy(m.resultType, promises)
+			: isFieldTree(m)
+				? promisedBy(m.tpe, promises)
+				: undefined;
+		if (promised === undefined) return undefined;
+
+		const name = new Name(`${m.name.unescaped}Future`);
+		if (taken.has(name.unescaped)) return undefined;
+
+		return MethodTree.create(
+			IArray.Empty,
+			ProtectionLevel.Public,
+			name,
+			isMethodTree(m) ? m.tparams : IArray.Empty,
+			isMethodTree(m) ? m.params : IArray.Empty,
+			ExprTree.Select(
+				isMethodTree(m)
+					? forward(self, m)
+					: ExprTree.Select(ExprTree.RefName(self), m.name),
+				new Name("toFuture"),
+			),
+			TypeRef.create(ScalaFuture, IArray.apply(promised)),
+			false,
+			Comments.empty(),
+			OpsCP.add(name),
+			false,
+		);
+	});
+	if (variants.isEmpty) return undefined;
+
+	return ClassTree.create(
+		true,
+		IArray.apply<AnnotationUnion>(Annotation.Inline),
+		ProtectionLevel.Public,
+		Ops,
+		cls.tparams,
+		IArray.apply(TypeRef.AnyVal),
+		IArray.apply(
+			CtorTree.create(
+				ProtectionLevel.Public,
+				IArray.apply(
+					ParamTree.create(
+						self,
+						false,
+						true,
+						TypeRef.create(cls.codePath, TypeParamTree.asTypeArgs(cls.tparams)),
+						NotImplemented,
+						Comments.empty(),
+					),
+				),
+				Comments.empty(),
+			),
+		),
+		variants,
+		ClassType.Class,
+		false,
+		Comments.apply([FutureOps.instance]),
+		OpsCP,
+	);
+}
+
+function companionOf(s: ContainerTree, cls: ClassTree): ModuleTree {
+	return (
+		((membersByName(s).get(cls.name.unescaped) ?? IArray.Empty).find(
+			isModuleTree,
+		) as ModuleTree | undefined) ??
+		ModuleTree.create(
+			IArray.Empty,
+			ProtectionLevel.Public,
+			cls.name,
+			IArray.Empty,
+			IArray.Empty,
+			Comments.empty(),
+			cls.codePath,
+			false,
+		)
+	);
+}
+
+/* adds the `Future` variants of the traits in `s` to their companions */
+function withFutureOps(
+	scope: TreeScope,
+	parentsResolver: ParentsResolver,
+	s: ContainerTree,
+	promises: IArray<QualifiedName>,
+): ContainerTree {
+	const companions = s.members
+		.collect(
+			partialFunction(
+				(x: Tree) =>
+					isClassTree(x) &&
+					x.classType === ClassType.Trait &&
+					!promises.exists((p) => p.equals(x.codePath)),
+				(x) => x as ClassTree,
+			),
+		)
+		.mapNotNone((cls) => {
+			const mod = companionOf(s, cls);
+			const inherited = parentsResolver
+				.apply(scope["/"](cls), cls)
+				.transitiveParents.flatMap((p) => p.classTree.members);
+			const ops = genFutureOps(cls, mod, inherited, promises);
+			return ops && { ...mod, members: mod.members.append(ops) };
+		});
+	if (companions.isEmpty) return s;
+
+	const replaced = new Set(companions.map((m) => m.name.unescaped).toArray());
+	return s.withMembers(
+		s.members
+			.filter((x) => !(isModuleTree(x) && replaced.has(x.name.unescaped)))
+			.concat(companions),
+	);
+}
+
+function flaff(s: ContainerTree, name: Name): ModuleTree | undefined {
+	const [existingClass, existingModule] = (
+		membersByName(s).get(name.unescaped) ?? IArray.Empty
+	).partitionCollect2(
+		partialFunction(isClassTree, (x) => x as ClassTree),
+		partialFunction(isModuleTree, (x) => x as ModuleTree),
+	);
+	if (existingClass.isEmpty) return undefined;
+	const cls = existingClass.head;
+
+	const mod =
+		existingModule.headOption ??
+		ModuleTree.create(
+			IArray.Empty,
+			ProtectionLevel.Public,
+			cls.name,
+			IArray.Empty,
+			IArray.Empty,
+			Comments.empty(),
+			cls.codePath,
+			false,
+		);
+
+	return { ...mod, members: mod.members.append(genPromiseOps(cls, mod)) };
+}
+
+export class GenPromiseOps extends TreeTransformation {
+	constructor(private readonly parentsResolver: ParentsResolver) {
+		super();
+	}
+
+	leaveContainerTree(scope: TreeScope): (s: ContainerTree) => ContainerTree {
+		return (s0) => {
+			const s = withFutureOps(
+				scope,
+				this.parentsResolver,
+				s0,
+				promiseNames(scope.outputPkg),
+			);
+			if (!(scope.libName.equals(Name.std) && s.name.equals(Name.std)))
+				return s;
+
+			const newCompanions = IArray.apply(
+				new Name("Promise"),
+				new Name("PromiseLike"),
+			).mapNotNone((name) => flaff(s, name));
+			const replaced = new Set(
+				newCompanions.map((m) => m.name.unescaped).toArray(),
+			);
+
+			const filteredMembers = s.members.filter(
+				(x) => !(isModuleTree(x) && replaced.has(x.name.unescaped)),
+			);
+			return s.withMembers(filteredMembers.concat(newCompanions));
+		};
+	}
+}
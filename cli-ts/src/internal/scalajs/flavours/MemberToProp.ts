@@ -0,0 +1,192 @@
+/**
+ * TypeScript port of org.scalablytyped.converter.internal.scalajs.flavours.MemberToProp
+ *
+ * Interprets fields and methods of a trait as props we can set when constructing an object
+ */
+
+import { Comments } from "../../Comments.js";
+import { IArray } from "../../IArray.js";
+import type { CastConversion } from "../CastConversion.js";
+import { FillInTParams } from "../FillInTParams.js";
+import { FollowAliases } from "../FollowAliases.js";
+import { Name } from "../Name.js";
+import { Optional, Optionality } from "../Optional.js";
+import { QualifiedName } from "../QualifiedName.js";
+import {
+	type ExprArg,
+	ExprTree,
+	type FieldTree,
+	isFieldTree,
+	isMethodTree,
+	type MemberTree,
+	TypeRef,
+} from "../Tree.js";
+import type { TreeScope } from "../TreeScope.js";
+import { NormalProp, type Prop, type Variant } from "./Prop.js";
+
+export interface MemberToProp {
+	apply(
+		scope: TreeScope,
+		x: MemberTree,
+		isInherited: boolean,
+	): Prop | undefined;
+}
+
+const callWith = (fn: ExprTree, ...args: ExprTree[]): ExprTree =>
+	ExprTree.Call(
+		fn,
+		IArray.apply(
+			IArray.fromArray(args.map((a): ExprArg => ExprTree.Arg.Pos(a))),
+		),
+	);
+
+const fromFunction =
+	(arity: number) =>
+	(ref: ExprTree): ExprTree =>
+		callWith(ExprTree.Ref(QualifiedName.AnyFromFunction(arity)), ref);
+
+export namespace MemberToProp {
+	export class Default implements MemberToProp {
+		// might want to phase out this logic. it generates some overloads which can be used instead of a base with union type
+		private readonly conversionsTo: IArray<QualifiedName>;
+
+		constructor(conversions: IArray<CastConversion>) {
+			this.conversionsTo = conversions
+				.filter((c) => !c.to.parts.exists((p) => p.equals(Name.scalajs)))
+				.map((c) => c.to);
+		}
+
+		apply(
+			scope: TreeScope,
+			x: MemberTree,
+			isInherited: boolean,
+		): Prop | undefined {
+			if (isFieldTree(x)) return this.fromField(scope, x, isInherited);
+			if (isMethodTree(x)) {
+				const m = FillInTParams.method(
+					x,
+					scope,
+					x.tparams.map(() => TypeRef.Any),
+					IArray.Empty,
+				);
+				const flattenedParams = m.params.flatten();
+
+				// edge case which doesnt work
+				if (
+					flattenedParams.exists((p) => TypeRef.equals(p.tpe, TypeRef.Nothing))
+				)
+					return undefined;
+				if (flattenedParams.length > 22) return undefined;
+
+				const main: Variant = {
+					tpe: TypeRef.ScalaFunction(
+						flattenedParams.map((p) => p.tpe),
+						m.resultType,
+						Comments.empty(),
+					),
+					asExpr: fromFunction(flattenedParams.length),
+					isRewritten: true,
+					extendsAnyVal: false,
+				};
+				return new NormalProp(
+					main,
+					isInherited,
+					Optionality.No,
+					IArray.Empty,
+					m,
+				);
+			}
+			return undefined;
+		}
+
+		private fromField(
+			scope: TreeScope,
+			f: FieldTree,
+			isInherited: boolean,
+		): Prop | undefined {
+			const origTpe = f.tpe;
+			const [optionality, dealiased] = Optionality.apply(
+				FollowAliases.apply(scope)(origTpe),
+			);
+
+			const fn = TypeRef.JsFunction.unapply(dealiased);
+			if (fn) {
+				const [paramTypes, retType] = fn;
+				// edge case which doesnt work
+				if (paramTypes.exists((t) => TypeRef.equals(t, TypeRef.Nothing)))
+					return undefined;
+				if (paramTypes.length > 22) return undefined;
+
+				const main: Variant = {
+					tpe: TypeRef.ScalaFunction(paramTypes, retType, Comments.empty()),
+					asExpr: fromFunction(paramTypes.length),
+					isRewritten: true,
+					extendsAnyVal: false,
+				};
+				return new NormalProp(main, isInherited, optionality, IArray.Empty, f);
+			}
+
+			/* Undo effect of FollowAliases above */
+			const withoutOptional = Optional.unapply(origTpe) ?? origTpe;
+			const tpe = TypeRef.equals(withoutOptional, TypeRef.Wildcard)
+				? TypeRef.Any
+				: withoutOptional;
+
+			const wasRewritten = this.conversionsTo.exists(
+				(qn) => qn.equals(dealiased.typeName) || qn.equals(origTpe.typeName),
+			);
+
+			const variants = this.variantsFor(
+				scope,
+				f,
+				dealiased,
+				wasRewritten,
+				isInherited,
+			);
+
+			const main: Variant = {
+				tpe,
+				asExpr: (ref) => ExprTree.AsInstanceOf(ref, TypeRef.JsAny),
+				isRewritten: wasRewritten,
+				extendsAnyVal: TypeRef.isPrimitive(
+					FollowAliases.apply(scope["/"](f))(dealiased),
+				),
+			};
+			return new NormalProp(main, isInherited, optionality, variants, f);
+		}
+
+		private variantsFor(
+			scope: TreeScope,
+			f: FieldTree,
+			dealiased: TypeRef,
+			wasRewritten: boolean,
+			isInherited: boolean,
+		): IArray<Variant> {
+			const union = TypeRef.Union.unapply(dealiased);
+			if (union && !wasRewritten) {
+				return union[0]
+					.mapNotNone((tpe) =>
+						this.apply(scope, { ...f, tpe } as FieldTree, isInherited),
+					)
+					.flatMap((x) =>
+						x instanceof NormalProp ? x.allVariants : IArray.Empty,
+					);
+			}
+
+			if (
+				dealiased.typeName.equals(QualifiedName.JsArray) &&
+				dealiased.targs.length === 1
+			) {
+				return IArray.apply<Variant>({
+					tpe: TypeRef.Repeated(dealiased.targs.head, Comments.empty()),
+					asExpr: (e) =>
+						callWith(ExprTree.Ref(QualifiedName.JsArray), ExprTree.VarArgs(e)),
+					isRewritten: true,
+					extendsAnyVal: false,
+				});
+			}
+
+			return IArray.Empty;
+		}
+	}
+}
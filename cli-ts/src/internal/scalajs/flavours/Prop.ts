@@ -0,0 +1,114 @@
+/**
+ * TypeScript port of org.scalablytyped.converter.internal.scalajs.flavours.Prop
+ *
+ * A property of an object we know how to construct, used to generate creator methods and builders
+ */
+
+import type { IArray } from "../../IArray.js";
+import type { Name } from "../Name.js";
+import { Optionality } from "../Optional.js";
+import {
+	type ExprTree,
+	type MemberTree,
+	originalName,
+	type TypeRef,
+} from "../Tree.js";
+
+/**
+ * A `Prop` can have several "variants" for providing useful overloads.
+ *
+ * For instance given a prop `foo: js.Function1[String, String] | String`, we generate overloads for the components
+ * in the union type. The point is that we then can offer good syntax providing callbacks.
+ *
+ * @param asExpr takes an expression, typically the name of the parameter we generate, and rewrites it to the
+ *   javascript value we want to update an object with
+ * @param isRewritten if any useful rewrites have been done to the type or expression. Typically we filter out
+ *   variants which has not been rewritten
+ * @param extendsAnyVal if `tpe` is an `AnyVal` we need to make sure it's not assigned a value of `null`
+ */
+export interface Variant {
+	readonly tpe: TypeRef;
+	readonly asExpr: (e: ExprTree) => ExprTree;
+	readonly isRewritten: boolean;
+	readonly extendsAnyVal: boolean;
+}
+
+export class NormalProp {
+	readonly _tag = "Normal" as const;
+
+	constructor(
+		readonly main: Variant,
+		readonly isInherited: boolean,
+		readonly optionality: Optionality,
+		readonly variants: IArray<Variant>,
+		readonly original: MemberTree,
+	) {}
+
+	get name(): Name {
+		return this.original.name;
+	}
+
+	get originalName(): Name {
+		return originalName(this.original);
+	}
+
+	get canBeInitializer(): boolean {
+		return !this.name.isEscaped && this.name.equals(this.originalName);
+	}
+
+	get allVariants(): IArray<Variant> {
+		return this.variants.prepend(this.main);
+	}
+
+	get isRequired(): boolean {
+		return this.optionality === Optionality.No;
+	}
+
+	rewrite(f: (v: Variant) => Variant): NormalProp {
+		return new NormalProp(
+			f(this.main),
+			this.isInherited,
+			this.optionality,
+			this.variants.map(f),
+			this.original,
+		);
+	}
+}
+
+/**
+ * If a type/component has too many props to fit within Javascripts 254 parameter limit, we group everything from a
+ * parent type into an object of it's own.
+ */
+export class CompressedProp {
+	readonly _tag = "CompressedProp" as const;
+
+	constructor(
+		readonly name: Name,
+		readonly tpe: TypeRef,
+		readonly asExpr: (e: ExprTree) => ExprTree,
+		readonly isRequired: boolean,
+	) {}
+
+	get optionality(): Optionality {
+		return this.isRequired ? Optionality.No : Optionality.Undef;
+	}
+}
+
+export type Prop = NormalProp | CompressedProp;
+
+export const Prop = {
+	Normal: NormalProp,
+	CompressedProp,
+
+	/**
+	 * Required props first, then by name
+	 */
+	ordering: (one: Prop, two: Prop): number => {
+		const oneOptional = one.optionality !== Optionality.No;
+		const twoOptional = two.optionality !== Optionality.No;
+		if (oneOptional !== twoOptional) return oneOptional ? 1 : -1;
+		const a = one.name.unescaped;
+		const b = two.name.unescaped;
+		return a < b ? -1 : a > b ? 1 : 0;
+	},
+};
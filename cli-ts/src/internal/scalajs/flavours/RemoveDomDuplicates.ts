@@ -0,0 +1,71 @@
+/**
+ * When we use `scala-js-dom`, the declarations it covers are left out of `std`.
+ *
+ * References to them are already rewritten by `TypeRewriterCast`, but that leaves inheritance clauses alone. Since
+ * the declarations are gone after this, we point parents at the `scala-js-dom` types here, in every library.
+ */
+
+import type { IArray } from "../../IArray.js";
+import { CastConversion } from "../CastConversion.js";
+import { Name } from "../Name.js";
+import {
+	type ClassTree,
+	type ContainerTree,
+	isClassTree,
+	isFieldTree,
+	isModuleTree,
+	isTypeAliasTree,
+	type ModuleTree,
+	type Tree,
+	TypeRef,
+} from "../Tree.js";
+import type { TreeScope } from "../TreeScope.js";
+import { TreeTransformation } from "../TreeTransformation.js";
+
+export class RemoveDomDuplicates extends TreeTransformation {
+	private readonly conversionsForTypeName: Map<string, CastConversion>;
+
+	constructor(conversions: IArray<CastConversion>) {
+		super();
+		this.conversionsForTypeName = new Map(
+			conversions.toArray().map((c) => [c.from.value, c]),
+		);
+	}
+
+	leaveContainerTree(scope: TreeScope): (s: ContainerTree) => ContainerTree {
+		return (s) =>
+			scope.libName.equals(Name.std)
+				? s.withMembers(s.members.filter((x) => !this.isDuplicate(x)))
+				: s;
+	}
+
+	leaveClassTree(_scope: TreeScope): (s: ClassTree) => ClassTree {
+		return (s) => ({ ...s, parents: s.parents.map((p) => this.rewrite(p)) });
+	}
+
+	leaveModuleTree(_scope: TreeScope): (s: ModuleTree) => ModuleTree {
+		return (s) => ({ ...s, parents: s.parents.map((p) => this.rewrite(p)) });
+	}
+
+	private isDuplicate(x: Tree): boolean {
+		return (
+			(isClassTree(x) ||
+				isModuleTree(x) ||
+				isTypeAliasTree(x) ||
+				isFieldTree(x)) &&
+			this.conversionsForTypeName.has(x.codePath.value)
+		);
+	}
+
+	private rewrite(parent: TypeRef): TypeRef {
+		const conversion = this.conversionsForTypeName.get(parent.typeName.value);
+		if (conversion === undefined) return parent;
+		return TypeRef.create(
+			conversion.to,
+			conversion.tparams.map((tp) =>
+				CastConversion.TParam.eval(tp, parent.targs),
+			),
+			parent.comments,
+		);
+	}
+}
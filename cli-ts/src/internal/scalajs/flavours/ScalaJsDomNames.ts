@@ -0,0 +1,755 @@
+/**
+ * TypeScript port of org.scalablytyped.converter.internal.scalajs.flavours.ScalaJsDomNames
+ *
+ * Maps interfaces from the typescript DOM library to their counterparts in `scala-js-dom`. Only used when the flavour
+ * is configured with `useScalaJsDomTypes`.
+ */
+
+import { IArray } from "../../IArray.js";
+import { CastConversion } from "../CastConversion.js";
+import { Name } from "../Name.js";
+import { QualifiedName, type StdNames } from "../QualifiedName.js";
+import { TypeRef } from "../Tree.js";
+
+const { TParam } = CastConversion;
+
+export class ScalaJsDomNames {
+	static readonly Element: QualifiedName = QualifiedName.fromString(
+		"org.scalajs.dom.Element",
+	);
+
+	readonly All: IArray<CastConversion>;
+
+	/**
+	 * The `scala-js-dom` element types, `HTMLElement`, `SVGElement` and so on
+	 */
+	readonly AllElements: ReadonlySet<string>;
+
+	/**
+	 * @param extra conversions for cases the table doesn't cover. They take precedence over the built-in ones
+	 */
+	constructor(
+		stdNames: StdNames,
+		extra: IArray<CastConversion> = IArray.Empty,
+	) {
+		const conv = (
+			from: string,
+			to: string,
+			...tparams: CastConversion.TParam[]
+		) =>
+			CastConversion.apply(
+				stdNames.lib.add(new Name(from)),
+				QualifiedName.fromString(to),
+				...tparams,
+			);
+
+		const base = IArray.apply(
+			conv("AbortController", "org.scalajs.dom.AbortController"),
+			conv("AbortSignal", "org.scalajs.dom.AbortSignal"),
+			conv("AbstractWorker", "org.scalajs.dom.AbstractWorker"),
+			conv("AesCbcParams", "org.scalajs.dom.AesCbcParams"),
+			conv("AesCfbParams", "org.scalajs.dom.AesCfbParams"),
+			conv("AesCmacParams", "org.scalajs.dom.AesCmacParams"),
+			conv("AesCtrParams", "org.scalajs.dom.AesCtrParams"),
+			conv("AesDerivedKeyParams", "org.scalajs.dom.AesDerivedKeyParams"),
+			conv("AesGcmParams", "org.scalajs.dom.AesGcmParams"),
+			conv("AesKeyAlgorithm", "org.scalajs.dom.AesKeyAlgorithm"),
+			conv("AesKeyGenParams", "org.scalajs.dom.AesKeyGenParams"),
+			conv("Algorithm", "org.scalajs.dom.Algorithm"),
+			conv("AnalyserNode", "org.scalajs.dom.AnalyserNode"),
+			conv("AnimationEvent", "org.scalajs.dom.AnimationEvent"),
+			conv("ApplicationCache", "org.scalajs.dom.ApplicationCache"),
+			conv("Attr", "org.scalajs.dom.Attr"),
+			conv("AudioBuffer", "org.scalajs.dom.AudioBuffer"),
+			conv("AudioBufferSourceNode", "org.scalajs.dom.AudioBufferSourceNode"),
+			conv("AudioContext", "org.scalajs.dom.AudioContext"),
+			conv("AudioDestinationNode", "org.scalajs.dom.AudioDestinationNode"),
+			conv("AudioListener", "org.scalajs.dom.AudioListener"),
+			conv("AudioNode", "org.scalajs.dom.AudioNode"),
+			conv("AudioParam", "org.scalajs.dom.AudioParam"),
+			conv("AudioTrack", "org.scalajs.dom.AudioTrack"),
+			conv("AudioTrackList", "org.scalajs.dom.AudioTrackList"),
+			conv("BeforeUnloadEvent", "org.scalajs.dom.BeforeUnloadEvent"),
+			conv("BiquadFilterNode", "org.scalajs.dom.BiquadFilterNode"),
+			conv("Blob", "org.scalajs.dom.Blob"),
+			conv("BlobPropertyBag", "org.scalajs.dom.BlobPropertyBag"),
+			conv("Body", "org.scalajs.dom.Body"),
+			conv("CDATASection", "org.scalajs.dom.CDATASection"),
+			conv("CSSFontFaceRule", "org.scalajs.dom.CSSFontFaceRule"),
+			conv("CSSImportRule", "org.scalajs.dom.CSSImportRule"),
+			conv("CSSKeyframeRule", "org.scalajs.dom.CSSKeyframeRule"),
+			conv("CSSKeyframesRule", "org.scalajs.dom.CSSKeyframesRule"),
+			conv("CSSMediaRule", "org.scalajs.dom.CSSMediaRule"),
+			conv("CSSNamespaceRule", "org.scalajs.dom.CSSNamespaceRule"),
+			conv("CSSPageRule", "org.scalajs.dom.CSSPageRule"),
+			conv("CSSRule", "org.scalajs.dom.CSSRule"),
+			conv("CSSRuleList", "org.scalajs.dom.CSSRuleList"),
+			conv("CSSStyleDeclaration", "org.scalajs.dom.CSSStyleDeclaration"),
+			conv("CSSStyleRule", "org.scalajs.dom.CSSStyleRule"),
+			conv("CSSStyleSheet", "org.scalajs.dom.CSSStyleSheet"),
+			conv("Cache", "org.scalajs.dom.Cache"),
+			conv("CacheQueryOptions", "org.scalajs.dom.CacheQueryOptions"),
+			conv("CacheStorage", "org.scalajs.dom.CacheStorage"),
+			conv("CanvasGradient", "org.scalajs.dom.CanvasGradient"),
+			conv("CanvasPattern", "org.scalajs.dom.CanvasPattern"),
+			conv(
+				"CanvasRenderingContext2D",
+				"org.scalajs.dom.CanvasRenderingContext2D",
+			),
+			conv("ChannelMergerNode", "org.scalajs.dom.ChannelMergerNode"),
+			conv("ChannelSplitterNode", "org.scalajs.dom.ChannelSplitterNode"),
+			conv("CharacterData", "org.scalajs.dom.CharacterData"),
+			conv("ClientQueryOptions", "org.scalajs.dom.ClientQueryOptions"),
+			conv("DOMRect", "org.scalajs.dom.DOMRect"),
+			conv("ClientRectList", "org.scalajs.dom.DOMRectList"),
+			conv("ClipboardEvent", "org.scalajs.dom.ClipboardEvent"),
+			conv("ClipboardEventInit", "org.scalajs.dom.ClipboardEventInit"),
+			conv("CloseEvent", "org.scalajs.dom.CloseEvent"),
+			conv("Comment", "org.scalajs.dom.Comment"),
+			conv("CompositionEvent", "org.scalajs.dom.CompositionEvent"),
+			conv("ConcatParams", "org.scalajs.dom.ConcatParams"),
+			conv("Console", "org.scalajs.dom.Console"),
+			conv("ConvolverNode", "org.scalajs.dom.ConvolverNode"),
+			conv("Coordinates", "org.scalajs.dom.Coordinates"),
+			conv("Crypto", "org.scalajs.dom.Crypto"),
+			conv("CryptoKey", "org.scalajs.dom.CryptoKey"),
+			conv("CryptoKeyPair", "org.scalajs.dom.CryptoKeyPair"),
+			conv("CustomEvent", "org.scalajs.dom.CustomEvent"),
+			conv("DOMException", "org.scalajs.dom.DOMException"),
+			conv("DOMImplementation", "org.scalajs.dom.DOMImplementation"),
+			conv("DOMParser", "org.scalajs.dom.DOMParser"),
+			conv("DOMSettableTokenList", "org.scalajs.dom.DOMSettableTokenList"),
+			conv("DOMStringList", "org.scalajs.dom.DOMStringList"),
+			conv("DOMTokenList", "org.scalajs.dom.DOMTokenList"),
+			conv("DataTransfer", "org.scalajs.dom.DataTransfer"),
+			conv("DelayNode", "org.scalajs.dom.DelayNode"),
+			conv("DeviceAcceleration", "org.scalajs.dom.DeviceAcceleration"),
+			conv("DeviceMotionEvent", "org.scalajs.dom.DeviceMotionEvent"),
+			conv("DeviceMotionEventInit", "org.scalajs.dom.DeviceMotionEventInit"),
+			conv("DeviceOrientationEvent", "org.scalajs.dom.DeviceOrientationEvent"),
+			conv(
+				"DeviceOrientationEventInit",
+				"org.scalajs.dom.DeviceOrientationEventInit",
+			),
+			conv("DeviceRotationRate", "org.scalajs.dom.DeviceRotationRate"),
+			conv("DhImportKeyParams", "org.scalajs.dom.DhImportKeyParams"),
+			conv("DhKeyAlgorithm", "org.scalajs.dom.DhKeyAlgorithm"),
+			conv("DhKeyDeriveParams", "org.scalajs.dom.DhKeyDeriveParams"),
+			conv("DhKeyGenParams", "org.scalajs.dom.DhKeyGenParams"),
+			conv("Document", "org.scalajs.dom.Document"),
+			conv("DocumentEvent", "org.scalajs.dom.DocumentEvent"),
+			conv("DocumentFragment", "org.scalajs.dom.DocumentFragment"),
+			conv("DocumentType", "org.scalajs.dom.DocumentType"),
+			conv("DragEvent", "org.scalajs.dom.DragEvent"),
+			conv("DynamicsCompressorNode", "org.scalajs.dom.DynamicsCompressorNode"),
+			conv("EcKeyAlgorithm", "org.scalajs.dom.EcKeyAlgorithm"),
+			conv("EcKeyGenParams", "org.scalajs.dom.EcKeyGenParams"),
+			conv("EcKeyImportParams", "org.scalajs.dom.EcKeyImportParams"),
+			conv("EcdhKeyDeriveParams", "org.scalajs.dom.EcdhKeyDeriveParams"),
+			conv("EcdsaParams", "org.scalajs.dom.EcdsaParams"),
+			conv("Element", "org.scalajs.dom.Element"),
+			conv("ErrorEvent", "org.scalajs.dom.ErrorEvent"),
+			conv("Event", "org.scalajs.dom.Event"),
+			conv("EventListenerOptions", "org.scalajs.dom.EventListenerOptions"),
+			conv("EventSource", "org.scalajs.dom.EventSource"),
+			conv("EventTarget", "org.scalajs.dom.EventTarget"),
+			conv("External", "org.scalajs.dom.External"),
+			conv("File", "org.scalajs.dom.File"),
+			conv("FileList", "org.scalajs.dom.FileList"),
+			conv("FileReader", "org.scalajs.dom.FileReader"),
+			conv("FocusEvent", "org.scalajs.dom.FocusEvent"),
+			conv("FormData", "org.scalajs.dom.FormData"),
+			conv("GainNode", "org.scalajs.dom.GainNode"),
+			conv("Gamepad", "org.scalajs.dom.Gamepad"),
+			conv("GamepadButton", "org.scalajs.dom.GamepadButton"),
+			conv("GamepadEvent", "org.scalajs.dom.GamepadEvent"),
+			conv("GamepadEventInit", "org.scalajs.dom.GamepadEventInit"),
+			conv("GamepadMappingType", "org.scalajs.dom.GamepadMappingType"),
+			conv("Geolocation", "org.scalajs.dom.Geolocation"),
+			conv("GetNotificationOptions", "org.scalajs.dom.GetNotificationOptions"),
+			conv("HTMLAnchorElement", "org.scalajs.dom.HTMLAnchorElement"),
+			conv("HTMLAreaElement", "org.scalajs.dom.HTMLAreaElement"),
+			conv("HTMLAudioElement", "org.scalajs.dom.HTMLAudioElement"),
+			conv("HTMLBRElement", "org.scalajs.dom.HTMLBRElement"),
+			conv("HTMLBaseElement", "org.scalajs.dom.HTMLBaseElement"),
+			conv("HTMLBodyElement", "org.scalajs.dom.HTMLBodyElement"),
+			conv("HTMLButtonElement", "org.scalajs.dom.HTMLButtonElement"),
+			conv("HTMLCanvasElement", "org.scalajs.dom.HTMLCanvasElement"),
+			conv("HTMLCollection", "org.scalajs.dom.HTMLCollection", TParam._1),
+			conv("HTMLDListElement", "org.scalajs.dom.HTMLDListElement"),
+			conv("HTMLDataListElement", "org.scalajs.dom.HTMLDataListElement"),
+			conv("HTMLDivElement", "org.scalajs.dom.HTMLDivElement"),
+			conv("HTMLDocument", "org.scalajs.dom.HTMLDocument"),
+			conv("HTMLElement", "org.scalajs.dom.HTMLElement"),
+			conv("HTMLEmbedElement", "org.scalajs.dom.HTMLEmbedElement"),
+			conv("HTMLFieldSetElement", "org.scalajs.dom.HTMLFieldSetElement"),
+			conv("HTMLFormElement", "org.scalajs.dom.HTMLFormElement"),
+			conv("HTMLHRElement", "org.scalajs.dom.HTMLHRElement"),
+			conv("HTMLHeadElement", "org.scalajs.dom.HTMLHeadElement"),
+			conv("HTMLHeadingElement", "org.scalajs.dom.HTMLHeadingElement"),
+			conv("HTMLHtmlElement", "org.scalajs.dom.HTMLHtmlElement"),
+			conv("HTMLIFrameElement", "org.scalajs.dom.HTMLIFrameElement"),
+			conv("HTMLImageElement", "org.scalajs.dom.HTMLImageElement"),
+			conv("HTMLInputElement", "org.scalajs.dom.HTMLInputElement"),
+			conv("HTMLLIElement", "org.scalajs.dom.HTMLLIElement"),
+			conv("HTMLLabelElement", "org.scalajs.dom.HTMLLabelElement"),
+			conv("HTMLLegendElement", "org.scalajs.dom.HTMLLegendElement"),
+			conv("HTMLLinkElement", "org.scalajs.dom.HTMLLinkElement"),
+			conv("HTMLMapElement", "org.scalajs.dom.HTMLMapElement"),
+			conv("HTMLMediaElement", "org.scalajs.dom.HTMLMediaElement"),
+			conv("HTMLMenuElement", "org.scalajs.dom.HTMLMenuElement"),
+			conv("HTMLMetaElement", "org.scalajs.dom.HTMLMetaElement"),
+			conv("HTMLModElement", "org.scalajs.dom.HTMLModElement"),
+			conv("HTMLOListElement", "org.scalajs.dom.HTMLOListElement"),
+			conv("HTMLObjectElement", "org.scalajs.dom.HTMLObjectElement"),
+			conv("HTMLOptGroupElement", "org.scalajs.dom.HTMLOptGroupElement"),
+			conv("HTMLOptionElement", "org.scalajs.dom.HTMLOptionElement"),
+			conv("HTMLParagraphElement", "org.scalajs.dom.HTMLParagraphElement"),
+			conv("HTMLParamElement", "org.scalajs.dom.HTMLParamElement"),
+			conv("HTMLPreElement", "org.scalajs.dom.HTMLPreElement"),
+			conv("HTMLProgressElement", "org.scalajs.dom.HTMLProgressElement"),
+			conv("HTMLQuoteElement", "org.scalajs.dom.HTMLQuoteElement"),
+			conv("HTMLScriptElement", "org.scalajs.dom.HTMLScriptElement"),
+			conv("HTMLSelectElement", "org.scalajs.dom.HTMLSelectElement"),
+			conv("HTMLSourceElement", "org.scalajs.dom.HTMLSourceElement"),
+			conv("HTMLSpanElement", "org.scalajs.dom.HTMLSpanElement"),
+			conv("HTMLStyleElement", "org.scalajs.dom.HTMLStyleElement"),
+			conv(
+				"HTMLTableCaptionElement",
+				"org.scalajs.dom.HTMLTableCaptionElement",
+			),
+			conv("HTMLTableCellElement", "org.scalajs.dom.HTMLTableCellElement"),
+			conv("HTMLTableColElement", "org.scalajs.dom.HTMLTableColElement"),
+			conv("HTMLTableElement", "org.scalajs.dom.HTMLTableElement"),
+			conv("HTMLTableRowElement", "org.scalajs.dom.HTMLTableRowElement"),
+			conv(
+				"HTMLTableSectionElement",
+				"org.scalajs.dom.HTMLTableSectionElement",
+			),
+			conv("HTMLTextAreaElement", "org.scalajs.dom.HTMLTextAreaElement"),
+			conv("HTMLTitleElement", "org.scalajs.dom.HTMLTitleElement"),
+			conv("HTMLTrackElement", "org.scalajs.dom.HTMLTrackElement"),
+			conv("HTMLUListElement", "org.scalajs.dom.HTMLUListElement"),
+			conv("HTMLUnknownElement", "org.scalajs.dom.HTMLUnknownElement"),
+			conv("HTMLVideoElement", "org.scalajs.dom.HTMLVideoElement"),
+			conv("HashChangeEvent", "org.scalajs.dom.HashChangeEvent"),
+			conv("Headers", "org.scalajs.dom.Headers"),
+			conv("History", "org.scalajs.dom.History"),
+			conv("HkdfCtrParams", "org.scalajs.dom.HkdfCtrParams"),
+			conv("HmacImportParams", "org.scalajs.dom.HmacImportParams"),
+			conv("HmacKeyAlgorithm", "org.scalajs.dom.HmacKeyAlgorithm"),
+			conv("HmacKeyGenParams", "org.scalajs.dom.HmacKeyGenParams"),
+			conv("IDBCursor", "org.scalajs.dom.IDBCursor", TParam._1),
+			conv(
+				"IDBCursorWithValue",
+				"org.scalajs.dom.IDBCursorWithValue",
+				TParam._1,
+			),
+			conv("IDBDatabase", "org.scalajs.dom.IDBDatabase"),
+			conv("IDBEnvironment", "org.scalajs.dom.IDBEnvironment"),
+			conv("IDBFactory", "org.scalajs.dom.IDBFactory"),
+			conv("IDBIndex", "org.scalajs.dom.IDBIndex"),
+			conv("IDBKeyRange", "org.scalajs.dom.IDBKeyRange"),
+			conv("IDBObjectStore", "org.scalajs.dom.IDBObjectStore"),
+			conv("IDBOpenDBRequest", "org.scalajs.dom.IDBOpenDBRequest", TParam._1),
+			conv(
+				"IDBRequest",
+				"org.scalajs.dom.IDBRequest",
+				TParam.Ref(TypeRef.Any),
+				TParam._1,
+			),
+			conv("IDBTransaction", "org.scalajs.dom.IDBTransaction"),
+			conv("IDBVersionChangeEvent", "org.scalajs.dom.IDBVersionChangeEvent"),
+			conv("ImageData", "org.scalajs.dom.ImageData"),
+			conv("Intl.Collator", "org.scalajs.dom.intl.Collator"),
+			conv("Intl.CollatorOptions", "org.scalajs.dom.intl.CollatorOptions"),
+			conv("Intl.DateTimeFormat", "org.scalajs.dom.intl.DateTimeFormat"),
+			conv(
+				"Intl.DateTimeFormatOptions",
+				"org.scalajs.dom.intl.DateTimeFormatOptions",
+			),
+			conv("Intl.NumberFormat", "org.scalajs.dom.intl.NumberFormat"),
+			conv(
+				"Intl.NumberFormatOptions",
+				"org.scalajs.dom.intl.NumberFormatOptions",
+			),
+			conv("JsonWebKey", "org.scalajs.dom.JsonWebKey"),
+			conv("KeyAlgorithm", "org.scalajs.dom.KeyAlgorithm"),
+			conv("KeyFormat", "org.scalajs.dom.KeyFormat"),
+			conv("KeyType", "org.scalajs.dom.KeyType"),
+			conv("KeyUsage", "org.scalajs.dom.KeyUsage"),
+			conv("KeyboardEvent", "org.scalajs.dom.KeyboardEvent"),
+			conv("KeyboardEventInit", "org.scalajs.dom.KeyboardEventInit"),
+			conv("LinkStyle", "org.scalajs.dom.LinkStyle"),
+			conv("Location", "org.scalajs.dom.Location"),
+			conv("MediaDeviceInfo", "org.scalajs.dom.MediaDeviceInfo"),
+			conv("MediaDeviceKind", "org.scalajs.dom.MediaDeviceKind"),
+			conv("MediaDevices", "org.scalajs.dom.MediaDevices"),
+			conv(
+				"MediaElementAudioSourceNode",
+				"org.scalajs.dom.MediaElementAudioSourceNode",
+			),
+			conv("MediaError", "org.scalajs.dom.MediaError"),
+			conv("MediaList", "org.scalajs.dom.MediaList"),
+			conv("MediaQueryList", "org.scalajs.dom.MediaQueryList"),
+			conv("MediaStream", "org.scalajs.dom.MediaStream"),
+			conv(
+				"MediaStreamAudioDestinationNode",
+				"org.scalajs.dom.MediaStreamAudioDestinationNode",
+			),
+			conv(
+				"MediaStreamAudioSourceNode",
+				"org.scalajs.dom.MediaStreamAudioSourceNode",
+			),
+			conv("MediaStreamConstraints", "org.scalajs.dom.MediaStreamConstraints"),
+			conv("MediaStreamTrack", "org.scalajs.dom.MediaStreamTrack"),
+			conv("MediaStreamTrackEvent", "org.scalajs.dom.MediaStreamTrackEvent"),
+			conv(
+				"MediaStreamTrackEventInit",
+				"org.scalajs.dom.MediaStreamTrackEventInit",
+			),
+			conv("MediaStreamTrackState", "org.scalajs.dom.MediaStreamTrackState"),
+			conv(
+				"MediaTrackConstraintSet",
+				"org.scalajs.dom.MediaTrackConstraintSet",
+			),
+			conv("MediaTrackConstraints", "org.scalajs.dom.MediaTrackConstraints"),
+			conv("MediaTrackSettings", "org.scalajs.dom.MediaTrackSettings"),
+			conv(
+				"MediaTrackSupportedConstraints",
+				"org.scalajs.dom.MediaTrackSupportedConstraints",
+			),
+			conv("MessageChannel", "org.scalajs.dom.MessageChannel"),
+			conv("MessageEvent", "org.scalajs.dom.MessageEvent"),
+			conv("MessagePort", "org.scalajs.dom.MessagePort"),
+			conv("MouseEvent", "org.scalajs.dom.MouseEvent"),
+			conv("MutationObserver", "org.scalajs.dom.MutationObserver"),
+			conv("MutationObserverInit", "org.scalajs.dom.MutationObserverInit"),
+			conv("MutationRecord", "org.scalajs.dom.MutationRecord"),
+			conv("NamedNodeMap", "org.scalajs.dom.NamedNodeMap"),
+			conv("Navigator", "org.scalajs.dom.Navigator"),
+			conv("NavigatorContentUtils", "org.scalajs.dom.NavigatorContentUtils"),
+			conv("NavigatorID", "org.scalajs.dom.NavigatorID"),
+			conv("NavigatorLanguage", "org.scalajs.dom.NavigatorLanguage"),
+			conv("NavigatorOnLine", "org.scalajs.dom.NavigatorOnLine"),
+			conv("Node", "org.scalajs.dom.Node"),
+			conv("NodeFilter", "org.scalajs.dom.NodeFilter"),
+			conv("NodeIterator", "org.scalajs.dom.NodeIterator"),
+			conv(
+				"NodeList",
+				"org.scalajs.dom.NodeList",
+				TParam.Ref(
+					TypeRef.create(QualifiedName.fromString("org.scalajs.dom.Node")),
+				),
+			),
+			conv(
+				"NodeListOf",
+				"org.scalajs.dom.NodeList",
+				TParam.among(
+					TParam._1,
+					IArray.Empty,
+					QualifiedName.fromString("org.scalajs.dom.Node"),
+				),
+			),
+			conv(
+				"NonDocumentTypeChildNode",
+				"org.scalajs.dom.NonDocumentTypeChildNode",
+			),
+			conv("Notification", "org.scalajs.dom.Notification"),
+			conv("NotificationOptions", "org.scalajs.dom.NotificationOptions"),
+			conv(
+				"OfflineAudioCompletionEvent",
+				"org.scalajs.dom.OfflineAudioCompletionEvent",
+			),
+			conv("OfflineAudioContext", "org.scalajs.dom.OfflineAudioContext"),
+			conv("OscillatorNode", "org.scalajs.dom.OscillatorNode"),
+			conv("PannerNode", "org.scalajs.dom.PannerNode"),
+			conv("ParentNode", "org.scalajs.dom.ParentNode"),
+			conv("Pbkdf2Params", "org.scalajs.dom.Pbkdf2Params"),
+			conv("Performance", "org.scalajs.dom.Performance"),
+			conv("PerformanceEntry", "org.scalajs.dom.PerformanceEntry"),
+			conv("PerformanceMark", "org.scalajs.dom.PerformanceMark"),
+			conv("PerformanceMeasure", "org.scalajs.dom.PerformanceMeasure"),
+			conv("PerformanceNavigation", "org.scalajs.dom.PerformanceNavigation"),
+			conv(
+				"PerformanceResourceTiming",
+				"org.scalajs.dom.PerformanceResourceTiming",
+			),
+			conv("PerformanceTiming", "org.scalajs.dom.PerformanceTiming"),
+			conv("PeriodicWave", "org.scalajs.dom.PeriodicWave"),
+			conv("PointerEvent", "org.scalajs.dom.PointerEvent"),
+			conv("PointerEventInit", "org.scalajs.dom.PointerEventInit"),
+			conv("PopStateEvent", "org.scalajs.dom.PopStateEvent"),
+			conv("Position", "org.scalajs.dom.Position"),
+			conv("PositionError", "org.scalajs.dom.PositionError"),
+			conv("PositionOptions", "org.scalajs.dom.PositionOptions"),
+			conv("ProcessingInstruction", "org.scalajs.dom.ProcessingInstruction"),
+			conv("ProgressEvent", "org.scalajs.dom.ProgressEvent"),
+			conv("PushEncryptionKeyName", "org.scalajs.dom.PushEncryptionKeyName"),
+			conv("PushManager", "org.scalajs.dom.PushManager"),
+			conv("PushPermissionState", "org.scalajs.dom.PushPermissionState"),
+			conv("PushSubscription", "org.scalajs.dom.PushSubscription"),
+			conv("PushSubscriptionJSON", "org.scalajs.dom.PushSubscriptionJSON"),
+			conv(
+				"PushSubscriptionOptions",
+				"org.scalajs.dom.PushSubscriptionOptions",
+			),
+			conv("RTCBundlePolicy", "org.scalajs.dom.RTCBundlePolicy"),
+			conv("RTCConfiguration", "org.scalajs.dom.RTCConfiguration"),
+			conv("RTCDTMFSender", "org.scalajs.dom.RTCDTMFSender"),
+			conv("RTCDataChannel", "org.scalajs.dom.RTCDataChannel"),
+			conv("RTCDataChannelEvent", "org.scalajs.dom.RTCDataChannelEvent"),
+			conv(
+				"RTCDataChannelEventInit",
+				"org.scalajs.dom.RTCDataChannelEventInit",
+			),
+			conv("RTCDataChannelInit", "org.scalajs.dom.RTCDataChannelInit"),
+			conv("RTCDataChannelState", "org.scalajs.dom.RTCDataChannelState"),
+			conv("RTCIceCandidate", "org.scalajs.dom.RTCIceCandidate"),
+			conv("RTCIceCandidateInit", "org.scalajs.dom.RTCIceCandidateInit"),
+			conv("RTCIceConnectionState", "org.scalajs.dom.RTCIceConnectionState"),
+			conv("RTCIceGatheringState", "org.scalajs.dom.RTCIceGatheringState"),
+			conv("RTCIceServer", "org.scalajs.dom.RTCIceServer"),
+			conv("RTCIceTransportPolicy", "org.scalajs.dom.RTCIceTransportPolicy"),
+			conv("RTCIdentityAssertion", "org.scalajs.dom.RTCIdentityAssertion"),
+			conv("RTCOfferOptions", "org.scalajs.dom.RTCOfferOptions"),
+			conv("RTCPeerConnection", "org.scalajs.dom.RTCPeerConnection"),
+			conv(
+				"RTCPeerConnectionIceEvent",
+				"org.scalajs.dom.RTCPeerConnectionIceEvent",
+			),
+			conv(
+				"RTCPeerConnectionIceEventInit",
+				"org.scalajs.dom.RTCPeerConnectionIceEventInit",
+			),
+			conv("RTCSdpType", "org.scalajs.dom.RTCSdpType"),
+			conv("RTCSessionDescription", "org.scalajs.dom.RTCSessionDescription"),
+			conv(
+				"RTCSessionDescriptionInit",
+				"org.scalajs.dom.RTCSessionDescriptionInit",
+			),
+			conv("RTCSignalingState", "org.scalajs.dom.RTCSignalingState"),
+			conv("RTCStats", "org.scalajs.dom.RTCStats"),
+			conv("RTCStatsReport", "org.scalajs.dom.RTCStatsReport"),
+			conv("RTCStatsType", "org.scalajs.dom.RTCStatsType"),
+			conv("Range", "org.scalajs.dom.Range"),
+			conv("ReadableStream", "org.scalajs.dom.ReadableStream", TParam._1),
+			conv(
+				"ReadableStreamReader",
+				"org.scalajs.dom.ReadableStreamReader",
+				TParam._1,
+			),
+			conv("ReferrerPolicy", "org.scalajs.dom.ReferrerPolicy"),
+			conv("Request", "org.scalajs.dom.Request"),
+			conv("RequestCache", "org.scalajs.dom.RequestCache"),
+			conv("RequestCredentials", "org.scalajs.dom.RequestCredentials"),
+			conv("RequestDestination", "org.scalajs.dom.RequestDestination"),
+			conv("RequestInit", "org.scalajs.dom.RequestInit"),
+			conv("RequestMode", "org.scalajs.dom.RequestMode"),
+			conv("RequestRedirect", "org.scalajs.dom.RequestRedirect"),
+			conv("Response", "org.scalajs.dom.Response"),
+			conv("ResponseInit", "org.scalajs.dom.ResponseInit"),
+			conv("ResponseType", "org.scalajs.dom.ResponseType"),
+			conv("RsaHashedImportParams", "org.scalajs.dom.RsaHashedImportParams"),
+			conv("RsaHashedKeyAlgorithm", "org.scalajs.dom.RsaHashedKeyAlgorithm"),
+			conv("RsaHashedKeyGenParams", "org.scalajs.dom.RsaHashedKeyGenParams"),
+			conv("RsaKeyAlgorithm", "org.scalajs.dom.RsaKeyAlgorithm"),
+			conv("RsaKeyGenParams", "org.scalajs.dom.RsaKeyGenParams"),
+			conv("RsaOaepParams", "org.scalajs.dom.RsaOaepParams"),
+			conv("RsaOtherPrimesInfo", "org.scalajs.dom.RsaOtherPrimesInfo"),
+			conv("RsaPssParams", "org.scalajs.dom.RsaPssParams"),
+			conv("SVGAElement", "org.scalajs.dom.SVGAElement"),
+			conv("SVGAngle", "org.scalajs.dom.SVGAngle"),
+			conv("SVGAnimatedAngle", "org.scalajs.dom.SVGAnimatedAngle"),
+			conv("SVGAnimatedBoolean", "org.scalajs.dom.SVGAnimatedBoolean"),
+			conv("SVGAnimatedEnumeration", "org.scalajs.dom.SVGAnimatedEnumeration"),
+			conv("SVGAnimatedInteger", "org.scalajs.dom.SVGAnimatedInteger"),
+			conv("SVGAnimatedLength", "org.scalajs.dom.SVGAnimatedLength"),
+			conv("SVGAnimatedLengthList", "org.scalajs.dom.SVGAnimatedLengthList"),
+			conv("SVGAnimatedNumber", "org.scalajs.dom.SVGAnimatedNumber"),
+			conv("SVGAnimatedNumberList", "org.scalajs.dom.SVGAnimatedNumberList"),
+			conv("SVGAnimatedPoints", "org.scalajs.dom.SVGAnimatedPoints"),
+			conv(
+				"SVGAnimatedPreserveAspectRatio",
+				"org.scalajs.dom.SVGAnimatedPreserveAspectRatio",
+			),
+			conv("SVGAnimatedRect", "org.scalajs.dom.SVGAnimatedRect"),
+			conv("SVGAnimatedString", "org.scalajs.dom.SVGAnimatedString"),
+			conv(
+				"SVGAnimatedTransformList",
+				"org.scalajs.dom.SVGAnimatedTransformList",
+			),
+			conv("SVGCircleElement", "org.scalajs.dom.SVGCircleElement"),
+			conv("SVGClipPathElement", "org.scalajs.dom.SVGClipPathElement"),
+			conv(
+				"SVGComponentTransferFunctionElement",
+				"org.scalajs.dom.SVGComponentTransferFunctionElement",
+			),
+			conv("SVGDefsElement", "org.scalajs.dom.SVGDefsElement"),
+			conv("SVGDescElement", "org.scalajs.dom.SVGDescElement"),
+			conv("SVGElement", "org.scalajs.dom.SVGElement"),
+			conv("SVGElementInstance", "org.scalajs.dom.SVGElementInstance"),
+			conv("SVGElementInstanceList", "org.scalajs.dom.SVGElementInstanceList"),
+			conv("SVGEllipseElement", "org.scalajs.dom.SVGEllipseElement"),
+			conv("SVGFEBlendElement", "org.scalajs.dom.SVGFEBlendElement"),
+			conv(
+				"SVGFEColorMatrixElement",
+				"org.scalajs.dom.SVGFEColorMatrixElement",
+			),
+			conv(
+				"SVGFEComponentTransferElement",
+				"org.scalajs.dom.SVGFEComponentTransferElement",
+			),
+			conv("SVGFECompositeElement", "org.scalajs.dom.SVGFECompositeElement"),
+			conv(
+				"SVGFEConvolveMatrixElement",
+				"org.scalajs.dom.SVGFEConvolveMatrixElement",
+			),
+			conv(
+				"SVGFEDiffuseLightingElement",
+				"org.scalajs.dom.SVGFEDiffuseLightingElement",
+			),
+			conv(
+				"SVGFEDisplacementMapElement",
+				"org.scalajs.dom.SVGFEDisplacementMapElement",
+			),
+			conv(
+				"SVGFEDistantLightElement",
+				"org.scalajs.dom.SVGFEDistantLightElement",
+			),
+			conv("SVGFEFloodElement", "org.scalajs.dom.SVGFEFloodElement"),
+			conv("SVGFEFuncAElement", "org.scalajs.dom.SVGFEFuncAElement"),
+			conv("SVGFEFuncBElement", "org.scalajs.dom.SVGFEFuncBElement"),
+			conv("SVGFEFuncGElement", "org.scalajs.dom.SVGFEFuncGElement"),
+			conv("SVGFEFuncRElement", "org.scalajs.dom.SVGFEFuncRElement"),
+			conv(
+				"SVGFEGaussianBlurElement",
+				"org.scalajs.dom.SVGFEGaussianBlurElement",
+			),
+			conv("SVGFEImageElement", "org.scalajs.dom.SVGFEImageElement"),
+			conv("SVGFEMergeElement", "org.scalajs.dom.SVGFEMergeElement"),
+			conv("SVGFEMergeNodeElement", "org.scalajs.dom.SVGFEMergeNodeElement"),
+			conv("SVGFEMorphologyElement", "org.scalajs.dom.SVGFEMorphologyElement"),
+			conv("SVGFEOffsetElement", "org.scalajs.dom.SVGFEOffsetElement"),
+			conv("SVGFEPointLightElement", "org.scalajs.dom.SVGFEPointLightElement"),
+			conv(
+				"SVGFESpecularLightingElement",
+				"org.scalajs.dom.SVGFESpecularLightingElement",
+			),
+			conv("SVGFESpotLightElement", "org.scalajs.dom.SVGFESpotLightElement"),
+			conv("SVGFETileElement", "org.scalajs.dom.SVGFETileElement"),
+			conv("SVGFETurbulenceElement", "org.scalajs.dom.SVGFETurbulenceElement"),
+			conv("SVGFilterElement", "org.scalajs.dom.SVGFilterElement"),
+			conv(
+				"SVGFilterPrimitiveStandardAttributes",
+				"org.scalajs.dom.SVGFilterPrimitiveStandardAttributes",
+			),
+			conv("SVGFitToViewBox", "org.scalajs.dom.SVGFitToViewBox"),
+			conv("SVGGElement", "org.scalajs.dom.SVGGElement"),
+			conv("SVGGradientElement", "org.scalajs.dom.SVGGradientElement"),
+			conv("SVGImageElement", "org.scalajs.dom.SVGImageElement"),
+			conv("SVGLength", "org.scalajs.dom.SVGLength"),
+			conv("SVGLengthList", "org.scalajs.dom.SVGLengthList"),
+			conv("SVGLineElement", "org.scalajs.dom.SVGLineElement"),
+			conv(
+				"SVGLinearGradientElement",
+				"org.scalajs.dom.SVGLinearGradientElement",
+			),
+			conv("SVGMarkerElement", "org.scalajs.dom.SVGMarkerElement"),
+			conv("SVGMaskElement", "org.scalajs.dom.SVGMaskElement"),
+			conv("SVGMatrix", "org.scalajs.dom.SVGMatrix"),
+			conv("SVGMetadataElement", "org.scalajs.dom.SVGMetadataElement"),
+			conv("SVGNumber", "org.scalajs.dom.SVGNumber"),
+			conv("SVGNumberList", "org.scalajs.dom.SVGNumberList"),
+			conv("SVGPathElement", "org.scalajs.dom.SVGPathElement"),
+			conv("SVGPathSeg", "org.scalajs.dom.SVGPathSeg"),
+			conv("SVGPathSegArcAbs", "org.scalajs.dom.SVGPathSegArcAbs"),
+			conv("SVGPathSegArcRel", "org.scalajs.dom.SVGPathSegArcRel"),
+			conv("SVGPathSegClosePath", "org.scalajs.dom.SVGPathSegClosePath"),
+			conv(
+				"SVGPathSegCurvetoCubicAbs",
+				"org.scalajs.dom.SVGPathSegCurvetoCubicAbs",
+			),
+			conv(
+				"SVGPathSegCurvetoCubicRel",
+				"org.scalajs.dom.SVGPathSegCurvetoCubicRel",
+			),
+			conv(
+				"SVGPathSegCurvetoCubicSmoothAbs",
+				"org.scalajs.dom.SVGPathSegCurvetoCubicSmoothAbs",
+			),
+			conv(
+				"SVGPathSegCurvetoCubicSmoothRel",
+				"org.scalajs.dom.SVGPathSegCurvetoCubicSmoothRel",
+			),
+			conv(
+				"SVGPathSegCurvetoQuadraticAbs",
+				"org.scalajs.dom.SVGPathSegCurvetoQuadraticAbs",
+			),
+			conv(
+				"SVGPathSegCurvetoQuadraticRel",
+				"org.scalajs.dom.SVGPathSegCurvetoQuadraticRel",
+			),
+			conv(
+				"SVGPathSegCurvetoQuadraticSmoothAbs",
+				"org.scalajs.dom.SVGPathSegCurvetoQuadraticSmoothAbs",
+			),
+			conv(
+				"SVGPathSegCurvetoQuadraticSmoothRel",
+				"org.scalajs.dom.SVGPathSegCurvetoQuadraticSmoothRel",
+			),
+			conv("SVGPathSegLinetoAbs", "org.scalajs.dom.SVGPathSegLinetoAbs"),
+			conv(
+				"SVGPathSegLinetoHorizontalAbs",
+				"org.scalajs.dom.SVGPathSegLinetoHorizontalAbs",
+			),
+			conv(
+				"SVGPathSegLinetoHorizontalRel",
+				"org.scalajs.dom.SVGPathSegLinetoHorizontalRel",
+			),
+			conv("SVGPathSegLinetoRel", "org.scalajs.dom.SVGPathSegLinetoRel"),
+			conv(
+				"SVGPathSegLinetoVerticalAbs",
+				"org.scalajs.dom.SVGPathSegLinetoVerticalAbs",
+			),
+			conv(
+				"SVGPathSegLinetoVerticalRel",
+				"org.scalajs.dom.SVGPathSegLinetoVerticalRel",
+			),
+			conv("SVGPathSegList", "org.scalajs.dom.SVGPathSegList"),
+			conv("SVGPathSegMovetoAbs", "org.scalajs.dom.SVGPathSegMovetoAbs"),
+			conv("SVGPathSegMovetoRel", "org.scalajs.dom.SVGPathSegMovetoRel"),
+			conv("SVGPatternElement", "org.scalajs.dom.SVGPatternElement"),
+			conv("SVGPoint", "org.scalajs.dom.SVGPoint"),
+			conv("SVGPointList", "org.scalajs.dom.SVGPointList"),
+			conv("SVGPolygonElement", "org.scalajs.dom.SVGPolygonElement"),
+			conv("SVGPolylineElement", "org.scalajs.dom.SVGPolylineElement"),
+			conv("SVGPreserveAspectRatio", "org.scalajs.dom.SVGPreserveAspectRatio"),
+			conv(
+				"SVGRadialGradientElement",
+				"org.scalajs.dom.SVGRadialGradientElement",
+			),
+			conv("SVGRect", "org.scalajs.dom.SVGRect"),
+			conv("SVGRectElement", "org.scalajs.dom.SVGRectElement"),
+			conv("SVGSVGElement", "org.scalajs.dom.SVGSVGElement"),
+			conv("SVGScriptElement", "org.scalajs.dom.SVGScriptElement"),
+			conv("SVGStopElement", "org.scalajs.dom.SVGStopElement"),
+			conv("SVGStringList", "org.scalajs.dom.SVGStringList"),
+			conv("SVGStyleElement", "org.scalajs.dom.SVGStyleElement"),
+			conv("SVGSwitchElement", "org.scalajs.dom.SVGSwitchElement"),
+			conv("SVGSymbolElement", "org.scalajs.dom.SVGSymbolElement"),
+			conv("SVGTSpanElement", "org.scalajs.dom.SVGTSpanElement"),
+			conv("SVGTests", "org.scalajs.dom.SVGTests"),
+			conv("SVGTextContentElement", "org.scalajs.dom.SVGTextContentElement"),
+			conv("SVGTextElement", "org.scalajs.dom.SVGTextElement"),
+			conv("SVGTextPathElement", "org.scalajs.dom.SVGTextPathElement"),
+			conv(
+				"SVGTextPositioningElement",
+				"org.scalajs.dom.SVGTextPositioningElement",
+			),
+			conv("SVGTitleElement", "org.scalajs.dom.SVGTitleElement"),
+			conv("SVGTransform", "org.scalajs.dom.SVGTransform"),
+			conv("SVGTransformList", "org.scalajs.dom.SVGTransformList"),
+			conv("SVGURIReference", "org.scalajs.dom.SVGURIReference"),
+			conv("SVGUnitTypes", "org.scalajs.dom.SVGUnitTypes"),
+			conv("SVGUseElement", "org.scalajs.dom.SVGUseElement"),
+			conv("SVGViewElement", "org.scalajs.dom.SVGViewElement"),
+			conv("SVGZoomAndPan", "org.scalajs.dom.SVGZoomAndPan"),
+			conv("Screen", "org.scalajs.dom.Screen"),
+			conv("Selection", "org.scalajs.dom.Selection"),
+			conv("ServiceWorker", "org.scalajs.dom.ServiceWorker"),
+			conv("ServiceWorkerContainer", "org.scalajs.dom.ServiceWorkerContainer"),
+			conv(
+				"ServiceWorkerMessageEventInit",
+				"org.scalajs.dom.ServiceWorkerMessageEventInit",
+			),
+			conv(
+				"ServiceWorkerRegistration",
+				"org.scalajs.dom.ServiceWorkerRegistration",
+			),
+			conv("ServiceWorkerState", "org.scalajs.dom.ServiceWorkerState"),
+			conv("StereoPannerNode", "org.scalajs.dom.StereoPannerNode"),
+			conv("Storage", "org.scalajs.dom.Storage"),
+			conv("StorageEvent", "org.scalajs.dom.StorageEvent"),
+			conv("StyleMedia", "org.scalajs.dom.StyleMedia"),
+			conv("StyleSheet", "org.scalajs.dom.StyleSheet"),
+			conv("StyleSheetList", "org.scalajs.dom.StyleSheetList"),
+			conv("SubtleCrypto", "org.scalajs.dom.SubtleCrypto"),
+			conv("SupportedType", "org.scalajs.dom.MIMEType"),
+			conv("Text", "org.scalajs.dom.Text"),
+			conv("TextEvent", "org.scalajs.dom.TextEvent"),
+			conv("TextMetrics", "org.scalajs.dom.TextMetrics"),
+			conv("TextTrack", "org.scalajs.dom.TextTrack"),
+			conv("TextTrackCue", "org.scalajs.dom.TextTrackCue"),
+			conv("TextTrackCueList", "org.scalajs.dom.TextTrackCueList"),
+			conv("TextTrackList", "org.scalajs.dom.TextTrackList"),
+			conv("TimeRanges", "org.scalajs.dom.TimeRanges"),
+			conv("Touch", "org.scalajs.dom.Touch"),
+			conv("TouchEvent", "org.scalajs.dom.TouchEvent"),
+			conv("TouchList", "org.scalajs.dom.TouchList"),
+			conv("TrackEvent", "org.scalajs.dom.TrackEvent"),
+			conv("TransitionEvent", "org.scalajs.dom.TransitionEvent"),
+			conv("TreeWalker", "org.scalajs.dom.TreeWalker"),
+			conv("UIEvent", "org.scalajs.dom.UIEvent"),
+			conv("URL", "org.scalajs.dom.URL"),
+			conv("ValidityState", "org.scalajs.dom.ValidityState"),
+			conv("VisibilityState", "org.scalajs.dom.VisibilityState"),
+			conv("WaveShaperNode", "org.scalajs.dom.WaveShaperNode"),
+			conv("WebGLActiveInfo", "org.scalajs.dom.WebGLActiveInfo"),
+			conv("WebGLBuffer", "org.scalajs.dom.WebGLBuffer"),
+			conv("WebGLContextAttributes", "org.scalajs.dom.WebGLContextAttributes"),
+			conv("WebGLFramebuffer", "org.scalajs.dom.WebGLFramebuffer"),
+			conv("WebGLProgram", "org.scalajs.dom.WebGLProgram"),
+			conv("WebGLRenderbuffer", "org.scalajs.dom.WebGLRenderbuffer"),
+			conv("WebGLRenderingContext", "org.scalajs.dom.WebGLRenderingContext"),
+			conv("WebGLShader", "org.scalajs.dom.WebGLShader"),
+			conv(
+				"WebGLShaderPrecisionFormat",
+				"org.scalajs.dom.WebGLShaderPrecisionFormat",
+			),
+			conv("WebGLTexture", "org.scalajs.dom.WebGLTexture"),
+			conv("WebGLUniformLocation", "org.scalajs.dom.WebGLUniformLocation"),
+			conv("WebSocket", "org.scalajs.dom.WebSocket"),
+			conv("WheelEvent", "org.scalajs.dom.WheelEvent"),
+			conv("Window", "org.scalajs.dom.Window"),
+			conv("WindowBase64", "org.scalajs.dom.WindowBase64"),
+			conv("WindowConsole", "org.scalajs.dom.WindowConsole"),
+			conv("WindowLocalStorage", "org.scalajs.dom.WindowLocalStorage"),
+			conv("WindowSessionStorage", "org.scalajs.dom.WindowSessionStorage"),
+			conv("WindowTimers", "org.scalajs.dom.WindowTimers"),
+			conv("Worker", "org.scalajs.dom.Worker"),
+			conv("XMLHttpRequest", "org.scalajs.dom.XMLHttpRequest"),
+			conv(
+				"XMLHttpRequestEventTarget",
+				"org.scalajs.dom.XMLHttpRequestEventTarget",
+			),
+			conv("XMLSerializer", "org.scalajs.dom.XMLSerializer"),
+			conv("XPathResult", "org.scalajs.dom.XPathResult"),
+		);
+
+		const overridden = new Set(extra.map((c) => c.from.value).toArray());
+		const withExtra = base
+			.filter((c) => !overridden.has(c.from.value))
+			.concat(extra);
+
+		/* the same types are also reachable through `std.global` */
+		const globals = withExtra.map((c) =>
+			CastConversion.apply(
+				new QualifiedName(
+					stdNames.lib.parts
+						.append(Name.global)
+						.concat(c.from.parts.drop(stdNames.lib.parts.length)),
+				),
+				c.to,
+				...c.tparams.toArray(),
+			),
+		);
+
+		this.All = withExtra.concat(globals);
+		this.AllElements = new Set(
+			this.All.filter((c) => c.to.parts.last.unescaped.endsWith("Element"))
+				.map((c) => c.to.value)
+				.toArray(),
+		);
+	}
+}
@@ -0,0 +1,63 @@
+/**
+ * TypeScript port of org.scalablytyped.converter.internal.scalajs.flavours.ScalaJsLibNames
+ *
+ * Maps types from the typescript standard library to their counterparts in the Scala.js standard library
+ */
+
+import { IArray } from "../../IArray.js";
+import { CastConversion } from "../CastConversion.js";
+import { Name } from "../Name.js";
+import { QualifiedName, type StdNames } from "../QualifiedName.js";
+
+const { TParam } = CastConversion;
+
+export class ScalaJsLibNames {
+	readonly All: IArray<CastConversion>;
+
+	constructor(stdNames: StdNames) {
+		const conv = (
+			from: string,
+			to: string,
+			...tparams: CastConversion.TParam[]
+		) =>
+			CastConversion.apply(
+				stdNames.lib.add(new Name(from)),
+				QualifiedName.fromString(to),
+				...tparams,
+			);
+
+		this.All = IArray.apply(
+			conv("ArrayBuffer", "scala.scalajs.js.typedarray.ArrayBuffer"),
+			conv("ArrayBufferView", "scala.scalajs.js.typedarray.ArrayBufferView"),
+			conv("DataView", "scala.scalajs.js.typedarray.DataView"),
+			conv("Date", "scala.scalajs.js.Date"),
+			conv("Error", "scala.scalajs.js.Error"),
+			conv("EvalError", "scala.scalajs.js.EvalError"),
+			conv("Float32Array", "scala.scalajs.js.typedarray.Float32Array"),
+			conv("Float64Array", "scala.scalajs.js.typedarray.Float64Array"),
+			conv("Function", "scala.scalajs.js.Function"),
+			conv("Int16Array", "scala.scalajs.js.typedarray.Int16Array"),
+			conv("Int32Array", "scala.scalajs.js.typedarray.Int32Array"),
+			conv("Int8Array", "scala.scalajs.js.typedarray.Int8Array"),
+			conv("Iterable", "scala.scalajs.js.Iterable", TParam._1),
+			conv("Iterator", "scala.scalajs.js.Iterator", TParam._1),
+			conv("Object", "scala.scalajs.js.Object"),
+			conv("Promise", "scala.scalajs.js.Promise", TParam._1),
+			conv("PropertyDescriptor", "scala.scalajs.js.PropertyDescriptor"),
+			conv("RangeError", "scala.scalajs.js.RangeError"),
+			conv("ReferenceError", "scala.scalajs.js.ReferenceError"),
+			conv("RegExp", "scala.scalajs.js.RegExp"),
+			conv("Symbol", "scala.scalajs.js.Symbol"),
+			conv("SyntaxError", "scala.scalajs.js.SyntaxError"),
+			conv("TypeError", "scala.scalajs.js.TypeError"),
+			conv("Uint16Array", "scala.scalajs.js.typedarray.Uint16Array"),
+			conv("Uint32Array", "scala.scalajs.js.typedarray.Uint32Array"),
+			conv("Uint8Array", "scala.scalajs.js.typedarray.Uint8Array"),
+			conv(
+				"Uint8ClampedArray",
+				"scala.scalajs.js.typedarray.Uint8ClampedArray",
+			),
+			conv("URIError", "scala.scalajs.js.URIError"),
+		);
+	}
+}
@@ -0,0 +1,37 @@
+/**
+ * TypeScript port of org.scalablytyped.converter.internal.scalajs.transforms.Adapter
+ *
+ * Some of the transformations were written before we added the `typings` outermost package. This maintains that
+ * somewhat simpler world view
+ */
+
+import { IArray, IArrayPatterns, partialFunction } from "../../IArray.js";
+import {
+	type ContainerTree,
+	isContainerTree,
+	type PackageTree,
+	type Tree,
+} from "../Tree.js";
+import type { TreeScope } from "../TreeScope.js";
+
+export const Adapter =
+	(scope: TreeScope) =>
+	(f: (tree: ContainerTree, scope: TreeScope) => ContainerTree) =>
+	(pkg: PackageTree): PackageTree => {
+		const [libs, rest] = pkg.members.partitionCollect(
+			partialFunction(
+				(x: Tree) => isContainerTree(x) && x.name.equals(scope.libName),
+				(x) => x as ContainerTree,
+			),
+		);
+		const one = IArrayPatterns.exactlyOne(libs);
+		if (one === undefined) {
+			throw new Error(
+				`Expected library package ${scope.libName.value}, got: ${libs.map((l) => l.codePath.value).mkString("[", ", ", "]")}`,
+			);
+		}
+		return {
+			...pkg,
+			members: rest.concat(IArray.apply<Tree>(f(one, scope["/"](pkg)))),
+		};
+	};
@@ -0,0 +1,62 @@
+/**
+ * TypeScript port of org.scalablytyped.converter.internal.scalajs.transforms.CleanIllegalNames
+ *
+ * Renames members whose names would not work in the generated Scala code. The renamed members keep their
+ * javascript name through `@JSName`.
+ */
+
+import { Name, StringToSuffix } from "../Name.js";
+import { ScalaJsClasses } from "../ScalaJsClasses.js";
+import { FieldTree, MethodTree, type ParamTree } from "../Tree.js";
+import type { TreeScope } from "../TreeScope.js";
+import { TreeTransformation } from "../TreeTransformation.js";
+
+export class CleanIllegalNames extends TreeTransformation {
+	// `def `-`(d: Double) = d; `-`(d) doesn't do what you would think
+	private static readonly Dash = new Name("-");
+
+	/**
+	 * Names which would shadow packages we refer to by their full name, keyed by unescaped name
+	 */
+	readonly Illegal: ReadonlySet<string>;
+
+	constructor(outputPkg: Name) {
+		super();
+		this.Illegal = new Set(
+			[
+				Name.js,
+				Name.java,
+				Name.scala,
+				outputPkg,
+				CleanIllegalNames.Dash,
+				Name.org,
+				Name.com,
+			].map((n) => n.unescaped),
+		);
+	}
+
+	/* members clashing with `toString`, `hashCode` and friends from `Any` */
+	private isIllegalMember(name: Name): boolean {
+		return (
+			this.Illegal.has(name.unescaped) ||
+			ScalaJsClasses.jsObjectMembersByName.has(name.unescaped)
+		);
+	}
+
+	leaveFieldTree(_scope: TreeScope): (s: FieldTree) => FieldTree {
+		return (s) =>
+			this.isIllegalMember(s.name) ? FieldTree.withSuffix(s, "") : s;
+	}
+
+	leaveMethodTree(_scope: TreeScope): (s: MethodTree) => MethodTree {
+		return (s) =>
+			this.isIllegalMember(s.name) ? MethodTree.withSuffix(s, "") : s;
+	}
+
+	leaveParamTree(_scope: TreeScope): (s: ParamTree) => ParamTree {
+		return (s) =>
+			this.Illegal.has(s.name.unescaped)
+				? { ...s, name: s.name.withSuffix("", StringToSuffix) }
+				: s;
+	}
+}
@@ -0,0 +1,316 @@
+/**
+ * TypeScript port of org.scalablytyped.converter.internal.scalajs.transforms.CombineOverloads
+ *
+ * The scala compiler inherits erasure by the JVM, which is not a problem in javascript. All the overloads we present
+ * in typed languages are all backed by one implementation anyway.
+ *
+ * What we do here is we group methods by what is considered equal types after erasure, and combine the parameters with
+ * union types.
+ *
+ * We also detect conflicts (same method with different type parameter sets, non-compatible return types), and rename
+ * methods when needed.
+ */
+
+import { Comment } from "../../Comment.js";
+import { Comments } from "../../Comments.js";
+import { IArray, partialFunction } from "../../IArray.js";
+import type { Erasure } from "../Erasure.js";
+import { Name, NameToSuffix, Suffix } from "../Name.js";
+import { QualifiedName, QualifiedNameToSuffix } from "../QualifiedName.js";
+import {
+	type ClassTree,
+	CtorTree,
+	ExprTree,
+	type FieldTree,
+	isFieldTree,
+	isMethodTree,
+	MethodTree,
+	type ModuleTree,
+	type PackageTree,
+	type ParamTree,
+	type Tree,
+	TypeRef,
+} from "../Tree.js";
+import type { TreeScope } from "../TreeScope.js";
+import { TreeTransformation } from "../TreeTransformation.js";
+
+const partitionMembers = (
+	members: IArray<Tree>,
+): [IArray<MethodTree>, IArray<FieldTree>, IArray<Tree>] =>
+	members.partitionCollect2(
+		partialFunction(isMethodTree, (x) => x as MethodTree),
+		partialFunction(isFieldTree, (x) => x as FieldTree),
+	);
+
+const groupValues = <T>(
+	ts: IArray<T>,
+	key: (t: T) => string,
+): IArray<IArray<T>> => IArray.fromArray(Array.from(ts.groupBy(key).values()));
+
+/* Comments are deduplicated, so methods combined again in a later round keep just one note */
+const CombinedNote = Comment.create(
+	"/* Combined overloads which erase to the same signature */\n",
+);
+
+const withNote =
+	(note: Comment) =>
+	(m: MethodTree): MethodTree => ({
+		...m,
+		comments: Comments.flatten(
+			IArray.apply(m.comments, Comments.fromComment(note)),
+			(cs) => cs,
+		),
+	});
+
+function asUnionType(types: IArray<TypeRef>): TypeRef {
+	if (types.length === 1) return types.head;
+
+	const typeNames = types.map((t) => t.typeName);
+	if (typeNames.forall((qn) => qn.equals(typeNames.head))) {
+		const typeName = typeNames.head;
+
+		if (typeName.equals(QualifiedName.UNION)) {
+			return TypeRef.Union(
+				types.flatMap((t) => t.targs),
+				Comments.empty(),
+				true,
+			);
+		}
+		if (typeName.equals(QualifiedName.INTERSECTION)) {
+			return TypeRef.Intersection(
+				types.flatMap((t) => t.targs),
+				Comments.empty(),
+			);
+		}
+		if (TypeRef.isLiteral(typeName)) {
+			return TypeRef.Union(types, Comments.empty(), true);
+		}
+		const combinedTArgs = types
+			.map((t) => t.targs)
+			.transpose()
+			.map(asUnionType);
+		return TypeRef.create(
+			typeName,
+			combinedTArgs,
+			Comments.flatten(types, (t) => t.comments),
+		);
+	}
+
+	return TypeRef.Union(
+		groupValues(types, (t) => t.typeName.value).map(asUnionType),
+		Comments.empty(),
+		true,
+	);
+}
+
+function unifyFields(fields: IArray<FieldTree>): IArray<FieldTree> {
+	return groupValues(fields, (f) => f.name.unescaped).map(
+		(sameName): FieldTree =>
+			sameName.length === 1
+				? sameName.head
+				: { ...sameName.head, tpe: asUnionType(sameName.map((f) => f.tpe)) },
+	);
+}
+
+export class CombineOverloads extends TreeTransformation {
+	constructor(private readonly erasure: Erasure) {
+		super();
+	}
+
+	leaveClassTree(scope: TreeScope): (s: ClassTree) => ClassTree {
+		return (s) => {
+			const [methods, fields, rest] = partitionMembers(s.members);
+			return {
+				...s,
+				ctors: this.ctorHack(scope, s.ctors),
+				members: rest
+					.concat(this.combineOverloads(scope, methods))
+					.concat(unifyFields(fields)),
+			};
+		};
+	}
+
+	leaveModuleTree(scope: TreeScope): (s: ModuleTree) => ModuleTree {
+		return (s) => {
+			const [methods, fields, rest] = partitionMembers(s.members);
+			return {
+				...s,
+				members: rest
+					.concat(unifyFields(fields))
+					.concat(this.combineOverloads(scope, methods)),
+			};
+		};
+	}
+
+	leavePackageTree(scope: TreeScope): (s: PackageTree) => PackageTree {
+		return (s) => {
+			const [methods, fields, rest] = partitionMembers(s.members);
+			return {
+				...s,
+				members: rest
+					.concat(unifyFields(fields))
+					.concat(this.combineOverloads(scope, methods)),
+			};
+		};
+	}
+
+	private combineSameErasureSameTypeParams(
+		methods: IArray<MethodTree>,
+		renameSuffix: Suffix | undefined,
+	): MethodTree {
+		const shapes = new Set(
+			methods
+				.map((m) => m.params.map((ps) => ps.length).mkString("", ",", ""))
+				.toArray(),
+		);
+		if (shapes.size !== 1) {
+			throw new Error(
+				`Methods do not have same shape: ${methods.map((m) => m.name.unescaped).mkString("", ", ", "")}`,
+			);
+		}
+
+		const newParamss = methods.head.params.zipWithIndex().map(([params, i]) =>
+			params.zipWithIndex().map(
+				([param, j]): ParamTree => ({
+					...param,
+					tpe: asUnionType(methods.map((m) => m.params.apply(i).apply(j).tpe)),
+				}),
+			),
+		);
+
+		const flattened: MethodTree = {
+			...methods.head,
+			params: newParamss,
+			comments: Comments.flatten(methods, (m) => m.comments),
+		};
+		const combined =
+			methods.length > 1 ? withNote(CombinedNote)(flattened) : flattened;
+
+		return renameSuffix
+			? MethodTree.withSuffix(combined, renameSuffix.unescaped)
+			: combined;
+	}
+
+	private combineSameErasure(
+		methods: IArray<MethodTree>,
+		scope: TreeScope,
+	): IArray<MethodTree> {
+		const grouped = IArray.fromArray(
+			Array.from(
+				methods.groupBy(
+					(m) =>
+						`${m.tparams.map((tp) => tp.name.unescaped).mkString("", ",", "")}|${m.resultType.typeName.value}`,
+				),
+				([, ms]): [IArray<Name>, QualifiedName, IArray<MethodTree>] => [
+					ms.head.tparams.map((tp) => tp.name),
+					ms.head.resultType.typeName,
+					ms,
+				],
+			),
+		).sortBy(([tparamNames]) => tparamNames.length);
+
+		const default_ = this.combineSameErasureSameTypeParams(
+			grouped.head[2],
+			undefined,
+		);
+
+		let dropped = 0;
+		const suffixed = grouped
+			.drop(1)
+			.mapNotNone(([tparamNames, retType, ms]) => {
+				if (
+					ms.head.name.equals(Name.APPLY) ||
+					ms.head.name.equals(Name.namespaced)
+				) {
+					scope.logger.info(
+						`Dropping ${ms.length} incompatible \`apply\` overloads (have no way to express this) at ${scope}`,
+					);
+					dropped += ms.length;
+					return undefined;
+				}
+
+				const tparamsSuffix = tparamNames
+					.map((n) => NameToSuffix.to(n).unescaped)
+					.mkString("", "", "");
+				const base =
+					tparamsSuffix === "" ? Suffix.Empty : new Suffix(tparamsSuffix);
+				const suffix = retType.equals(default_.resultType.typeName)
+					? base
+					: base.add(QualifiedNameToSuffix.to(retType));
+
+				return this.combineSameErasureSameTypeParams(ms, suffix);
+			});
+
+		return suffixed.prepend(
+			dropped > 0
+				? withNote(
+						Comment.warning(
+							`Dropped ${dropped} ${dropped === 1 ? "overload" : "overloads"} with incompatible type parameters or return type`,
+							"CombineOverloads.combineSameErasure",
+						),
+					)(default_)
+				: default_,
+		);
+	}
+
+	private combineOverloads(
+		scope: TreeScope,
+		methods: IArray<MethodTree>,
+	): IArray<MethodTree> {
+		const base = this.erasure.base(scope);
+		const newMethods = groupValues(methods, (m) => base(m).key).flatMap(
+			(sameErasure) =>
+				sameErasure.length === 1
+					? sameErasure
+					: this.combineSameErasure(sameErasure, scope),
+		);
+
+		/* This is being a lazy coder:
+		 * Given:
+		 * type A = string
+		 * type B = string
+		 * def foo(a: A)
+		 * def foo(b: B)
+		 * def foo(c: Double | Int)
+		 *
+		 * The first rewrite will be to:
+		 * def foo(a: A | B)
+		 * def foo(c: Double | Int)
+		 *
+		 * Those will still have the same erasure, so we run it again to produce
+		 * def foo(a: A | B | Double | Int)
+		 *
+		 * Yey
+		 * */
+		return newMethods.length !== methods.length
+			? this.combineOverloads(scope, newMethods)
+			: newMethods;
+	}
+
+	/**
+	 * Ctors are methods...ish. This was easier than refactoring
+	 */
+	private ctorHack(
+		scope: TreeScope,
+		members: IArray<CtorTree>,
+	): IArray<CtorTree> {
+		const asMethods = members.map((ctor) =>
+			MethodTree.create(
+				IArray.Empty,
+				ctor.level,
+				ctor.name,
+				IArray.Empty,
+				IArray.apply(ctor.params),
+				ExprTree.native,
+				TypeRef.Nothing,
+				false,
+				ctor.comments,
+				new QualifiedName(IArray.Empty),
+				false,
+			),
+		);
+		return this.combineOverloads(scope, asMethods).map((m) =>
+			CtorTree.create(m.level, m.params.head, m.comments),
+		);
+	}
+}
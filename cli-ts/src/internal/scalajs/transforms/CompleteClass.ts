@@ -0,0 +1,193 @@
+/**
+ * TypeScript port of org.scalablytyped.converter.internal.scalajs.transforms.CompleteClass
+ *
+ * With @ScalaJSDefined traits we don't implement members. Scalac complains about that for classes, so we provide
+ * implementations.
+ *
+ * We lookup all parents until we reach a class, because at that point we know everything will be implemented.
+ */
+
+import { Comment } from "../../Comment.js";
+import { IArray } from "../../IArray.js";
+import type { ScalaVersion } from "../../importer/ConversionOptions.js";
+import type { Erasure } from "../Erasure.js";
+import { Name } from "../Name.js";
+import type { Parents, ParentsResolver } from "../ParentsResolver.js";
+import { debugPrinter } from "../Printer.js";
+import {
+	type ClassTree,
+	ClassType,
+	ExprTree,
+	type FieldTree,
+	isFieldTree,
+	isMethodTree,
+	type MemberTree,
+	type MethodTree,
+	membersByName,
+	type Tree,
+	TypeRef,
+} from "../Tree.js";
+import type { TreeScope } from "../TreeScope.js";
+import { TreeTransformation } from "../TreeTransformation.js";
+
+const CompletedNote = Comment.create("/* CompleteClass */\n");
+
+/* the name of the field `m` is a setter for, if it is one */
+function setterFor(m: MethodTree): Name | undefined {
+	return m.name.unescaped.endsWith("_=") &&
+		m.params.foldLeft(0, (n, ps) => n + ps.length) === 1 &&
+		TypeRef.equals(m.resultType, TypeRef.Unit)
+		? new Name(m.name.unescaped.slice(0, -2))
+		: undefined;
+}
+
+function isAlreadyImplemented(
+	erasure: Erasure,
+	scope: TreeScope,
+	potential: MethodTree,
+	existing: IArray<Tree> | undefined,
+): boolean {
+	if (existing === undefined) return false;
+	const base = erasure.base(scope);
+	const currentErasure = base(potential);
+	return existing.exists(
+		(xx) => isMethodTree(xx) && base(xx).equals(currentErasure),
+	);
+}
+
+/* members are equal apart from where they were inherited from */
+function memberKey(m: MemberTree): string {
+	const format = debugPrinter.formatTypeRef(0);
+	if (isFieldTree(m)) {
+		return `val ${m.name.unescaped}: ${format(m.tpe)} ${m.isReadOnly}`;
+	}
+	if (isMethodTree(m)) {
+		const params = m.params
+			.map((ps) => ps.map((p) => format(p.tpe)).mkString("(", ", ", ")"))
+			.mkString("", "", "");
+		const tparams = m.tparams
+			.map((tp) => tp.name.unescaped)
+			.mkString("[", ", ", "]");
+		return `def ${m.name.unescaped}${tparams}${params}: ${format(m.resultType)}`;
+	}
+	return m.name.unescaped;
+}
+
+/* drop members which are inherited through several paths */
+function carefulDistinct(ms: IArray<MemberTree>): IArray<MemberTree> {
+	return IArray.fromArray(
+		Array.from(ms.groupBy((m) => m.name.unescaped).values()).flatMap(
+			(sameName) =>
+				sameName.length === 1
+					? sameName.toArray()
+					: sameName.distinctBy(memberKey).toArray(),
+		),
+	);
+}
+
+export class CompleteClass extends TreeTransformation {
+	constructor(
+		private readonly erasure: Erasure,
+		private readonly parentsResolver: ParentsResolver,
+		private readonly scalaVersion: ScalaVersion,
+	) {
+		super();
+	}
+
+	leaveClassTree(scope: TreeScope): (s: ClassTree) => ClassTree {
+		return (cls) => {
+			if (cls.classType === ClassType.Trait) return cls;
+
+			const parents = this.parentsResolver.apply(scope, cls);
+			const newImplementations = this.implementations(scope, cls, parents);
+			return newImplementations.isEmpty
+				? cls
+				: {
+						...cls,
+						members: IArray.fromArray<Tree>([
+							...cls.members.toArray(),
+							...newImplementations.toArray(),
+						]),
+					};
+		};
+	}
+
+	private implementations(
+		scope: TreeScope,
+		c: ClassTree,
+		parents: Parents,
+	): IArray<MemberTree> {
+		const index = membersByName(c);
+		const allInherited = parents
+			.pruneClasses()
+			.transitiveParents.flatMap((p) => p.classTree.members);
+
+		const completedFields = allInherited.mapNotNone(
+			(x): FieldTree | undefined => {
+				if (
+					!isFieldTree(x) ||
+					x.impl._tag !== "NotImplemented" ||
+					index.has(x.name.unescaped)
+				) {
+					return undefined;
+				}
+				// workaround https://github.com/lampepfl/dotty/issues/13019
+				const isOverride = !(this.scalaVersion.is3 && !x.isReadOnly);
+
+				return {
+					...x,
+					isOverride,
+					impl: ExprTree.native,
+					comments: x.comments.add(CompletedNote),
+				};
+			},
+		);
+
+		const completedMethods = allInherited.mapNotNone(
+			(x): MethodTree | undefined => {
+				if (
+					!isMethodTree(x) ||
+					x.impl._tag !== "NotImplemented" ||
+					isAlreadyImplemented(
+						this.erasure,
+						scope,
+						x,
+						index.get(x.name.unescaped),
+					)
+				) {
+					return undefined;
+				}
+
+				const setterName = setterFor(x);
+				const implementedByField =
+					setterName !== undefined &&
+					completedFields.exists(
+						(f) => f.name.equals(setterName) && !f.isReadOnly,
+					);
+				if (implementedByField) return undefined;
+
+				return {
+					...x,
+					isOverride: true,
+					impl: ExprTree.native,
+					comments: x.comments.add(CompletedNote),
+				};
+			},
+		);
+
+		const ret = carefulDistinct(
+			IArray.fromArray<MemberTree>([
+				...completedFields.toArray(),
+				...completedMethods.toArray(),
+			]),
+		);
+
+		if (ret.nonEmpty) {
+			scope.logger.info(
+				`Completed implementations ${completedMethods.map((m) => m.name.value).mkString("", ", ", "")}`,
+			);
+		}
+
+		return ret;
+	}
+}
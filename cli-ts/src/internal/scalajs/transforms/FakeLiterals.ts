@@ -0,0 +1,234 @@
+/**
+ * TypeScript port of org.scalablytyped.converter.internal.scalajs.transforms.FakeLiterals
+ *
+ * Scala.js has no good way of expressing literal types, so every literal is rewritten to a sealed trait of its own.
+ * The traits are collected in one object per kind of literal (`<lib>Strings`, `<lib>Doubles`, `<lib>Ints`,
+ * `<lib>Booleans`), next to an `inline def` which produces a value of that type. Users can then write
+ * `mylibStrings.auto` instead of `"auto".asInstanceOf[...]`.
+ */
+
+import {
+	BooleanLit,
+	DoubleLit,
+	type ExprTreeLit,
+	IntLit,
+	StringLit,
+	WasLiteral,
+} from "../../Comment.js";
+import { Comments } from "../../Comments.js";
+import { IArray } from "../../IArray.js";
+import { Annotation, type AnnotationUnion } from "../Annotation.js";
+import { Name } from "../Name.js";
+import { QualifiedName } from "../QualifiedName.js";
+import {
+	ClassTree,
+	ClassType,
+	type ContainerTree,
+	ExprTree,
+	isTypeRef,
+	MethodTree,
+	ModuleTree,
+	ProtectionLevel,
+	type Tree,
+	TypeRef,
+} from "../Tree.js";
+import type { TreeScope } from "../TreeScope.js";
+import { TreeTransformation } from "../TreeTransformation.js";
+import { TreeTraverse } from "../TreeTraverse.js";
+import type { CleanIllegalNames } from "./CleanIllegalNames.js";
+
+// for instance @expo/vector-icons has 11500 different literal strings,
+// and it causes: Class too large: typings/expoVectorIcons/expoVectorIconsStrings
+const MaxInlineDefs = 10000;
+
+class LiteralRewriter extends TreeTransformation {
+	private readonly stringsByLowercase: Map<string, string[]>;
+
+	private readonly StringModuleName: Name;
+	private readonly DoublesModuleName: Name;
+	private readonly IntsModuleName: Name;
+	private readonly BooleansModuleName: Name;
+
+	private readonly collectedStrings = new Map<string, [Name, ExprTreeLit]>();
+	private readonly collectedDoubles = new Map<string, [Name, ExprTreeLit]>();
+	private readonly collectedInts = new Map<string, [Name, ExprTreeLit]>();
+	private readonly collectedBooleans = new Map<string, [Name, ExprTreeLit]>();
+
+	constructor(
+		private readonly outputPkg: Name,
+		private readonly illegalNames: CleanIllegalNames,
+		private readonly tree: ContainerTree,
+		private readonly scope: TreeScope,
+	) {
+		super();
+
+		const grouped = new Map<string, Set<string>>();
+		TreeTraverse.collect(tree, (t) =>
+			isTypeRef(t) ? TypeRef.StringLiteral.unapply(t) : undefined,
+		).forEach((underlying) => {
+			const cleaned = this.cleanName(underlying);
+			const key = cleaned.toLowerCase();
+			grouped.set(key, (grouped.get(key) ?? new Set()).add(cleaned));
+		});
+		this.stringsByLowercase = new Map(
+			Array.from(grouped, ([k, v]) => [k, Array.from(v).sort()]),
+		);
+
+		this.StringModuleName = new Name(`${tree.name.unescaped}Strings`);
+		this.DoublesModuleName = new Name(`${tree.name.unescaped}Doubles`);
+		this.IntsModuleName = new Name(`${tree.name.unescaped}Ints`);
+		this.BooleansModuleName = new Name(`${tree.name.unescaped}Booleans`);
+	}
+
+	private calculateName(underlying: string): Name {
+		const cleaned = this.cleanName(underlying);
+		const n = (
+			this.stringsByLowercase.get(cleaned.toLowerCase()) ?? []
+		).indexOf(underlying);
+		const suffix = "_".repeat(Math.max(n, 0));
+		return new Name(cleaned + suffix);
+	}
+
+	private cleanName(str: string): string {
+		return this.illegalNames.Illegal.has(str)
+			? `${str}_`
+			: (Name.necessaryRewriteString(str) ?? str);
+	}
+
+	private module(
+		collected: Map<string, [Name, ExprTreeLit]>,
+		moduleName: Name,
+	): ModuleTree | undefined {
+		if (collected.size === 0) return undefined;
+
+		const members = IArray.fromArray(Array.from(collected.values()))
+			.zipWithIndex()
+			.flatMap(([[name, underlying], idx]): IArray<Tree> => {
+				const codePath = this.tree.codePath.add(moduleName).add(name);
+				const trait = ClassTree.create(
+					false,
+					IArray.apply<AnnotationUnion>(Annotation.JsNative),
+					ProtectionLevel.Public,
+					name,
+					IArray.Empty,
+					IArray.Empty,
+					IArray.Empty,
+					IArray.Empty,
+					ClassType.Trait,
+					true,
+					Comments.empty(),
+					codePath,
+				);
+
+				if (idx > MaxInlineDefs) return IArray.apply<Tree>(trait);
+
+				const def = MethodTree.create(
+					IArray.apply<AnnotationUnion>(Annotation.Inline),
+					ProtectionLevel.Public,
+					name,
+					IArray.Empty,
+					IArray.Empty,
+					ExprTree.AsInstanceOf(underlying, TypeRef.fromName(name)),
+					TypeRef.fromName(name),
+					false,
+					Comments.empty(),
+					codePath,
+					false,
+				);
+				return IArray.apply<Tree>(trait, def);
+			});
+
+		return ModuleTree.create(
+			IArray.Empty,
+			ProtectionLevel.Public,
+			moduleName,
+			IArray.Empty,
+			members,
+			Comments.empty(),
+			this.tree.codePath.add(moduleName),
+			false,
+		);
+	}
+
+	private rewritten(
+		collected: Map<string, [Name, ExprTreeLit]>,
+		moduleName: Name,
+		name: Name,
+		lit: ExprTreeLit,
+	): TypeRef {
+		collected.set(name.unescaped, [name, lit]);
+		return TypeRef.create(
+			QualifiedName.from([this.outputPkg, this.tree.name, moduleName, name]),
+			IArray.Empty,
+			Comments.apply([new WasLiteral(lit)]),
+		);
+	}
+
+	leaveTypeRef(_scope: TreeScope): (s: TypeRef) => TypeRef {
+		return (s) => {
+			const str = TypeRef.StringLiteral.unapply(s);
+			if (str !== undefined) {
+				return this.rewritten(
+					this.collectedStrings,
+					this.StringModuleName,
+					this.calculateName(str),
+					new StringLit(str),
+				);
+			}
+			const bool = TypeRef.BooleanLiteral.unapply(s);
+			if (bool !== undefined) {
+				return this.rewritten(
+					this.collectedBooleans,
+					this.BooleansModuleName,
+					new Name(bool),
+					new BooleanLit(bool === "true"),
+				);
+			}
+			const double = TypeRef.DoubleLiteral.unapply(s);
+			if (double !== undefined) {
+				return this.rewritten(
+					this.collectedDoubles,
+					this.DoublesModuleName,
+					new Name(double),
+					new DoubleLit(double),
+				);
+			}
+			const int = TypeRef.IntLiteral.unapply(s);
+			if (int !== undefined) {
+				return this.rewritten(
+					this.collectedInts,
+					this.IntsModuleName,
+					new Name(int),
+					new IntLit(int),
+				);
+			}
+			return s;
+		};
+	}
+
+	output(): ContainerTree {
+		const ss = this.visitContainerTree(this.scope)(this.tree);
+		const doubles = this.module(this.collectedDoubles, this.DoublesModuleName);
+		const ints = this.module(this.collectedInts, this.IntsModuleName);
+		const strings = this.module(this.collectedStrings, this.StringModuleName);
+		const booleans = this.module(
+			this.collectedBooleans,
+			this.BooleansModuleName,
+		);
+		const newMembers = ss.members.concat(
+			IArray.fromArray<Tree>(
+				[doubles, ints, strings, booleans].filter(
+					(m): m is ModuleTree => m !== undefined,
+				),
+			),
+		);
+		return ss.withMembers(newMembers);
+	}
+}
+
+export const FakeLiterals = {
+	apply:
+		(outputPkg: Name, scope: TreeScope, illegalNames: CleanIllegalNames) =>
+		(tree: ContainerTree): ContainerTree =>
+			new LiteralRewriter(outputPkg, illegalNames, tree, scope).output(),
+};
@@ -0,0 +1,184 @@
+/**
+ * TypeScript port of org.scalablytyped.converter.internal.scalajs.transforms.FilterMemberOverrides
+ *
+ * We filter away unneeded overrides, since they add nothing, and wreck havoc with IDE performance.
+ *
+ * For fields with name clashes and different types, we rename them. For methods with similar / clashing signatures, we
+ * also rename.
+ *
+ * Note that no subtype calculation is done for now.
+ */
+
+import { IArray, partialFunction } from "../../IArray.js";
+import type { Erasure } from "../Erasure.js";
+import type { Parent, ParentsResolver } from "../ParentsResolver.js";
+import { ScalaJsClasses } from "../ScalaJsClasses.js";
+import {
+	type ClassTree,
+	FieldTree,
+	isFieldTree,
+	isInheritanceTree,
+	isMethodTree,
+	isModuleTree,
+	MethodTree,
+	type ModuleTree,
+	type PackageTree,
+	type Tree,
+	TypeRef,
+} from "../Tree.js";
+import type { TreeScope } from "../TreeScope.js";
+import { TreeTransformation } from "../TreeTransformation.js";
+import { TreeOrdering } from "./Sorter.js";
+
+type Owner = ClassTree | ModuleTree | PackageTree;
+
+export class FilterMemberOverrides extends TreeTransformation {
+	constructor(
+		private readonly erasure: Erasure,
+		private readonly parentsResolver: ParentsResolver,
+	) {
+		super();
+	}
+
+	leaveClassTree(scope: TreeScope): (s: ClassTree) => ClassTree {
+		return (s) => ({
+			...s,
+			members: this.newMembers(scope, s, s.members, s.parents),
+		});
+	}
+
+	leaveModuleTree(scope: TreeScope): (s: ModuleTree) => ModuleTree {
+		return (s) => ({
+			...s,
+			members: this.newMembers(scope, s, s.members, s.parents),
+		});
+	}
+
+	leavePackageTree(scope: TreeScope): (s: PackageTree) => PackageTree {
+		return (s) => ({
+			...s,
+			members: this.newMembers(scope, s, s.members, IArray.Empty),
+		});
+	}
+
+	private newMembers(
+		scope: TreeScope,
+		owner: Owner,
+		members: IArray<Tree>,
+		inheritance: IArray<TypeRef>,
+	): IArray<Tree> {
+		const [methods, fields, modules, other] = members.partitionCollect3(
+			partialFunction(isMethodTree, (x) => x as MethodTree),
+			partialFunction(isFieldTree, (x) => x as FieldTree),
+			partialFunction(isModuleTree, (x) => x as ModuleTree),
+		);
+		const methodsByName = methods.groupBy((m) => m.name.unescaped);
+		const fieldsByName = fields.groupBy((f) => f.name.unescaped);
+
+		const parents: IArray<Parent> = isInheritanceTree(owner)
+			? this.parentsResolver.apply(scope, owner).transitiveParents
+			: IArray.Empty;
+
+		const [inheritedMethods, inheritedFields] = ScalaJsClasses.jsObjectMembers
+			.concat(parents.flatMap((p) => p.classTree.members))
+			.partitionCollect2(
+				partialFunction(isMethodTree, (x) => x as MethodTree),
+				partialFunction(isFieldTree, (x) => x as FieldTree),
+			);
+
+		const inheritedFieldsByName = inheritedFields.groupBy(
+			(f) => f.name.unescaped,
+		);
+		const base = this.erasure.base(scope);
+		const inheritedMethodsByBase = new Set(
+			inheritedMethods.map((m) => base(m).key).toArray(),
+		);
+		const inheritedMethodsByName = inheritedMethods.groupBy(
+			(m) => m.name.unescaped,
+		);
+
+		const allMethods = new Map([...inheritedMethodsByName, ...methodsByName]);
+		const allFields = new Map([...inheritedFieldsByName, ...fieldsByName]);
+
+		/* a field or module would clash with a parameterless method */
+		const clashesWithMethod = (name: string): boolean => {
+			const ms = allMethods.get(name);
+			return (
+				ms !== undefined &&
+				(ms.exists((m) => m.params.flatten().isEmpty) ||
+					ScalaJsClasses.jsObjectMembersByName.has(name))
+			);
+		};
+
+		/* This is a bit of a hack.
+		  Ideally, we would run the transformation in such a manner that all parents were already done.
+		  That is not currently done, so here we approximate and say that if we inherit from a class with
+		   the same name (likely due to it being reexported) we probably already have retained the suffixed
+		   overloads we generate, so we won't do it again here
+		 */
+		const alreadySuffixed = inheritance.exists((tr) =>
+			tr.typeName.parts.last.equals(owner.name),
+		);
+
+		const newFields = fields.flatMap((f): IArray<FieldTree> => {
+			if (clashesWithMethod(f.name.unescaped)) {
+				return alreadySuffixed
+					? IArray.Empty
+					: IArray.apply(FieldTree.withSuffix(f, `F${owner.name.value}`));
+			}
+
+			const conflicting = inheritedFieldsByName.get(f.name.unescaped);
+			if (conflicting === undefined) return IArray.apply(f);
+
+			/* but to retain a field with a different type, we rename it */
+			const withSuffix = FieldTree.withSuffix(f, owner.name.unescaped);
+
+			if (
+				TypeRef.equals(f.tpe, TypeRef.Any) ||
+				TypeRef.equals(f.tpe, TypeRef.Nothing) ||
+				conflicting.exists((c) => TypeRef.equals(c.tpe, f.tpe))
+			) {
+				/* there is no point in emitting duplicate fields */
+				return IArray.Empty;
+			}
+			if (allFields.has(withSuffix.name.unescaped) || alreadySuffixed) {
+				return IArray.Empty;
+			}
+			return IArray.apply(withSuffix);
+		});
+
+		const newModules = modules.filterNot((m) =>
+			clashesWithMethod(m.name.unescaped),
+		);
+
+		const newMethods = methods
+			.sorted(TreeOrdering.compare)
+			.flatMap((m): IArray<MethodTree> => {
+				// remove setters if there is a corresponding var in a parent class
+				if (
+					m.name.unescaped.endsWith("_=") &&
+					(inheritedFieldsByName
+						.get(m.name.unescaped.slice(0, -2))
+						?.exists((f) => !f.isReadOnly) ??
+						false)
+				) {
+					return IArray.Empty;
+				}
+				if (inheritedFieldsByName.has(m.name.unescaped)) {
+					return alreadySuffixed
+						? IArray.Empty
+						: IArray.apply(MethodTree.withSuffix(m, `M${owner.name.value}`));
+				}
+				return inheritedMethodsByBase.has(base(m).key)
+					? IArray.Empty
+					: IArray.apply(m);
+			});
+
+		return IArray.fromArray<Tree>([
+			...newFields.toArray(),
+			...newMethods.toArray(),
+			...newModules.toArray(),
+			...other.toArray(),
+		]);
+	}
+}
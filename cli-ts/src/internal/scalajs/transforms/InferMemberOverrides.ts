@@ -0,0 +1,223 @@
+/**
+ * TypeScript port of org.scalablytyped.converter.internal.scalajs.transforms.InferMemberOverrides
+ *
+ * When a class inherits the same method/field from two ancestors, we need to provide an override
+ */
+
+import { Comment, UndefinedLit } from "../../Comment.js";
+import { Comments } from "../../Comments.js";
+import { IArray, partialFunction } from "../../IArray.js";
+import type { Erasure } from "../Erasure.js";
+import type { Parent, ParentsResolver } from "../ParentsResolver.js";
+import { QualifiedName } from "../QualifiedName.js";
+import {
+	type ClassTree,
+	ExprTree,
+	type FieldTree,
+	type ImplTree,
+	type InheritanceTree,
+	isFieldTree,
+	isMethodTree,
+	isNative,
+	isScalaJsDefined,
+	type MethodTree,
+	type ModuleTree,
+	NotImplemented,
+	type Tree,
+	TypeRef,
+} from "../Tree.js";
+import type { TreeScope } from "../TreeScope.js";
+import { TreeTransformation } from "../TreeTransformation.js";
+
+const InferredNote = Comment.create("/* InferMemberOverrides */\n");
+
+/**
+ * Every class reachable from `parents` (including themselves) along with the reference which led there.
+ * Like the scala `Map[TypeRef, ClassTree]` this is distinct by reference.
+ */
+function transitiveParents(
+	parents: IArray<Parent>,
+): IArray<[TypeRef, ClassTree]> {
+	const result: [TypeRef, ClassTree][] = [];
+	const visit = (p: Parent): void => {
+		p.refs.forEach((ref) => {
+			if (!result.some(([r]) => TypeRef.equals(r, ref))) {
+				result.push([ref, p.classTree]);
+			}
+		});
+		p.parents.forEach(visit);
+	};
+	parents.forEach(visit);
+	return IArray.fromArray(result);
+}
+
+function canBeUndefined(tpe: TypeRef): boolean {
+	if (tpe.typeName.equals(QualifiedName.JsUndefOr)) return true;
+	if (TypeRef.equals(tpe, TypeRef.undefined)) return true;
+	const intersection = TypeRef.Intersection.unapply(tpe);
+	if (intersection !== undefined) return intersection[0].forall(canBeUndefined);
+	const union = TypeRef.Union.unapply(tpe);
+	if (union !== undefined) return union[0].exists(canBeUndefined);
+	return false;
+}
+
+function updatedImpl(
+	impls: IArray<ImplTree>,
+	typeOpt: TypeRef | undefined,
+	isScalaJsDefined: boolean,
+): ImplTree {
+	if (!isScalaJsDefined) return ExprTree.native;
+
+	const isUndefined = (impl: ImplTree): boolean =>
+		impl === UndefinedLit.instance;
+	const natives = impls.filter(ExprTree.isNative);
+	const undefineds = impls.filter(isUndefined);
+	const rest = impls.filter(
+		(impl) =>
+			!ExprTree.isNative(impl) &&
+			impl._tag !== "NotImplemented" &&
+			!isUndefined(impl),
+	);
+
+	if (natives.isEmpty && undefineds.isEmpty && rest.isEmpty) {
+		return NotImplemented;
+	}
+	if (
+		natives.isEmpty &&
+		rest.isEmpty &&
+		(typeOpt === undefined || canBeUndefined(typeOpt))
+	) {
+		return UndefinedLit.instance;
+	}
+	return ExprTree.native;
+}
+
+export class InferMemberOverrides extends TreeTransformation {
+	constructor(
+		private readonly erasure: Erasure,
+		private readonly parentsResolver: ParentsResolver,
+	) {
+		super();
+	}
+
+	leaveModuleTree(scope: TreeScope): (s: ModuleTree) => ModuleTree {
+		return (mod) =>
+			mod.parents.length > 1 && isNative(mod)
+				? { ...mod, members: this.newMembers(scope, mod, mod.members) }
+				: mod;
+	}
+
+	leaveClassTree(scope: TreeScope): (s: ClassTree) => ClassTree {
+		return (cls) =>
+			cls.parents.length > 1 && isNative(cls)
+				? { ...cls, members: this.newMembers(scope, cls, cls.members) }
+				: cls;
+	}
+
+	private newMembers(
+		scope: TreeScope,
+		tree: InheritanceTree,
+		members: IArray<Tree>,
+	): IArray<Tree> {
+		const root = this.parentsResolver.apply(scope, tree);
+		const base = this.erasure.base(scope);
+
+		const [methods, fields] = members.partitionCollect2(
+			partialFunction(isMethodTree, (x) => x as MethodTree),
+			partialFunction(isFieldTree, (x) => x as FieldTree),
+		);
+		const fieldsByName = fields.groupBy((f) => f.name.unescaped);
+		const methodsByBase = new Set(methods.map((m) => base(m).key).toArray());
+
+		/* fields inherited through more than one direct parent, keyed by name */
+		const inheritedFields = new Map<string, [FieldTree, TypeRef][]>();
+		root.directParents.forEach((branch) => {
+			const inBranch = new Map<string, [FieldTree, TypeRef]>();
+			transitiveParents(IArray.apply(branch)).forEach(([parentRef, p]) => {
+				p.members.forEach((c) => {
+					if (isFieldTree(c)) inBranch.set(c.name.unescaped, [c, parentRef]);
+				});
+			});
+			inBranch.forEach((fieldAndRef, name) => {
+				inheritedFields.set(name, [
+					...(inheritedFields.get(name) ?? []),
+					fieldAndRef,
+				]);
+			});
+		});
+
+		const addedFields = IArray.fromArray(
+			Array.from(inheritedFields).flatMap(([name, fs]): FieldTree[] => {
+				const distinctRefs: TypeRef[] = [];
+				for (const [, ref] of fs) {
+					if (!distinctRefs.some((r) => TypeRef.equals(r, ref))) {
+						distinctRefs.push(ref);
+					}
+				}
+				if (distinctRefs.length <= 1 || fieldsByName.has(name)) return [];
+
+				const head = fs[0][0];
+				const newType = TypeRef.Intersection(
+					IArray.fromArray(fs.map(([f]) => f.tpe)),
+					Comments.empty(),
+				);
+				return [
+					{
+						...head,
+						isOverride: true,
+						tpe: newType,
+						isReadOnly: fs.every(([f]) => f.isReadOnly),
+						impl: updatedImpl(
+							IArray.fromArray(fs.map(([f]) => f.impl)),
+							newType,
+							isScalaJsDefined(tree),
+						),
+						comments: head.comments.add(InferredNote),
+					},
+				];
+			}),
+		);
+
+		const inheritedMethods = transitiveParents(root.directParents).flatMap(
+			([, cls]) =>
+				cls.members.mapNotNone((c) => (isMethodTree(c) ? c : undefined)),
+		);
+
+		const addedMethods = IArray.fromArray(
+			Array.from(inheritedMethods.groupBy((m) => base(m).key)).flatMap(
+				([key, fs]): MethodTree[] =>
+					fs.length > 1 && !methodsByBase.has(key)
+						? [
+								{
+									...fs.head,
+									isOverride: true,
+									resultType: TypeRef.Intersection(
+										fs.map((f) => f.resultType),
+										Comments.empty(),
+									),
+									impl: updatedImpl(
+										fs.map((f) => f.impl),
+										undefined,
+										isScalaJsDefined(tree),
+									),
+									comments: fs.head.comments.add(InferredNote),
+								},
+							]
+						: [],
+			),
+		);
+
+		if (addedFields.nonEmpty) {
+			scope.logger.info(
+				`added override fields ${addedFields.map((f) => f.name.value).mkString("", ", ", "")}`,
+			);
+		}
+		if (addedMethods.nonEmpty) {
+			scope.logger.info(
+				`added override methods ${addedMethods.map((m) => m.name.value).mkString("", ", ", "")}`,
+			);
+		}
+
+		return members.concat(addedFields).concat(addedMethods);
+	}
+}
@@ -0,0 +1,68 @@
+/**
+ * TypeScript port of org.scalablytyped.converter.internal.scalajs.transforms.LimitUnionLength
+ *
+ * Error:scalac: Error while emitting ScalablyTyped/AtBabelTypesLib/AtBabelTypesModule/AtBabelTypesModuleMembers$
+ * Maximum String literal length exceeded
+ *
+ * Unions longer than `maxLength` are collapsed to the type all their members widen to. `undefined` is kept, the
+ * comment says how many of the other members were dropped.
+ *
+ * There is deliberately no such check on `TsTypeUnion`. The length of a typescript union is not the length we emit:
+ * `ImportType` drops `true | false` next to `boolean`, and `TypeRef.Union` flattens nested unions and removes
+ * duplicates. Collapsing earlier would also run before `UnionToInheritance`, which turns long unions of local traits
+ * into a sealed hierarchy instead of losing them.
+ */
+
+import { Comment } from "../../Comment.js";
+import { debugPrinter } from "../Printer.js";
+import { TypeRef } from "../Tree.js";
+import type { TreeScope } from "../TreeScope.js";
+import { TreeTransformation } from "../TreeTransformation.js";
+
+/* `String` and `Double` widen to themselves, so they belong with their literals */
+const isStringLike = (x: TypeRef): boolean =>
+	TypeRef.equals(x, TypeRef.String) ||
+	TypeRef.StringLiteral.unapply(x) !== undefined;
+
+const isDoubleLike = (x: TypeRef): boolean =>
+	TypeRef.equals(x, TypeRef.Double) ||
+	TypeRef.DoubleLiteral.unapply(x) !== undefined;
+
+export class LimitUnionLength extends TreeTransformation {
+	static readonly DefaultMaxLength = 50;
+
+	constructor(readonly maxLength: number = LimitUnionLength.DefaultMaxLength) {
+		super();
+	}
+
+	leaveTypeRef(_scope: TreeScope): (s: TypeRef) => TypeRef {
+		return (s) => {
+			const union = TypeRef.Union.unapply(s);
+			if (union === undefined || union[0].length <= this.maxLength) return s;
+
+			const [types, cs] = union;
+			const [undefineds, rest] = types.partition((t) =>
+				TypeRef.equals(t, TypeRef.undefined),
+			);
+
+			const base = rest.forall(isStringLike)
+				? TypeRef.String
+				: rest.forall(isDoubleLike)
+					? TypeRef.Double
+					: TypeRef.Any;
+
+			const formattedTypes = rest
+				.take(3)
+				.map(debugPrinter.formatTypeRef(0))
+				.mkString("", ", ", "");
+			const msg = `Dropped ${rest.length} members of union type, starting with ${formattedTypes}`;
+			return TypeRef.withOptional(
+				TypeRef.withComments(
+					base,
+					cs.add(Comment.warning(msg, "LimitUnionLength.leaveTypeRef")),
+				),
+				undefineds.nonEmpty,
+			);
+		};
+	}
+}
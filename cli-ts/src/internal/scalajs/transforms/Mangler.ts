@@ -0,0 +1,617 @@
+/**
+ * TypeScript port of org.scalablytyped.converter.internal.scalajs.transforms.Mangler
+ *
+ * Scala.js cannot express native members of packages, so module members end up in deeply nested objects which are
+ * awkward to import. The mangler turns native packages and module objects into plain scala code which forwards to
+ * javascript through `js.Dynamic`, with the native object itself kept as a `^` member. Members of `@JSGlobalScope`
+ * containers forward to `js.Dynamic.global` instead.
+ */
+
+import {
+	EnumObject,
+	ManglerLeaveAlone,
+	ManglerWasJsNative,
+	MinimizationRelated,
+	StringLit,
+} from "../../Comment.js";
+import { Comments } from "../../Comments.js";
+import { IArray, partialFunction } from "../../IArray.js";
+import { Annotation, type AnnotationUnion } from "../Annotation.js";
+import { Name } from "../Name.js";
+import { QualifiedName } from "../QualifiedName.js";
+import {
+	type ContainerTree,
+	type ExprArg,
+	ExprTree,
+	FieldTree,
+	isClassTree,
+	isContainerTree,
+	isFieldTree,
+	isInheritanceTree,
+	isMethodTree,
+	isModuleTree,
+	isNative,
+	isPackageTree,
+	location,
+	MethodTree,
+	ModuleTree,
+	membersByName,
+	NotImplemented,
+	originalName,
+	PackageTree,
+	ParamTree,
+	ProtectionLevel,
+	type Tree,
+	TypeAliasTree,
+	TypeRef,
+} from "../Tree.js";
+import { TreeScope } from "../TreeScope.js";
+import { TreeTransformation } from "../TreeTransformation.js";
+import { ModulesCombine } from "./ModulesCombine.js";
+
+const WasJsNativeComment = Comments.apply([ManglerWasJsNative.instance]);
+
+type Action = "RemainModule" | "ConvertToPackage";
+
+const isGlobalScope = (annotations: IArray<AnnotationUnion>): boolean =>
+	annotations.exists((a) => a._tag === "JsGlobalScope");
+
+const hasClassNamed = (index: Map<string, IArray<Tree>>, name: Name): boolean =>
+	(index.get(name.unescaped) ?? IArray.Empty).exists(isClassTree);
+
+/* merge `added` into an existing `MinimizationRelated` marker, or add a new one */
+const withRelated = (comments: Comments, added: IArray<TypeRef>): Comments => {
+	const extracted = comments.extract((marker) => {
+		if (marker instanceof MinimizationRelated) return marker.related;
+		throw new Error("Not a MinimizationRelated marker");
+	});
+	return extracted._tag === "Some"
+		? extracted.value[1].add(
+				new MinimizationRelated(extracted.value[0].concat(added)),
+			)
+		: comments.add(new MinimizationRelated(added));
+};
+
+const stripLocationAnns = (tree: Tree): Tree => {
+	const filterAnns = (anns: IArray<AnnotationUnion>): IArray<AnnotationUnion> =>
+		anns.filter(
+			(a) =>
+				a._tag === "JsBracketAccess" ||
+				a._tag === "JsName" ||
+				a._tag === "JsNameSymbol",
+		);
+
+	if (isFieldTree(tree)) {
+		const field: FieldTree = {
+			...tree,
+			annotations: filterAnns(tree.annotations),
+			isReadOnly: true,
+		};
+		return field;
+	}
+	if (isMethodTree(tree)) {
+		const method: MethodTree = {
+			...tree,
+			annotations: filterAnns(tree.annotations),
+		};
+		return method;
+	}
+	return tree;
+};
+
+/**
+ * Checks if any parent object has a collision with a class.
+ *
+ * In the scala 3 world we have no encoding for a package and a class with the same path. In scala 2 we reused
+ * a rewrite and a type alias with a "companion package"
+ *
+ * todo: This is pretty wacko and slow, but it's because we evaluate depth first. Should rewrite and do manual traversal
+ */
+function parentClassCollision(scope: TreeScope): Tree | undefined {
+	const classCollision = (scope: TreeScope, name: Name): Tree | undefined => {
+		const owner = scope.stack.find(isContainerTree);
+		if (owner === undefined) return undefined;
+		return membersByName(owner).get(name.unescaped)?.find(isClassTree);
+	};
+
+	if (!(scope instanceof TreeScope.Scoped)) return undefined;
+	return isContainerTree(scope.current)
+		? (classCollision(scope.outer, scope.current.name) ??
+				parentClassCollision(scope.outer))
+		: parentClassCollision(scope.outer);
+}
+
+function countClasses(x: ContainerTree): number {
+	return x.members.foldLeft(0, (n, xx) =>
+		isContainerTree(xx)
+			? n + 1 + countClasses(xx)
+			: isInheritanceTree(xx)
+				? n + 1
+				: n,
+	);
+}
+
+function action(scope: TreeScope, mod: ModuleTree): Action {
+	const containsPackage = mod.members.exists(isPackageTree);
+	const isCompanion = parentClassCollision(scope) !== undefined;
+
+	if (containsPackage && isCompanion) {
+		scope.logger.fatal("Found package within companion");
+	}
+	const maybePackage = containsPackage || !isCompanion;
+
+	const tooBig = mod.comments.has(EnumObject) ? false : countClasses(mod) > 40;
+
+	return maybePackage && tooBig ? "ConvertToPackage" : "RemainModule";
+}
+
+/**
+ * When forwarding from a pure scala function to a javascript function through `js.Dynamic` we need to handle two
+ * things 1) All arguments must extend `js.Any`. We cast to ensure
+ *
+ * 2) Repeated arguments must be repeated also. this is problematic if there are also non-repeated arguments. It is
+ * problematic because of a scala limitation in combination with `js.Dynamic`. The error you'll see is this
+ * ```
+ *    [E]       Sequence argument type annotation `*` cannot be used here:
+ *    [E]       it is not the only argument to be passed to the corresponding repeated parameter scala.scalajs.js.Any*
+ * ```
+ *
+ * So in that case we build a `scala.List` with all parameters and apply the method with that list with varargs
+ * syntax.
+ */
+function forwardParams(m: MethodTree): IArray<ExprArg> {
+	const params = m.params.flatten();
+	const last = params.lastOption;
+	if (last !== undefined && TypeRef.Repeated.unapply(last.tpe) !== undefined) {
+		const init = params.init;
+		const repeatedAsJsAnySeq = ExprTree.AsInstanceOf(
+			ExprTree.RefName(last.name),
+			TypeRef.create(
+				QualifiedName.scala.add(new Name("Seq")),
+				IArray.apply(TypeRef.JsAny),
+				Comments.empty(),
+			),
+		);
+
+		if (init.isEmpty) {
+			return IArray.apply<ExprArg>(
+				ExprTree.Arg.Pos(ExprTree.VarArgs(repeatedAsJsAnySeq)),
+			);
+		}
+
+		// cast normal parameters to js.Any and put into `List`
+		const initialParamsInList = ExprTree.Call(
+			ExprTree.Ref(QualifiedName.scala.add(new Name("List"))),
+			IArray.apply(
+				init.map(
+					(p): ExprArg =>
+						ExprTree.Arg.Pos(
+							ExprTree.AsInstanceOf(ExprTree.RefName(p.name), TypeRef.JsAny),
+						),
+				),
+			),
+		);
+
+		const concatenated = ExprTree.Call(
+			ExprTree.select(initialParamsInList, "++"),
+			IArray.apply(IArray.apply<ExprArg>(ExprTree.Arg.Pos(repeatedAsJsAnySeq))),
+		);
+		return IArray.apply<ExprArg>(
+			ExprTree.Arg.Pos(ExprTree.VarArgs(concatenated)),
+		);
+	}
+
+	return params.map(
+		(p): ExprArg =>
+			ExprTree.Arg.Pos(
+				ExprTree.AsInstanceOf(ExprTree.RefName(p.name), TypeRef.JsAny),
+			),
+	);
+}
+
+/* the implementation of a method which forwards to javascript through `dynamicRef` */
+function forwardingImpl(dynamicRef: ExprTree, m: MethodTree): ExprTree {
+	const params = forwardParams(m);
+	const call = m.name.equals(Name.APPLY)
+		? ExprTree.Call(
+				ExprTree.Select(dynamicRef, new Name("apply")),
+				IArray.apply(params),
+			)
+		: ExprTree.Call(
+				ExprTree.Select(dynamicRef, new Name("applyDynamic")),
+				IArray.apply(
+					IArray.apply<ExprArg>(
+						ExprTree.Arg.Pos(new StringLit(originalName(m).unescaped)),
+					),
+					params,
+				),
+			);
+	return ExprTree.AsInstanceOf(call, m.resultType);
+}
+
+/* methods which share a name with a class are wrapped in an object as `apply` */
+function forwardingMethod(
+	index: Map<string, IArray<Tree>>,
+	dynamicRef: ExprTree,
+	m: MethodTree,
+): Tree {
+	const impl = forwardingImpl(dynamicRef, m);
+
+	if (hasClassNamed(index, m.name)) {
+		const asApply: MethodTree = {
+			...m,
+			annotations: IArray.apply<AnnotationUnion>(Annotation.Inline),
+			name: Name.APPLY,
+			impl,
+			comments: m.comments.concat(WasJsNativeComment),
+			codePath: m.codePath.add(Name.APPLY),
+		};
+		return ModuleTree.create(
+			IArray.Empty,
+			ProtectionLevel.Public,
+			m.name,
+			IArray.Empty,
+			IArray.apply<Tree>(asApply),
+			Comments.empty(),
+			m.codePath,
+			m.isOverride,
+		);
+	}
+
+	const forwarder: MethodTree = {
+		...m,
+		annotations: IArray.apply<AnnotationUnion>(Annotation.Inline),
+		impl,
+		comments: m.comments.concat(WasJsNativeComment),
+	};
+	return forwarder;
+}
+
+function setter(dynamicRef: ExprTree, f: FieldTree): MethodTree {
+	const xParam = ParamTree.create(
+		new Name("x"),
+		false,
+		false,
+		f.tpe,
+		NotImplemented,
+		Comments.empty(),
+	);
+
+	const impl = ExprTree.Call(
+		ExprTree.Select(dynamicRef, new Name("updateDynamic")),
+		IArray.apply(
+			IArray.apply<ExprArg>(
+				ExprTree.Arg.Pos(new StringLit(originalName(f).unescaped)),
+			),
+			IArray.apply<ExprArg>(
+				ExprTree.Arg.Pos(
+					ExprTree.AsInstanceOf(ExprTree.RefName(xParam.name), TypeRef.JsAny),
+				),
+			),
+		),
+	);
+
+	return MethodTree.create(
+		IArray.apply<AnnotationUnion>(Annotation.Inline),
+		ProtectionLevel.Public,
+		new Name(`${f.name.unescaped}_=`),
+		IArray.Empty,
+		IArray.apply(IArray.apply(xParam)),
+		impl,
+		TypeRef.Unit,
+		false,
+		WasJsNativeComment,
+		f.codePath,
+		false,
+	);
+}
+
+function genPkgForwarders(
+	pkg: PackageTree,
+	inheritance: IArray<TypeRef>,
+): PackageTree {
+	const hatCp = pkg.codePath.add(Name.namespaced);
+	const isGlobal = isGlobalScope(pkg.annotations);
+	const index = membersByName(pkg);
+
+	const dynamicRef: ExprTree = isGlobal
+		? ExprTree.select(ExprTree.Ref(QualifiedName.JsDynamic), "global")
+		: ExprTree.AsInstanceOf(ExprTree.Ref(hatCp), TypeRef.JsDynamic);
+
+	let needsHatObject = false;
+
+	const forwarders = pkg.members.flatMap((member): IArray<Tree> => {
+		if (isMethodTree(member) && location(member) !== undefined) {
+			needsHatObject = true;
+			return IArray.apply(forwardingMethod(index, dynamicRef, member));
+		}
+		if (isFieldTree(member) && member.tpe.typeName.equals(QualifiedName.THIS)) {
+			return IArray.Empty;
+		}
+		if (isFieldTree(member) && location(member) !== undefined) {
+			needsHatObject = true;
+			const f = member;
+
+			const getter = MethodTree.create(
+				IArray.apply<AnnotationUnion>(Annotation.Inline),
+				ProtectionLevel.Public,
+				f.name,
+				IArray.Empty,
+				IArray.Empty,
+				ExprTree.AsInstanceOf(
+					ExprTree.Call(
+						ExprTree.Select(dynamicRef, new Name("selectDynamic")),
+						IArray.apply(
+							IArray.apply<ExprArg>(
+								ExprTree.Arg.Pos(new StringLit(originalName(f).unescaped)),
+							),
+						),
+					),
+					f.tpe,
+				),
+				f.tpe,
+				false,
+				f.comments.concat(WasJsNativeComment),
+				f.codePath,
+				false,
+			);
+
+			return f.isReadOnly || f.name.isEscaped
+				? IArray.apply<Tree>(getter)
+				: IArray.apply<Tree>(getter, setter(dynamicRef, f));
+		}
+		return IArray.apply(member);
+	});
+
+	const hatModule =
+		(!needsHatObject && inheritance.isEmpty) || isGlobal
+			? undefined
+			: ModuleTree.create(
+					pkg.annotations,
+					ProtectionLevel.Public,
+					Name.namespaced,
+					inheritance.isEmpty
+						? IArray.Empty
+						: IArray.apply(
+								TypeRef.TopLevel(
+									TypeRef.Intersection(inheritance, Comments.empty()),
+								),
+							),
+					IArray.Empty,
+					Comments.empty(),
+					hatCp,
+					false,
+				);
+
+	const comments = withRelated(
+		pkg.comments,
+		hatModule === undefined
+			? IArray.Empty
+			: IArray.apply(TypeRef.create(hatModule.codePath)),
+	);
+
+	return ModulesCombine.combineModules({
+		...pkg,
+		comments,
+		members: (hatModule === undefined
+			? IArray.Empty
+			: IArray.apply<Tree>(hatModule)
+		).concat(forwarders),
+	});
+}
+
+function genModForwarders(mod: ModuleTree): ModuleTree {
+	const isGlobal = isGlobalScope(mod.annotations);
+	const hatCp = mod.codePath.add(Name.namespaced);
+	const index = membersByName(mod);
+
+	const dynamicRef: ExprTree = isGlobal
+		? ExprTree.select(ExprTree.Ref(QualifiedName.JsDynamic), "global")
+		: ExprTree.AsInstanceOf(
+				ExprTree.RefName(Name.namespaced),
+				TypeRef.JsDynamic,
+			);
+
+	let needsHatObject = false;
+
+	const rewrittenMembers = mod.members.flatMap((member): IArray<Tree> => {
+		if (isMethodTree(member) && location(member) !== undefined) {
+			needsHatObject = true;
+			return IArray.apply(forwardingMethod(index, dynamicRef, member));
+		}
+		if (!isFieldTree(member)) return IArray.apply(member);
+
+		const f = member;
+		if (f.isReadOnly || location(f) === undefined) return IArray.apply<Tree>(f);
+		// don't think it's possible to generate setters in backticks
+		if (f.name.isEscaped) {
+			const readOnly: FieldTree = { ...f, isReadOnly: true };
+			return IArray.apply<Tree>(readOnly);
+		}
+
+		needsHatObject = true;
+
+		const getter = MethodTree.create(
+			f.annotations.filter((a) => a._tag !== "JsName"),
+			ProtectionLevel.Public,
+			f.name,
+			IArray.Empty,
+			IArray.Empty,
+			f.impl,
+			f.tpe,
+			f.isOverride,
+			f.comments.concat(WasJsNativeComment),
+			f.codePath,
+			false,
+		);
+
+		return IArray.apply<Tree>(getter, setter(dynamicRef, f));
+	});
+
+	const hatOpt: FieldTree | undefined = (() => {
+		const intersection = TypeRef.Intersection(mod.parents, Comments.empty());
+		const tpe = TypeRef.equals(intersection, TypeRef.Nothing)
+			? TypeRef.JsAny
+			: intersection;
+
+		return (TypeRef.equals(tpe, TypeRef.JsAny) && !needsHatObject) || isGlobal
+			? undefined
+			: FieldTree.create(
+					mod.annotations,
+					ProtectionLevel.Public,
+					Name.namespaced,
+					tpe,
+					ExprTree.native,
+					true,
+					false,
+					Comments.empty(),
+					hatCp,
+				);
+	})();
+
+	const shortcutCandidate =
+		hatOpt ??
+		((index.get(Name.Default.unescaped) ?? IArray.Empty).find(isFieldTree) as
+			| FieldTree
+			| undefined);
+	const shortcut =
+		shortcutCandidate !== undefined &&
+		!TypeRef.equals(shortcutCandidate.tpe, TypeRef.JsAny)
+			? shortcutCandidate
+			: undefined;
+
+	const mod1: ModuleTree = {
+		...mod,
+		annotations: IArray.Empty,
+		parents: IArray.Empty,
+		members:
+			hatOpt === undefined
+				? rewrittenMembers
+				: rewrittenMembers.append<Tree>(hatOpt),
+	};
+
+	// plug a hole where if there is a class and multiple functions all with the same name, the functions
+	// will all be rewritten to an object. this recombines them
+	const mod2: ModuleTree = {
+		...mod1,
+		members: IArray.fromArray(Array.from(membersByName(mod1).values())).flatMap(
+			(sameName) => {
+				const [mods, rest] = sameName.partitionCollect(
+					partialFunction(isModuleTree, (x) => x as ModuleTree),
+				);
+				if (mods.length > 1) {
+					const combined: ModuleTree = {
+						...mods.head,
+						members: mods.flatMap((m) => m.members),
+					};
+					return rest.prepend<Tree>(combined);
+				}
+				return sameName;
+			},
+		),
+	};
+
+	if (shortcut === undefined) return mod2;
+
+	// implement the `Shortcut` trait for some nicer syntax
+	const parent = TypeRef.create(QualifiedName.Shortcut);
+	const toName = new Name("_to");
+	const to = MethodTree.create(
+		IArray.Empty,
+		ProtectionLevel.Public,
+		toName,
+		IArray.Empty,
+		IArray.Empty,
+		ExprTree.RefName(shortcut.name),
+		shortcut.tpe,
+		true,
+		Comments.create(
+			`/* This means you don't have to write \`${shortcut.name.value}\`, but can instead just say \`${mod2.name.value}.foo\` */\n`,
+		),
+		mod2.codePath.add(toName),
+		false,
+	);
+
+	const ToName = new Name("_To");
+	const To = TypeAliasTree.create(
+		ToName,
+		ProtectionLevel.Public,
+		IArray.Empty,
+		shortcut.tpe,
+		Comments.empty(),
+		mod2.codePath.add(ToName),
+	);
+
+	const addedRelated = IArray.fromArray(
+		[to.codePath, To.codePath, hatOpt?.codePath, shortcut.codePath]
+			.filter((cp): cp is QualifiedName => cp !== undefined)
+			.map((cp) => TypeRef.create(cp)),
+	);
+
+	return {
+		...mod2,
+		comments: withRelated(mod2.comments, addedRelated),
+		parents: mod2.parents.append(parent),
+		members: IArray.apply<Tree>(to, To).concat(mod2.members),
+	};
+}
+
+export class Mangler extends TreeTransformation {
+	leaveContainerTree(scope: TreeScope): (s: ContainerTree) => ContainerTree {
+		return (container) => {
+			const rewrittenMembers = container.members.map((member): Tree => {
+				if (isPackageTree(member)) {
+					return member.comments.has(ManglerLeaveAlone)
+						? member
+						: genPkgForwarders(member, IArray.Empty);
+				}
+				if (!isModuleTree(member)) return member;
+
+				const mod = member;
+				if (mod.comments.has(EnumObject)) {
+					const stripped: ModuleTree = {
+						...mod,
+						members: mod.members.map(stripLocationAnns),
+					};
+					return stripped;
+				}
+				if (mod.comments.has(ManglerLeaveAlone) || !isNative(mod)) return mod;
+
+				switch (action(scope["/"](mod), mod)) {
+					case "RemainModule":
+						return genModForwarders(mod);
+					case "ConvertToPackage":
+						return genPkgForwarders(
+							PackageTree.create(
+								mod.annotations,
+								mod.name,
+								mod.members,
+								mod.comments,
+								mod.codePath,
+							),
+							mod.parents,
+						);
+				}
+			});
+
+			const isTopLevel = scope.stack.length < 3; // typings, libName
+			return isTopLevel && !container.comments.has(ManglerLeaveAlone)
+				? genPkgForwarders(
+						PackageTree.create(
+							container.annotations,
+							container.name,
+							rewrittenMembers,
+							container.comments,
+							container.codePath,
+						),
+						IArray.Empty,
+					)
+				: container.withMembers(rewrittenMembers);
+		};
+	}
+}
+
+/**
+ * Singleton instance of Mangler, equivalent to the Scala object
+ */
+export const ManglerTransform = new Mangler();
@@ -0,0 +1,181 @@
+/**
+ * TypeScript port of org.scalablytyped.converter.internal.scalajs.transforms.ModulesCombine
+ *
+ * Scala doesn't allow a module to share its name with fields and methods, so we fold those into the module
+ * as `^` fields and `apply` methods.
+ */
+
+import { Comments } from "../../Comments.js";
+import { IArray, partialFunction } from "../../IArray.js";
+import type { AnnotationUnion } from "../Annotation.js";
+import { Name } from "../Name.js";
+import {
+	type ContainerTree,
+	ExprTree,
+	FieldTree,
+	isClassTree,
+	isFieldTree,
+	isMethodTree,
+	isModuleTree,
+	type MethodTree,
+	ModuleTree,
+	membersByName,
+	ProtectionLevel,
+	type Tree,
+	TypeRef,
+} from "../Tree.js";
+import type { TreeScope } from "../TreeScope.js";
+import { TreeTransformation } from "../TreeTransformation.js";
+
+const isLegal = (annotations: IArray<AnnotationUnion>): boolean =>
+	annotations.nonEmpty &&
+	annotations.forall(
+		(a) => a._tag !== "JsImport" || a.imported._tag === "Named",
+	);
+
+const allCalls = (members: IArray<Tree>): IArray<MethodTree> | undefined => {
+	const [applies, rest] = members.partitionCollect(
+		partialFunction(
+			(x: Tree) => isMethodTree(x) && x.name.equals(Name.APPLY),
+			(x) => x as MethodTree,
+		),
+	);
+	return applies.nonEmpty && rest.isEmpty ? applies : undefined;
+};
+
+function combineSameName(name: Name, sameName: IArray<Tree>): IArray<Tree> {
+	const [modules, fields, methods, rest] = sameName.partitionCollect3(
+		partialFunction(isModuleTree, (x) => x as ModuleTree),
+		partialFunction(isFieldTree, (x) => x as FieldTree),
+		partialFunction(isMethodTree, (x) => x as MethodTree),
+	);
+
+	if (
+		modules.nonEmpty &&
+		(fields.nonEmpty || methods.nonEmpty || modules.length > 1)
+	) {
+		const baseModule = modules.head;
+
+		const asHats = fields.map(
+			(f): FieldTree => ({
+				...f,
+				name: Name.namespaced,
+				codePath: baseModule.codePath.add(Name.namespaced),
+				isReadOnly: true,
+			}),
+		);
+
+		const asApplies = methods.map(
+			(m): MethodTree => ({
+				...m,
+				name: Name.APPLY,
+				codePath: baseModule.codePath.add(Name.APPLY),
+			}),
+		);
+
+		const mergedCompanion = modules.tail.foldLeft<ModuleTree>(
+			{
+				...baseModule,
+				members: baseModule.members.concat(asHats).concat(asApplies),
+			},
+			(acc, mod) =>
+				ModuleTree.create(
+					acc.annotations,
+					ProtectionLevel.stricter(acc.level, mod.level),
+					acc.name,
+					acc.parents.concat(mod.parents).distinctBy((p) => p.typeName.value),
+					acc.members.concat(mod.members).distinct(),
+					acc.comments.concat(mod.comments),
+					acc.codePath,
+					false,
+				),
+		);
+
+		return rest.prepend<Tree>(mergedCompanion);
+	}
+
+	if (modules.length === 1 && fields.isEmpty && methods.isEmpty) {
+		const mod = modules.head;
+		const applies = mod.parents.isEmpty ? allCalls(mod.members) : undefined;
+
+		if (isLegal(mod.annotations) && applies) {
+			return rest.concat(
+				applies.map(
+					(a): MethodTree => ({
+						...a,
+						annotations: mod.annotations,
+						level: mod.level,
+						name: mod.name,
+						codePath: mod.codePath,
+						isOverride: mod.isOverride,
+						comments: a.comments.concat(mod.comments),
+					}),
+				),
+			);
+		}
+
+		if (
+			isLegal(mod.annotations) &&
+			mod.members.isEmpty &&
+			mod.parents.nonEmpty
+		) {
+			const asField = FieldTree.create(
+				mod.annotations,
+				mod.level,
+				mod.name,
+				TypeRef.Intersection(mod.parents, Comments.empty()),
+				ExprTree.native,
+				true,
+				mod.isOverride,
+				mod.comments,
+				mod.codePath,
+			);
+			return rest.append<Tree>(asField);
+		}
+	}
+
+	if (
+		modules.isEmpty &&
+		fields.isEmpty &&
+		methods.nonEmpty &&
+		rest.exists(isClassTree)
+	) {
+		const asApplies = methods.map(
+			(m): MethodTree => ({
+				...m,
+				name: Name.APPLY,
+				codePath: m.codePath.add(Name.APPLY),
+			}),
+		);
+
+		const asMod = ModuleTree.create(
+			IArray.Empty,
+			ProtectionLevel.Public,
+			name,
+			IArray.Empty,
+			asApplies as unknown as IArray<Tree>,
+			Comments.empty(),
+			methods.head.codePath,
+			false,
+		);
+
+		return rest.prepend<Tree>(asMod);
+	}
+
+	return sameName;
+}
+
+export const ModulesCombine = {
+	transformation: new (class extends TreeTransformation {
+		leaveContainerTree(_scope: TreeScope): (c: ContainerTree) => ContainerTree {
+			return (c) => ModulesCombine.combineModules(c);
+		}
+	})(),
+
+	combineModules: <C extends ContainerTree>(c: C): C => {
+		const combinedMembers = IArray.fromArray(
+			Array.from(membersByName(c).values()),
+		).flatMap((sameName) => combineSameName(sameName.head.name, sameName));
+		return c.withMembers(combinedMembers) as C;
+	},
+};
@@ -0,0 +1,122 @@
+/**
+ * TypeScript port of org.scalablytyped.converter.internal.scalajs.transforms.RemoveDuplicateInheritance
+ *
+ * Scala is again more strict with inheritance with differing type parameters, and we only augment the problem by
+ * freely tagging things as instantiatable and dictionaries in the import.
+ *
+ * todo: merge with `RemoveMultipleInheritance`?
+ */
+
+import { Comments } from "../../Comments.js";
+import type { IArray } from "../../IArray.js";
+import type { ParentsResolver } from "../ParentsResolver.js";
+import { type ClassTree, type ModuleTree, TypeRef } from "../Tree.js";
+import type { TreeScope } from "../TreeScope.js";
+import { TreeTransformation } from "../TreeTransformation.js";
+
+/* parents referring to the same type more than once, keyed by the type name */
+const conflicts = (
+	parents: IArray<TypeRef>,
+): Map<string, IArray<TypeRef>> | undefined => {
+	const found = new Map(
+		Array.from(parents.groupBy((p) => p.typeName.value)).filter(
+			([, sameName]) => sameName.length > 1,
+		),
+	);
+	return found.size > 0 ? found : undefined;
+};
+
+export class RemoveDuplicateInheritance extends TreeTransformation {
+	constructor(private readonly parentsResolver: ParentsResolver) {
+		super();
+	}
+
+	leaveClassTree(scope: TreeScope): (s: ClassTree) => ClassTree {
+		return (_s) => {
+			const s = this.dropInheritedConflicts(scope, _s);
+			const found = conflicts(s.parents);
+			return found === undefined
+				? s
+				: {
+						...s,
+						parents: RemoveDuplicateInheritance.resolved(s.parents, found),
+					};
+		};
+	}
+
+	leaveModuleTree(_scope: TreeScope): (s: ModuleTree) => ModuleTree {
+		return (s) => {
+			const found = conflicts(s.parents);
+			return found === undefined
+				? s
+				: {
+						...s,
+						parents: RemoveDuplicateInheritance.resolved(s.parents, found),
+					};
+		};
+	}
+
+	/**
+	 * Combine all references to the same parent into one, with the type arguments as unions
+	 */
+	static resolved(
+		parents: IArray<TypeRef>,
+		conflicts: Map<string, IArray<TypeRef>>,
+	): IArray<TypeRef> {
+		const resolved = new Map<string, TypeRef>();
+		for (const [name, sameParentRef] of conflicts) {
+			resolved.set(
+				name,
+				TypeRef.create(
+					sameParentRef.head.typeName,
+					sameParentRef
+						.map((p) => p.targs)
+						.transpose()
+						.map((ts) => TypeRef.Union(ts, Comments.empty(), true)),
+					Comments.flatten(sameParentRef, (p) => p.comments),
+				),
+			);
+		}
+
+		/* take care to keep original order in spite of using a map above */
+		const mentioned = new Set<string>();
+		return parents.mapNotNone((p) => {
+			const replacement = resolved.get(p.typeName.value);
+			if (replacement === undefined) return p;
+			if (mentioned.has(p.typeName.value)) return undefined;
+			mentioned.add(p.typeName.value);
+			return replacement;
+		});
+	}
+
+	/**
+	 * Say we get `FooBar` here. Given a conflict like this:
+	 * ```typescript
+	 *   interface Foo extends I<number> {}
+	 *   interface FooBar extends Foo, I<string>
+	 * ```
+	 * we have no choice other than to drop the second dependency upon `I` entirely.
+	 *
+	 * Note that: 1) we depend upon parent references to be fully qualified for now 2) type params of the conflicts might
+	 * be compatible, but we remove anyway
+	 */
+	private dropInheritedConflicts(scope: TreeScope, cls: ClassTree): ClassTree {
+		const allParentRefs = new Set(
+			this.parentsResolver
+				.apply(scope, cls)
+				.transitiveParents.flatMap((p) => p.classTree.parents)
+				.map((p) => p.typeName.value)
+				.toArray(),
+		);
+
+		const [dropped, keep] = cls.parents.partition((p) =>
+			allParentRefs.has(p.typeName.value),
+		);
+		if (dropped.isEmpty) return cls;
+
+		scope.logger.info(
+			`Dropped parents ${dropped.map((p) => p.typeName.value).mkString("", ",", "")} at ${scope} because they are already inherited through ${[...allParentRefs].join(", ")}`,
+		);
+		return { ...cls, parents: keep };
+	}
+}
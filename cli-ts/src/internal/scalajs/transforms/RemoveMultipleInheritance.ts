@@ -0,0 +1,318 @@
+/**
+ * TypeScript port of org.scalablytyped.converter.internal.scalajs.transforms.RemoveMultipleInheritance
+ *
+ * Sort parents to ensure that if we inherit from a class it goes first, and traits are mixins.
+ *
+ * Parents which scala can't express (a second class, parents we already inherit, conflicting `var`s) are dropped,
+ * and the members we would lose with them are inlined into the child.
+ */
+
+import { Comment, HasClassParent } from "../../Comment.js";
+import type { Comments } from "../../Comments.js";
+import { IArray } from "../../IArray.js";
+import type { Parent, Parents, ParentsResolver } from "../ParentsResolver.js";
+import { debugPrinter } from "../Printer.js";
+import { QualifiedName } from "../QualifiedName.js";
+import {
+	type ClassTree,
+	ClassType,
+	ExprTree,
+	type FieldTree,
+	type InheritanceTree,
+	isFieldTree,
+	isMethodTree,
+	isNative,
+	type MethodTree,
+	type ModuleTree,
+	type Tree,
+	TypeRef,
+} from "../Tree.js";
+import type { TreeScope } from "../TreeScope.js";
+import { TreeTransformation } from "../TreeTransformation.js";
+
+export interface Dropped {
+	readonly typeRef: TypeRef;
+	readonly because: string;
+	readonly members: IArray<Tree>;
+}
+
+/* a parent along with everything it inherits */
+const selfAndTransitive = (p: Parent): IArray<Parent> =>
+	IArray.apply(p).concat(p.transitiveParents);
+
+/* like scala's case class equality for `Parent`, which only considers `refs` */
+const sameParent = (a: Parent, b: Parent): boolean =>
+	a.refs.length === b.refs.length &&
+	a.refs.zip(b.refs).forall(([x, y]) => TypeRef.equals(x, y));
+
+const sameClass = (a: ClassTree, b: ClassTree): boolean =>
+	a.codePath.equals(b.codePath);
+
+function parentWithInheritedClass(parents: Parents): Parent | undefined {
+	const go = (p: Parent): Parent | undefined =>
+		p.classTree.classType !== ClassType.Trait &&
+		!p.classTree.codePath.equals(QualifiedName.Any) &&
+		!p.classTree.codePath.equals(QualifiedName.JsObject)
+			? p
+			: p.parents.firstDefined(go);
+
+	return parents.directParents.find((p) => go(p) !== undefined);
+}
+
+export class RemoveMultipleInheritance extends TreeTransformation {
+	constructor(private readonly parentsResolver: ParentsResolver) {
+		super();
+	}
+
+	leaveClassTree(scope: TreeScope): (s: ClassTree) => ClassTree {
+		return (cls) => {
+			if (!isNative(cls)) return cls;
+
+			const [newComments, newParents, newMembers] = this.findNewParents(
+				scope,
+				cls,
+			);
+			const patchedNewMembers = cls.annotations.exists(
+				(a) => a._tag === "JsNative",
+			)
+				? newMembers.map((x): Tree => {
+						if (isMethodTree(x)) {
+							const method: MethodTree = {
+								...x,
+								impl: ExprTree.native,
+								isOverride: false,
+							};
+							return method;
+						}
+						if (isFieldTree(x)) {
+							const field: FieldTree = {
+								...x,
+								impl: ExprTree.native,
+								isOverride: false,
+							};
+							return field;
+						}
+						return x;
+					})
+				: newMembers;
+
+			return {
+				...cls,
+				comments: newComments,
+				parents: newParents,
+				members: cls.members.concat(patchedNewMembers),
+			};
+		};
+	}
+
+	leaveModuleTree(scope: TreeScope): (s: ModuleTree) => ModuleTree {
+		return (mod) => {
+			if (!isNative(mod)) return mod;
+
+			const [newComments, newParents, newMembers] = this.findNewParents(
+				scope,
+				mod,
+			);
+			return {
+				...mod,
+				comments: newComments,
+				parents: newParents,
+				members: mod.members.concat(newMembers),
+			};
+		};
+	}
+
+	private findNewParents(
+		scope: TreeScope,
+		c: InheritanceTree,
+	): [Comments, IArray<TypeRef>, IArray<Tree>] {
+		const allParents = this.parentsResolver.apply(scope, c);
+
+		// determine which parent goes first, it needs to be one with a class
+		// if no parent inherits a class other than `Any` or `js.Object` and there are more than two parents,
+		// add `js.Object` explicitly first to work around https://github.com/lampepfl/dotty/issues/12722
+		const foundClassParent =
+			parentWithInheritedClass(allParents) ??
+			(allParents.directParents.exists((p) => p.parents.length > 1)
+				? this.parentsResolver.fromRefs(scope, IArray.apply(TypeRef.JsObject))
+						.directParents.headOption
+				: undefined);
+
+		const remaining = (
+			foundClassParent === undefined
+				? IArray.Empty
+				: IArray.apply(foundClassParent)
+		).concat(
+			allParents.directParents.filterNot(
+				(p) =>
+					foundClassParent !== undefined && sameParent(p, foundClassParent),
+			),
+		);
+
+		const [changes, ps] = RemoveMultipleInheritance.step(
+			IArray.Empty,
+			IArray.Empty,
+			IArray.Empty,
+			remaining,
+		);
+
+		const withClassParent = (cs: Comments): Comments =>
+			foundClassParent === undefined ? cs : cs.add(HasClassParent.instance);
+
+		let newComments: Comments;
+		if (changes.nonEmpty) {
+			const formattedChanges = changes
+				.map(
+					(x) =>
+						`- ${debugPrinter.formatQN(x.typeRef.typeName)} because ${x.because}`,
+				)
+				.mkString("\n", "\n", "");
+			const msg = `Dropped parents ${formattedChanges}`;
+			scope.logger.info(msg);
+			newComments = withClassParent(
+				c.comments.add(
+					Comment.warning(msg, "RemoveMultipleInheritance.findNewParents"),
+				),
+			);
+		} else {
+			newComments = withClassParent(c.comments);
+		}
+
+		return [
+			newComments,
+			ps.reverse().concat(allParents.unresolved),
+			changes.flatMap((x) => x.members),
+		];
+	}
+
+	static step(
+		included: IArray<Parent>,
+		newParents: IArray<TypeRef>,
+		dropped: IArray<Dropped>,
+		remainingParents: IArray<Parent>,
+	): [IArray<Dropped>, IArray<TypeRef>] {
+		let remaining = remainingParents;
+		let inc = included;
+		let ps = newParents;
+		let ds = dropped;
+
+		while (remaining.nonEmpty) {
+			const currentParent = remaining.head;
+			const rest = remaining.tail;
+
+			const inheritsClass = (): Dropped | undefined =>
+				selfAndTransitive(currentParent).firstDefined(({ classTree: c }) => {
+					if (
+						inc.isEmpty ||
+						c.classType === ClassType.Trait ||
+						inc.exists((i) =>
+							selfAndTransitive(i).exists((p) => sameClass(p.classTree, c)),
+						)
+					) {
+						return undefined;
+					}
+					const includedFields = ds
+						.flatMap((d) => d.members)
+						.concat(inc.flatMap((i) => i.fields))
+						.map((m) => m.name.unescaped);
+
+					const inlined = currentParent.classTree.members.filterNot((m) =>
+						includedFields.contains(m.name.unescaped),
+					);
+
+					return {
+						typeRef: currentParent.refs.last,
+						because: `Inheritance from two classes. Inlined ${inlined.map((m) => m.name.value).mkString("", ", ", "")}`,
+						members: inlined,
+					};
+				});
+
+			const alreadyInherits = (): Dropped | undefined =>
+				inc.firstDefined((i) =>
+					selfAndTransitive(i)
+						.flatMap((p) => p.refs)
+						.firstDefined((ref) =>
+							currentParent.refs.exists((r) => r.typeName.equals(ref.typeName))
+								? {
+										typeRef: currentParent.refs.last,
+										because: "Already inherited",
+										members: IArray.Empty,
+									}
+								: undefined,
+						),
+				);
+
+			const alreadyInheritsUnresolved = (): Dropped | undefined =>
+				inc.firstDefined((i) =>
+					i.transitiveUnresolved.firstDefined((u) => {
+						const some = currentParent.transitiveUnresolved.filter((x) =>
+							x.typeName.equals(u.typeName),
+						);
+						if (some.isEmpty) return undefined;
+						const someString = some
+							.map(debugPrinter.formatTypeRef(0))
+							.mkString("", ", ", "");
+						return {
+							typeRef: currentParent.refs.last,
+							because: `Already inherited ${someString}`,
+							members: IArray.Empty,
+						};
+					}),
+				);
+
+			const inheritsConflictingVars = (): Dropped | undefined => {
+				const includedMembersByName = new Map<string, Tree>(
+					ds
+						.flatMap((d) => d.members)
+						.concat(inc.flatMap((i) => i.members))
+						.map((x): [string, Tree] => [x.name.unescaped, x])
+						.toArray(),
+				);
+
+				const conflictingFields = currentParent.fields.filter((f) => {
+					const existing = includedMembersByName.get(f.name.unescaped);
+					if (existing === undefined) return false;
+					if (!f.isReadOnly) return true;
+					return !isFieldTree(existing) || !existing.isReadOnly;
+				});
+
+				if (conflictingFields.isEmpty) return undefined;
+
+				const conflictString = conflictingFields
+					.map((f) => f.name)
+					.distinctBy((n) => n.unescaped)
+					.sortBy((n) => n.unescaped)
+					.map((n) => debugPrinter.formatName(n))
+					.mkString("", ", ", "");
+				const inlined = currentParent.classTree.members.filterNot((m) =>
+					includedMembersByName.has(m.name.unescaped),
+				);
+				return {
+					typeRef: currentParent.refs.last,
+					because: `var conflicts: ${conflictString}. Inlined ${inlined.map((m) => m.name.value).mkString("", ", ", "")}`,
+					members: inlined,
+				};
+			};
+
+			const d =
+				inheritsClass() ??
+				alreadyInherits() ??
+				alreadyInheritsUnresolved() ??
+				inheritsConflictingVars();
+
+			if (d === undefined) {
+				inc = inc.prepend(currentParent);
+				ps = ps.prepend(currentParent.refs.last);
+				remaining = rest;
+			} else {
+				const newRemaining = currentParent.parents
+					.filterNot((p) => inc.exists((i) => sameParent(i, p)))
+					.filterNot((p) => rest.exists((r) => sameParent(r, p)));
+				ds = ds.prepend(d);
+				remaining = rest.concat(newRemaining);
+			}
+		}
+
+		return [ds, ps];
+	}
+}
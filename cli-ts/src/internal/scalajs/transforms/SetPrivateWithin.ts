@@ -0,0 +1,58 @@
+/**
+ * TypeScript port of org.scalablytyped.converter.internal.scalajs.transforms.SetPrivateWithin
+ *
+ * Makes all generated declarations `private[within]`, so they can be wrapped in a hand-written API. Members of
+ * classes and objects are left alone, the enclosing declaration already restricts them.
+ */
+
+import type { Name } from "../Name.js";
+import {
+	type ClassTree,
+	type FieldTree,
+	isInheritanceTree,
+	type MethodTree,
+	type ModuleTree,
+	ProtectionLevel,
+	type TypeAliasTree,
+} from "../Tree.js";
+import type { TreeScope } from "../TreeScope.js";
+import { TreeTransformation } from "../TreeTransformation.js";
+
+/* skips the current tree, which is on top of the stack */
+function insideInheritanceTree(scope: TreeScope): boolean {
+	return scope.stack.slice(1).some(isInheritanceTree);
+}
+
+export class SetPrivateWithin extends TreeTransformation {
+	private readonly p: ProtectionLevel;
+
+	constructor(within: Name) {
+		super();
+		if (within.unescaped.includes(".")) {
+			throw new Error(
+				`The privateWithin option cannot be fully qualified: specify \`${within.unescaped.split(".").at(-1)}\` instead of \`${within.unescaped}\``,
+			);
+		}
+		this.p = ProtectionLevel.PrivateWithin(within);
+	}
+
+	leaveFieldTree(scope: TreeScope): (s: FieldTree) => FieldTree {
+		return (s) => (insideInheritanceTree(scope) ? s : { ...s, level: this.p });
+	}
+
+	leaveMethodTree(scope: TreeScope): (s: MethodTree) => MethodTree {
+		return (s) => (insideInheritanceTree(scope) ? s : { ...s, level: this.p });
+	}
+
+	leaveClassTree(scope: TreeScope): (s: ClassTree) => ClassTree {
+		return (s) => (insideInheritanceTree(scope) ? s : { ...s, level: this.p });
+	}
+
+	leaveTypeAliasTree(scope: TreeScope): (s: TypeAliasTree) => TypeAliasTree {
+		return (s) => (insideInheritanceTree(scope) ? s : { ...s, level: this.p });
+	}
+
+	leaveModuleTree(scope: TreeScope): (s: ModuleTree) => ModuleTree {
+		return (s) => (insideInheritanceTree(scope) ? s : { ...s, level: this.p });
+	}
+}
@@ -0,0 +1,228 @@
+/**
+ * TypeScript port of org.scalablytyped.converter.internal.scalajs.transforms.ShortenNames
+ *
+ * Rewrites fully qualified references within one output file to their short names, and computes which imports
+ * are needed for that. A name is only shortened if doing so doesn't make it resolve to something else.
+ */
+
+import { IArray } from "../../IArray.js";
+import { Name } from "../Name.js";
+import type { ParentsResolver } from "../ParentsResolver.js";
+import { QualifiedName } from "../QualifiedName.js";
+import {
+	type ContainerTree,
+	type ExprTree,
+	type HasCodePath,
+	isClassTree,
+	isContainerTree,
+	isFieldTree,
+	isInheritanceTree,
+	isMethodTree,
+	isModuleTree,
+	isPackageTree,
+	isTypeAliasTree,
+	isTypeRef,
+	membersByName,
+	type Tree,
+	TypeRef,
+} from "../Tree.js";
+import type { TreeScope } from "../TreeScope.js";
+import { TreeTransformation } from "../TreeTransformation.js";
+
+const Forbidden: readonly Name[] = [
+	new Name("|"),
+	Name.underscore,
+	Name.scala,
+	Name.js,
+	Name.com,
+	Name.org,
+	new Name("List"),
+];
+
+export interface ImportTree {
+	readonly imported: QualifiedName;
+}
+
+/* the enclosing trees which can shadow a name. Outer packages don't, since they are not opened by the import */
+function dropOuterPackages(scope: TreeScope): readonly Tree[] {
+	const numPackages = scope.stack.filter(isPackageTree).length;
+	return scope.stack.slice(
+		0,
+		scope.stack.length - Math.max(numPackages - 1, 0),
+	);
+}
+
+function among(
+	index: Map<string, IArray<Tree>>,
+	longName: QualifiedName,
+	methodsAreConflict: boolean,
+): boolean {
+	const trees = index.get(longName.parts.last.unescaped);
+	if (trees === undefined) return false;
+	return trees.exists((x) => {
+		if (isClassTree(x) || isPackageTree(x) || isTypeAliasTree(x))
+			return !x.codePath.equals(longName);
+		if (isModuleTree(x))
+			return !x.codePath.equals(longName) && methodsAreConflict;
+		if (isFieldTree(x)) return x.isReadOnly || methodsAreConflict;
+		if (isMethodTree(x)) return methodsAreConflict;
+		return false;
+	});
+}
+
+/*
+ * Expressions are not part of the scope stack in this port, so `val`s within blocks are not considered.
+ * They could only clash with the first part of a fully qualified name, which is the output package.
+ */
+function nameCollision(
+	scope: TreeScope,
+	parentsResolver: ParentsResolver,
+	longName: QualifiedName,
+	methodsAreConflict: boolean,
+): boolean {
+	const shortName = longName.parts.last;
+	const shadows = (x: Tree & HasCodePath): boolean =>
+		x.name.equals(shortName) && !x.codePath.equals(longName);
+	const hasName = (t: Tree): boolean => t.name.equals(shortName);
+
+	return dropOuterPackages(scope).some((x) => {
+		if (isInheritanceTree(x)) {
+			const ctorClash = (): boolean =>
+				isClassTree(x) && x.ctors.exists((c) => c.params.exists(hasName));
+			const tparamsClash = (): boolean =>
+				isClassTree(x) && x.tparams.exists(hasName);
+
+			return (
+				shadows(x) ||
+				among(membersByName(x), longName, methodsAreConflict) ||
+				parentsResolver
+					.apply(scope, x)
+					.transitiveParents.exists((p) =>
+						among(membersByName(p.classTree), longName, methodsAreConflict),
+					) ||
+				tparamsClash() ||
+				ctorClash()
+			);
+		}
+		if (isPackageTree(x)) {
+			return shadows(x) || among(membersByName(x), longName, true);
+		}
+		if (isTypeAliasTree(x)) return shadows(x) || x.tparams.exists(hasName);
+		if (isFieldTree(x)) return shadows(x);
+		if (isMethodTree(x)) {
+			return (
+				shadows(x) ||
+				(methodsAreConflict && x.params.exists((ps) => ps.exists(hasName))) ||
+				x.tparams.exists(hasName)
+			);
+		}
+		return false;
+	});
+}
+
+/**
+ * Whether `longName` already resolves without an import, because we are inside it or next to it
+ */
+export function inScope(scope: TreeScope, longName: QualifiedName): boolean {
+	return dropOuterPackages(scope).some((x) => {
+		if (!isContainerTree(x)) return false;
+		if (x.codePath.equals(longName)) return true;
+		const trees = membersByName(x).get(longName.parts.last.unescaped);
+		return trees?.exists((t) => isClassTree(t) || isTypeAliasTree(t)) ?? false;
+	});
+}
+
+function keepImport(qn: QualifiedName): boolean {
+	if (qn.startsWith(QualifiedName.scala) && qn.parts.length === 2) return false;
+	if (qn.startsWith(QualifiedName.java_lang)) return false;
+	if (qn.equals(QualifiedName.StObject)) return false;
+	return true;
+}
+
+class Shortener extends TreeTransformation {
+	/* imports by the short name they introduce */
+	readonly collectedImports = new Map<string, QualifiedName>();
+
+	constructor(
+		private readonly owner: ContainerTree,
+		private readonly parentsResolver: ParentsResolver,
+	) {
+		super();
+	}
+
+	leaveTypeRef(scope: TreeScope): (tr: TypeRef) => TypeRef {
+		return (tr) => {
+			// the type ref itself is on top of the stack, so look at what contains it
+			const outer = scope.stack[1];
+			const inSingleton =
+				outer !== undefined &&
+				isTypeRef(outer) &&
+				TypeRef.Singleton.unapply(outer) !== undefined;
+			const rewritten = this.maybeImport(scope, tr.typeName, inSingleton);
+			return rewritten === undefined ? tr : { ...tr, typeName: rewritten };
+		};
+	}
+
+	leaveExprTree(scope: TreeScope): (s: ExprTree) => ExprTree {
+		return (s) => {
+			if (s._tag !== "Ref") return s;
+			const rewritten = this.maybeImport(scope, s.value, true);
+			return rewritten === undefined ? s : { ...s, value: rewritten };
+		};
+	}
+
+	private maybeImport(
+		scope: TreeScope,
+		longName: QualifiedName,
+		methodsAreConflict: boolean,
+	): QualifiedName | undefined {
+		const shortName = longName.parts.last;
+
+		if (
+			[...Name.Internal].some((n) => n.equals(shortName)) ||
+			longName.parts.head === Name.THIS ||
+			longName.parts.head === Name.SUPER ||
+			Forbidden.some((n) => n.equals(shortName)) ||
+			this.owner.name.equals(shortName) ||
+			longName.parts.length <= 1 ||
+			/* the printer has special logic for these */
+			longName.equals(TypeRef.Nothing.typeName) ||
+			TypeRef.isScalaFunction(longName) ||
+			longName.startsWith(QualifiedName.scala_js) ||
+			/* keep more expensive check last */
+			nameCollision(scope, this.parentsResolver, longName, methodsAreConflict)
+		) {
+			return undefined;
+		}
+
+		const short = new QualifiedName(IArray.apply(shortName));
+		const alreadyImported = this.collectedImports.get(shortName.unescaped);
+		if (alreadyImported !== undefined) {
+			return alreadyImported.equals(longName) ? short : undefined;
+		}
+		if (!inScope(scope, longName)) {
+			this.collectedImports.set(shortName.unescaped, longName);
+		}
+		return short;
+	}
+}
+
+export const ShortenNames = {
+	apply:
+		(
+			owner: ContainerTree,
+			scope: TreeScope,
+			parentsResolver: ParentsResolver,
+		) =>
+		(members: IArray<Tree>): [IArray<ImportTree>, IArray<Tree>] => {
+			const v = new Shortener(owner, parentsResolver);
+			const newMembers = members.map(v.visitTree(scope));
+
+			const imports = IArray.fromArray(Array.from(v.collectedImports.values()))
+				.filter(keepImport)
+				.sortBy((qn) => qn.value)
+				.map((imported): ImportTree => ({ imported }));
+
+			return [imports, newMembers];
+		},
+};
@@ -0,0 +1,142 @@
+/**
+ * TypeScript port of org.scalablytyped.converter.internal.scalajs.transforms.Sorter
+ *
+ * Earlier phases build members through maps and sets, so their order depends on insertion order. This gives all
+ * members a stable order, so regenerating a library doesn't produce noisy diffs.
+ */
+
+import { FutureOps, ManglerWasJsNative } from "../../Comment.js";
+import type { Comments } from "../../Comments.js";
+import { IArray, type Ordering, partialFunction } from "../../IArray.js";
+import { Annotation, type AnnotationUnion } from "../Annotation.js";
+import { Name } from "../Name.js";
+import { debugPrinter } from "../Printer.js";
+import {
+	type ClassTree,
+	isClassTree,
+	isContainerTree,
+	isCtorTree,
+	isMemberTree,
+	isMethodTree,
+	type ModuleTree,
+	type PackageTree,
+	type ParamTree,
+	type Tree,
+} from "../Tree.js";
+import type { TreeScope } from "../TreeScope.js";
+import { TreeTransformation } from "../TreeTransformation.js";
+
+/* like java's `String.compareTo`, compares UTF-16 code units so the result doesn't depend on the locale */
+const compareStrings = (x: string, y: string): number =>
+	x < y ? -1 : x > y ? 1 : 0;
+
+const formatParams = (params: IArray<ParamTree>): string =>
+	params
+		.map((p) => p.name.unescaped + debugPrinter.formatQN(p.tpe.typeName))
+		.mkString("", "", "");
+
+function hasNativeLocation(t: Tree): boolean {
+	const has = (anns: IArray<AnnotationUnion>): boolean =>
+		anns.exists(Annotation.isLocationAnnotation);
+
+	const had = (comments: Comments): boolean => comments.has(ManglerWasJsNative);
+
+	if (isContainerTree(t)) {
+		return (
+			has(t.annotations) ||
+			t.members.exists(hasNativeLocation) ||
+			had(t.comments)
+		);
+	}
+	if (isClassTree(t) || isMemberTree(t)) {
+		return has(t.annotations) || had(t.comments);
+	}
+	return false;
+}
+
+const Unnamed: ReadonlySet<string> = new Set([
+	Name.Default.unescaped,
+	Name.namespaced.unescaped,
+	Name.APPLY.unescaped,
+]);
+
+export const TreeOrdering: Ordering<Tree> = {
+	compare(x: Tree, y: Tree): number {
+		if (isMethodTree(x) && isMethodTree(y)) {
+			return (
+				compareStrings(x.name.unescaped, y.name.unescaped) ||
+				x.tparams.length - y.tparams.length ||
+				x.params.length - y.params.length ||
+				// well, the rest was fast enough, so... :)
+				compareStrings(
+					formatParams(x.params.flatten()),
+					formatParams(y.params.flatten()),
+				)
+			);
+		}
+		if (isCtorTree(x) && isCtorTree(y)) {
+			return (
+				x.params.length - y.params.length ||
+				compareStrings(formatParams(x.params), formatParams(y.params))
+			);
+		}
+		return (
+			compareStrings(x.name.unescaped, y.name.unescaped) ||
+			compareStrings(x._tag, y._tag)
+		);
+	},
+};
+
+export class Sorter extends TreeTransformation {
+	leaveClassTree(_scope: TreeScope): (s: ClassTree) => ClassTree {
+		return (s) => ({
+			...s,
+			members: Sorter.sorted(s.members),
+			ctors: Sorter.sorted(s.ctors),
+		});
+	}
+
+	leaveModuleTree(_scope: TreeScope): (s: ModuleTree) => ModuleTree {
+		return (s) => ({ ...s, members: Sorter.sorted(s.members) });
+	}
+
+	leavePackageTree(_scope: TreeScope): (s: PackageTree) => PackageTree {
+		return (s) => ({ ...s, members: Sorter.sorted(s.members) });
+	}
+
+	static sorted<T extends Tree>(all: IArray<T>): IArray<T> {
+		// the `Future` variants from `GenPromiseOps` go after everything else
+		const [futureOps, members] = all.partition(
+			(x) => isClassTree(x) && x.comments.has(FutureOps),
+		);
+
+		const nativeValueNamesOrCompanion = new Set(
+			members
+				.filter(hasNativeLocation)
+				.map((t) => t.name.unescaped)
+				.toArray(),
+		);
+
+		const [_1, _2, _3] = members.partitionCollect2(
+			partialFunction(
+				(x: T) => Unnamed.has(x.name.unescaped),
+				(x) => x,
+			),
+			// getters and setters should be next to each other
+			partialFunction(
+				(x: T) =>
+					nativeValueNamesOrCompanion.has(x.name.unescaped.replace("_=", "")),
+				(x) => x,
+			),
+		);
+
+		return IArray.apply(_1, _2, _3, futureOps).flatMap((xs) =>
+			xs.sorted(TreeOrdering.compare),
+		);
+	}
+}
+
+/**
+ * Singleton instance of Sorter, equivalent to the Scala object
+ */
+export const SorterTransform = new Sorter();
@@ -0,0 +1,415 @@
+/**
+ * TypeScript port of org.scalablytyped.converter.internal.scalajs.transforms.UnionToInheritance
+ *
+ * Inheritance works better than the userland union types, so we rewrite the latter to the former:
+ *
+ * ```scala
+ * package thisLib {
+ *   trait Foo
+ *   trait Bar
+ *   type A = thisLib.Foo | thisLib.Bar
+ * }
+ *
+ * // ->
+ *
+ * package thisLib {
+ *   trait A
+ *   trait Foo extends thisLib.A
+ *   trait Bar extends thisLib.A
+ * }
+ * ```
+ *
+ * There is also a somewhat more complicated case where some types cannot be rewritten:
+ * ```scala
+ * package otherLib {
+ *   trait FooBar
+ * }
+ * package thisLib {
+ *   trait Foo
+ *   trait Bar
+ *   trait WithTypeParams[T]
+ *   type A[T] = thisLib.Foo | thisLib.Bar | thisLib.WithTypeParams[T] | otherLib.FooBar
+ * }
+ *
+ * // ->
+ *
+ * package thisLib {
+ *   trait _A
+ *   trait Foo extends thisLib._A
+ *   trait Bar extends thisLib._A
+ *   trait WithTypeParams[T]
+ *   type A[T] = _A | WithTypeParams[T] | otherLib.FooBar
+ * }
+ * ```
+ *
+ * And finally, an even more complicated case where we invert type parameters, barring quite a few restrictions to
+ * (hopefully) keep the transformations sound:
+ *
+ * ```typescript
+ * interface Either<L, R> {
+ *     value: R
+ * }
+ * type Foo<T1, T2, T3> = "foo" | Either<T2, T3>
+ * ```
+ *
+ * We turn this into
+ * ```scala
+ * trait Foo[T1, T2, T3] extends js.Object
+ *
+ * trait Either[L, R]
+ *   extends Foo[js.Any, L, R] {
+ *   var value: R
+ * }
+ *
+ * sealed trait foo with Foo[js.Any, js.Any, js.Any]
+ * ```
+ */
+
+import { none, type Option, some } from "fp-ts/Option";
+import { Comment, MinimizationRelated, WasUnion } from "../../Comment.js";
+import { Comments } from "../../Comments.js";
+import { IArray, partialFunction } from "../../IArray.js";
+import { Annotation, type AnnotationUnion } from "../Annotation.js";
+import { Name } from "../Name.js";
+import { debugPrinter } from "../Printer.js";
+import { QualifiedName } from "../QualifiedName.js";
+import {
+	ClassTree,
+	ClassType,
+	type ContainerTree,
+	isClassTree,
+	isContainerTree,
+	isPackageTree,
+	isTypeAliasTree,
+	membersByName,
+	type Tree,
+	type TypeAliasTree,
+	TypeParamTree,
+	TypeRef,
+} from "../Tree.js";
+import type { TreeScope } from "../TreeScope.js";
+
+export class Rewrite {
+	constructor(
+		readonly original: TypeAliasTree,
+		readonly asInheritance: IArray<TypeRef>,
+		readonly unchanged: IArray<TypeRef>,
+	) {}
+}
+
+export class InvertingTypeParamRef {
+	constructor(
+		readonly codePath: QualifiedName,
+		readonly tParamRefs: IArray<[TypeParamTree, number | undefined]>,
+	) {}
+
+	instantiate(tparams: IArray<TypeParamTree>): TypeRef {
+		return TypeRef.create(
+			this.codePath,
+			this.tParamRefs.map(([, idx]) =>
+				idx === undefined
+					? TypeRef.Any
+					: TypeRef.fromName(tparams.apply(idx).name),
+			),
+			Comments.empty(),
+		);
+	}
+}
+
+const distinctTypeRefs = (types: IArray<TypeRef>): IArray<TypeRef> =>
+	types.foldLeft<IArray<TypeRef>>(IArray.Empty, (acc, t) =>
+		acc.exists((existing) => TypeRef.equals(existing, t)) ? acc : acc.append(t),
+	);
+
+const patchCodePath = (ta: TypeAliasTree): TypeAliasTree => {
+	const newName = new Name(`_${ta.name.unescaped}`);
+	return {
+		...ta,
+		name: newName,
+		codePath: new QualifiedName(ta.codePath.parts.init.append(newName)),
+	};
+};
+
+function canRewrite(
+	inLib: Name,
+	ta: TypeAliasTree,
+	scope: TreeScope,
+): Option<Rewrite> {
+	const union = TypeRef.Union.unapply(ta.alias);
+	if (union === undefined) return none;
+	const [types] = union;
+
+	const legalTarget = (tr: TypeRef): boolean =>
+		scope
+			.lookup(tr.typeName)
+			.exists(
+				([found]) =>
+					isClassTree(found) ||
+					(isTypeAliasTree(found) &&
+						canRewrite(inLib, found, scope)._tag === "Some"),
+			);
+
+	const InLibrary = partialFunction(
+		(tr: TypeRef) =>
+			tr.typeName.parts.length > 2 &&
+			tr.typeName.parts.apply(1).equals(inLib) &&
+			legalTarget(tr),
+		(tr) => tr,
+	);
+
+	const HasIllegalTypeParams = partialFunction(
+		(tr: TypeRef) =>
+			tr.targs.exists((x) => !scope.isAbstract(x)) ||
+			distinctTypeRefs(tr.targs).length !== tr.targs.length,
+		(tr) => tr,
+	);
+
+	const [illegalTParams, inLibrary, outsideLib] = types.partitionCollect2(
+		HasIllegalTypeParams,
+		InLibrary,
+	);
+
+	return inLibrary.length <= 1
+		? none
+		: some(new Rewrite(ta, inLibrary, illegalTParams.concat(outsideLib)));
+}
+
+function includeUnchangeds(all: IArray<Rewrite>): IArray<Rewrite> {
+	const allIndexed = new Map<string, Rewrite>();
+	all.forEach((r) => {
+		if (!allIndexed.has(r.original.codePath.value)) {
+			allIndexed.set(r.original.codePath.value, r);
+		}
+	});
+
+	const go = (name: QualifiedName): IArray<TypeRef> => {
+		const found = allIndexed.get(name.value);
+		return found === undefined
+			? IArray.Empty
+			: found.unchanged.concat(
+					found.asInheritance.flatMap((u) => go(u.typeName)),
+				);
+	};
+
+	return all.map(
+		(r) =>
+			new Rewrite(
+				r.original,
+				r.asInheritance,
+				r.unchanged.concat(
+					distinctTypeRefs(r.asInheritance.flatMap((u) => go(u.typeName))),
+				),
+			),
+	);
+}
+
+function identify(
+	inLib: Name,
+	p: ContainerTree,
+	scope: TreeScope,
+): IArray<Rewrite> {
+	const index = membersByName(p);
+	const legalClassName = (name: Name): boolean =>
+		(index.get(name.unescaped) ?? IArray.Empty).forall(
+			(x) => !isPackageTree(x),
+		);
+
+	const all = p.members.flatMap((x): IArray<Rewrite> => {
+		if (isContainerTree(x)) return identify(inLib, x, scope["/"](x));
+		if (isTypeAliasTree(x) && legalClassName(x.name)) {
+			const rewrite = canRewrite(inLib, x, scope["/"](x));
+			return rewrite._tag === "Some"
+				? IArray.apply(rewrite.value)
+				: IArray.Empty;
+		}
+		return IArray.Empty;
+	});
+
+	return includeUnchangeds(all);
+}
+
+function invertingTypeParamRefs(
+	r: Rewrite,
+): IArray<[QualifiedName, InvertingTypeParamRef]> {
+	const parentType = r.unchanged.isEmpty
+		? r.original
+		: patchCodePath(r.original);
+
+	return r.asInheritance.map(
+		(newParent): [QualifiedName, InvertingTypeParamRef] => {
+			const tParamReferencedAt = parentType.tparams.map(
+				(tparam): [TypeParamTree, number | undefined] => {
+					const idx = newParent.targs.indexWhere((x) =>
+						x.typeName.parts.last.equals(tparam.name),
+					);
+					return [tparam, idx === -1 ? undefined : idx];
+				},
+			);
+			return [
+				newParent.typeName,
+				new InvertingTypeParamRef(parentType.codePath, tParamReferencedAt),
+			];
+		},
+	);
+}
+
+function typesToInterfaces(
+	c: ContainerTree,
+	indexedRewrites: Map<string, Rewrite>,
+	newParentsByCodePath: Map<string, IArray<InvertingTypeParamRef>>,
+): ContainerTree {
+	const newMembers = c.members.flatMap((member): IArray<Tree> => {
+		if (isContainerTree(member)) {
+			return IArray.apply<Tree>(
+				typesToInterfaces(member, indexedRewrites, newParentsByCodePath),
+			);
+		}
+
+		const rewrite = isTypeAliasTree(member)
+			? indexedRewrites.get(member.codePath.value)
+			: undefined;
+		if (!isTypeAliasTree(member) || rewrite === undefined) {
+			return IArray.apply(member);
+		}
+
+		const ta = member;
+		const related = rewrite.asInheritance;
+		const union = TypeRef.Union.unapply(ta.alias);
+		const commentsOpt: Option<Comments> =
+			union === undefined
+				? none
+				: some(
+						union[1].add(
+							Comment.create(
+								`/* Rewritten from type alias, can be one of: \n${union[0]
+									.map(debugPrinter.formatTypeRef(0))
+									.map((s) => `  - ${s}`)
+									.mkString("", "\n", "")}\n*/\n`,
+							),
+						),
+					);
+
+		if (rewrite.unchanged.isEmpty) {
+			const cls = ClassTree.create(
+				false,
+				IArray.apply<AnnotationUnion>(Annotation.ScalaJSDefined),
+				ta.level,
+				ta.name,
+				ta.tparams,
+				IArray.Empty,
+				IArray.Empty,
+				IArray.Empty,
+				ClassType.Trait,
+				false,
+				ta.comments
+					.concatOption(commentsOpt)
+					.add(new MinimizationRelated(related))
+					.add(new WasUnion(related)),
+				ta.codePath,
+			);
+			return IArray.apply<Tree>(cls);
+		}
+
+		const patchedTa = patchCodePath(ta);
+		const cls = ClassTree.create(
+			false,
+			IArray.apply<AnnotationUnion>(Annotation.ScalaJSDefined),
+			ta.level,
+			patchedTa.name,
+			ta.tparams,
+			(newParentsByCodePath.get(ta.codePath.value) ?? IArray.Empty).map((p) =>
+				p.instantiate(ta.tparams),
+			),
+			IArray.Empty,
+			IArray.Empty,
+			ClassType.Trait,
+			false,
+			Comments.apply([new MinimizationRelated(related), new WasUnion(related)]),
+			patchedTa.codePath,
+		);
+		const newTa: TypeAliasTree = {
+			...ta,
+			alias: TypeRef.Union(
+				rewrite.unchanged.prepend(
+					TypeRef.create(
+						patchedTa.codePath,
+						TypeParamTree.asTypeArgs(patchedTa.tparams),
+						Comments.empty(),
+					),
+				),
+				Comments.empty(),
+				false,
+			),
+			comments: ta.comments.concatOption(commentsOpt),
+		};
+		return IArray.apply<Tree>(cls, newTa);
+	});
+
+	return c.withMembers(newMembers);
+}
+
+function addedInheritance(
+	c: ContainerTree,
+	newParentsByCodePath: Map<string, IArray<InvertingTypeParamRef>>,
+): ContainerTree {
+	return c.withMembers(
+		c.members.map((member): Tree => {
+			if (isContainerTree(member)) {
+				return addedInheritance(member, newParentsByCodePath);
+			}
+			if (isClassTree(member)) {
+				const newParents = newParentsByCodePath.get(member.codePath.value);
+				if (newParents === undefined) return member;
+				const withParents: ClassTree = {
+					...member,
+					parents: member.parents.concat(
+						newParents.map((p) => p.instantiate(member.tparams)),
+					),
+				};
+				return withParents;
+			}
+			return member;
+		}),
+	);
+}
+
+export const UnionToInheritance = {
+	apply: (
+		scope: TreeScope,
+		tree: ContainerTree,
+		inLib: Name,
+	): ContainerTree => {
+		const rewrites = identify(inLib, tree, scope["/"](tree));
+
+		const newParentsByCodePath = new Map<
+			string,
+			IArray<InvertingTypeParamRef>
+		>();
+		rewrites
+			.flatMap(invertingTypeParamRefs)
+			.groupBy(([codePath]) => codePath.value)
+			.forEach((refs, codePath) =>
+				newParentsByCodePath.set(
+					codePath,
+					refs
+						.map(([, ref]) => ref)
+						.sortBy((ref) => ref.codePath.parts.last.unescaped),
+				),
+			);
+
+		const indexedRewrites = new Map<string, Rewrite>();
+		rewrites.forEach((r) => {
+			if (!indexedRewrites.has(r.original.codePath.value)) {
+				indexedRewrites.set(r.original.codePath.value, r);
+			}
+		});
+
+		const withRewrittenTypes = typesToInterfaces(
+			tree,
+			indexedRewrites,
+			newParentsByCodePath,
+		);
+
+		return addedInheritance(withRewrittenTypes, newParentsByCodePath);
+	},
+};
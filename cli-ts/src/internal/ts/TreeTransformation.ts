@@ -660,7 +660,8 @@ export abstract class AbstractTreeTransformation<T>
 	}
 
 	visitTsContainer(t: T): (x: TsContainer) => TsContainer {
-		return (x: TsContainer) => {
+		return (_x: TsContainer) => {
+			const x = this.enterTsContainer(this.withTree(t, _x))(_x);
 			// Dispatch to specific container visit methods
 			switch (x._tag) {
 				case "TsGlobal":
@@ -672,13 +673,14 @@ export abstract class AbstractTreeTransformation<T>
 				case "TsDeclModule":
 					return this.visitTsDeclModule(t)(x as TsDeclModule) as TsContainer;
 				default:
-					return this.enterTsContainer(t)(x);
+					return x;
 			}
 		};
 	}
 
 	visitTsDecl(t: T): (x: TsDecl) => TsDecl {
-		return (x: TsDecl) => {
+		return (_x: TsDecl) => {
+			const x = this.enterTsDecl(this.withTree(t, _x))(_x);
 			// Dispatch to specific declaration visit methods
 			switch (x._tag) {
 				case "TsDeclClass":
@@ -693,8 +695,10 @@ export abstract class AbstractTreeTransformation<T>
 					return this.visitTsDeclTypeAlias(t)(x as TsDeclTypeAlias) as TsDecl;
 				case "TsDeclEnum":
 					return this.visitTsDeclEnum(t)(x as TsDeclEnum) as TsDecl;
+				case "TsExport":
+					return this.visitTsExport(t)(x as TsExport) as TsDecl;
 				default:
-					return this.enterTsDecl(t)(x);
+					return x;
 			}
 		};
 	}
@@ -1030,14 +1034,20 @@ export abstract class AbstractTreeTransformation<T>
 	visitTsExporteeTree(t: T): (x: TsExporteeTree) => TsExporteeTree {
 		return (x: TsExporteeTree) => {
 			const entered = this.enterTsExporteeTree(t)(x);
-			return entered;
+			const tt = this.withTree(t, entered);
+			const decl = this.visitTsContainerOrDecl(tt)(entered.decl) as TsDecl;
+			return decl === entered.decl ? entered : { ...entered, decl };
 		};
 	}
 
 	visitTsExport(t: T): (x: TsExport) => TsExport {
 		return (x: TsExport) => {
 			const entered = this.enterTsExport(t)(x);
-			return entered;
+			const tt = this.withTree(t, entered);
+			const exported = this.visitTsExportee(tt)(entered.exported);
+			return exported === entered.exported
+				? entered
+				: { ...entered, exported };
 		};
 	}
 
@@ -1702,7 +1712,7 @@ export abstract class AbstractTreeTransformation<T>
 		// Only create new object if members changed
 		return newMembers === ns.members
 			? ns
-			: { ...ns, members: newMembers };
+			: ns.withMembers(newMembers);
 	}
 
 	protected processModuleRecursively(t: T, mod: TsDeclModule): TsDeclModule {
@@ -1723,7 +1733,7 @@ export abstract class AbstractTreeTransformation<T>
 		// Only create new object if members changed
 		return newMembers === mod.members
 			? mod
-			: { ...mod, members: newMembers };
+			: mod.withMembers(newMembers);
 	}
 
 	protected processVarRecursively(t: T, varDecl: TsDeclVar): TsDeclVar {
@@ -1818,7 +1828,7 @@ export abstract class AbstractTreeTransformation<T>
 		// Only create new object if members changed
 		return newMembers === global.members
 			? global
-			: { ...global, members: newMembers };
+			: global.withMembers(newMembers);
 	}
 }
 
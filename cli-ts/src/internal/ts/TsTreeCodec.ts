@@ -0,0 +1,470 @@
+/**
+ * Serialisation of parsed typescript trees, used to cache parser output on disk.
+ *
+ * The Scala implementation relies on java serialisation for this. Our trees carry closures
+ * and memoised member caches, so instead we write out the constructor arguments of each node
+ * and rebuild it through its factory when reading it back.
+ */
+
+import { isSome, none, type Option, some } from "fp-ts/Option";
+import { CommentDecoder, CommentEncoder } from "../Comment.js";
+import { Comments } from "../Comments.js";
+import { IArray } from "../IArray.js";
+import { CodePath } from "./CodePath.js";
+import { Directive } from "./Directive.js";
+import { ExportType } from "./ExportType.js";
+import { JsLocation } from "./JsLocation.js";
+import { MethodType } from "./MethodType.js";
+import { ModuleSpec } from "./ModuleSpec.js";
+import { OptionalModifier } from "./OptionalModifier.js";
+import { ReadonlyModifier } from "./ReadonlyModifier.js";
+import { TsProtectionLevel } from "./TsProtectionLevel.js";
+import {
+	IndexingDict,
+	IndexingSingle,
+	TsAugmentedModule,
+	TsDeclClass,
+	TsDeclEnum,
+	TsDeclFunction,
+	TsDeclInterface,
+	TsDeclModule,
+	TsDeclNamespace,
+	TsDeclTypeAlias,
+	TsDeclVar,
+	TsEnumMember,
+	TsExport,
+	TsExportAsNamespace,
+	TsExporteeNames,
+	TsExporteeStar,
+	TsExporteeTree,
+	TsExprArrayOf,
+	TsExprBinaryOp,
+	TsExprCall,
+	TsExprCast,
+	TsExprLiteral,
+	TsExprRef,
+	TsExprUnary,
+	TsFunParam,
+	TsFunSig,
+	TsGlobal,
+	TsIdent,
+	TsImport,
+	TsImportedDestructured,
+	TsImportedIdent,
+	TsImportedStar,
+	TsImporteeFrom,
+	TsImporteeLocal,
+	TsImporteeRequired,
+	TsLiteral,
+	TsMemberCall,
+	TsMemberCtor,
+	TsMemberFunction,
+	TsMemberIndex,
+	TsMemberProperty,
+	TsMemberTypeMapped,
+	TsParsedFile,
+	TsQIdent,
+	TsTemplatePartLiteral,
+	TsTemplatePartType,
+	TsTupleElement,
+	TsTypeAsserts,
+	TsTypeConditional,
+	TsTypeConstructor,
+	TsTypeExtends,
+	TsTypeFunction,
+	TsTypeInfer,
+	TsTypeIntersect,
+	TsTypeIs,
+	TsTypeKeyOf,
+	TsTypeLiteral,
+	TsTypeLookup,
+	TsTypeObject,
+	TsTypeParam,
+	TsTypeQuery,
+	TsTypeRef,
+	TsTypeRepeated,
+	TsTypeTemplateLiteral,
+	TsTypeThis,
+	TsTypeTuple,
+	TsTypeUnion,
+} from "./trees.js";
+
+/**
+ * Bumped whenever the encoded form changes, so stale cache entries are not read back
+ */
+export const TsTreeCodecVersion = 1;
+
+/**
+ * How to take apart and rebuild one kind of node: `fields` lists the properties in the order
+ * the factory takes them.
+ */
+interface NodeCodec {
+	readonly fields: readonly string[];
+	readonly create: (...args: any[]) => unknown;
+}
+
+const node = (
+	create: (...args: any[]) => unknown,
+	...fields: string[]
+): NodeCodec => ({ fields, create });
+
+/**
+ * Every tagged value which can appear in a parsed file.
+ *
+ * `ExportType` and `ModuleSpec` share the tags `Defaulted` and `Namespaced`, as do
+ * `ReadonlyModifier` and `OptionalModifier` for `Noop`. The values are structurally identical,
+ * so one entry serves both.
+ */
+const nodes: Record<string, NodeCodec> = {
+	// containers
+	TsParsedFile: node(
+		TsParsedFile.create,
+		"comments",
+		"directives",
+		"members",
+		"codePath",
+	),
+	TsDeclNamespace: node(
+		TsDeclNamespace.create,
+		"comments",
+		"declared",
+		"name",
+		"members",
+		"codePath",
+		"jsLocation",
+	),
+	TsDeclModule: node(
+		TsDeclModule.create,
+		"comments",
+		"declared",
+		"name",
+		"members",
+		"codePath",
+		"jsLocation",
+		"augmentedModules",
+	),
+	TsAugmentedModule: node(
+		TsAugmentedModule.create,
+		"comments",
+		"name",
+		"members",
+		"codePath",
+		"jsLocation",
+	),
+	TsGlobal: node(
+		TsGlobal.create,
+		"comments",
+		"declared",
+		"members",
+		"codePath",
+	),
+
+	// declarations
+	TsDeclClass: node(
+		TsDeclClass.create,
+		"comments",
+		"declared",
+		"isAbstract",
+		"name",
+		"tparams",
+		"parent",
+		"implementsInterfaces",
+		"members",
+		"jsLocation",
+		"codePath",
+	),
+	TsDeclInterface: node(
+		TsDeclInterface.create,
+		"comments",
+		"declared",
+		"name",
+		"tparams",
+		"inheritance",
+		"members",
+		"codePath",
+	),
+	TsDeclEnum: node(
+		TsDeclEnum.create,
+		"comments",
+		"declared",
+		"isConst",
+		"name",
+		"members",
+		"isValue",
+		"exportedFrom",
+		"jsLocation",
+		"codePath",
+	),
+	TsDeclVar: node(
+		TsDeclVar.create,
+		"comments",
+		"declared",
+		"readOnly",
+		"name",
+		"tpe",
+		"expr",
+		"jsLocation",
+		"codePath",
+	),
+	TsDeclFunction: node(
+		TsDeclFunction.create,
+		"comments",
+		"declared",
+		"name",
+		"signature",
+		"jsLocation",
+		"codePath",
+	),
+	TsDeclTypeAlias: node(
+		TsDeclTypeAlias.create,
+		"comments",
+		"declared",
+		"name",
+		"tparams",
+		"alias",
+		"codePath",
+	),
+	TsEnumMember: node(TsEnumMember.create, "comments", "name", "expr"),
+	TsTypeParam: node(
+		TsTypeParam.create,
+		"comments",
+		"name",
+		"upperBound",
+		"default",
+	),
+	TsFunSig: node(
+		TsFunSig.create,
+		"comments",
+		"tparams",
+		"params",
+		"resultType",
+	),
+	TsFunParam: node(TsFunParam.create, "comments", "name", "tpe"),
+
+	// imports and exports
+	TsImport: node(TsImport.create, "typeOnly", "imported", "from"),
+	TsImportedIdent: node(TsImportedIdent.create, "ident"),
+	TsImportedDestructured: node(TsImportedDestructured.create, "idents"),
+	TsImportedStar: node(TsImportedStar.create, "asOpt"),
+	TsImporteeRequired: node(TsImporteeRequired.create, "from"),
+	TsImporteeFrom: node(TsImporteeFrom.create, "from"),
+	TsImporteeLocal: node(TsImporteeLocal.create, "qident"),
+	TsExport: node(TsExport.create, "comments", "typeOnly", "tpe", "exported"),
+	TsExporteeNames: node(TsExporteeNames.create, "idents", "fromOpt"),
+	TsExporteeTree: node(TsExporteeTree.create, "decl"),
+	TsExporteeStar: node(TsExporteeStar.create, "as", "from"),
+	TsExportAsNamespace: node(TsExportAsNamespace.create, "ident"),
+
+	// types
+	TsTypeRef: node(TsTypeRef.create, "comments", "name", "tparams"),
+	TsTypeLiteral: node(TsTypeLiteral.create, "literal"),
+	TsTypeObject: node(TsTypeObject.create, "comments", "members"),
+	TsTypeFunction: node(TsTypeFunction.create, "signature"),
+	TsTypeConstructor: node(TsTypeConstructor.create, "isAbstract", "signature"),
+	TsTypeIs: node(TsTypeIs.create, "ident", "tpe"),
+	TsTypeAsserts: node(TsTypeAsserts.create, "ident", "isOpt"),
+	TsTupleElement: node(TsTupleElement.create, "label", "tpe"),
+	TsTypeTuple: node(TsTypeTuple.create, "elems"),
+	TsTypeQuery: node(TsTypeQuery.create, "expr"),
+	TsTypeRepeated: node(TsTypeRepeated.create, "underlying"),
+	TsTypeKeyOf: node(TsTypeKeyOf.create, "key"),
+	TsTypeLookup: node(TsTypeLookup.create, "from", "key"),
+	TsTypeThis: node(TsTypeThis.create),
+	TsTypeIntersect: node(TsTypeIntersect.create, "types"),
+	TsTypeUnion: node(TsTypeUnion.create, "types"),
+	TsTypeConditional: node(
+		TsTypeConditional.create,
+		"pred",
+		"ifTrue",
+		"ifFalse",
+	),
+	TsTypeExtends: node(TsTypeExtends.create, "tpe", "extends"),
+	TsTypeInfer: node(TsTypeInfer.create, "tparam"),
+	TsTypeTemplateLiteral: node(TsTypeTemplateLiteral.create, "parts"),
+	TsTemplatePartLiteral: node(TsTemplatePartLiteral.create, "value"),
+	TsTemplatePartType: node(TsTemplatePartType.create, "tpe"),
+
+	// members
+	TsMemberCall: node(TsMemberCall.create, "comments", "level", "signature"),
+	TsMemberCtor: node(TsMemberCtor.create, "comments", "level", "signature"),
+	TsMemberFunction: node(
+		TsMemberFunction.create,
+		"comments",
+		"level",
+		"name",
+		"methodType",
+		"signature",
+		"isStatic",
+		"isReadOnly",
+	),
+	TsMemberIndex: node(
+		TsMemberIndex.create,
+		"comments",
+		"isReadOnly",
+		"level",
+		"indexing",
+		"valueType",
+	),
+	IndexingDict: node(IndexingDict.create, "name", "tpe"),
+	IndexingSingle: node(IndexingSingle.create, "name"),
+	TsMemberTypeMapped: node(
+		TsMemberTypeMapped.create,
+		"comments",
+		"level",
+		"readonly",
+		"key",
+		"from",
+		"as",
+		"optionalize",
+		"to",
+	),
+	TsMemberProperty: node(
+		TsMemberProperty.create,
+		"comments",
+		"level",
+		"name",
+		"tpe",
+		"expr",
+		"isStatic",
+		"isReadOnly",
+	),
+
+	// expressions
+	TsExprRef: node(TsExprRef.create, "value"),
+	TsExprLiteral: node(TsExprLiteral.create, "value"),
+	TsExprCall: node(TsExprCall.create, "function", "params"),
+	TsExprUnary: node(TsExprUnary.create, "op", "expr"),
+	TsExprBinaryOp: node(TsExprBinaryOp.create, "one", "op", "two"),
+	TsExprCast: node(TsExprCast.create, "expr", "tpe"),
+	TsExprArrayOf: node(TsExprArrayOf.create, "expr"),
+
+	// identifiers and literals
+	TsIdentSimple: node(TsIdent.simple, "value"),
+	TsIdentImport: node(TsIdent.import, "from"),
+	TsIdentModule: node(TsIdent.module, "scopeOpt", "fragments"),
+	TsIdentLibrarySimple: node(TsIdent.librarySimple, "value"),
+	TsIdentLibraryScoped: node(TsIdent.libraryScoped, "scope", "name"),
+	TsQIdent: node(
+		(parts: IArray<TsIdent>) => TsQIdent.of(...parts.toArray()),
+		"parts",
+	),
+	TsLiteralStr: node(TsLiteral.str, "value"),
+	TsLiteralNum: node(TsLiteral.num, "value"),
+	TsLiteralBool: node(
+		(value: string) => TsLiteral.bool(value === "true"),
+		"value",
+	),
+
+	// locations
+	NoPath: node(CodePath.noPath),
+	HasPath: node(CodePath.hasPath, "inLibrary", "codePathPart"),
+	Zero: node(JsLocation.zero),
+	Global: node(JsLocation.global, "jsPath"),
+	Module: node(JsLocation.module, "module", "spec"),
+	Both: node(JsLocation.both, "module", "global"),
+	Defaulted: node(ModuleSpec.defaulted),
+	Namespaced: node(ModuleSpec.namespaced),
+	Specified: node(ModuleSpec.specified, "tsIdents"),
+
+	// directives
+	NoStdLib: node(Directive.noStdLib),
+	PathRef: node(Directive.pathRef, "stringPath"),
+	TypesRef: node(Directive.typesRef, "stringPath"),
+	LibRef: node(Directive.libRef, "stringPath"),
+	AmdModule: node(Directive.amdModule, "stringPath"),
+
+	// modifiers
+	Named: node(ExportType.named),
+	Default: node(TsProtectionLevel.default),
+	Private: node(TsProtectionLevel.private),
+	Protected: node(TsProtectionLevel.protected),
+	Normal: node(MethodType.normal),
+	Getter: node(MethodType.getter),
+	Setter: node(MethodType.setter),
+	Noop: node(ReadonlyModifier.noop),
+	Yes: node(ReadonlyModifier.yes),
+	No: node(ReadonlyModifier.no),
+	Optionalize: node(OptionalModifier.optionalize),
+	Deoptionalize: node(OptionalModifier.deoptionalize),
+};
+
+const isOption = (value: any): value is Option<unknown> =>
+	(value._tag === "None" && Object.keys(value).length === 1) ||
+	(value._tag === "Some" &&
+		Object.keys(value).length === 2 &&
+		"value" in value);
+
+const encodeValue = (value: any): any => {
+	if (value === null || typeof value !== "object") {
+		return value;
+	} else if (Array.isArray(value)) {
+		return value.map(encodeValue);
+	} else if (value instanceof IArray) {
+		return { $: "IArray", items: value.toArray().map(encodeValue) };
+	} else if (value instanceof Comments) {
+		return { $: "Comments", items: value.cs.map(CommentEncoder.encode) };
+	} else if (isOption(value)) {
+		return isSome(value)
+			? { $: "Some", value: encodeValue(value.value) }
+			: { $: "None" };
+	}
+
+	const codec = nodes[value._tag];
+	if (codec === undefined) {
+		throw new Error(`Cannot encode ${value._tag ?? typeof value}`);
+	}
+	const encoded: Record<string, any> = { _tag: value._tag };
+	for (const field of codec.fields) {
+		encoded[field] = encodeValue(value[field]);
+	}
+	return encoded;
+};
+
+const decodeValue = (data: any): any => {
+	if (data === null || typeof data !== "object") {
+		return data;
+	} else if (Array.isArray(data)) {
+		return data.map(decodeValue);
+	}
+
+	switch (data.$) {
+		case "IArray":
+			return IArray.fromArray(data.items.map(decodeValue));
+		case "Comments":
+			return Comments.apply(data.items.map(CommentDecoder.decode));
+		case "Some":
+			return some(decodeValue(data.value));
+		case "None":
+			return none;
+	}
+
+	const codec = nodes[data._tag];
+	if (codec === undefined) {
+		throw new Error(`Cannot decode ${data._tag}`);
+	}
+	return codec.create(...codec.fields.map((field) => decodeValue(data[field])));
+};
+
+/**
+ * Encoder for parsed files, the result can be written with `JSON.stringify`
+ */
+export const TsParsedFileEncoder = {
+	encode: (file: TsParsedFile): any => ({
+		version: TsTreeCodecVersion,
+		file: encodeValue(file),
+	}),
+};
+
+/**
+ * Decoder for parsed files, throws if the data was written by another version of the codec
+ */
+export const TsParsedFileDecoder = {
+	decode: (data: any): TsParsedFile => {
+		if (data?.version !== TsTreeCodecVersion) {
+			throw new Error(
+				`Expected version ${TsTreeCodecVersion} of encoded trees, got ${data?.version}`,
+			);
+		}
+		return decodeValue(data.file) as TsParsedFile;
+	},
+};
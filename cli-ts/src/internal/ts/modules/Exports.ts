@@ -15,6 +15,7 @@ import { JsLocation } from "../JsLocation.js";
 import { ModuleSpec } from "../ModuleSpec.js";
 import { Picker } from "../Picker.js";
 import type { LoopDetector, TsTreeScope } from "../TsTreeScope.js";
+import { SetCodePathTransform } from "../transforms/SetCodePath.js";
 import {
 	TsDeclNamespace,
 	type TsDeclNamespaceOrModule,
@@ -142,14 +143,10 @@ export const Exports = {
 			ret = IArray.Empty;
 		}
 
-		// Apply code path transformation
-		const ret2 = ret.map((decl) => {
-			// Apply SetCodePath transformation to each declaration
-			if (hasCodePath(decl)) {
-				return decl.withCodePath(codePath) as TsNamedDecl;
-			}
-			return decl;
-		});
+		// Each declaration (and everything inside it) now lives under the owner
+		const ret2 = ret.map(
+			(decl) => SetCodePathTransform.visitTsDecl(codePath)(decl) as TsNamedDecl,
+		);
 
 		// Cache the result if non-empty
 		if (isSome(scope.root.cache) && ret2.length > 0) {
@@ -251,22 +248,6 @@ function isNamedDecl(tree: any): tree is TsNamedDecl {
 	return tree && typeof tree === "object" && "name" in tree && "_tag" in tree;
 }
 
-/**
- * Type guard to check if an object implements HasCodePath.
- * An object implements HasCodePath if it has both codePath property and withCodePath method.
- */
-function hasCodePath(
-	obj: any,
-): obj is { withCodePath(newCodePath: CodePathHasPath): any } {
-	return (
-		obj != null &&
-		typeof obj === "object" &&
-		"codePath" in obj &&
-		"withCodePath" in obj &&
-		typeof obj.withCodePath === "function"
-	);
-}
-
 /**
  * Type guard to check if a scope is a scoped scope
  */
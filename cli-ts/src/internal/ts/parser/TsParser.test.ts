@@ -8,6 +8,10 @@
  */
 
 import { describe, expect, test } from "bun:test";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { InFile } from "../../files.js";
 import type {
 	TsContainerOrDecl,
 	TsDeclInterface,
@@ -21,7 +25,7 @@ import {
 	TestDataGenerator,
 	TestRunner,
 } from "./TestUtils.js";
-import { parseString } from "./TsParser.js";
+import { parseFile, parseString } from "./TsParser.js";
 
 /**
  * Helper function to parse TypeScript code and extract declarations
@@ -284,6 +288,35 @@ describe("TsParser", () => {
 		});
 	});
 
+	describe("Parsing Files", () => {
+		const withFile = <T>(content: string, f: (file: InFile) => T): T => {
+			const dir = fs.mkdtempSync(path.join(os.tmpdir(), "ts-parser-"));
+			try {
+				const filePath = path.join(dir, "index.d.ts");
+				fs.writeFileSync(filePath, content);
+				return f(new InFile(filePath));
+			} finally {
+				fs.rmSync(dir, { recursive: true, force: true });
+			}
+		};
+
+		test("should parse a file from disk", () => {
+			const result = withFile(
+				"\uFEFFexport declare const x: number;\r\n",
+				parseFile,
+			);
+			expect(result._tag).toBe("Right");
+			if (result._tag === "Right") {
+				expect(result.value.members.length).toBe(1);
+			}
+		});
+
+		test("should report parse errors", () => {
+			const result = withFile("interface {", parseFile);
+			expect(result._tag).toBe("Left");
+		});
+	});
+
 	// Systematic test generation using TestUtils
 	describe("Generated Test Cases", () => {
 		describe("Interface Declarations", () => {
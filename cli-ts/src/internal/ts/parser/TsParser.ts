@@ -15,6 +15,7 @@ import { none, type Option, some } from "fp-ts/Option";
 import * as ts from "typescript";
 import { Raw } from "../../Comment.js";
 import { Comments } from "../../Comments.js";
+import { filesSync, type InFile } from "../../files.js";
 import { IArray } from "../../IArray.js";
 import { CodePath } from "../CodePath.js";
 import { Directive } from "../Directive.js";
@@ -23,7 +24,9 @@ import { JsLocation } from "../JsLocation.js";
 import { ReadonlyModifier } from "../ReadonlyModifier.js";
 import { OptionalModifier } from "../OptionalModifier.js";
 import {
+	IndexingDict,
 	type TsContainerOrDecl,
+	type TsDecl,
 	type TsDeclClass,
 	TsDeclClass as TsDeclClassConstructor,
 	type TsDeclEnum,
@@ -408,10 +411,35 @@ export class TsParser {
 	}
 
 	/**
-	 * Transform a single TypeScript statement to our AST format
+	 * Transform a single TypeScript statement to our AST format.
+	 * Declarations carrying an `export` modifier are wrapped in a `TsExport`,
+	 * which is what makes the enclosing file a module.
 	 */
 	private transformStatement(
 		statement: ts.Statement,
+	): TsContainerOrDecl | null {
+		const transformed = this.transformDeclaration(statement);
+		if (
+			transformed === null ||
+			transformed._tag === "TsImport" ||
+			transformed._tag === "TsExport" ||
+			!this.hasModifier(statement, ts.SyntaxKind.ExportKeyword)
+		) {
+			return transformed;
+		}
+		const exportType = this.hasModifier(statement, ts.SyntaxKind.DefaultKeyword)
+			? ExportType.defaulted()
+			: ExportType.named();
+		return TsExportConstructor.create(
+			Comments.empty(),
+			false,
+			exportType,
+			TsExporteeTree.create(transformed as TsDecl),
+		);
+	}
+
+	private transformDeclaration(
+		statement: ts.Statement,
 	): TsContainerOrDecl | null {
 		switch (statement.kind) {
 			case ts.SyntaxKind.InterfaceDeclaration:
@@ -604,12 +632,7 @@ export class TsParser {
 		const indexType = this.transformType(indexParam.type!);
 
 		// Create dictionary-style indexing
-		const indexing = {
-			_tag: "Dict" as const,
-			name: indexName,
-			tpe: indexType,
-			asString: `Dict(${indexName.value}: ${indexType.asString})`,
-		};
+		const indexing = IndexingDict.create(indexName, indexType);
 
 		const valueType = node.type ? some(this.transformType(node.type)) : none;
 
@@ -1627,6 +1650,11 @@ export type Either<L, R> =
 	| { _tag: "Left"; value: L }
 	| { _tag: "Right"; value: R };
 
+/**
+ * Bumped whenever the parser produces different trees, which invalidates persisted parse results
+ */
+export const TsParserVersion = 1;
+
 /**
  * Default parser instance (equivalent to Scala's object TsParser)
  */
@@ -1638,3 +1666,23 @@ export const TsParser_Default = new TsParser();
 export function parseString(content: string): Either<string, TsParsedFile> {
 	return TsParser_Default.parseString(content);
 }
+
+/**
+ * Parse a file from disk (equivalent to Scala's parseFile function)
+ */
+export function parseFile(inFile: InFile): Either<string, TsParsedFile> {
+	return parseFileContent(inFile, filesSync.content(inFile));
+}
+
+/**
+ * Parse already read file content, reporting positions against the file
+ * (equivalent to Scala's parseFileContent function)
+ */
+export function parseFileContent(
+	inFile: InFile,
+	content: string,
+): Either<string, TsParsedFile> {
+	return new TsParser({ path: inFile.path, length: content.length }).parseString(
+		content,
+	);
+}
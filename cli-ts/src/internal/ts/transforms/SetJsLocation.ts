@@ -7,20 +7,7 @@
 
 import { JsLocation } from "../JsLocation.js";
 import { AbstractTreeTransformation } from "../TreeTransformation.js";
-import type {
-	TsContainer,
-	TsDecl,
-	TsDeclClass,
-	TsDeclEnum,
-	TsDeclFunction,
-	TsDeclInterface,
-	TsDeclModule,
-	TsDeclNamespace,
-	TsDeclTypeAlias,
-	TsDeclVar,
-	TsParsedFile,
-	TsTree,
-} from "../trees.js";
+import type { TsContainer, TsDecl, TsParsedFile, TsTree } from "../trees.js";
 
 /**
  * Transform that sets JavaScript location information on tree nodes.
@@ -33,6 +20,9 @@ import type {
  * 2. If yes, calling withJsLocation to update the node with the current location
  * 3. If no, leaving the node unchanged
  * 4. Using the withTree method to navigate into child nodes using JsLocation's / operator
+ *
+ * Like the Scala version only the generic enter methods are overridden. They receive the location of the tree itself,
+ * while the specific ones (`enterTsDeclVar` and friends) receive the location of the enclosing tree.
  */
 export class SetJsLocation extends AbstractTreeTransformation<JsLocation> {
 	/**
@@ -84,100 +74,6 @@ export class SetJsLocation extends AbstractTreeTransformation<JsLocation> {
 		};
 	}
 
-	/**
-	 * Processes TsDeclClass nodes, setting JS location since they implement HasJsLocation.
-	 */
-	override enterTsDeclClass(
-		jsLocation: JsLocation,
-	): (x: TsDeclClass) => TsDeclClass {
-		return (x: TsDeclClass) => {
-			// TsDeclClass always implements JsLocation.Has
-			return x.withJsLocation(jsLocation);
-		};
-	}
-
-	/**
-	 * Processes TsDeclInterface nodes, setting JS location if they implement HasJsLocation.
-	 */
-	override enterTsDeclInterface(
-		_jsLocation: JsLocation,
-	): (x: TsDeclInterface) => TsDeclInterface {
-		return (x: TsDeclInterface) => {
-			// TsDeclInterface does not implement JsLocation.Has in Scala, so leave unchanged
-			return x;
-		};
-	}
-
-	/**
-	 * Processes TsDeclNamespace nodes, setting JS location since they implement HasJsLocation.
-	 */
-	override enterTsDeclNamespace(
-		jsLocation: JsLocation,
-	): (x: TsDeclNamespace) => TsDeclNamespace {
-		return (x: TsDeclNamespace) => {
-			// TsDeclNamespace always implements JsLocation.Has
-			return x.withJsLocation(jsLocation);
-		};
-	}
-
-	/**
-	 * Processes TsDeclModule nodes, setting JS location since they implement HasJsLocation.
-	 */
-	override enterTsDeclModule(
-		jsLocation: JsLocation,
-	): (x: TsDeclModule) => TsDeclModule {
-		return (x: TsDeclModule) => {
-			// TsDeclModule always implements JsLocation.Has
-			return x.withJsLocation(jsLocation);
-		};
-	}
-
-	/**
-	 * Processes TsDeclVar nodes, setting JS location since they implement HasJsLocation.
-	 */
-	override enterTsDeclVar(jsLocation: JsLocation): (x: TsDeclVar) => TsDeclVar {
-		return (x: TsDeclVar) => {
-			// TsDeclVar always implements JsLocation.Has
-			return x.withJsLocation(jsLocation);
-		};
-	}
-
-	/**
-	 * Processes TsDeclFunction nodes, setting JS location since they implement HasJsLocation.
-	 */
-	override enterTsDeclFunction(
-		jsLocation: JsLocation,
-	): (x: TsDeclFunction) => TsDeclFunction {
-		return (x: TsDeclFunction) => {
-			// TsDeclFunction always implements JsLocation.Has
-			return x.withJsLocation(jsLocation);
-		};
-	}
-
-	/**
-	 * Processes TsDeclTypeAlias nodes, setting JS location if they implement HasJsLocation.
-	 */
-	override enterTsDeclTypeAlias(
-		_jsLocation: JsLocation,
-	): (x: TsDeclTypeAlias) => TsDeclTypeAlias {
-		return (x: TsDeclTypeAlias) => {
-			// TsDeclTypeAlias does not implement JsLocation.Has in Scala, so leave unchanged
-			return x;
-		};
-	}
-
-	/**
-	 * Processes TsDeclEnum nodes, setting JS location since they implement HasJsLocation.
-	 */
-	override enterTsDeclEnum(
-		jsLocation: JsLocation,
-	): (x: TsDeclEnum) => TsDeclEnum {
-		return (x: TsDeclEnum) => {
-			// TsDeclEnum always implements JsLocation.Has
-			return x.withJsLocation(jsLocation);
-		};
-	}
-
 	/**
 	 * Type guard to check if an object implements HasJsLocation.
 	 * An object implements HasJsLocation if it has both jsLocation property and withJsLocation method.
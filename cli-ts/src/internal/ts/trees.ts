@@ -2609,6 +2609,22 @@ export const TsQIdentObjectConstructor: TsQIdent = TsQIdent.ofStrings("Object");
 /** The `String` constructor type */
 export const TsQIdentStringConstructor: TsQIdent = TsQIdent.ofStrings("String");
 
+/** Fully qualified references to types from the standard library */
+export const TsQIdentStd = {
+	Array: TsQIdent.of(TsIdentStd, TsIdent.simple("Array")),
+	BigInt: TsQIdent.of(TsIdentStd, TsIdent.simple("BigInt")),
+	Boolean: TsQIdent.of(TsIdentStd, TsIdent.simple("Boolean")),
+	ConcatArray: TsQIdent.of(TsIdentStd, TsIdent.simple("ConcatArray")),
+	Function: TsQIdent.of(TsIdentStd, TsIdent.simple("Function")),
+	Object: TsQIdent.of(TsIdentStd, TsIdent.simple("Object")),
+	Promise: TsQIdent.of(TsIdentStd, TsIdent.simple("Promise")),
+	PromiseLike: TsQIdent.of(TsIdentStd, TsIdent.simple("PromiseLike")),
+	Readonly: TsQIdent.of(TsIdentStd, TsIdent.simple("Readonly")),
+	ReadonlyArray: TsQIdent.of(TsIdentStd, TsIdent.simple("ReadonlyArray")),
+	Record: TsQIdent.of(TsIdentStd, TsIdent.simple("Record")),
+	String: TsQIdent.of(TsIdentStd, TsIdent.simple("String")),
+} as const;
+
 /**
  * Constructor functions and utilities for TsLiteral
  */
@@ -1,15 +1,18 @@
 #!/usr/bin/env node
 
 import chalk from "chalk";
-import { Command } from "commander";
+import { Command, InvalidArgumentError } from "commander";
 import { TracingCommand } from "./commands/tracing.js";
+import { ConverterVersion } from "./internal/importer/ConversionOptions.js";
+import { Selection } from "./internal/Selection.js";
+import { TsIdentLibrary } from "./internal/ts/trees.js";
 
 const program = new Command();
 
 program
 	.name("scalablytyped-ts")
 	.description("TypeScript implementation of ScalablyTyped converter")
-	.version("0.1.0");
+	.version(ConverterVersion);
 
 // Main conversion command (equivalent to Tracing)
 program
@@ -27,6 +30,46 @@ program
 		"Cache directory for parsed files",
 		"./.scalablytyped-cache",
 	)
+	.option(
+		"--max-union-length <length>",
+		"Collapse unions with more members to their widened base type",
+		(value) => {
+			const length = Number.parseInt(value, 10);
+			if (Number.isNaN(length) || length < 1) {
+				throw new InvalidArgumentError("Expected a positive number.");
+			}
+			return length;
+		},
+	)
+	.option(
+		"--scala-js-dom-name <mapping>",
+		"Map a std type to scala-js-dom, like `Foo=org.scalajs.dom.Foo` (repeatable)",
+		(value, previous: Map<string, string>) => {
+			const [from, to, ...rest] = value.split("=");
+			if (!from || !to || rest.length > 0) {
+				throw new InvalidArgumentError(
+					"Expected `StdName=org.scalajs.dom.Name`.",
+				);
+			}
+			return new Map(previous).set(from, to);
+		},
+		new Map<string, string>(),
+	)
+	.option(
+		"--minimize <libs>",
+		"Libraries which only keep what the others use: `all`, `none` or a comma separated list (default: all but the package.json dependencies)",
+		(value): Selection<TsIdentLibrary> => {
+			if (value === "all") return Selection.All();
+			if (value === "none") return Selection.None();
+			const libs = value.split(",").map((lib) => lib.trim());
+			if (libs.some((lib) => lib === "")) {
+				throw new InvalidArgumentError(
+					"Expected `all`, `none` or library names separated by commas.",
+				);
+			}
+			return Selection.NoneExcept(...libs.map(TsIdentLibrary.construct));
+		},
+	)
 	.option("--pedantic", "Enable pedantic mode for stricter checking", false)
 	.option("--debug", "Enable debug output", false)
 	.action(async (options) => {
@@ -0,0 +1,92 @@
+/**
+ * Tests for the TypeScript ports of ScalaNameEscape.scala and CleanIllegalNames.scala
+ */
+
+import { describe, expect, test } from "bun:test";
+import { Name, ScalaNameEscape } from "../internal/scalajs/Name.js";
+import {
+	type FieldTree,
+	type MethodTree,
+	TypeRef,
+} from "../internal/scalajs/Tree.js";
+import { CleanIllegalNames } from "../internal/scalajs/transforms/CleanIllegalNames.js";
+import {
+	field as fieldIn,
+	method as methodIn,
+	outputPkg,
+	param,
+	scope,
+} from "./utils/ScalaTrees.js";
+
+const clean = new CleanIllegalNames(outputPkg);
+
+const field = (name: string): FieldTree =>
+	fieldIn("Foo", name, { tpe: TypeRef.String });
+
+const method = (name: string, ...params: string[]): MethodTree =>
+	methodIn("Foo", name, {
+		params: params.map((p) => param(p)),
+		resultType: TypeRef.String,
+	});
+
+describe("ScalaNameEscape", () => {
+	test("escapes reserved words", () => {
+		for (const word of ["type", "val", "object", "then", "_", "def"]) {
+			expect(ScalaNameEscape.apply(word)).toBe(`\`${word}\``);
+		}
+	});
+
+	test("escapes operators and names which are not identifiers", () => {
+		expect(ScalaNameEscape.apply("foo-bar")).toBe("`foo-bar`");
+		expect(ScalaNameEscape.apply("+")).toBe("`+`");
+		expect(ScalaNameEscape.apply("1st")).toBe("`1st`");
+		expect(ScalaNameEscape.apply("")).toBe("``");
+	});
+
+	test("leaves valid identifiers alone", () => {
+		for (const name of ["foo", "$foo", "_foo", "foo_=", "^", "ñandú"]) {
+			expect(ScalaNameEscape.apply(name)).toBe(name);
+		}
+	});
+
+	test("is used when printing names", () => {
+		expect(new Name("type").value).toBe("`type`");
+		expect(new Name("type").isEscaped).toBe(true);
+	});
+});
+
+describe("CleanIllegalNames", () => {
+	test("renames members named after packages we refer to", () => {
+		const renamed = clean.visitFieldTree(scope)(field("js"));
+		expect(renamed.name.unescaped).toBe("js_");
+		expect(renamed.codePath.parts.last.unescaped).toBe("js_");
+	});
+
+	test("renames members which clash with methods on Any, keeping the javascript name", () => {
+		for (const name of ["toString", "hashCode", "equals", "getClass"]) {
+			const renamed = clean.visitMethodTree(scope)(method(name));
+			expect(renamed.name.unescaped).toBe(`${name}_`);
+			expect(renamed.annotations.toArray()).toContainEqual({
+				_tag: "JsName",
+				name: new Name(name),
+			});
+		}
+		expect(clean.visitFieldTree(scope)(field("hashCode")).name.unescaped).toBe(
+			"hashCode_",
+		);
+	});
+
+	test("renames illegal parameter names", () => {
+		const renamed = clean.visitMethodTree(scope)(method("foo", "scala", "bar"));
+		expect(renamed.name.unescaped).toBe("foo");
+		expect(renamed.params.head.map((p) => p.name.unescaped).toArray()).toEqual([
+			"scala_",
+			"bar",
+		]);
+	});
+
+	test("leaves other members alone", () => {
+		const m = method("foo", "toString");
+		expect(clean.visitMethodTree(scope)(m)).toEqual(m);
+	});
+});
@@ -0,0 +1,191 @@
+/**
+ * Tests for the TypeScript ports of Erasure.scala and CombineOverloads.scala
+ */
+
+import { describe, expect, test } from "bun:test";
+import { Comments } from "../internal/Comments.js";
+import { IArray } from "../internal/IArray.js";
+import { Versions } from "../internal/importer/ConversionOptions.js";
+import { Erasure } from "../internal/scalajs/Erasure.js";
+import { Name } from "../internal/scalajs/Name.js";
+import { QualifiedName } from "../internal/scalajs/QualifiedName.js";
+import {
+	type FieldTree,
+	isFieldTree,
+	isMethodTree,
+	type MethodTree,
+	type ParamTree,
+	type Tree,
+	TypeRef,
+} from "../internal/scalajs/Tree.js";
+import { CombineOverloads } from "../internal/scalajs/transforms/CombineOverloads.js";
+import {
+	field as fieldIn,
+	method as methodIn,
+	module,
+	param,
+	scope,
+} from "./utils/ScalaTrees.js";
+
+const method = (
+	name: string,
+	params: ParamTree[],
+	resultType: TypeRef = TypeRef.Unit,
+	tparams: string[] = [],
+): MethodTree => methodIn("Emitter", name, { params, resultType, tparams });
+
+const field = (name: string, tpe: TypeRef): FieldTree =>
+	fieldIn("Emitter", name, { tpe });
+
+const combine = (...members: Tree[]): IArray<Tree> =>
+	new CombineOverloads(new Erasure(Versions.Scala3)).visitModuleTree(scope)(
+		module("Emitter", ...members),
+	).members;
+
+const methods = (members: IArray<Tree>): MethodTree[] =>
+	members.toArray().filter(isMethodTree);
+
+const literals = (...values: string[]): TypeRef =>
+	TypeRef.Union(
+		IArray.fromArray(values.map((v) => TypeRef.StringLiteral(v))),
+		Comments.empty(),
+		false,
+	);
+
+const rawComments = (m: MethodTree): string => m.comments.rawCs.join("");
+
+describe("Erasure", () => {
+	const base = (version: typeof Versions.Scala3, ...tpes: TypeRef[]) =>
+		new Erasure(version)
+			.base(scope)(
+				method(
+					"foo",
+					tpes.map((t, i) => param(`p${i}`, t)),
+					TypeRef.Unit,
+					["T"],
+				),
+			)
+			.params.map((qn) => qn.value)
+			.toArray();
+
+	test("literal types erase to the literal, since FakeLiterals turns them into types of their own", () => {
+		expect(base(Versions.Scala3, TypeRef.StringLiteral("a"))).toEqual(["a"]);
+	});
+
+	test("type parameters, wildcards and AnyRef erase to Any", () => {
+		expect(
+			base(
+				Versions.Scala3,
+				TypeRef.fromName(new Name("T")),
+				TypeRef.Wildcard,
+				TypeRef.create(QualifiedName.AnyRef),
+			),
+		).toEqual(["scala.Any", "scala.Any", "scala.Any"]);
+	});
+
+	test("union types erase to a common parent in Scala 3, and to `|` in Scala 2", () => {
+		const union = TypeRef.Union(
+			IArray.apply(TypeRef.String, TypeRef.Double),
+			Comments.empty(),
+			false,
+		);
+		expect(base(Versions.Scala3, union)).toEqual(["scala.Any"]);
+		expect(base(Versions.Scala213, union)).toEqual(["scala.scalajs.js.`|`"]);
+	});
+
+	test("intersections with a primitive erase to that primitive", () => {
+		const intersection = TypeRef.Intersection(
+			IArray.apply(TypeRef.fromName(new Name("T")), TypeRef.Double),
+			Comments.empty(),
+		);
+		expect(base(Versions.Scala3, intersection)).toEqual(["scala.Double"]);
+		expect(base(Versions.Scala213, intersection)).toEqual(["scala.Double"]);
+	});
+});
+
+describe("CombineOverloads", () => {
+	test("combines overloads with the same erasure into union typed parameters", () => {
+		const result = methods(
+			combine(
+				method("on", [param("event", literals("a", "b"))]),
+				method("on", [param("event", literals("c", "d"))]),
+			),
+		);
+		expect(result).toHaveLength(1);
+		const eventType = result[0].params.head.head.tpe;
+		expect(eventType.typeName.equals(QualifiedName.UNION)).toBe(true);
+		expect(
+			eventType.targs.map((t) => t.targs.head.typeName.value).toArray(),
+		).toEqual(["a", "b", "c", "d"]);
+		expect(rawComments(result[0])).toContain(
+			"Combined overloads which erase to the same signature",
+		);
+	});
+
+	test("leaves overloads with different erasures alone", () => {
+		const result = methods(
+			combine(
+				method("foo", [param("x", TypeRef.String)]),
+				method("foo", [param("x", TypeRef.Double)]),
+			),
+		);
+		expect(result).toHaveLength(2);
+		expect(result.map(rawComments)).toEqual(["", ""]);
+	});
+
+	test("renames overloads which only differ in return type", () => {
+		const result = methods(
+			combine(
+				method("foo", [param("x", TypeRef.String)], TypeRef.String),
+				method("foo", [param("x", TypeRef.String)], TypeRef.Double),
+			),
+		);
+		expect(result.map((m) => m.name.unescaped)).toEqual(["foo", "foo_Double"]);
+	});
+
+	test("renames overloads which differ in type parameters", () => {
+		const result = methods(
+			combine(
+				method("foo", [param("x", TypeRef.String)]),
+				method("foo", [param("x", TypeRef.String)], TypeRef.Unit, ["T"]),
+			),
+		);
+		expect(result.map((m) => m.name.unescaped)).toEqual(["foo", "foo_T"]);
+	});
+
+	test("drops incompatible `apply` overloads and records it in a comment", () => {
+		const result = methods(
+			combine(
+				method(
+					Name.APPLY.unescaped,
+					[param("x", TypeRef.String)],
+					TypeRef.String,
+				),
+				method(
+					Name.APPLY.unescaped,
+					[param("x", TypeRef.String)],
+					TypeRef.Double,
+				),
+			),
+		);
+		expect(result).toHaveLength(1);
+		expect(TypeRef.equals(result[0].resultType, TypeRef.String)).toBe(true);
+		expect(rawComments(result[0])).toContain(
+			"Dropped 1 overload with incompatible type parameters or return type",
+		);
+	});
+
+	test("unifies fields with the same name", () => {
+		const fields = combine(
+			field("x", TypeRef.String),
+			field("x", TypeRef.Double),
+		)
+			.toArray()
+			.filter(isFieldTree);
+		expect(fields).toHaveLength(1);
+		expect(fields[0].tpe.targs.map((t) => t.typeName.value).toArray()).toEqual([
+			"scala.Double",
+			"java.lang.String",
+		]);
+	});
+});
@@ -0,0 +1,138 @@
+/**
+ * Tests for the TypeScript port of CompleteClass.scala
+ */
+
+import { describe, expect, test } from "bun:test";
+import { Versions } from "../internal/importer/ConversionOptions.js";
+import { Erasure } from "../internal/scalajs/Erasure.js";
+import { ParentsResolver } from "../internal/scalajs/ParentsResolver.js";
+import {
+	type ClassTree,
+	ClassType,
+	ExprTree,
+	type FieldTree,
+	type ImplTree,
+	type MethodTree,
+	NotImplemented,
+	type Tree,
+	TypeRef,
+} from "../internal/scalajs/Tree.js";
+import { CompleteClass } from "../internal/scalajs/transforms/CompleteClass.js";
+import {
+	classesByName,
+	cls,
+	field as fieldIn,
+	library,
+	libraryMembers,
+	method as methodIn,
+	ref,
+	scope,
+} from "./utils/ScalaTrees.js";
+
+/* members of native traits are not implemented unless given */
+const field = (
+	owner: string,
+	name: string,
+	isReadOnly: boolean,
+	impl: ImplTree = NotImplemented,
+): FieldTree => fieldIn(owner, name, { isReadOnly, impl });
+
+const method = (
+	owner: string,
+	name: string,
+	impl: ImplTree = NotImplemented,
+): MethodTree =>
+	methodIn(owner, name, { params: [], resultType: TypeRef.String, impl });
+
+const run = (...members: Tree[]): Map<string, ClassTree> =>
+	classesByName(
+		libraryMembers(
+			new CompleteClass(
+				new Erasure(Versions.Scala3),
+				new ParentsResolver(),
+				Versions.Scala3,
+			).visitPackageTree(scope)(library(members)),
+		),
+	);
+
+const member = (c: ClassTree | undefined, name: string): Tree | undefined =>
+	c?.members.find((m) => m.name.unescaped === name);
+
+const memberNames = (c: ClassTree | undefined): string[] =>
+	c?.members.map((m) => m.name.unescaped).toArray() ?? [];
+
+describe("CompleteClass", () => {
+	test("implements abstract members inherited from traits", () => {
+		const classes = run(
+			cls(
+				"T",
+				ClassType.Trait,
+				[],
+				field("T", "x", true),
+				field("T", "y", false),
+				method("T", "f"),
+			),
+			cls("C", ClassType.Class, [ref("T")]),
+		);
+
+		const c = classes.get("C");
+		expect(memberNames(c)).toEqual(["x", "y", "f"]);
+
+		const x = member(c, "x") as FieldTree;
+		expect(ExprTree.isNative(x.impl)).toBe(true);
+		expect(x.isOverride).toBe(true);
+		expect(x.comments.rawCs.join("")).toContain("CompleteClass");
+		// workaround for dotty, vars cannot be marked `override`
+		expect((member(c, "y") as FieldTree).isOverride).toBe(false);
+
+		const f = member(c, "f") as MethodTree;
+		expect(ExprTree.isNative(f.impl)).toBe(true);
+		expect(f.isOverride).toBe(true);
+	});
+
+	test("does not duplicate members the class already declares", () => {
+		const ownX = field("C", "x", true, ExprTree.native);
+		const ownF = method("C", "f", ExprTree.native);
+		const classes = run(
+			cls("T", ClassType.Trait, [], field("T", "x", true), method("T", "f")),
+			cls("C", ClassType.Class, [ref("T")], ownX, ownF),
+		);
+		expect(classes.get("C")?.members.toArray()).toEqual([ownX, ownF]);
+	});
+
+	test("skips members which are already implemented", () => {
+		const classes = run(
+			cls("T", ClassType.Trait, [], field("T", "x", true, ExprTree.native)),
+			cls("C", ClassType.Class, [ref("T")]),
+		);
+		expect(classes.get("C")?.members.isEmpty).toBe(true);
+	});
+
+	test("does not look beyond parent classes", () => {
+		const classes = run(
+			cls("T", ClassType.Trait, [], field("T", "x", true)),
+			cls("A", ClassType.Class, [ref("T")]),
+			cls("C", ClassType.Class, [ref("A")]),
+		);
+		expect(memberNames(classes.get("A"))).toEqual(["x"]);
+		expect(classes.get("C")?.members.isEmpty).toBe(true);
+	});
+
+	test("implements members inherited along several paths once", () => {
+		const classes = run(
+			cls("T", ClassType.Trait, [], method("T", "f")),
+			cls("T1", ClassType.Trait, [ref("T")]),
+			cls("T2", ClassType.Trait, [ref("T")]),
+			cls("C", ClassType.Class, [ref("T1"), ref("T2")]),
+		);
+		expect(memberNames(classes.get("C"))).toEqual(["f"]);
+	});
+
+	test("leaves traits alone", () => {
+		const classes = run(
+			cls("T", ClassType.Trait, [], field("T", "x", true)),
+			cls("U", ClassType.Trait, [ref("T")]),
+		);
+		expect(classes.get("U")?.members.isEmpty).toBe(true);
+	});
+});
@@ -0,0 +1,149 @@
+/**
+ * Tests for the TypeScript port of FakeLiterals.scala
+ */
+
+import { describe, expect, test } from "bun:test";
+import { StringLit, WasLiteral } from "../internal/Comment.js";
+import { Comments } from "../internal/Comments.js";
+import { IArray } from "../internal/IArray.js";
+import { Name } from "../internal/scalajs/Name.js";
+import {
+	type ClassTree,
+	ExprTree,
+	type FieldTree,
+	isClassTree,
+	isFieldTree,
+	isMethodTree,
+	isModuleTree,
+	type MethodTree,
+	type ModuleTree,
+	type Tree,
+	TypeRef,
+} from "../internal/scalajs/Tree.js";
+import { CleanIllegalNames } from "../internal/scalajs/transforms/CleanIllegalNames.js";
+import { FakeLiterals } from "../internal/scalajs/transforms/FakeLiterals.js";
+import {
+	field as fieldIn,
+	libPackage,
+	libPath,
+	outputPkg,
+	scope,
+} from "./utils/ScalaTrees.js";
+
+const field = (name: string, tpe: TypeRef): FieldTree =>
+	fieldIn(libPath, name, { tpe });
+
+const union = (...types: TypeRef[]): TypeRef =>
+	TypeRef.Union(IArray.fromArray(types), Comments.empty(), false);
+
+const run = (...members: Tree[]): IArray<Tree> =>
+	FakeLiterals.apply(
+		outputPkg,
+		scope,
+		new CleanIllegalNames(outputPkg),
+	)(libPackage(members)).members;
+
+const fieldType = (members: IArray<Tree>, name: string): TypeRef =>
+	(
+		members.find((m) => isFieldTree(m) && m.name.unescaped === name) as
+			| FieldTree
+			| undefined
+	)?.tpe ?? TypeRef.Nothing;
+
+const literalsModule = (
+	members: IArray<Tree>,
+	name: string,
+): ModuleTree | undefined =>
+	members.find((m) => isModuleTree(m) && m.name.unescaped === name) as
+		| ModuleTree
+		| undefined;
+
+describe("FakeLiterals", () => {
+	test("rewrites string literals to traits in a per-library object", () => {
+		const members = run(
+			field(
+				"mode",
+				union(TypeRef.StringLiteral("auto"), TypeRef.StringLiteral("manual")),
+			),
+		);
+
+		const tpe = fieldType(members, "mode");
+		expect(tpe.targs.map((t) => t.typeName.value).toArray()).toEqual([
+			"typings.mylib.mylibStrings.auto",
+			"typings.mylib.mylibStrings.manual",
+		]);
+		expect(tpe.targs.forall((t) => t.comments.has(WasLiteral))).toBe(true);
+
+		const strings = literalsModule(members, "mylibStrings");
+		expect(strings?.codePath.value).toBe("typings.mylib.mylibStrings");
+		const traits = strings?.members.toArray().filter(isClassTree) ?? [];
+		expect(traits.map((t: ClassTree) => t.name.unescaped)).toEqual([
+			"auto",
+			"manual",
+		]);
+		expect(traits.every((t) => t.isSealed)).toBe(true);
+	});
+
+	test("generates inline constructors for the literal values", () => {
+		const members = run(field("mode", TypeRef.StringLiteral("auto")));
+		const auto = literalsModule(members, "mylibStrings")
+			?.members.toArray()
+			.find(isMethodTree) as MethodTree;
+
+		expect(auto.name.unescaped).toBe("auto");
+		expect(auto.annotations.toArray()).toContainEqual({ _tag: "Inline" });
+		expect(auto.codePath.value).toBe("typings.mylib.mylibStrings.auto");
+		expect(auto.impl).toEqual(
+			ExprTree.AsInstanceOf(
+				new StringLit("auto"),
+				TypeRef.fromName(new Name("auto")),
+			),
+		);
+	});
+
+	test("groups numbers and booleans in objects of their own", () => {
+		const members = run(
+			field(
+				"level",
+				union(TypeRef.DoubleLiteral("1"), TypeRef.DoubleLiteral("2.5")),
+			),
+			field("enabled", TypeRef.BooleanLiteral("true")),
+		);
+
+		expect(
+			fieldType(members, "level")
+				.targs.map((t) => t.typeName.parts.last.unescaped)
+				.toArray(),
+		).toEqual(["1", "2.5"]);
+		expect(
+			fieldType(members, "level")
+				.targs.head.typeName.parts.init.map((p) => p.unescaped)
+				.toArray(),
+		).toEqual(["typings", "mylib", "mylibDoubles"]);
+		expect(fieldType(members, "enabled").typeName.value).toBe(
+			"typings.mylib.mylibBooleans.`true`",
+		);
+		expect(literalsModule(members, "mylibDoubles")).toBeDefined();
+		expect(literalsModule(members, "mylibBooleans")).toBeDefined();
+		expect(literalsModule(members, "mylibStrings")).toBeUndefined();
+	});
+
+	test("disambiguates literals which only differ in case", () => {
+		const members = run(
+			field(
+				"key",
+				union(TypeRef.StringLiteral("Enter"), TypeRef.StringLiteral("enter")),
+			),
+		);
+		expect(
+			fieldType(members, "key")
+				.targs.map((t) => t.typeName.parts.last.unescaped)
+				.toArray(),
+		).toEqual(["Enter", "enter_"]);
+	});
+
+	test("leaves trees without literals alone", () => {
+		const members = run(field("name", TypeRef.String));
+		expect(members.length).toBe(1);
+	});
+});
@@ -0,0 +1,123 @@
+/**
+ * Tests for the TypeScript port of FilterMemberOverrides.scala
+ */
+
+import { describe, expect, test } from "bun:test";
+import { Versions } from "../internal/importer/ConversionOptions.js";
+import { Erasure } from "../internal/scalajs/Erasure.js";
+import { ParentsResolver } from "../internal/scalajs/ParentsResolver.js";
+import {
+	type ClassTree,
+	ClassType,
+	type Tree,
+	TypeRef,
+} from "../internal/scalajs/Tree.js";
+import { FilterMemberOverrides } from "../internal/scalajs/transforms/FilterMemberOverrides.js";
+import {
+	classesByName,
+	cls,
+	field,
+	library,
+	libraryMembers,
+	method,
+	ref,
+	scope,
+} from "./utils/ScalaTrees.js";
+
+const run = (...members: Tree[]): Map<string, ClassTree> =>
+	classesByName(
+		libraryMembers(
+			new FilterMemberOverrides(
+				new Erasure(Versions.Scala3),
+				new ParentsResolver(),
+			).visitPackageTree(scope)(library(members)),
+		),
+	);
+
+const memberNames = (c: ClassTree | undefined): string[] =>
+	c?.members.map((m) => m.name.unescaped).toArray() ?? [];
+
+describe("FilterMemberOverrides", () => {
+	test("drops fields which redefine an inherited field with the same type", () => {
+		const classes = run(
+			cls("A", ClassType.Trait, [], field("A", "x", { isReadOnly: true })),
+			cls(
+				"B",
+				ClassType.Trait,
+				[ref("A")],
+				field("B", "x", { isReadOnly: true }),
+			),
+		);
+		expect(memberNames(classes.get("B"))).toEqual([]);
+	});
+
+	test("renames fields which conflict with an inherited field", () => {
+		const classes = run(
+			cls("A", ClassType.Trait, [], field("A", "x", { isReadOnly: true })),
+			cls(
+				"B",
+				ClassType.Trait,
+				[ref("A")],
+				field("B", "x", { isReadOnly: true, tpe: TypeRef.String }),
+			),
+		);
+		expect(memberNames(classes.get("B"))).toEqual(["x_B"]);
+	});
+
+	test("drops methods which erase to the signature of an inherited method", () => {
+		const classes = run(
+			cls(
+				"A",
+				ClassType.Trait,
+				[],
+				method("A", "f", { params: [], resultType: TypeRef.Double }),
+			),
+			cls(
+				"B",
+				ClassType.Trait,
+				[ref("A")],
+				method("B", "f", { params: [], resultType: TypeRef.String }),
+				method("B", "g", { params: [], resultType: TypeRef.String }),
+			),
+		);
+		expect(memberNames(classes.get("B"))).toEqual(["g"]);
+	});
+
+	test("renames methods which share a name with an inherited field", () => {
+		const classes = run(
+			cls("A", ClassType.Trait, [], field("A", "x", { isReadOnly: true })),
+			cls(
+				"B",
+				ClassType.Trait,
+				[ref("A")],
+				method("B", "x", { params: [], resultType: TypeRef.String }),
+			),
+		);
+		expect(memberNames(classes.get("B"))).toEqual(["x_MB"]);
+	});
+
+	test("drops setters for inherited vars", () => {
+		const classes = run(
+			cls("A", ClassType.Trait, [], field("A", "x", { isReadOnly: false })),
+			cls(
+				"B",
+				ClassType.Trait,
+				[ref("A")],
+				method("B", "x_=", { params: [], resultType: TypeRef.Unit }),
+			),
+		);
+		expect(memberNames(classes.get("B"))).toEqual([]);
+	});
+
+	test("renames fields which clash with members of js.Object", () => {
+		const classes = run(
+			cls(
+				"A",
+				ClassType.Trait,
+				[],
+				field("A", "hashCode", { isReadOnly: true }),
+			),
+		);
+		expect(memberNames(classes.get("A"))).toEqual(["hashCode_FA"]);
+	});
+});
@@ -0,0 +1,292 @@
+/**
+ * Tests for the TypeScript port of GenCompanions.scala, through NormalFlavourImpl
+ */
+
+import { describe, expect, test } from "bun:test";
+import { CouldBeScalaJsDefined } from "../internal/Comment.js";
+import { Comments } from "../internal/Comments.js";
+import { IArray } from "../internal/IArray.js";
+import { Versions } from "../internal/importer/ConversionOptions.js";
+import { NormalFlavourImpl } from "../internal/importer/FlavourImpl.js";
+import { Logger } from "../internal/logging/index.js";
+import { Name } from "../internal/scalajs/Name.js";
+import { ParentsResolver } from "../internal/scalajs/ParentsResolver.js";
+import { Printer } from "../internal/scalajs/Printer.js";
+import { QualifiedName } from "../internal/scalajs/QualifiedName.js";
+import {
+	ClassTree,
+	ClassType,
+	ExprTree,
+	FieldTree,
+	isClassTree,
+	isMethodTree,
+	isModuleTree,
+	isPackageTree,
+	type MethodTree,
+	ModuleTree,
+	PackageTree,
+	ProtectionLevel,
+	type Tree,
+	TypeRef,
+} from "../internal/scalajs/Tree.js";
+import { TreeScope } from "../internal/scalajs/TreeScope.js";
+
+const outputPkg = Name.typings;
+const libPkg = new Name("mylib");
+const codePath = QualifiedName.from([outputPkg, libPkg]);
+
+const field = (owner: QualifiedName, name: string, tpe: TypeRef): FieldTree =>
+	FieldTree.create(
+		IArray.Empty,
+		ProtectionLevel.Public,
+		new Name(name),
+		tpe,
+		ExprTree.native,
+		false,
+		false,
+		Comments.empty(),
+		owner.add(new Name(name)),
+	);
+
+const trait = (
+	name: string,
+	fields: (owner: QualifiedName) => FieldTree[],
+): ClassTree => {
+	const cp = codePath.add(new Name(name));
+	return ClassTree.create(
+		false,
+		IArray.Empty,
+		ProtectionLevel.Public,
+		new Name(name),
+		IArray.Empty,
+		IArray.apply(TypeRef.create(QualifiedName.StObject)),
+		IArray.Empty,
+		IArray.fromArray<Tree>(fields(cp)),
+		ClassType.Trait,
+		false,
+		Comments.apply([CouldBeScalaJsDefined.instance]),
+		cp,
+	);
+};
+
+function rewriteWith(
+	flavour: NormalFlavourImpl,
+	...members: Tree[]
+): PackageTree {
+	const lib = PackageTree.create(
+		IArray.Empty,
+		libPkg,
+		IArray.fromArray(members),
+		Comments.empty(),
+		codePath,
+	);
+	const tree = PackageTree.create(
+		IArray.Empty,
+		outputPkg,
+		IArray.apply<Tree>(lib),
+		Comments.empty(),
+		QualifiedName.from([outputPkg]),
+	);
+	const scope = new TreeScope.Root(
+		outputPkg,
+		libPkg,
+		new Map(),
+		Logger.DevNull(),
+		false,
+	);
+	return flavour.rewrittenTree(scope, tree);
+}
+
+const rewrite = (...members: Tree[]): PackageTree =>
+	rewriteWith(NormalFlavourImpl.createMock(), ...members);
+
+const print = (tree: PackageTree): Map<string, string> =>
+	new Map(
+		Printer.apply(
+			new TreeScope.Root(outputPkg, libPkg, new Map(), Logger.DevNull(), false),
+			new ParentsResolver(),
+			tree,
+			outputPkg,
+			Versions.Scala3,
+		).toArray(),
+	);
+
+const companionOf = (
+	tree: PackageTree,
+	name: string,
+): ModuleTree | undefined => {
+	const lib = tree.members.find(isPackageTree) as PackageTree | undefined;
+	return lib?.members.find(
+		(m) => isModuleTree(m) && m.name.unescaped === name,
+	) as ModuleTree | undefined;
+};
+
+const memberNames = (tree: { members: IArray<Tree> }): string[] =>
+	tree.members.toArray().map((m) => m.name.unescaped);
+
+const props = trait("Props", (cp) => [
+	field(cp, "a", TypeRef.String),
+	field(cp, "b", TypeRef.UndefOr(TypeRef.Double)),
+	field(
+		cp,
+		"c",
+		TypeRef.Union(
+			IArray.apply(TypeRef.String, TypeRef.Null),
+			Comments.empty(),
+			false,
+		),
+	),
+	field(
+		cp,
+		"d",
+		TypeRef.JsFunction(
+			undefined,
+			IArray.apply(TypeRef.Double),
+			TypeRef.String,
+			Comments.empty(),
+		),
+	),
+]);
+
+describe("GenCompanions", () => {
+	test("adds a companion with a creator method and a builder", () => {
+		const companion = companionOf(rewrite(props), "Props");
+		expect(companion).toBeDefined();
+		expect(memberNames(companion!)).toEqual(["<apply>", "MutableBuilder"]);
+	});
+
+	test("the creator method takes the required props, and initializes null props", () => {
+		const content = print(rewrite(props)).get("typings/mylib/Props.scala");
+		expect(content).toContain(
+			"inline def apply(a: String, d: Double => String): Props = {\n" +
+				"    val __obj = js.Dynamic.literal(a = a.asInstanceOf[js.Any], d = js.Any.fromFunction1(d), c = null)\n" +
+				"    __obj.asInstanceOf[Props]\n" +
+				"  }",
+		);
+	});
+
+	test("the builder has setters, and setters for undefined and null where the prop allows it", () => {
+		const builder = companionOf(rewrite(props), "Props")?.members.find(
+			isClassTree,
+		) as ClassTree | undefined;
+		expect(builder?.isImplicit).toBe(true);
+		expect(memberNames(builder!).sort()).toEqual([
+			"setA",
+			"setB",
+			"setBUndefined",
+			"setC",
+			"setCNull",
+			"setD",
+		]);
+
+		const content = print(rewrite(props)).get("typings/mylib/Props.scala");
+		expect(content).toContain(
+			'inline def setBUndefined: Self = StObject.set(x, "b", js.undefined)',
+		);
+		expect(content).toContain(
+			'inline def setCNull: Self = StObject.set(x, "c", null)',
+		);
+		expect(content).toContain(
+			'inline def setD(value: Double => String): Self = StObject.set(x, "d", js.Any.fromFunction1(value))',
+		);
+	});
+
+	test("inherited props are part of the creator method, but not of the builder", () => {
+		const child = ClassTree.create(
+			false,
+			IArray.Empty,
+			ProtectionLevel.Public,
+			new Name("Child"),
+			IArray.Empty,
+			IArray.apply(TypeRef.create(codePath.add(new Name("Props")))),
+			IArray.Empty,
+			IArray.apply<Tree>(
+				field(codePath.add(new Name("Child")), "e", TypeRef.Boolean),
+			),
+			ClassType.Trait,
+			false,
+			Comments.apply([CouldBeScalaJsDefined.instance]),
+			codePath.add(new Name("Child")),
+		);
+		const companion = companionOf(rewrite(props, child), "Child");
+		const apply = companion?.members.find((m) =>
+			m.name.equals(Name.APPLY),
+		) as MethodTree;
+		expect(apply.params.head.toArray().map((p) => p.name.unescaped)).toEqual([
+			"a",
+			"d",
+			"e",
+		]);
+		expect(
+			memberNames(companion!.members.find(isClassTree) as ClassTree),
+		).toEqual(["setE"]);
+	});
+
+	test("leaves traits alone which are not @ScalaJSDefined", () => {
+		const native: ClassTree = { ...props, comments: Comments.empty() };
+		expect(companionOf(rewrite(native), "Props")).toBeUndefined();
+	});
+
+	test("doesn't generate a creator method if there already is an implementation", () => {
+		const existing = ModuleTree.create(
+			IArray.Empty,
+			ProtectionLevel.Public,
+			new Name("Props"),
+			IArray.Empty,
+			IArray.apply<Tree>(
+				field(codePath.add(new Name("Props")), "<apply>", TypeRef.String),
+			),
+			Comments.empty(),
+			codePath.add(new Name("Props")),
+			false,
+		);
+		const companion = companionOf(rewrite(props, existing), "Props");
+		expect(companion?.members.filter(isMethodTree).isEmpty).toBe(true);
+		expect(companion?.members.exists(isClassTree)).toBe(true);
+	});
+
+	test("takes all props in the creator method with enableLongApplyMethod", () => {
+		const flavour = new NormalFlavourImpl(
+			false,
+			true,
+			outputPkg,
+			new Versions(Versions.Scala3, Versions.ScalaJs1),
+		);
+		const companion = companionOf(rewriteWith(flavour, props), "Props");
+		const apply = companion?.members.find(isMethodTree) as
+			| MethodTree
+			| undefined;
+		expect(apply?.params.head.toArray().map((p) => p.name.unescaped)).toEqual([
+			"a",
+			"d",
+			"b",
+			"c",
+		]);
+		expect(companion?.members.exists(isClassTree)).toBe(false);
+	});
+});
+
+describe("NormalFlavourImpl", () => {
+	test("depends on the runtime, and on scala-js-dom if we use its types", () => {
+		const versions = new Versions(Versions.Scala3, Versions.ScalaJs1);
+		expect([
+			...new NormalFlavourImpl(
+				false,
+				false,
+				outputPkg,
+				versions,
+			).dependencies(),
+		]).toEqual([versions.runtime]);
+		expect([
+			...new NormalFlavourImpl(true, false, outputPkg, versions).dependencies(),
+		]).toEqual([versions.scalaJsDom, versions.runtime]);
+	});
+
+	test("rewrites types from the typescript standard library to scala.js types", () => {
+		const promise = NormalFlavourImpl.createMock()
+			.rewrites()
+			.find((c) => c.from.value === "typings.std.Promise");
+		expect(promise?.to.value).toBe("scala.scalajs.js.Promise");
+		expect(promise?.tparams.length).toBe(1);
+	});
+});
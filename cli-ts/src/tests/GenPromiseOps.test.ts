@@ -0,0 +1,397 @@
+/**
+ * Tests for the TypeScript port of GenPromiseOps.scala
+ */
+
+import { describe, expect, test } from "bun:test";
+import { FutureOps } from "../internal/Comment.js";
+import { Comments } from "../internal/Comments.js";
+import { IArray } from "../internal/IArray.js";
+import { Versions } from "../internal/importer/ConversionOptions.js";
+import { Logger } from "../internal/logging/index.js";
+import {
+	Annotation,
+	type AnnotationUnion,
+} from "../internal/scalajs/Annotation.js";
+import { GenPromiseOps } from "../internal/scalajs/flavours/GenPromiseOps.js";
+import { Name } from "../internal/scalajs/Name.js";
+import { ParentsResolver } from "../internal/scalajs/ParentsResolver.js";
+import { Printer } from "../internal/scalajs/Printer.js";
+import { QualifiedName } from "../internal/scalajs/QualifiedName.js";
+import {
+	ClassTree,
+	ClassType,
+	FieldTree,
+	isClassTree,
+	isModuleTree,
+	MethodTree,
+	ModuleTree,
+	NotImplemented,
+	PackageTree,
+	ParamTree,
+	ProtectionLevel,
+	type Tree,
+	TypeParamTree,
+	TypeRef,
+} from "../internal/scalajs/Tree.js";
+import { TreeScope } from "../internal/scalajs/TreeScope.js";
+import { Sorter } from "../internal/scalajs/transforms/Sorter.js";
+
+const outputPkg = Name.typings;
+const typingsPath = QualifiedName.from([outputPkg]);
+
+const trait = (libPath: QualifiedName, name: string): ClassTree =>
+	ClassTree.create(
+		false,
+		IArray.apply<AnnotationUnion>(Annotation.JsNative),
+		ProtectionLevel.Public,
+		new Name(name),
+		IArray.apply(
+			TypeParamTree.create(
+				new Name("T"),
+				IArray.Empty,
+				undefined,
+				Comments.empty(),
+				false,
+			),
+		),
+		IArray.Empty,
+		IArray.Empty,
+		IArray.Empty,
+		ClassType.Trait,
+		false,
+		Comments.empty(),
+		libPath.add(new Name(name)),
+	);
+
+const wrap = (libName: Name, ...members: Tree[]): PackageTree =>
+	PackageTree.create(
+		IArray.Empty,
+		outputPkg,
+		IArray.apply<Tree>(
+			PackageTree.create(
+				IArray.Empty,
+				libName,
+				IArray.fromArray(members),
+				Comments.empty(),
+				typingsPath.add(libName),
+			),
+		),
+		Comments.empty(),
+		typingsPath,
+	);
+
+const scopeFor = (libName: Name): TreeScope =>
+	new TreeScope.Root(outputPkg, libName, new Map(), Logger.DevNull(), false);
+
+const run = (libName: Name, ...members: Tree[]): PackageTree =>
+	new GenPromiseOps(new ParentsResolver()).visitPackageTree(scopeFor(libName))(
+		wrap(libName, ...members),
+	).members.head as PackageTree;
+
+const stdPath = typingsPath.add(Name.std);
+
+const promiseOf = (tpe: TypeRef): TypeRef =>
+	TypeRef.create(stdPath.add(new Name("Promise")), IArray.apply(tpe));
+
+const method = (
+	owner: QualifiedName,
+	name: string,
+	resultType: TypeRef,
+	...params: ParamTree[]
+): MethodTree =>
+	MethodTree.create(
+		IArray.apply<AnnotationUnion>(Annotation.JsNative),
+		ProtectionLevel.Public,
+		new Name(name),
+		IArray.Empty,
+		IArray.apply(IArray.fromArray(params)),
+		NotImplemented,
+		resultType,
+		false,
+		Comments.empty(),
+		owner.add(new Name(name)),
+		false,
+	);
+
+const field = (owner: QualifiedName, name: string, tpe: TypeRef): FieldTree =>
+	FieldTree.create(
+		IArray.apply<AnnotationUnion>(Annotation.JsNative),
+		ProtectionLevel.Public,
+		new Name(name),
+		tpe,
+		NotImplemented,
+		true,
+		false,
+		Comments.empty(),
+		owner.add(new Name(name)),
+	);
+
+const param = (name: string, tpe: TypeRef): ParamTree =>
+	ParamTree.create(
+		new Name(name),
+		false,
+		false,
+		tpe,
+		NotImplemented,
+		Comments.empty(),
+	);
+
+describe("GenPromiseOps", () => {
+	test("adds an ops class to the companion of std.Promise", () => {
+		const lib = run(Name.std, trait(stdPath, "Promise"));
+
+		const mod = lib.members.find(isModuleTree) as ModuleTree;
+		expect(mod.name.unescaped).toBe("Promise");
+		expect(mod.codePath.value).toBe("typings.std.Promise");
+
+		const ops = mod.members.head as ClassTree;
+		expect(ops.name.unescaped).toBe("PromiseOps");
+		expect(ops.isImplicit).toBe(true);
+		expect(ops.annotations.toArray()).toEqual([Annotation.Inline]);
+		expect(ops.parents.toArray()).toEqual([TypeRef.AnyVal]);
+		expect(ops.tparams.map((tp) => tp.name.unescaped).toArray()).toEqual(["T"]);
+		expect(
+			ops.members
+				.map((m) => (m as MethodTree).resultType.typeName.value)
+				.toArray(),
+		).toEqual(["scala.scalajs.js.Promise", "scala.concurrent.Future"]);
+	});
+
+	test("extends an existing companion instead of adding another", () => {
+		const existing = ModuleTree.create(
+			IArray.Empty,
+			ProtectionLevel.Public,
+			new Name("PromiseLike"),
+			IArray.Empty,
+			IArray.apply<Tree>(trait(stdPath.add(new Name("PromiseLike")), "Inner")),
+			Comments.empty(),
+			stdPath.add(new Name("PromiseLike")),
+			false,
+		);
+		const lib = run(Name.std, trait(stdPath, "PromiseLike"), existing);
+
+		const modules = lib.members.filter(isModuleTree);
+		expect(modules.length).toBe(1);
+		expect(
+			(modules.head as ModuleTree).members
+				.map((m) => m.name.unescaped)
+				.toArray(),
+		).toEqual(["Inner", "PromiseLikeOps"]);
+	});
+
+	test("only touches the std library", () => {
+		const libName = new Name("mylib");
+		const lib = run(libName, trait(typingsPath.add(libName), "Promise"));
+		expect(lib.members.length).toBe(1);
+		expect(isClassTree(lib.members.head)).toBe(true);
+	});
+
+	describe("future variants", () => {
+		const libName = new Name("mylib");
+		const libPath = typingsPath.add(libName);
+		const clientPath = libPath.add(new Name("Client"));
+
+		const client = (): ClassTree => ({
+			...trait(libPath, "Client"),
+			tparams: IArray.Empty,
+			members: IArray.apply<Tree>(
+				method(
+					clientPath,
+					"fetch",
+					promiseOf(TypeRef.String),
+					param("url", TypeRef.String),
+				),
+				method(clientPath, "close", TypeRef.Unit),
+			),
+		});
+
+		test("adds Future variants of Promise-returning members to the companion", () => {
+			const lib = run(libName, client());
+
+			const mod = lib.members.find(isModuleTree) as ModuleTree;
+			expect(mod.name.unescaped).toBe("Client");
+
+			const ops = mod.members.head as ClassTree;
+			expect(ops.name.unescaped).toBe("ClientFutureOps");
+			expect(ops.isImplicit).toBe(true);
+			expect(ops.comments.has(FutureOps)).toBe(true);
+
+			expect(ops.members.map((m) => m.name.unescaped).toArray()).toEqual([
+				"fetchFuture",
+			]);
+			expect((ops.members.head as MethodTree).resultType).toEqual(
+				TypeRef.create(
+					QualifiedName.from([
+						Name.scala,
+						new Name("concurrent"),
+						new Name("Future"),
+					]),
+					IArray.apply(TypeRef.String),
+				),
+			);
+		});
+
+		test("leaves traits without Promise-returning members alone", () => {
+			const closeOnly: ClassTree = {
+				...client(),
+				members: IArray.apply<Tree>(method(clientPath, "close", TypeRef.Unit)),
+			};
+			const lib = run(libName, closeOnly);
+			expect(lib.members.length).toBe(1);
+		});
+
+		test("cover Promise-typed fields", () => {
+			const withReady: ClassTree = {
+				...client(),
+				members: IArray.apply<Tree>(
+					field(clientPath, "ready", promiseOf(TypeRef.Boolean)),
+				),
+			};
+			const tree = new GenPromiseOps(new ParentsResolver()).visitPackageTree(
+				scopeFor(libName),
+			)(wrap(libName, withReady));
+			const content = new Map(
+				Printer.apply(
+					scopeFor(libName),
+					new ParentsResolver(),
+					tree,
+					outputPkg,
+					Versions.Scala3,
+				).toArray(),
+			).get("typings/mylib/Client.scala");
+
+			expect(content).toContain(
+				"def readyFuture: Future[Boolean] = self.ready.toFuture",
+			);
+		});
+
+		test("skip names the trait inherits", () => {
+			const basePath = libPath.add(new Name("Base"));
+			const base: ClassTree = {
+				...trait(libPath, "Base"),
+				tparams: IArray.Empty,
+				members: IArray.apply<Tree>(
+					method(basePath, "fetchFuture", TypeRef.Unit),
+				),
+			};
+			const withParent: ClassTree = {
+				...client(),
+				parents: IArray.apply(TypeRef.create(basePath, IArray.Empty)),
+			};
+			const lib = run(libName, base, withParent);
+
+			expect(lib.members.filter(isModuleTree).length).toBe(0);
+		});
+
+		test("skip names the companion already has", () => {
+			const existing = ModuleTree.create(
+				IArray.Empty,
+				ProtectionLevel.Public,
+				new Name("Client"),
+				IArray.Empty,
+				IArray.apply<Tree>(method(clientPath, "fetchFuture", TypeRef.Unit)),
+				Comments.empty(),
+				clientPath,
+				false,
+			);
+			const lib = run(libName, client(), existing);
+
+			const mod = lib.members.find(isModuleTree) as ModuleTree;
+			expect(mod.members.map((m) => m.name.unescaped).toArray()).toEqual([
+				"fetchFuture",
+			]);
+		});
+
+		test("pick another class name if the companion has one by that name", () => {
+			const existing = ModuleTree.create(
+				IArray.Empty,
+				ProtectionLevel.Public,
+				new Name("Client"),
+				IArray.Empty,
+				IArray.apply<Tree>(method(clientPath, "ClientFutureOps", TypeRef.Unit)),
+				Comments.empty(),
+				clientPath,
+				false,
+			);
+			const lib = run(libName, client(), existing);
+
+			const mod = lib.members.find(isModuleTree) as ModuleTree;
+			expect(mod.members.map((m) => m.name.unescaped).toArray()).toEqual([
+				"ClientFutureOps",
+				"ClientFutureOps1",
+			]);
+			const ops = mod.members.get(1) as ClassTree;
+			expect(ops.codePath.value).toBe("typings.mylib.Client.ClientFutureOps1");
+		});
+
+		test("are sorted after the other members of the companion", () => {
+			const existing = ModuleTree.create(
+				IArray.Empty,
+				ProtectionLevel.Public,
+				new Name("Client"),
+				IArray.Empty,
+				IArray.apply<Tree>(method(clientPath, "zzz", TypeRef.Unit)),
+				Comments.empty(),
+				clientPath,
+				false,
+			);
+			const lib = new Sorter().visitPackageTree(scopeFor(libName))(
+				new GenPromiseOps(new ParentsResolver()).visitPackageTree(
+					scopeFor(libName),
+				)(wrap(libName, client(), existing)),
+			).members.head as PackageTree;
+
+			const mod = lib.members.find(isModuleTree) as ModuleTree;
+			expect(mod.members.map((m) => m.name.unescaped).toArray()).toEqual([
+				"zzz",
+				"ClientFutureOps",
+			]);
+		});
+
+		test("prints the variants next to the trait", () => {
+			const tree = new GenPromiseOps(new ParentsResolver()).visitPackageTree(
+				scopeFor(libName),
+			)(wrap(libName, client()));
+			const content = new Map(
+				Printer.apply(
+					scopeFor(libName),
+					new ParentsResolver(),
+					tree,
+					outputPkg,
+					Versions.Scala3,
+				).toArray(),
+			).get("typings/mylib/Client.scala");
+
+			expect(content).toContain(
+				"implicit open class ClientFutureOps (val self: Client) extends AnyVal {",
+			);
+			expect(content).toContain(
+				"def fetchFuture(url: String): Future[String] = self.fetch(url).toFuture",
+			);
+		});
+	});
+
+	test("prints the ops inside the companion", () => {
+		const tree = new GenPromiseOps(new ParentsResolver()).visitPackageTree(
+			scopeFor(Name.std),
+		)(wrap(Name.std, trait(stdPath, "Promise")));
+		const files = new Map(
+			Printer.apply(
+				scopeFor(Name.std),
+				new ParentsResolver(),
+				tree,
+				outputPkg,
+				Versions.Scala3,
+			).toArray(),
+		);
+		const content = files.get("typings/std/Promise.scala");
+		expect(content).toContain(
+			"@scala.inline\n  implicit open class PromiseOps[T] (val promise: Promise[T]) extends AnyVal {",
+		);
+		expect(content).toContain(
+			"def toPromise: js.Promise[T] = promise.asInstanceOf[js.Promise[T]]",
+		);
+		expect(content).toContain("import scala.concurrent.Future");
+		expect(content).toContain("def toFuture: Future[T] = toPromise.toFuture");
+	});
+});
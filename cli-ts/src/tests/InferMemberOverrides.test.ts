@@ -0,0 +1,124 @@
+/**
+ * Tests for the TypeScript port of InferMemberOverrides.scala
+ */
+
+import { describe, expect, test } from "bun:test";
+import { Comments } from "../internal/Comments.js";
+import { IArray } from "../internal/IArray.js";
+import { Versions } from "../internal/importer/ConversionOptions.js";
+import { Erasure } from "../internal/scalajs/Erasure.js";
+import { ParentsResolver } from "../internal/scalajs/ParentsResolver.js";
+import {
+	type ClassTree,
+	ClassType,
+	type FieldTree,
+	type MethodTree,
+	type Tree,
+	TypeRef,
+} from "../internal/scalajs/Tree.js";
+import { InferMemberOverrides } from "../internal/scalajs/transforms/InferMemberOverrides.js";
+import {
+	classesByName,
+	cls,
+	field,
+	library,
+	libraryMembers,
+	method,
+	ref,
+	scope,
+} from "./utils/ScalaTrees.js";
+
+const run = (...members: Tree[]): Map<string, ClassTree> =>
+	classesByName(
+		libraryMembers(
+			new InferMemberOverrides(
+				new Erasure(Versions.Scala3),
+				new ParentsResolver(),
+			).visitPackageTree(scope)(library(members)),
+		),
+	);
+
+const member = (c: ClassTree | undefined, name: string): Tree | undefined =>
+	c?.members.find((m) => m.name.unescaped === name);
+
+describe("InferMemberOverrides", () => {
+	test("overrides fields inherited from two parents with their intersection", () => {
+		const classes = run(
+			cls("A", ClassType.Trait, [], field("A", "x", { isReadOnly: true })),
+			cls(
+				"B",
+				ClassType.Trait,
+				[],
+				field("B", "x", { isReadOnly: false, tpe: TypeRef.String }),
+			),
+			cls("C", ClassType.Trait, [ref("A"), ref("B")]),
+		);
+
+		const x = member(classes.get("C"), "x") as FieldTree;
+		expect(x.isOverride).toBe(true);
+		expect(x.isReadOnly).toBe(false);
+		expect(
+			TypeRef.equals(
+				x.tpe,
+				TypeRef.Intersection(
+					IArray.apply(TypeRef.Double, TypeRef.String),
+					Comments.empty(),
+				),
+			),
+		).toBe(true);
+		expect(x.comments.rawCs.join("")).toContain("InferMemberOverrides");
+	});
+
+	test("overrides methods inherited from two parents", () => {
+		const classes = run(
+			cls(
+				"A",
+				ClassType.Trait,
+				[],
+				method("A", "f", { params: [], resultType: TypeRef.Double }),
+			),
+			cls(
+				"B",
+				ClassType.Trait,
+				[],
+				method("B", "f", { params: [], resultType: TypeRef.String }),
+			),
+			cls("C", ClassType.Trait, [ref("A"), ref("B")]),
+		);
+
+		const f = member(classes.get("C"), "f") as MethodTree;
+		expect(f.isOverride).toBe(true);
+		expect(
+			f.resultType.targs.map((t) => t.typeName.parts.last.unescaped).toArray(),
+		).toEqual(["Double", "String"]);
+	});
+
+	test("keeps members the class already defines", () => {
+		const own = field("C", "x", { isReadOnly: true, tpe: TypeRef.Any });
+		const classes = run(
+			cls("A", ClassType.Trait, [], field("A", "x", { isReadOnly: true })),
+			cls(
+				"B",
+				ClassType.Trait,
+				[],
+				field("B", "x", { isReadOnly: true, tpe: TypeRef.String }),
+			),
+			cls("C", ClassType.Trait, [ref("A"), ref("B")], own),
+		);
+		expect(classes.get("C")?.members.toArray()).toEqual([own]);
+	});
+
+	test("ignores members inherited through a single parent", () => {
+		const classes = run(
+			cls("A", ClassType.Trait, [], field("A", "x", { isReadOnly: true })),
+			cls(
+				"B",
+				ClassType.Trait,
+				[ref("A")],
+				field("B", "x", { isReadOnly: true }),
+			),
+			cls("C", ClassType.Trait, [ref("B")]),
+		);
+		expect(classes.get("C")?.members.isEmpty).toBe(true);
+	});
+});
@@ -4,9 +4,9 @@
  * Comprehensive unit tests for LibraryVersion and InGit classes
  */
 
-import { pipe } from "fp-ts/function";
-import { getOrElse, isNone, isSome } from "fp-ts/Option";
 import { describe, expect, test } from "bun:test";
+import { pipe } from "fp-ts/function";
+import { getOrElse, isNone, isSome, some } from "fp-ts/Option";
 import { Digest } from "../internal/Digest.js";
 import { IArray } from "../internal/IArray.js";
 import { InGit, LibraryVersion } from "../internal/LibraryVersion.js";
@@ -40,7 +40,7 @@ describe("LibraryVersion", () => {
 			const gitInfo = new InGit(
 				new URL("https://github.com/example/repo"),
 				false,
-				new Date("2023-01-15T10:30:00Z"),
+				some(new Date("2023-01-15T10:30:00Z")),
 			);
 			const libraryVersion3 = LibraryVersion.create(false, "2.0.0", gitInfo);
 			expect(isSome(libraryVersion3.inGit)).toBe(true);
@@ -75,7 +75,7 @@ describe("LibraryVersion", () => {
 			const gitInfo = new InGit(
 				new URL("https://github.com/example/repo"),
 				false,
-				new Date("2023-01-15T10:30:00Z"),
+				some(new Date("2023-01-15T10:30:00Z")),
 			);
 			const libraryVersion2 = LibraryVersion.create(false, "2.0.0", gitInfo);
 			const version2 = libraryVersion2.version(testDigest);
@@ -130,7 +130,7 @@ describe("LibraryVersion", () => {
 			const dtGitInfo = new InGit(
 				new URL("https://github.com/DefinitelyTyped/DefinitelyTyped"),
 				true,
-				new Date("2023-03-20T14:45:30Z"),
+				some(new Date("2023-03-20T14:45:30Z")),
 			);
 			const dtFormat = dtGitInfo.format();
 			expect(dtFormat).toBe("dt-20230320Z");
@@ -139,7 +139,7 @@ describe("LibraryVersion", () => {
 			const regularGitInfo = new InGit(
 				new URL("https://github.com/facebook/react"),
 				false,
-				new Date("2023-03-20T14:45:30Z"),
+				some(new Date("2023-03-20T14:45:30Z")),
 			);
 			const regularFormat = regularGitInfo.format();
 			expect(regularFormat).toBe("/facebook/react-20230320Z");
@@ -148,7 +148,7 @@ describe("LibraryVersion", () => {
 			const differentDateGitInfo = new InGit(
 				new URL("https://github.com/microsoft/typescript"),
 				false,
-				new Date("2022-12-01T09:15:45Z"),
+				some(new Date("2022-12-01T09:15:45Z")),
 			);
 			const differentDateFormat = differentDateGitInfo.format();
 			expect(differentDateFormat).toBe("/microsoft/typescript-20221201Z");
@@ -178,7 +178,7 @@ describe("LibraryVersion", () => {
 			const dtStdLibGitInfo = new InGit(
 				new URL("https://github.com/DefinitelyTyped/DefinitelyTyped"),
 				true,
-				new Date("2023-06-15T12:00:00Z"),
+				some(new Date("2023-06-15T12:00:00Z")),
 			);
 			const dtStdLibVersion = LibraryVersion.create(
 				true,
@@ -0,0 +1,94 @@
+/**
+ * Tests for the TypeScript port of LimitUnionLength.scala
+ */
+
+import { describe, expect, test } from "bun:test";
+import { Comments } from "../internal/Comments.js";
+import { IArray } from "../internal/IArray.js";
+import { Logger } from "../internal/logging/index.js";
+import { Name } from "../internal/scalajs/Name.js";
+import { QualifiedName } from "../internal/scalajs/QualifiedName.js";
+import { TypeRef } from "../internal/scalajs/Tree.js";
+import { TreeScope } from "../internal/scalajs/TreeScope.js";
+import { LimitUnionLength } from "../internal/scalajs/transforms/LimitUnionLength.js";
+
+const scope = new TreeScope.Root(
+	Name.typings,
+	new Name("mylib"),
+	new Map(),
+	Logger.DevNull(),
+	false,
+);
+
+const union = (...types: TypeRef[]): TypeRef =>
+	TypeRef.Union(IArray.fromArray(types), Comments.empty(), false);
+
+const range = (n: number): number[] => Array.from({ length: n }, (_, i) => i);
+
+const limit = (tpe: TypeRef, maxLength?: number): TypeRef =>
+	new LimitUnionLength(maxLength).visitTypeRef(scope)(tpe);
+
+describe("LimitUnionLength", () => {
+	test("collapses long unions of string literals to String", () => {
+		const result = limit(
+			union(...range(60).map((i) => TypeRef.StringLiteral(`icon-${i}`))),
+		);
+		expect(TypeRef.equals(result, TypeRef.String)).toBe(true);
+		expect(result.comments.rawCs.join("")).toContain(
+			'Dropped 60 members of union type, starting with "icon-0", "icon-1", "icon-2"',
+		);
+	});
+
+	test("collapses long unions of number literals to Double", () => {
+		const result = limit(
+			union(...range(60).map((i) => TypeRef.DoubleLiteral(`${i}`))),
+		);
+		expect(TypeRef.equals(result, TypeRef.Double)).toBe(true);
+	});
+
+	test("counts String and Double with their own literals", () => {
+		const strings = limit(
+			union(
+				TypeRef.String,
+				...range(60).map((i) => TypeRef.StringLiteral(`icon-${i}`)),
+			),
+		);
+		expect(TypeRef.equals(strings, TypeRef.String)).toBe(true);
+
+		const numbers = limit(
+			union(
+				...range(60).map((i) => TypeRef.DoubleLiteral(`${i}`)),
+				TypeRef.Double,
+			),
+		);
+		expect(TypeRef.equals(numbers, TypeRef.Double)).toBe(true);
+	});
+
+	test("collapses mixed unions to Any, and keeps them optional", () => {
+		const result = limit(
+			union(
+				TypeRef.undefined,
+				TypeRef.Double,
+				...range(60).map((i) => TypeRef.StringLiteral(`${i}`)),
+			),
+		);
+		expect(result.typeName.equals(QualifiedName.UNION)).toBe(true);
+		expect(
+			result.targs.exists((t) => TypeRef.equals(t, TypeRef.undefined)),
+		).toBe(true);
+		const any = result.targs.find((t) => TypeRef.equals(t, TypeRef.Any));
+		expect(any?.comments.rawCs.join("")).toContain(
+			"Dropped 61 members of union type, starting with scala.Double",
+		);
+	});
+
+	test("respects the configured threshold", () => {
+		const small = union(
+			TypeRef.StringLiteral("a"),
+			TypeRef.StringLiteral("b"),
+			TypeRef.StringLiteral("c"),
+		);
+		expect(TypeRef.equals(limit(small), small)).toBe(true);
+		expect(TypeRef.equals(limit(small, 2), TypeRef.String)).toBe(true);
+	});
+});
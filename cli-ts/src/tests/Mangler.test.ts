@@ -0,0 +1,186 @@
+/**
+ * Tests for the TypeScript port of Mangler.scala
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+	EnumObject,
+	ManglerLeaveAlone,
+	ManglerWasJsNative,
+} from "../internal/Comment.js";
+import { Comments } from "../internal/Comments.js";
+import { IArray } from "../internal/IArray.js";
+import {
+	Annotation,
+	type AnnotationUnion,
+	JsGlobal,
+} from "../internal/scalajs/Annotation.js";
+import { Name } from "../internal/scalajs/Name.js";
+import { debugPrinter } from "../internal/scalajs/Printer.js";
+import { QualifiedName } from "../internal/scalajs/QualifiedName.js";
+import {
+	ExprTree,
+	type FieldTree,
+	isFieldTree,
+	isMethodTree,
+	isModuleTree,
+	type MethodTree,
+	type ModuleTree,
+	type Tree,
+	TypeRef,
+} from "../internal/scalajs/Tree.js";
+import { ManglerTransform } from "../internal/scalajs/transforms/Mangler.js";
+import {
+	field as fieldIn,
+	libPath,
+	library,
+	libraryMembers,
+	method as methodIn,
+	module as moduleIn,
+	scope,
+} from "./utils/ScalaTrees.js";
+
+const modPath = libPath.add(new Name("mod"));
+
+const jsGlobal = (name: string): IArray<AnnotationUnion> =>
+	IArray.apply<AnnotationUnion>(
+		JsGlobal.create(QualifiedName.from([new Name(name)])),
+	);
+
+const field = (name: string, isReadOnly: boolean): FieldTree =>
+	fieldIn(modPath, name, { isReadOnly, annotations: jsGlobal(name) });
+
+const method = (name: string): MethodTree =>
+	methodIn(modPath, name, {
+		resultType: TypeRef.String,
+		annotations: jsGlobal(name),
+	});
+
+const module = (
+	annotations: IArray<AnnotationUnion>,
+	comments: Comments,
+	...members: Tree[]
+): ModuleTree => ({
+	...moduleIn("mod", ...members),
+	annotations,
+	comments,
+});
+
+const run = (...members: Tree[]): IArray<Tree> =>
+	libraryMembers(ManglerTransform.visitPackageTree(scope)(library(members)));
+
+const mangledModule = (members: IArray<Tree>): ModuleTree =>
+	members.find(
+		(m) => isModuleTree(m) && m.name.unescaped === "mod",
+	) as ModuleTree;
+
+const named = (members: IArray<Tree>, name: string): IArray<Tree> =>
+	members.filter((m) => m.name.unescaped === name);
+
+describe("Mangler", () => {
+	test("turns members of native modules into forwarders with a `^` object", () => {
+		const mod = mangledModule(
+			run(
+				module(
+					IArray.apply<AnnotationUnion>(Annotation.JsNative),
+					Comments.empty(),
+					method("greet"),
+					field("counter", false),
+				),
+			),
+		);
+
+		expect(mod.annotations.isEmpty).toBe(true);
+
+		const greet = named(mod.members, "greet").head as MethodTree;
+		expect(greet.annotations.toArray()).toEqual([Annotation.Inline]);
+		expect(greet.comments.has(ManglerWasJsNative)).toBe(true);
+		expect(ExprTree.isNative(greet.impl)).toBe(false);
+
+		const counter = named(mod.members, "counter");
+		expect(counter.forall(isMethodTree)).toBe(true);
+		expect(named(mod.members, "counter_=").length).toBe(1);
+
+		const hat = named(mod.members, "^").head;
+		expect(isFieldTree(hat)).toBe(true);
+		expect((hat as FieldTree).annotations.toArray()).toEqual([
+			Annotation.JsNative,
+		]);
+	});
+
+	test("forwards members of `@JSGlobalScope` modules to the global scope", () => {
+		const mod = mangledModule(
+			run(
+				module(
+					IArray.apply<AnnotationUnion>(
+						Annotation.JsNative,
+						Annotation.JsGlobalScope,
+					),
+					Comments.empty(),
+					method("setTimeout"),
+				),
+			),
+		);
+
+		expect(named(mod.members, "^").isEmpty).toBe(true);
+		const setTimeout = named(mod.members, "setTimeout").head as MethodTree;
+		expect(setTimeout.comments.has(ManglerWasJsNative)).toBe(true);
+	});
+
+	test("forwards to the member name when the global path is empty", () => {
+		const unnamed = {
+			...method("greet"),
+			annotations: IArray.apply<AnnotationUnion>(
+				JsGlobal.create(QualifiedName.from([])),
+			),
+		};
+		const mod = mangledModule(
+			run(
+				module(
+					IArray.apply<AnnotationUnion>(Annotation.JsNative),
+					Comments.empty(),
+					unnamed,
+				),
+			),
+		);
+
+		const greet = named(mod.members, "greet").head as MethodTree;
+		expect(debugPrinter.formatExpr(0)(greet.impl as ExprTree)).toContain(
+			'applyDynamic("greet")',
+		);
+	});
+
+	test("leaves modules marked `ManglerLeaveAlone` unchanged", () => {
+		const original = module(
+			IArray.apply<AnnotationUnion>(Annotation.JsNative),
+			Comments.apply([ManglerLeaveAlone.instance]),
+			method("greet"),
+		);
+		expect(mangledModule(run(original))).toEqual(original);
+	});
+
+	test("strips location annotations from enum objects", () => {
+		const mod = mangledModule(
+			run(
+				module(
+					IArray.apply<AnnotationUnion>(Annotation.JsNative),
+					Comments.apply([EnumObject.instance]),
+					field("Red", false),
+				),
+			),
+		);
+
+		const red = named(mod.members, "Red").head as FieldTree;
+		expect(red.annotations.isEmpty).toBe(true);
+		expect(red.isReadOnly).toBe(true);
+	});
+
+	test("adds a `^` object for native fields in the library package", () => {
+		const members = run(field("version", true));
+
+		expect(isModuleTree(named(members, "^").head)).toBe(true);
+		const version = named(members, "version").head as MethodTree;
+		expect(isMethodTree(version)).toBe(true);
+		expect(version.comments.has(ManglerWasJsNative)).toBe(true);
+	});
+});
@@ -0,0 +1,157 @@
+/**
+ * Tests for the TypeScript port of Minimization.scala
+ */
+
+import { describe, expect, test } from "bun:test";
+import { MinimizationKeep, MinimizationRelated } from "../internal/Comment.js";
+import { Comments } from "../internal/Comments.js";
+import { IArray } from "../internal/IArray.js";
+import { Logger } from "../internal/logging/index.js";
+import { Minimization } from "../internal/scalajs/Minimization.js";
+import { Name } from "../internal/scalajs/Name.js";
+import { QualifiedName } from "../internal/scalajs/QualifiedName.js";
+import {
+	type ClassTree,
+	ClassType,
+	type FieldTree,
+	isPackageTree,
+	type PackageTree,
+	type Tree,
+	TypeRef,
+} from "../internal/scalajs/Tree.js";
+import {
+	cls as clsIn,
+	field as fieldIn,
+	library as libraryIn,
+	outputPkg,
+	scopeFor,
+} from "./utils/ScalaTrees.js";
+
+const path = (lib: string, ...names: string[]): QualifiedName =>
+	QualifiedName.from([outputPkg, ...[lib, ...names].map((n) => new Name(n))]);
+
+const ref = (lib: string, name: string): TypeRef =>
+	TypeRef.create(path(lib, name));
+
+const field = (lib: string, owner: string, tpe: TypeRef): FieldTree =>
+	fieldIn(path(lib, owner), "value", { tpe, isReadOnly: true });
+
+/* a plain trait in the given library */
+const cls = (
+	lib: string,
+	name: string,
+	comments: Comments,
+	...members: Tree[]
+): ClassTree => ({
+	...clsIn(name, ClassType.Trait, [], ...members),
+	annotations: IArray.Empty,
+	comments,
+	codePath: path(lib, name),
+});
+
+const library = (lib: string, ...members: Tree[]): PackageTree =>
+	libraryIn(members, new Name(lib));
+
+const related = (...refs: TypeRef[]): IArray<TypeRef> => IArray.fromArray(refs);
+
+/* minimizes `dep`, keeping what `app` references */
+const minimizeDep = (app: PackageTree, dep: PackageTree): string[] => {
+	const globalScope = scopeFor(
+		Name.dummy,
+		new Map([
+			["app", app],
+			["dep", dep],
+		]),
+	);
+	const keep = Minimization.findReferences(
+		globalScope,
+		IArray.Empty,
+		IArray.apply<[PackageTree, boolean]>([app, false], [dep, true]),
+	);
+	const minimized = Minimization.apply(
+		globalScope,
+		keep,
+		Logger.DevNull(),
+		dep,
+	);
+	const lib = minimized.members.head;
+	return isPackageTree(lib)
+		? lib.members.map((m) => m.name.unescaped).toArray()
+		: [];
+};
+
+describe("Minimization", () => {
+	test("keeps what is referenced, transitively, and drops the rest", () => {
+		const kept = minimizeDep(
+			library(
+				"app",
+				cls(
+					"app",
+					"App",
+					Comments.empty(),
+					field("app", "App", ref("dep", "A")),
+				),
+			),
+			library(
+				"dep",
+				cls("dep", "A", Comments.empty(), field("dep", "A", ref("dep", "B"))),
+				cls("dep", "B", Comments.empty()),
+				cls("dep", "Unused", Comments.empty()),
+			),
+		);
+		expect(kept).toEqual(["A", "B"]);
+	});
+
+	test("keeps everything marked with MinimizationKeep along with what it relates to", () => {
+		const kept = minimizeDep(
+			library("app"),
+			library(
+				"dep",
+				cls(
+					"dep",
+					"Kept",
+					Comments.apply([new MinimizationKeep(related(ref("dep", "Other")))]),
+				),
+				cls("dep", "Other", Comments.empty()),
+				cls("dep", "Unused", Comments.empty()),
+			),
+		);
+		expect(kept).toEqual(["Kept", "Other"]);
+	});
+
+	test("keeps what is related to kept trees", () => {
+		const kept = minimizeDep(
+			library(
+				"app",
+				cls(
+					"app",
+					"App",
+					Comments.empty(),
+					field("app", "App", ref("dep", "A")),
+				),
+			),
+			library(
+				"dep",
+				cls(
+					"dep",
+					"A",
+					Comments.apply([new MinimizationRelated(related(ref("dep", "R")))]),
+				),
+				cls("dep", "R", Comments.empty()),
+				cls("dep", "Unused", Comments.empty()),
+			),
+		);
+		expect(kept).toEqual(["A", "R"]);
+	});
+
+	test("marks the packages around kept trees as only static", () => {
+		const keep = Minimization.findReferences(
+			scopeFor(Name.dummy),
+			IArray.apply(path("dep", "nested", "A")),
+			IArray.Empty,
+		);
+		expect(keep.get(path("dep", "nested", "A").value)).toBe(false);
+		expect(keep.get(path("dep", "nested").value)).toBe(true);
+		expect(keep.get(path("dep").value)).toBe(true);
+	});
+});
@@ -0,0 +1,313 @@
+/**
+ * Tests for the TypeScript port of Printer.scala
+ */
+
+import { describe, expect, test } from "bun:test";
+import * as O from "fp-ts/Option";
+import { Comments } from "../internal/Comments.js";
+import { IArray } from "../internal/IArray.js";
+import {
+	type ScalaVersion,
+	Versions,
+} from "../internal/importer/ConversionOptions.js";
+import { Logger } from "../internal/logging/index.js";
+import {
+	Annotation,
+	type AnnotationUnion,
+	Imported,
+	JsGlobal,
+} from "../internal/scalajs/Annotation.js";
+import { Name } from "../internal/scalajs/Name.js";
+import { ParentsResolver } from "../internal/scalajs/ParentsResolver.js";
+import { debugPrinter, Printer } from "../internal/scalajs/Printer.js";
+import { QualifiedName } from "../internal/scalajs/QualifiedName.js";
+import {
+	ExprTree,
+	FieldTree,
+	MethodTree,
+	ModuleTree,
+	NotImplemented,
+	PackageTree,
+	ParamTree,
+	ProtectionLevel,
+	type Tree,
+	TypeAliasTree,
+	TypeRef,
+} from "../internal/scalajs/Tree.js";
+import { TreeScope } from "../internal/scalajs/TreeScope.js";
+
+const outputPkg = Name.typings;
+const libPkg = new Name("mylib");
+const codePath = QualifiedName.from([outputPkg, libPkg]);
+
+const field = (name: string, tpe: TypeRef, isReadOnly = true): FieldTree =>
+	FieldTree.create(
+		IArray.apply<AnnotationUnion>(Annotation.JsNative),
+		ProtectionLevel.Public,
+		new Name(name),
+		tpe,
+		ExprTree.native,
+		isReadOnly,
+		false,
+		Comments.empty(),
+		codePath.add(new Name(name)),
+	);
+
+const method = (
+	name: string,
+	params: IArray<ParamTree>,
+	resultType: TypeRef,
+): MethodTree =>
+	MethodTree.create(
+		IArray.Empty,
+		ProtectionLevel.Public,
+		new Name(name),
+		IArray.Empty,
+		IArray.apply(params),
+		NotImplemented,
+		resultType,
+		false,
+		Comments.empty(),
+		codePath.add(new Name(name)),
+		false,
+	);
+
+const param = (name: string, tpe: TypeRef): ParamTree =>
+	ParamTree.create(
+		new Name(name),
+		false,
+		false,
+		tpe,
+		NotImplemented,
+		Comments.empty(),
+	);
+
+function print(...members: Tree[]): Map<string, string> {
+	return printWith(Versions.Scala3, ...members);
+}
+
+function printWith(
+	scalaVersion: ScalaVersion,
+	...members: Tree[]
+): Map<string, string> {
+	const lib = PackageTree.create(
+		IArray.Empty,
+		libPkg,
+		IArray.fromArray(members),
+		Comments.empty(),
+		codePath,
+	);
+	const tree = PackageTree.create(
+		IArray.Empty,
+		outputPkg,
+		IArray.apply<Tree>(lib),
+		Comments.empty(),
+		QualifiedName.from([outputPkg]),
+	);
+	return new Map(
+		Printer.apply(
+			new TreeScope.Root(outputPkg, libPkg, new Map(), Logger.DevNull(), false),
+			new ParentsResolver(),
+			tree,
+			outputPkg,
+			scalaVersion,
+		)
+			.toArray()
+			.map(([path, content]) => [path, content] as const),
+	);
+}
+
+describe("Printer", () => {
+	describe("file layout", () => {
+		test("puts members which are not classes or modules in package.scala", () => {
+			const files = print(field("x", TypeRef.Double));
+			expect(Array.from(files.keys())).toEqual(["typings/mylib/package.scala"]);
+
+			const content = files.get("typings/mylib/package.scala");
+			expect(content).toContain("package typings.mylib\n");
+			expect(content).toContain("import scala.scalajs.js\n");
+			expect(content).toContain("@js.native\nval x: Double = js.native");
+		});
+
+		test("gives each top-level module its own file", () => {
+			const foo = ModuleTree.create(
+				IArray.apply<AnnotationUnion>(
+					Annotation.JsImport(
+						"mylib",
+						Imported.Named(IArray.apply(new Name("foo"))),
+					),
+					Annotation.JsNative,
+				),
+				ProtectionLevel.Public,
+				new Name("foo"),
+				IArray.Empty,
+				IArray.apply<Tree>(field("bar", TypeRef.String)),
+				Comments.empty(),
+				codePath.add(new Name("foo")),
+				false,
+			);
+			const files = print(foo, field("x", TypeRef.Double));
+
+			expect(Array.from(files.keys()).sort()).toEqual([
+				"typings/mylib/foo.scala",
+				"typings/mylib/package.scala",
+			]);
+			expect(files.get("typings/mylib/foo.scala")).toContain(
+				'@JSImport("mylib", "foo")\n@js.native\nobject foo extends StObject {\n  \n  @js.native\n  val bar: String = js.native\n}',
+			);
+		});
+
+		test("escapes package.scala when a file would clash with it", () => {
+			const pkg = ModuleTree.create(
+				IArray.Empty,
+				ProtectionLevel.Public,
+				new Name("package"),
+				IArray.Empty,
+				IArray.Empty,
+				Comments.empty(),
+				codePath.add(new Name("package")),
+				false,
+			);
+			const files = print(pkg, field("x", TypeRef.Double));
+			expect(files.has("typings/mylib/package_.scala")).toBe(true);
+		});
+	});
+
+	describe("members", () => {
+		test("prints methods with parameters", () => {
+			const files = print(
+				method(
+					"foo",
+					IArray.apply(param("a", TypeRef.String), param("b", TypeRef.Double)),
+					TypeRef.Boolean,
+				),
+			);
+			expect(files.get("typings/mylib/package.scala")).toContain(
+				"def foo(a: String, b: Double): Boolean",
+			);
+		});
+
+		test("prints type aliases", () => {
+			const alias = TypeAliasTree.create(
+				new Name("Id"),
+				ProtectionLevel.Public,
+				IArray.Empty,
+				TypeRef.UndefOr(TypeRef.String),
+				Comments.empty(),
+				codePath.add(new Name("Id")),
+			);
+			expect(print(alias).get("typings/mylib/package.scala")).toContain(
+				"type Id = js.UndefOr[String]",
+			);
+		});
+
+		test("prints private[within] for both scala versions", () => {
+			const alias = TypeAliasTree.create(
+				new Name("Id"),
+				ProtectionLevel.PrivateWithin(libPkg),
+				IArray.Empty,
+				TypeRef.Double,
+				Comments.empty(),
+				codePath.add(new Name("Id")),
+			);
+			expect(
+				printWith(Versions.Scala3, alias).get("typings/mylib/package.scala"),
+			).toContain("private[mylib] type Id = Double");
+			expect(
+				printWith(Versions.Scala213, alias).get("typings/mylib/package.scala"),
+			).toContain(
+				"package object mylib {\n  \n  private[mylib] type Id = scala.Double\n}",
+			);
+		});
+	});
+
+	describe("annotations", () => {
+		test("formats location and naming annotations", () => {
+			expect(debugPrinter.formatAnn(Annotation.JsName(new Name("a-b")))).toBe(
+				'@JSName("a-b")',
+			);
+			expect(
+				debugPrinter.formatAnn(
+					Annotation.JsGlobal(QualifiedName.fromStrings(["a", "b"])),
+				),
+			).toBe('@JSGlobal("a.b")');
+			expect(
+				debugPrinter.formatAnn(
+					Annotation.JsImport(
+						"lib",
+						Imported.Default,
+						O.some(JsGlobal.create(QualifiedName.fromStrings(["Lib"]))),
+					),
+				),
+			).toBe('@JSImport("lib", JSImport.Default, "Lib")');
+			expect(debugPrinter.formatAnn(Annotation.JsBracketAccess)).toBe(
+				"@JSBracketAccess",
+			);
+		});
+
+		test("sorts annotations", () => {
+			expect(
+				debugPrinter.formatAnns(
+					IArray.apply<AnnotationUnion>(
+						Annotation.JsNative,
+						Annotation.JsImport("lib", Imported.Namespace),
+					),
+				),
+			).toBe('@JSImport("lib", JSImport.Namespace)\n@js.native\n');
+		});
+	});
+
+	describe("types", () => {
+		const format = debugPrinter.formatTypeRef(0);
+
+		// names are only shortened with imports by `ShortenNames`, apart from `scala.scalajs.js`
+		test("shortens scala.scalajs.js", () => {
+			expect(
+				format(
+					TypeRef.create(QualifiedName.JsArray, IArray.apply(TypeRef.String)),
+				),
+			).toBe("js.Array[java.lang.String]");
+		});
+
+		test("formats unions, intersections and literals", () => {
+			expect(
+				format(
+					TypeRef.Union(
+						IArray.apply(TypeRef.StringLiteral("a"), TypeRef.IntLiteral("1")),
+						Comments.empty(),
+						false,
+					),
+				),
+			).toBe('"a" | 1');
+			expect(
+				format(
+					TypeRef.Intersection(
+						IArray.apply(TypeRef.String, TypeRef.Double),
+						Comments.empty(),
+					),
+				),
+			).toBe("java.lang.String & scala.Double");
+		});
+
+		test("formats scala functions", () => {
+			expect(
+				format(
+					TypeRef.ScalaFunction(
+						IArray.apply(TypeRef.String),
+						TypeRef.Unit,
+						Comments.empty(),
+					),
+				),
+			).toBe("java.lang.String => scala.Unit");
+		});
+
+		test("formats wildcards depending on the scala version", () => {
+			expect(format(TypeRef.Wildcard)).toBe("?");
+			expect(
+				new Printer.Impl(outputPkg, Versions.Scala213).formatTypeRef(0)(
+					TypeRef.Wildcard,
+				),
+			).toBe("_");
+		});
+	});
+});
@@ -0,0 +1,72 @@
+/**
+ * Tests for the TypeScript port of RemoveDuplicateInheritance.scala
+ */
+
+import { describe, expect, test } from "bun:test";
+import { ParentsResolver } from "../internal/scalajs/ParentsResolver.js";
+import { debugPrinter } from "../internal/scalajs/Printer.js";
+import {
+	type ClassTree,
+	ClassType,
+	type Tree,
+	TypeRef,
+} from "../internal/scalajs/Tree.js";
+import { RemoveDuplicateInheritance } from "../internal/scalajs/transforms/RemoveDuplicateInheritance.js";
+import {
+	classesByName,
+	cls,
+	library,
+	libraryMembers,
+	ref,
+	scope,
+} from "./utils/ScalaTrees.js";
+
+const run = (...members: Tree[]): Map<string, ClassTree> =>
+	classesByName(
+		libraryMembers(
+			new RemoveDuplicateInheritance(new ParentsResolver()).visitPackageTree(
+				scope,
+			)(library(members)),
+		),
+	);
+
+const parents = (c: ClassTree | undefined): string[] =>
+	c?.parents.map((p) => debugPrinter.formatTypeRef(0)(p)).toArray() ?? [];
+
+describe("RemoveDuplicateInheritance", () => {
+	test("combines repeated parents into one with union type arguments", () => {
+		const classes = run(
+			cls("I", ClassType.Trait, []),
+			cls("X", ClassType.Trait, [
+				ref("I", TypeRef.Double),
+				ref("J"),
+				ref("I", TypeRef.String),
+			]),
+		);
+		expect(parents(classes.get("X"))).toEqual([
+			"typings.mylib.I[scala.Double | java.lang.String]",
+			"typings.mylib.J",
+		]);
+	});
+
+	test("drops parents which are already inherited with other type arguments", () => {
+		const classes = run(
+			cls("I", ClassType.Trait, []),
+			cls("Foo", ClassType.Trait, [ref("I", TypeRef.Double)]),
+			cls("FooBar", ClassType.Trait, [ref("Foo"), ref("I", TypeRef.String)]),
+		);
+		expect(parents(classes.get("FooBar"))).toEqual(["typings.mylib.Foo"]);
+	});
+
+	test("leaves distinct parents alone", () => {
+		const classes = run(
+			cls("I", ClassType.Trait, []),
+			cls("J", ClassType.Trait, []),
+			cls("X", ClassType.Trait, [ref("I"), ref("J")]),
+		);
+		expect(parents(classes.get("X"))).toEqual([
+			"typings.mylib.I",
+			"typings.mylib.J",
+		]);
+	});
+});
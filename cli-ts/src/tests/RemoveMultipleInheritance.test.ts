@@ -0,0 +1,101 @@
+/**
+ * Tests for the TypeScript port of RemoveMultipleInheritance.scala
+ */
+
+import { describe, expect, test } from "bun:test";
+import { HasClassParent } from "../internal/Comment.js";
+import { ParentsResolver } from "../internal/scalajs/ParentsResolver.js";
+import {
+	type ClassTree,
+	ClassType,
+	type Tree,
+} from "../internal/scalajs/Tree.js";
+import { RemoveMultipleInheritance } from "../internal/scalajs/transforms/RemoveMultipleInheritance.js";
+import {
+	classesByName,
+	cls,
+	field,
+	library,
+	libraryMembers,
+	ref,
+	scope,
+} from "./utils/ScalaTrees.js";
+
+const run = (...members: Tree[]): Map<string, ClassTree> =>
+	classesByName(
+		libraryMembers(
+			new RemoveMultipleInheritance(new ParentsResolver()).visitPackageTree(
+				scope,
+			)(library(members)),
+		),
+	);
+
+const parentNames = (c: ClassTree | undefined): string[] =>
+	c?.parents.map((p) => p.typeName.parts.last.unescaped).toArray() ?? [];
+
+describe("RemoveMultipleInheritance", () => {
+	test("puts the parent which brings in a class first", () => {
+		const classes = run(
+			cls("T", ClassType.Trait, []),
+			cls("A", ClassType.Class, []),
+			cls("X", ClassType.Class, [ref("T"), ref("A")]),
+		);
+		const x = classes.get("X");
+		expect(parentNames(x)).toEqual(["A", "T"]);
+		expect(x?.comments.has(HasClassParent)).toBe(true);
+	});
+
+	test("drops a second class parent and inlines its members", () => {
+		const classes = run(
+			cls("A", ClassType.Class, [], field("A", "a", { isReadOnly: true })),
+			cls("B", ClassType.Class, [], field("B", "b", { isReadOnly: true })),
+			cls("X", ClassType.Class, [ref("A"), ref("B")]),
+		);
+		const x = classes.get("X");
+		expect(parentNames(x)).toEqual(["A"]);
+		expect(x?.members.map((m) => m.name.unescaped).toArray()).toEqual(["b"]);
+		expect(x?.comments.rawCs.join("")).toContain(
+			"Inheritance from two classes. Inlined b",
+		);
+	});
+
+	test("drops parents which are already inherited", () => {
+		const classes = run(
+			cls("A", ClassType.Trait, []),
+			cls("T", ClassType.Trait, [ref("A")]),
+			cls("X", ClassType.Trait, [ref("T"), ref("A")]),
+		);
+		const x = classes.get("X");
+		expect(parentNames(x)).toEqual(["T"]);
+		expect(x?.comments.rawCs.join("")).toContain("Already inherited");
+	});
+
+	test("drops parents with conflicting vars and inlines the rest", () => {
+		const classes = run(
+			cls("T1", ClassType.Trait, [], field("T1", "x", { isReadOnly: false })),
+			cls(
+				"T2",
+				ClassType.Trait,
+				[],
+				field("T2", "x", { isReadOnly: false }),
+				field("T2", "y", { isReadOnly: true }),
+			),
+			cls("X", ClassType.Trait, [ref("T1"), ref("T2")]),
+		);
+		const x = classes.get("X");
+		expect(parentNames(x)).toEqual(["T1"]);
+		expect(x?.members.map((m) => m.name.unescaped).toArray()).toEqual(["y"]);
+		expect(x?.comments.rawCs.join("")).toContain("var conflicts: x");
+	});
+
+	test("leaves unproblematic inheritance alone", () => {
+		const classes = run(
+			cls("T1", ClassType.Trait, []),
+			cls("T2", ClassType.Trait, []),
+			cls("X", ClassType.Trait, [ref("T1"), ref("T2")]),
+		);
+		const x = classes.get("X");
+		expect(parentNames(x)).toEqual(["T1", "T2"]);
+		expect(x?.comments.rawCs).toEqual([]);
+	});
+});
@@ -0,0 +1,202 @@
+/**
+ * Tests for the TypeScript port of ScalaJsDomNames.scala, and for leaving its types out of `std`
+ */
+
+import { describe, expect, test } from "bun:test";
+import { Comments } from "../internal/Comments.js";
+import { IArray } from "../internal/IArray.js";
+import { Versions } from "../internal/importer/ConversionOptions.js";
+import { NormalFlavourImpl } from "../internal/importer/FlavourImpl.js";
+import { Logger } from "../internal/logging/index.js";
+import {
+	Annotation,
+	type AnnotationUnion,
+} from "../internal/scalajs/Annotation.js";
+import { CastConversion } from "../internal/scalajs/CastConversion.js";
+import { RemoveDomDuplicates } from "../internal/scalajs/flavours/RemoveDomDuplicates.js";
+import { ScalaJsDomNames } from "../internal/scalajs/flavours/ScalaJsDomNames.js";
+import { Name } from "../internal/scalajs/Name.js";
+import { QualifiedName, StdNames } from "../internal/scalajs/QualifiedName.js";
+import {
+	ClassTree,
+	ClassType,
+	isClassTree,
+	PackageTree,
+	ProtectionLevel,
+	type Tree,
+	TypeRef,
+} from "../internal/scalajs/Tree.js";
+import { TreeScope } from "../internal/scalajs/TreeScope.js";
+
+const outputPkg = Name.typings;
+const stdNames = new StdNames(outputPkg);
+
+const conversion = (
+	names: ScalaJsDomNames,
+	from: string,
+): CastConversion | undefined => names.All.find((c) => c.from.value === from);
+
+const trait = (codePath: QualifiedName, ...parents: TypeRef[]): ClassTree =>
+	ClassTree.create(
+		false,
+		IArray.apply<AnnotationUnion>(Annotation.JsNative),
+		ProtectionLevel.Public,
+		codePath.parts.last,
+		IArray.Empty,
+		IArray.fromArray(parents),
+		IArray.Empty,
+		IArray.Empty,
+		ClassType.Trait,
+		false,
+		Comments.empty(),
+		codePath,
+	);
+
+const run = (libName: Name, ...members: Tree[]): string[][] => {
+	const libPath = QualifiedName.from([outputPkg, libName]);
+	const tree = PackageTree.create(
+		IArray.Empty,
+		outputPkg,
+		IArray.apply<Tree>(
+			PackageTree.create(
+				IArray.Empty,
+				libName,
+				IArray.fromArray(members),
+				Comments.empty(),
+				libPath,
+			),
+		),
+		Comments.empty(),
+		QualifiedName.from([outputPkg]),
+	);
+	const scope = new TreeScope.Root(
+		outputPkg,
+		libName,
+		new Map(),
+		Logger.DevNull(),
+		false,
+	);
+	const lib = new RemoveDomDuplicates(
+		new ScalaJsDomNames(stdNames).All,
+	).visitPackageTree(scope)(tree).members.head as PackageTree;
+
+	return lib.members
+		.toArray()
+		.filter(isClassTree)
+		.map((c) => [
+			c.name.unescaped,
+			...c.parents.map((p) => p.typeName.value).toArray(),
+		]);
+};
+
+describe("ScalaJsDomNames", () => {
+	test("maps DOM interfaces from std to scala-js-dom", () => {
+		const names = new ScalaJsDomNames(stdNames);
+		for (const name of [
+			"HTMLElement",
+			"Event",
+			"MouseEvent",
+			"Window",
+			"Node",
+		]) {
+			expect(conversion(names, `typings.std.${name}`)?.to.value).toBe(
+				`org.scalajs.dom.${name}`,
+			);
+		}
+		expect(
+			conversion(names, "typings.std.HTMLCollection")?.tparams.toArray(),
+		).toEqual([CastConversion.TParam._1]);
+	});
+
+	test("also maps the types when reached through std.global", () => {
+		const names = new ScalaJsDomNames(stdNames);
+		expect(conversion(names, "typings.std.global.Window")?.to.value).toBe(
+			"org.scalajs.dom.Window",
+		);
+	});
+
+	test("collects the element types", () => {
+		const names = new ScalaJsDomNames(stdNames);
+		expect(names.AllElements.has("org.scalajs.dom.HTMLDivElement")).toBe(true);
+		expect(names.AllElements.has(ScalaJsDomNames.Element.value)).toBe(true);
+		expect(names.AllElements.has("org.scalajs.dom.Event")).toBe(false);
+	});
+
+	test("can be extended, and extra conversions win", () => {
+		const names = new ScalaJsDomNames(
+			stdNames,
+			IArray.apply(
+				CastConversion.apply(
+					stdNames.lib.add(new Name("Event")),
+					QualifiedName.fromString("org.scalajs.dom.CustomEvent"),
+				),
+				CastConversion.apply(
+					stdNames.lib.add(new Name("ResizeObserver")),
+					QualifiedName.fromString("org.scalajs.dom.ResizeObserver"),
+				),
+			),
+		);
+		expect(
+			names.All.filter((c) => c.from.value === "typings.std.Event").length,
+		).toBe(1);
+		expect(conversion(names, "typings.std.Event")?.to.value).toBe(
+			"org.scalajs.dom.CustomEvent",
+		);
+		expect(
+			conversion(names, "typings.std.global.ResizeObserver")?.to.value,
+		).toBe("org.scalajs.dom.ResizeObserver");
+	});
+
+	test("is only part of the flavour rewrites when enabled", () => {
+		const versions = new Versions(Versions.Scala3, Versions.ScalaJs1);
+		const hasEvent = (useScalaJsDomTypes: boolean): boolean =>
+			new NormalFlavourImpl(useScalaJsDomTypes, false, outputPkg, versions)
+				.rewrites()
+				.exists((c) => c.from.value === "typings.std.Event");
+
+		expect(hasEvent(true)).toBe(true);
+		expect(hasEvent(false)).toBe(false);
+	});
+
+	test("takes extra names from the flavour options", () => {
+		const versions = new Versions(Versions.Scala3, Versions.ScalaJs1);
+		const rewrites = new NormalFlavourImpl(
+			true,
+			false,
+			outputPkg,
+			versions,
+			new Map([["ResizeObserver", "org.scalajs.dom.ResizeObserver"]]),
+		).rewrites();
+		expect(
+			rewrites.find((c) => c.from.value === "typings.std.ResizeObserver")?.to
+				.value,
+		).toBe("org.scalajs.dom.ResizeObserver");
+	});
+});
+
+describe("RemoveDomDuplicates", () => {
+	const std = (name: string) => stdNames.lib.add(new Name(name));
+
+	test("drops std declarations which scala-js-dom provides", () => {
+		const classes = run(
+			Name.std,
+			trait(std("HTMLElement")),
+			trait(std("HTMLDialogElement"), TypeRef.create(std("HTMLElement"))),
+		);
+		expect(classes).toEqual([
+			["HTMLDialogElement", "org.scalajs.dom.HTMLElement"],
+		]);
+	});
+
+	test("rewrites inheritance from those declarations in other libraries", () => {
+		const libName = new Name("mylib");
+		const classes = run(
+			libName,
+			trait(
+				QualifiedName.from([outputPkg, libName, new Name("MyElement")]),
+				TypeRef.create(std("HTMLElement")),
+			),
+		);
+		expect(classes).toEqual([["MyElement", "org.scalajs.dom.HTMLElement"]]);
+	});
+});
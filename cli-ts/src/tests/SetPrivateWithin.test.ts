@@ -0,0 +1,82 @@
+/**
+ * Tests for the TypeScript port of SetPrivateWithin.scala
+ */
+
+import { describe, expect, test } from "bun:test";
+import { Comments } from "../internal/Comments.js";
+import { IArray } from "../internal/IArray.js";
+import { Name } from "../internal/scalajs/Name.js";
+import {
+	type ClassTree,
+	ClassType,
+	type FieldTree,
+	type ModuleTree,
+	ProtectionLevel,
+	type Tree,
+	TypeAliasTree,
+	TypeRef,
+} from "../internal/scalajs/Tree.js";
+import { SetPrivateWithin } from "../internal/scalajs/transforms/SetPrivateWithin.js";
+import {
+	cls,
+	field,
+	libName,
+	libPath,
+	library,
+	libraryMembers,
+	module,
+	scope,
+} from "./utils/ScalaTrees.js";
+
+const within = ProtectionLevel.PrivateWithin(libName);
+
+const run = (...members: Tree[]): IArray<Tree> =>
+	libraryMembers(
+		new SetPrivateWithin(libName).visitPackageTree(scope)(library(members)),
+	);
+
+const levelOf = (t: Tree): ProtectionLevel =>
+	(t as ClassTree | ModuleTree | FieldTree | TypeAliasTree).level;
+
+describe("SetPrivateWithin", () => {
+	test("makes top-level declarations private to the package", () => {
+		const alias = TypeAliasTree.create(
+			new Name("Id"),
+			ProtectionLevel.Public,
+			IArray.Empty,
+			TypeRef.String,
+			Comments.empty(),
+			libPath.add(new Name("Id")),
+		);
+		const members = run(
+			cls("A", ClassType.Trait, []),
+			module("B"),
+			field(libPath, "c"),
+			alias,
+		);
+		expect(members.map(levelOf).toArray()).toEqual([
+			within,
+			within,
+			within,
+			within,
+		]);
+	});
+
+	test("leaves members of classes and objects alone", () => {
+		const [clsA, modB] = run(
+			cls("A", ClassType.Trait, [], field("A", "x")),
+			module("B", field("B", "y")),
+		).toArray() as [ClassTree, ModuleTree];
+
+		expect(clsA.level).toEqual(within);
+		expect(levelOf(clsA.members.head)).toBe(ProtectionLevel.Public);
+		expect(modB.level).toEqual(within);
+		expect(levelOf(modB.members.head)).toBe(ProtectionLevel.Public);
+	});
+
+	test("rejects qualified package names", () => {
+		expect(() => new SetPrivateWithin(new Name("com.mylib"))).toThrow(
+			"The privateWithin option cannot be fully qualified: specify `mylib` instead of `com.mylib`",
+		);
+	});
+});
@@ -0,0 +1,125 @@
+/**
+ * Tests for the TypeScript port of ShortenNames.scala
+ */
+
+import { describe, expect, test } from "bun:test";
+import { IArray } from "../internal/IArray.js";
+import { Name } from "../internal/scalajs/Name.js";
+import { ParentsResolver } from "../internal/scalajs/ParentsResolver.js";
+import { QualifiedName } from "../internal/scalajs/QualifiedName.js";
+import {
+	type ClassTree,
+	ClassType,
+	type FieldTree,
+	NotImplemented,
+	type PackageTree,
+	type Tree,
+	TypeRef,
+} from "../internal/scalajs/Tree.js";
+import { ShortenNames } from "../internal/scalajs/transforms/ShortenNames.js";
+import {
+	cls as clsIn,
+	field as fieldIn,
+	libPath,
+	library,
+	scope,
+	tparam,
+} from "./utils/ScalaTrees.js";
+
+const qn = (...parts: string[]): QualifiedName =>
+	QualifiedName.from(parts.map((p) => new Name(p)));
+
+const field = (
+	owner: QualifiedName,
+	name: string,
+	tpe: TypeRef,
+	isReadOnly = false,
+): FieldTree => fieldIn(owner, name, { tpe, isReadOnly, impl: NotImplemented });
+
+const cls = (
+	name: string,
+	tparams: string[],
+	...members: Tree[]
+): ClassTree => ({
+	...clsIn(name, ClassType.Trait, [], ...members),
+	tparams: IArray.fromArray(tparams.map(tparam)),
+});
+
+const shorten = (
+	...members: Tree[]
+): { imports: string[]; members: IArray<Tree> } => {
+	const typings = library(members);
+	const lib = typings.members.head as PackageTree;
+	const [imports, newMembers] = ShortenNames.apply(
+		lib,
+		scope["/"](typings)["/"](lib),
+		new ParentsResolver(),
+	)(lib.members);
+
+	return {
+		imports: imports.map((i) => i.imported.value).toArray(),
+		members: newMembers,
+	};
+};
+
+const fieldType = (t: Tree | undefined): string =>
+	(t as FieldTree).tpe.typeName.value;
+
+const classField = (t: Tree, name: string): string =>
+	fieldType((t as ClassTree).members.find((m) => m.name.unescaped === name));
+
+describe("ShortenNames", () => {
+	test("shortens names from other packages and imports them", () => {
+		const res = shorten(
+			field(libPath, "x", TypeRef.create(qn("typings", "other", "Foo"))),
+		);
+		expect(res.imports).toEqual(["typings.other.Foo"]);
+		expect(fieldType(res.members.head)).toBe("Foo");
+	});
+
+	test("does not import names which are already in scope", () => {
+		const res = shorten(
+			cls("Bar", []),
+			field(libPath, "x", TypeRef.create(libPath.add(new Name("Bar")))),
+		);
+		expect(res.imports).toEqual([]);
+		expect(fieldType(res.members.get(1))).toBe("Bar");
+	});
+
+	test("keeps the qualified name when a member or type parameter would shadow it", () => {
+		const foo = TypeRef.create(qn("typings", "other", "Foo"));
+		const owner = libPath.add(new Name("C"));
+		const res = shorten(
+			cls(
+				"C",
+				[],
+				field(owner, "Foo", TypeRef.Double, true),
+				field(owner, "x", foo),
+			),
+			cls("D", ["Foo"], field(libPath.add(new Name("D")), "x", foo)),
+		);
+		expect(res.imports).toEqual([]);
+		expect(classField(res.members.head, "x")).toBe("typings.other.Foo");
+		expect(classField(res.members.get(1), "x")).toBe("typings.other.Foo");
+	});
+
+	test("leaves scala.js names alone, and does not import from java.lang", () => {
+		const res = shorten(
+			field(libPath, "x", TypeRef.create(QualifiedName.JsArray)),
+			field(libPath, "y", TypeRef.String),
+		);
+		expect(res.imports).toEqual([]);
+		expect(fieldType(res.members.head)).toBe(QualifiedName.JsArray.value);
+		expect(fieldType(res.members.get(1))).toBe("String");
+	});
+
+	test("only shortens the first of two names with the same last part", () => {
+		const res = shorten(
+			field(libPath, "x", TypeRef.create(qn("typings", "other", "Foo"))),
+			field(libPath, "y", TypeRef.create(qn("typings", "third", "Foo"))),
+		);
+		expect(res.imports).toEqual(["typings.other.Foo"]);
+		expect(fieldType(res.members.head)).toBe("Foo");
+		expect(fieldType(res.members.get(1))).toBe("typings.third.Foo");
+	});
+});
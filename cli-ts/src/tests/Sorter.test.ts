@@ -0,0 +1,135 @@
+/**
+ * Tests for the TypeScript port of Sorter.scala
+ */
+
+import { describe, expect, test } from "bun:test";
+import { IArray } from "../internal/IArray.js";
+import { Versions } from "../internal/importer/ConversionOptions.js";
+import {
+	Annotation,
+	type AnnotationUnion,
+	JsGlobal,
+} from "../internal/scalajs/Annotation.js";
+import { Name } from "../internal/scalajs/Name.js";
+import { ParentsResolver } from "../internal/scalajs/ParentsResolver.js";
+import { Printer } from "../internal/scalajs/Printer.js";
+import { QualifiedName } from "../internal/scalajs/QualifiedName.js";
+import {
+	type FieldTree,
+	type MethodTree,
+	NotImplemented,
+	type Tree,
+	TypeRef,
+} from "../internal/scalajs/Tree.js";
+import {
+	Sorter,
+	SorterTransform,
+} from "../internal/scalajs/transforms/Sorter.js";
+import {
+	field as fieldIn,
+	libPath,
+	library,
+	method as methodIn,
+	outputPkg,
+	param,
+	scope,
+} from "./utils/ScalaTrees.js";
+
+const field = (
+	name: string,
+	annotations?: IArray<AnnotationUnion>,
+): FieldTree => fieldIn(libPath, name, { annotations });
+
+const method = (name: string, ...params: [string, TypeRef][]): MethodTree =>
+	methodIn(libPath, name, {
+		params: params.map(([n, tpe]) => param(n, tpe)),
+		impl: NotImplemented,
+	});
+
+const names = (members: IArray<Tree>): string[] =>
+	members.map((m) => m.name.unescaped).toArray();
+
+const generate = (members: Tree[]): string =>
+	Printer.apply(
+		scope,
+		new ParentsResolver(),
+		SorterTransform.visitPackageTree(scope)(library(members)),
+		outputPkg,
+		Versions.Scala3,
+	)
+		.map(([path, content]) => `${path}\n${content}`)
+		.mkString("", "\n", "");
+
+describe("Sorter", () => {
+	test("orders members by name without depending on the locale", () => {
+		const sorted = Sorter.sorted(
+			IArray.apply<Tree>(field("beta"), field("Zeta"), field("alpha")),
+		);
+		expect(names(sorted)).toEqual(["Zeta", "alpha", "beta"]);
+	});
+
+	test("orders overloads by parameter count and erased signature", () => {
+		const sorted = Sorter.sorted(
+			IArray.apply<MethodTree>(
+				method("f", ["x", TypeRef.String]),
+				method("f", ["x", TypeRef.Double], ["y", TypeRef.Double]),
+				method("f", ["x", TypeRef.Double]),
+				method("f"),
+			),
+		);
+
+		expect(
+			sorted
+				.map((m) =>
+					m.params
+						.flatten()
+						.map((p) => p.tpe.typeName.parts.last.unescaped)
+						.mkString("(", ",", ")"),
+				)
+				.toArray(),
+		).toEqual(["()", "(String)", "(Double)", "(Double,Double)"]);
+	});
+
+	test("puts unnamed members first, then native values next to their setters", () => {
+		const native = IArray.apply<AnnotationUnion>(
+			JsGlobal.create(QualifiedName.from([new Name("counter")])),
+		);
+		const sorted = Sorter.sorted(
+			IArray.apply<Tree>(
+				field("aaa"),
+				method("counter_="),
+				field("counter", native),
+				method(Name.APPLY.unescaped),
+				field("^"),
+			),
+		);
+		expect(names(sorted)).toEqual([
+			"<apply>",
+			"^",
+			"counter",
+			"counter_=",
+			"aaa",
+		]);
+	});
+
+	test("orders members with the same name by kind", () => {
+		const sorted = Sorter.sorted(IArray.apply<Tree>(method("x"), field("x")));
+		expect(sorted.map((m) => m._tag).toArray()).toEqual([
+			"FieldTree",
+			"MethodTree",
+		]);
+	});
+
+	test("generates byte-identical output across runs", () => {
+		const members = [
+			field("b", IArray.apply<AnnotationUnion>(Annotation.JsNative)),
+			method("g", ["x", TypeRef.String]),
+			field("a", IArray.apply<AnnotationUnion>(Annotation.JsNative)),
+			method("g", ["x", TypeRef.Double]),
+		];
+
+		const first = generate(members);
+		expect(generate(members)).toBe(first);
+		expect(generate([...members].reverse())).toBe(first);
+	});
+});
@@ -0,0 +1,125 @@
+/**
+ * Tests for the TypeScript port of TreeScope.scala
+ */
+
+import { describe, expect, test } from "bun:test";
+import { Comments } from "../internal/Comments.js";
+import { IArray } from "../internal/IArray.js";
+import { Logger } from "../internal/logging/index.js";
+import { Name } from "../internal/scalajs/Name.js";
+import { QualifiedName } from "../internal/scalajs/QualifiedName.js";
+import {
+	ClassTree,
+	ClassType,
+	type ContainerTree,
+	PackageTree,
+	ProtectionLevel,
+	type Tree,
+	TypeParamTree,
+	TypeRef,
+} from "../internal/scalajs/Tree.js";
+import { TreeScope } from "../internal/scalajs/TreeScope.js";
+
+const outputPkg = Name.typings;
+const libName = new Name("mylib");
+const depName = new Name("dep");
+
+const cls = (
+	pkg: Name,
+	name: string,
+	tparams: IArray<TypeParamTree> = IArray.Empty,
+): ClassTree =>
+	ClassTree.create(
+		false,
+		IArray.Empty,
+		ProtectionLevel.Public,
+		new Name(name),
+		tparams,
+		IArray.Empty,
+		IArray.Empty,
+		IArray.Empty,
+		ClassType.Trait,
+		false,
+		Comments.empty(),
+		QualifiedName.from([outputPkg, pkg, new Name(name)]),
+	);
+
+const pkg = (name: Name, ...members: Tree[]): PackageTree =>
+	PackageTree.create(
+		IArray.Empty,
+		name,
+		IArray.fromArray(members),
+		Comments.empty(),
+		QualifiedName.from([outputPkg, name]),
+	);
+
+const typings = (...members: Tree[]): PackageTree =>
+	PackageTree.create(
+		IArray.Empty,
+		outputPkg,
+		IArray.fromArray(members),
+		Comments.empty(),
+		QualifiedName.from([outputPkg]),
+	);
+
+const root = (deps: Map<string, ContainerTree> = new Map()) =>
+	new TreeScope.Root(outputPkg, libName, deps, Logger.DevNull(), false);
+
+const qname = (...parts: string[]): QualifiedName =>
+	QualifiedName.from(parts.map((p) => new Name(p)));
+
+const found = (scope: TreeScope, ...parts: string[]): string[] =>
+	scope
+		.lookup(qname(...parts))
+		.map(([tree]) => tree.name.unescaped)
+		.toArray();
+
+describe("TreeScope", () => {
+	const a = cls(libName, "A");
+	const lib = pkg(libName, a);
+	const scope = root()["/"](typings(lib))["/"](lib)["/"](a);
+
+	test("resolves names within the library from anywhere inside it", () => {
+		expect(found(scope, "typings", "mylib", "A")).toEqual(["A"]);
+		expect(found(scope, "typings", "mylib", "B")).toEqual([]);
+	});
+
+	test("resolves names within dependencies", () => {
+		const depScope = root(
+			new Map([["dep", typings(pkg(depName, cls(depName, "D")))]]),
+		)
+			["/"](typings(lib))
+			["/"](lib);
+		expect(found(depScope, "typings", "dep", "D")).toEqual(["D"]);
+		expect(found(depScope, "typings", "other", "D")).toEqual([]);
+	});
+
+	test("knows the trees it is inside of", () => {
+		expect(scope.stack.map((t) => t.name.unescaped)).toEqual([
+			"A",
+			"mylib",
+			"typings",
+		]);
+		expect(scope.toString()).toBe("typings / mylib / A");
+		expect(scope.owner).toBe(a);
+		expect(scope.parent.stack.length).toBe(2);
+	});
+
+	test("tracks type parameters in scope", () => {
+		const tparam = TypeParamTree.create(
+			new Name("T"),
+			IArray.Empty,
+			undefined,
+			Comments.empty(),
+			false,
+		);
+		const generic = cls(libName, "G", IArray.apply(tparam));
+		const inner = root()
+			["/"](typings(pkg(libName, generic)))
+			["/"](generic);
+
+		expect(inner.isAbstract(TypeRef.create(qname("T")))).toBe(true);
+		expect(inner.isAbstract(TypeRef.create(qname("U")))).toBe(false);
+		expect(scope.isAbstract(TypeRef.create(qname("T")))).toBe(false);
+	});
+});
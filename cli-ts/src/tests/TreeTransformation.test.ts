@@ -7,6 +7,7 @@
  */
 
 import { describe, expect, test } from "bun:test";
+import { IArray } from "@/internal/IArray.js";
 import {
 	TreeTransformationScopedChanges,
 	TreeTransformations,
@@ -14,16 +15,21 @@ import {
 } from "@/internal/ts/TreeTransformations.js";
 import type { TsTreeScope } from "@/internal/ts/TsTreeScope.js";
 import {
+	type TsContainer,
+	type TsDecl,
 	type TsDeclClass,
 	type TsDeclInterface,
+	type TsDeclNamespace,
 	type TsGlobal,
 	TsIdent,
+	type TsIdentSimple,
 	TsTypeRef,
 } from "@/internal/ts/trees.js";
 import {
 	createMockClass,
 	createMockGlobal,
 	createMockInterface,
+	createMockNamespace,
 	createMockParsedFile,
 	createMockScope,
 } from "./utils/TestUtils.js";
@@ -195,6 +201,71 @@ describe("TreeTransformation", () => {
 			expect(result.declared).toBe(true);
 		});
 
+		describe("visitTsContainer and visitTsDecl enter before dispatching", () => {
+			const recording = (log: string[]) =>
+				new (class extends TreeTransformationScopedChanges {
+					enterTsContainer(t: TsTreeScope) {
+						return (x: TsContainer) => {
+							log.push(`enterTsContainer ${nameOf(x)} ${t.stack.length}`);
+							return x;
+						};
+					}
+					enterTsDecl(t: TsTreeScope) {
+						return (x: TsDecl) => {
+							log.push(`enterTsDecl ${nameOf(x)} ${t.stack.length}`);
+							return x._tag === "TsDeclClass"
+								? { ...x, name: TsIdent.simple(`${nameOf(x)}Entered`) }
+								: x;
+						};
+					}
+					enterTsDeclNamespace(_t: TsTreeScope) {
+						return (x: TsDeclNamespace) => {
+							log.push(`enterTsDeclNamespace ${nameOf(x)}`);
+							return x;
+						};
+					}
+					enterTsDeclClass(_t: TsTreeScope) {
+						return (x: TsDeclClass) => {
+							log.push(`enterTsDeclClass ${nameOf(x)}`);
+							return x;
+						};
+					}
+				})();
+			const nameOf = (x: TsContainer | TsDecl): string =>
+				(x as { name?: TsIdentSimple }).name?.value ?? x._tag;
+
+			test("enterTsDecl runs first, with the declaration in scope, and its result is dispatched", () => {
+				const log: string[] = [];
+				const scope = createMockScope();
+				const result = recording(log).visitTsDecl(scope)(
+					createMockClass("C"),
+				) as TsDeclClass;
+
+				expect(log).toEqual([
+					`enterTsDecl C ${scope.stack.length + 1}`,
+					"enterTsDeclClass CEntered",
+				]);
+				expect(result.name.value).toBe("CEntered");
+			});
+
+			test("enterTsContainer runs before the specific enter method and before members", () => {
+				const log: string[] = [];
+				const scope = createMockScope();
+				recording(log).visitTsContainer(scope)(
+					createMockNamespace("ns", IArray.apply(createMockClass("C"))),
+				);
+
+				expect(log.slice(0, 2)).toEqual([
+					`enterTsContainer ns ${scope.stack.length + 1}`,
+					"enterTsDeclNamespace ns",
+				]);
+				expect(log).toContain("enterTsDeclClass CEntered");
+				expect(log.indexOf("enterTsDeclNamespace ns")).toBeLessThan(
+					log.findIndex((l) => l.startsWith("enterTsDecl C ")),
+				);
+			});
+		});
+
 		test("visitTsParsedFile processes parsed file", () => {
 			const transformation =
 				new (class extends TreeTransformationScopedChanges {})();
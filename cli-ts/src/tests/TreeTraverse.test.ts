@@ -0,0 +1,158 @@
+/**
+ * Tests for the TypeScript port of TreeTraverse.scala
+ */
+
+import { describe, expect, test } from "bun:test";
+import { Comment } from "../internal/Comment.js";
+import { Comments } from "../internal/Comments.js";
+import { IArray } from "../internal/IArray.js";
+import { Name } from "../internal/scalajs/Name.js";
+import { QualifiedName } from "../internal/scalajs/QualifiedName.js";
+import {
+	ClassTree,
+	ClassType,
+	ExprTree,
+	FieldTree,
+	isTypeRef,
+	MethodTree,
+	ParamTree,
+	ProtectionLevel,
+	type Tree,
+	TypeRef,
+} from "../internal/scalajs/Tree.js";
+import { TreeTraverse } from "../internal/scalajs/TreeTraverse.js";
+
+const libPath = QualifiedName.from([Name.typings, new Name("mylib")]);
+
+const ref = (name: string): TypeRef =>
+	TypeRef.create(libPath.add(new Name(name)));
+
+const field = (name: string, tpe: TypeRef, comments = Comments.empty()) =>
+	FieldTree.create(
+		IArray.Empty,
+		ProtectionLevel.Public,
+		new Name(name),
+		tpe,
+		ExprTree.native,
+		true,
+		false,
+		comments,
+		libPath.add(new Name("C")).add(new Name(name)),
+	);
+
+const method = (name: string, paramType: TypeRef, resultType: TypeRef) =>
+	MethodTree.create(
+		IArray.Empty,
+		ProtectionLevel.Public,
+		new Name(name),
+		IArray.Empty,
+		IArray.apply(
+			IArray.apply(
+				ParamTree.create(
+					new Name("p"),
+					false,
+					false,
+					paramType,
+					ExprTree.native,
+					Comments.empty(),
+				),
+			),
+		),
+		ExprTree.native,
+		resultType,
+		false,
+		Comments.empty(),
+		libPath.add(new Name("C")).add(new Name(name)),
+		false,
+	);
+
+const cls = (parents: TypeRef[], ...members: Tree[]): ClassTree =>
+	ClassTree.create(
+		false,
+		IArray.Empty,
+		ProtectionLevel.Public,
+		new Name("C"),
+		IArray.Empty,
+		IArray.fromArray(parents),
+		IArray.Empty,
+		IArray.fromArray(members),
+		ClassType.Class,
+		false,
+		Comments.empty(),
+		libPath.add(new Name("C")),
+	);
+
+const typeNames = (tree: Tree): string[] =>
+	TreeTraverse.collect(tree, (t) =>
+		isTypeRef(t) ? t.typeName.parts.last.unescaped : undefined,
+	).toArray();
+
+describe("TreeTraverse", () => {
+	test("collects from the tree itself and everything below it", () => {
+		const tree = cls(
+			[ref("Parent")],
+			field(
+				"a",
+				TypeRef.Union(
+					IArray.apply(ref("A"), ref("B")),
+					Comments.empty(),
+					false,
+				),
+			),
+			method("m", ref("P"), ref("R")),
+		);
+		expect(typeNames(tree)).toEqual(["Parent", "Union", "A", "B", "P", "R"]);
+		expect(
+			TreeTraverse.collect(tree, (t) =>
+				t._tag === "ClassTree" || t._tag === "MethodTree"
+					? t.name.unescaped
+					: undefined,
+			).toArray(),
+		).toEqual(["C", "m"]);
+	});
+
+	test("collects type arguments nested in type references", () => {
+		const tree = field(
+			"a",
+			TypeRef.create(
+				ref("Outer").typeName,
+				IArray.apply(ref("Inner")),
+				Comments.empty(),
+			),
+		);
+		expect(typeNames(tree)).toEqual(["Outer", "Inner"]);
+	});
+
+	test("does not descend into comments", () => {
+		const tree = field(
+			"a",
+			ref("A"),
+			Comments.fromComment(Comment.create("/* B */")),
+		);
+		expect(typeNames(tree)).toEqual(["A"]);
+	});
+
+	test("collectIArray collects from every tree in order", () => {
+		const trees = IArray.apply<Tree>(ref("A"), field("b", ref("B")));
+		expect(
+			TreeTraverse.collectIArray(trees, (t) =>
+				isTypeRef(t) ? t.typeName.parts.last.unescaped : undefined,
+			).toArray(),
+		).toEqual(["A", "B"]);
+	});
+
+	test("foreach visits nested objects, including expressions, but not collections", () => {
+		const names: string[] = [];
+		let sawIArray = false;
+		TreeTraverse.foreach(field("a", ref("A")), (a) => {
+			if (a instanceof QualifiedName) names.push(a.value);
+			if (a instanceof IArray) sawIArray = true;
+		});
+		expect(names).toEqual([
+			libPath.add(new Name("A")).value,
+			"scala.scalajs.js.native",
+			libPath.add(new Name("C")).add(new Name("a")).value,
+		]);
+		expect(sawIArray).toBe(false);
+	});
+});
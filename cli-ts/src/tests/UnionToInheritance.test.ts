@@ -0,0 +1,194 @@
+/**
+ * Tests for the TypeScript port of UnionToInheritance.scala
+ */
+
+import { describe, expect, test } from "bun:test";
+import { MinimizationRelated, WasUnion } from "../internal/Comment.js";
+import { Comments } from "../internal/Comments.js";
+import { IArray } from "../internal/IArray.js";
+import { Logger } from "../internal/logging/index.js";
+import { Name } from "../internal/scalajs/Name.js";
+import { QualifiedName } from "../internal/scalajs/QualifiedName.js";
+import {
+	ClassTree,
+	ClassType,
+	isClassTree,
+	isTypeAliasTree,
+	PackageTree,
+	ProtectionLevel,
+	type Tree,
+	TypeAliasTree,
+	TypeParamTree,
+	TypeRef,
+} from "../internal/scalajs/Tree.js";
+import { TreeScope } from "../internal/scalajs/TreeScope.js";
+import { Adapter } from "../internal/scalajs/transforms/Adapter.js";
+import { UnionToInheritance } from "../internal/scalajs/transforms/UnionToInheritance.js";
+
+const outputPkg = Name.typings;
+const libName = new Name("mylib");
+const libPath = QualifiedName.from([outputPkg, libName]);
+
+const scope = new TreeScope.Root(
+	outputPkg,
+	libName,
+	new Map(),
+	Logger.DevNull(),
+	false,
+);
+
+const tparam = (name: string): TypeParamTree =>
+	TypeParamTree.create(
+		new Name(name),
+		IArray.Empty,
+		undefined,
+		Comments.empty(),
+		false,
+	);
+
+const trait = (name: string, tparams: string[] = []): ClassTree =>
+	ClassTree.create(
+		false,
+		IArray.Empty,
+		ProtectionLevel.Public,
+		new Name(name),
+		IArray.fromArray(tparams.map(tparam)),
+		IArray.Empty,
+		IArray.Empty,
+		IArray.Empty,
+		ClassType.Trait,
+		false,
+		Comments.empty(),
+		libPath.add(new Name(name)),
+	);
+
+const ref = (name: string, ...targs: TypeRef[]): TypeRef =>
+	TypeRef.create(libPath.add(new Name(name)), IArray.fromArray(targs));
+
+const alias = (name: string, tparams: string[], ...types: TypeRef[]) =>
+	TypeAliasTree.create(
+		new Name(name),
+		ProtectionLevel.Public,
+		IArray.fromArray(tparams.map(tparam)),
+		TypeRef.Union(IArray.fromArray(types), Comments.empty(), false),
+		Comments.empty(),
+		libPath.add(new Name(name)),
+	);
+
+const run = (...members: Tree[]): Map<string, Tree[]> => {
+	const lib = PackageTree.create(
+		IArray.Empty,
+		libName,
+		IArray.fromArray(members),
+		Comments.empty(),
+		libPath,
+	);
+	const typings = PackageTree.create(
+		IArray.Empty,
+		outputPkg,
+		IArray.apply<Tree>(lib),
+		Comments.empty(),
+		QualifiedName.from([outputPkg]),
+	);
+	const result = Adapter(scope)((tree, s) =>
+		UnionToInheritance.apply(s, tree, libName),
+	)(typings);
+	const rewrittenLib = result.members.head as PackageTree;
+
+	const byName = new Map<string, Tree[]>();
+	rewrittenLib.members.forEach((m) =>
+		byName.set(m.name.unescaped, [...(byName.get(m.name.unescaped) ?? []), m]),
+	);
+	return byName;
+};
+
+const only = (members: Map<string, Tree[]>, name: string): Tree => {
+	const found = members.get(name) ?? [];
+	expect(found).toHaveLength(1);
+	return found[0];
+};
+
+const parentNames = (tree: Tree): string[] =>
+	(tree as ClassTree).parents.map((p) => p.typeName.value).toArray();
+
+describe("UnionToInheritance", () => {
+	test("rewrites a type alias of local traits into a parent trait", () => {
+		const members = run(
+			trait("Circle"),
+			trait("Square"),
+			alias("Shape", [], ref("Circle"), ref("Square")),
+		);
+
+		const shape = only(members, "Shape");
+		expect(isClassTree(shape)).toBe(true);
+		expect((shape as ClassTree).classType).toBe(ClassType.Trait);
+		expect(shape.comments.has(WasUnion)).toBe(true);
+		expect(shape.comments.has(MinimizationRelated)).toBe(true);
+		expect(shape.comments.rawCs.join("")).toContain(
+			"Rewritten from type alias, can be one of",
+		);
+
+		expect(parentNames(only(members, "Circle"))).toEqual([
+			"typings.mylib.Shape",
+		]);
+		expect(parentNames(only(members, "Square"))).toEqual([
+			"typings.mylib.Shape",
+		]);
+	});
+
+	test("keeps a type alias for the members which cannot be rewritten", () => {
+		const outside = TypeRef.create(
+			QualifiedName.from([outputPkg, new Name("otherlib"), new Name("Other")]),
+		);
+		const members = run(
+			trait("Circle"),
+			trait("Square"),
+			alias("Shape", [], ref("Circle"), ref("Square"), outside),
+		);
+
+		const shape = only(members, "Shape");
+		expect(isTypeAliasTree(shape)).toBe(true);
+		expect(
+			(shape as TypeAliasTree).alias.targs
+				.map((t) => t.typeName.value)
+				.toArray(),
+		).toEqual(["typings.mylib._Shape", "typings.otherlib.Other"]);
+
+		const base = only(members, "_Shape");
+		expect(isClassTree(base)).toBe(true);
+		expect(base.comments.has(WasUnion)).toBe(true);
+		expect(parentNames(only(members, "Circle"))).toEqual([
+			"typings.mylib._Shape",
+		]);
+	});
+
+	test("inverts type parameters of the members onto the new parent", () => {
+		const members = run(
+			trait("Left", ["L"]),
+			trait("Right", ["R"]),
+			alias(
+				"Either",
+				["A", "B"],
+				ref("Left", TypeRef.fromName(new Name("A"))),
+				ref("Right", TypeRef.fromName(new Name("B"))),
+			),
+		);
+
+		const left = only(members, "Left") as ClassTree;
+		expect(
+			left.parents.head.targs.map((t) => t.typeName.value).toArray(),
+		).toEqual(["L", "scala.Any"]);
+		const right = only(members, "Right") as ClassTree;
+		expect(
+			right.parents.head.targs.map((t) => t.typeName.value).toArray(),
+		).toEqual(["scala.Any", "R"]);
+	});
+
+	test("leaves unions with fewer than two local traits alone", () => {
+		const original = alias("Shape", [], ref("Circle"), TypeRef.String);
+		const members = run(trait("Circle"), original);
+
+		expect(only(members, "Shape")).toEqual(original);
+		expect(parentNames(only(members, "Circle"))).toEqual([]);
+	});
+});
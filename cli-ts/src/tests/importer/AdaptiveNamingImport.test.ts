@@ -0,0 +1,78 @@
+/**
+ * Tests for AdaptiveNamingImport - assigning unique scala names to typescript code paths
+ */
+
+import { describe, expect, test } from "bun:test";
+import { IArray } from "@/internal/IArray";
+import { AdaptiveNamingImport } from "@/internal/importer/AdaptiveNamingImport";
+import { Phase2ToScalaJs } from "@/internal/importer/Phase2ToScalaJs";
+import { nameVariants } from "@/internal/nameVariants";
+import { Name } from "@/internal/scalajs/Name";
+import { CodePath } from "@/internal/ts/CodePath";
+import { parseString } from "@/internal/ts/parser/TsParser";
+import { SetCodePath } from "@/internal/ts/transforms/SetCodePath";
+import { TsIdent, TsIdentLibrary, TsQIdent } from "@/internal/ts/trees";
+
+const libName = TsIdentLibrary.construct("my-lib");
+const outputPkg = Name.typings;
+
+function naming(content: string): AdaptiveNamingImport {
+	const parsed = parseString(content);
+	if (parsed._tag === "Left") throw new Error(parsed.value);
+	const file = new SetCodePath().visitTsParsedFile(
+		CodePath.hasPath(libName, TsQIdent.empty()),
+	)(parsed.value);
+	return AdaptiveNamingImport.apply(
+		outputPkg,
+		libName,
+		file,
+		IArray.Empty,
+		Phase2ToScalaJs.illegalNames(outputPkg),
+		false,
+	);
+}
+
+function rendered(
+	importName: AdaptiveNamingImport,
+	...parts: string[]
+): string {
+	const qident = TsQIdent.of(libName, ...parts.map(TsIdent.simple));
+	return importName
+		.apply(qident)
+		.parts.map((p) => p.unescaped)
+		.mkString("", ".", "");
+}
+
+describe("AdaptiveNamingImport", () => {
+	test("places the library under the output package in camel case", () => {
+		const importName = naming("declare var x: number;");
+		expect(rendered(importName)).toBe("typings.myLib");
+		expect(rendered(importName, "x")).toBe("typings.myLib.x");
+	});
+
+	test("gives names which only differ in case different scala names", () => {
+		const importName = naming("interface Foo {} declare var foo: Foo;");
+		const upper = rendered(importName, "Foo");
+		const lower = rendered(importName, "foo");
+		expect(upper.toLowerCase()).not.toBe(lower.toLowerCase());
+	});
+
+	test("fails for unknown code paths", () => {
+		const importName = naming("declare var x: number;");
+		expect(() => rendered(importName, "nope", "y")).toThrow();
+	});
+});
+
+describe("nameVariants", () => {
+	test("keeps names without symbols", () => {
+		expect(nameVariants("foo")).toEqual(["foo"]);
+	});
+
+	test("cleans up symbols before falling back to the original", () => {
+		expect(nameVariants("foo-bar")).toEqual(["fooBar", "foo-bar"]);
+	});
+
+	test("leaves constant-like names alone", () => {
+		expect(nameVariants("FOO_BAR")).toEqual(["FOO_BAR"]);
+	});
+});
@@ -0,0 +1,65 @@
+/**
+ * Tests for ConversionOptions - serialization of the options a conversion runs with
+ */
+
+import { describe, expect, test } from "bun:test";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { Flavour } from "@/Flavour";
+import {
+	ConversionOptions,
+	ConverterVersion,
+	Versions,
+} from "@/internal/importer/ConversionOptions";
+import { Selection } from "@/internal/Selection";
+import { Name } from "@/internal/scalajs/Name";
+import { TsIdentLibrary } from "@/internal/ts/trees";
+
+const options = (minimize?: Selection<TsIdentLibrary>) =>
+	new ConversionOptions(
+		false,
+		Flavour.Normal,
+		Name.typings,
+		new Set(["es6"]),
+		Selection.All(),
+		Selection.All(),
+		new Set(),
+		new Versions(Versions.Scala3, Versions.ScalaJs1),
+		false,
+		undefined,
+		false,
+		undefined,
+		new Map(),
+		minimize,
+	);
+
+describe("ConversionOptions", () => {
+	test("takes the converter version from package.json", () => {
+		const packageJson = JSON.parse(
+			fs.readFileSync(
+				path.join(import.meta.dir, "..", "..", "..", "package.json"),
+				"utf8",
+			),
+		);
+		expect(ConverterVersion).toBe(packageJson.version);
+	});
+
+	test("leaves minimize unset by default", () => {
+		const json = options().toObject();
+
+		expect(json.minimize).toBeUndefined();
+		expect(ConversionOptions.fromObject(json).minimize).toBeUndefined();
+	});
+
+	test("round trips the minimize selection", () => {
+		const minimize = Selection.NoneExcept(TsIdentLibrary.construct("csstype"));
+		const json = options(minimize).toObject();
+
+		expect(json.minimize).toEqual({ NoneExcept: ["csstype"] });
+
+		const decoded = ConversionOptions.fromObject(json).minimize;
+		const byName = decoded?.map((lib) => lib.value);
+		expect(byName?.apply("csstype")).toBe(true);
+		expect(byName?.apply("react")).toBe(false);
+	});
+});
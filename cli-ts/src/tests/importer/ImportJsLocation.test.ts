@@ -0,0 +1,110 @@
+/**
+ * Tests for ImportJsLocation - the translation of javascript locations into Scala.js location annotations
+ */
+
+import { describe, expect, test } from "bun:test";
+import { isNone, isSome } from "fp-ts/Option";
+import { IArray } from "@/internal/IArray";
+import { ImportJsLocation } from "@/internal/importer/ImportJsLocation";
+import type {
+	AnnotationUnion,
+	JsGlobalAnnotation,
+	JsImportAnnotation,
+} from "@/internal/scalajs/Annotation";
+import { Annotation, Imported } from "@/internal/scalajs/Annotation";
+import { Name } from "@/internal/scalajs/Name";
+import { JsLocation } from "@/internal/ts/JsLocation";
+import { ModuleSpec } from "@/internal/ts/ModuleSpec";
+import { TsIdent, TsIdentModule, TsQIdent } from "@/internal/ts/trees";
+
+const tags = (anns: IArray<AnnotationUnion>): string[] =>
+	anns.map((a) => a._tag).toArray();
+
+const moduleLocation = (spec: ModuleSpec) =>
+	JsLocation.module(TsIdentModule.simple("react"), spec);
+
+const jsImport = (anns: IArray<AnnotationUnion>): JsImportAnnotation =>
+	anns.head as JsImportAnnotation;
+
+describe("ImportJsLocation", () => {
+	test("declarations without a location live in the global scope", () => {
+		const anns = ImportJsLocation.apply(JsLocation.zero());
+		expect(anns.toArray()).toEqual([
+			Annotation.JsNative,
+			Annotation.JsGlobalScope,
+		]);
+	});
+
+	test("global declarations get @JSGlobal with the full javascript path", () => {
+		const anns = ImportJsLocation.apply(
+			JsLocation.global(TsQIdent.ofStrings("React", "Component")),
+		);
+		expect(tags(anns)).toEqual(["JsGlobal", "JsNative"]);
+		expect((anns.head as JsGlobalAnnotation).name.value).toBe(
+			"React.Component",
+		);
+	});
+
+	test("defaulted module specs import the default export", () => {
+		const anns = ImportJsLocation.apply(moduleLocation(ModuleSpec.defaulted()));
+		expect(tags(anns)).toEqual(["JsImport", "JsNative"]);
+		expect(jsImport(anns).module).toBe("react");
+		expect(jsImport(anns).imported).toEqual(Imported.Default);
+		expect(isNone(jsImport(anns).global)).toBe(true);
+	});
+
+	test("namespaced module specs import the whole module", () => {
+		const anns = ImportJsLocation.apply(
+			moduleLocation(ModuleSpec.namespaced()),
+		);
+		expect(jsImport(anns).imported).toEqual(Imported.Namespace);
+	});
+
+	test("specified module specs import the named path without renaming it", () => {
+		const anns = ImportJsLocation.apply(
+			moduleLocation(
+				ModuleSpec.specified(
+					IArray.apply<TsIdent>(
+						TsIdent.simple("Component"),
+						TsIdent.simple("type"),
+					),
+				),
+			),
+		);
+		expect(jsImport(anns).imported).toEqual(
+			Imported.Named(IArray.apply(new Name("Component"), new Name("type"))),
+		);
+	});
+
+	test("declarations available both ways are imported from the module, with the global as a fallback", () => {
+		const anns = ImportJsLocation.apply(
+			JsLocation.both(
+				moduleLocation(ModuleSpec.namespaced()),
+				JsLocation.global(TsQIdent.ofStrings("React")),
+			),
+		);
+		expect(tags(anns)).toEqual(["JsImport", "JsNative"]);
+		const { global } = jsImport(anns);
+		expect(jsImport(anns).imported).toEqual(Imported.Namespace);
+		expect(isSome(global) && global.value.name.value).toBe("React");
+	});
+
+	test("a global location with an empty path is the global scope", () => {
+		const anns = ImportJsLocation.apply(JsLocation.global(TsQIdent.empty()));
+		expect(anns.toArray()).toEqual([
+			Annotation.JsNative,
+			Annotation.JsGlobalScope,
+		]);
+	});
+
+	test("an empty global path is not kept as a fallback for module imports", () => {
+		const anns = ImportJsLocation.apply(
+			JsLocation.both(
+				moduleLocation(ModuleSpec.namespaced()),
+				JsLocation.global(TsQIdent.empty()),
+			),
+		);
+		expect(tags(anns)).toEqual(["JsImport", "JsNative"]);
+		expect(isNone(jsImport(anns).global)).toBe(true);
+	});
+});
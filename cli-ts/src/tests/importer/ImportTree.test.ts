@@ -0,0 +1,229 @@
+/**
+ * Tests for ImportTree - the translation of typescript declarations into scala trees
+ */
+
+import { describe, expect, test } from "bun:test";
+import { none, some } from "fp-ts/Option";
+import { Comments } from "@/internal/Comments";
+import { AdaptiveNamingImport } from "@/internal/importer/AdaptiveNamingImport";
+import { Versions } from "@/internal/importer/ConversionOptions";
+import { ImportExpr } from "@/internal/importer/ImportExpr";
+import { ImportTree } from "@/internal/importer/ImportTree";
+import { ImportType } from "@/internal/importer/ImportType";
+import { LibTs } from "@/internal/importer/LibTs";
+import { LibTsSource } from "@/internal/importer/LibTsSource";
+import "@/internal/importer/LibTsSource.mock";
+import { IArray } from "@/internal/IArray";
+import { Phase2ToScalaJs } from "@/internal/importer/Phase2ToScalaJs";
+import { Logger } from "@/internal/logging";
+import { Name } from "@/internal/scalajs/Name";
+import { StdNames } from "@/internal/scalajs/QualifiedName";
+import {
+	type ClassTree,
+	ClassType,
+	type ContainerTree,
+	type FieldTree,
+	type MethodTree,
+	type ModuleTree,
+	type PackageTree,
+	type Tree,
+	type TypeAliasTree,
+} from "@/internal/scalajs/Tree";
+import { CodePath } from "@/internal/ts/CodePath";
+import { JsLocation } from "@/internal/ts/JsLocation";
+import { MethodType } from "@/internal/ts/MethodType";
+import { parseString } from "@/internal/ts/parser/TsParser";
+import { TsProtectionLevel } from "@/internal/ts/TsProtectionLevel";
+import { SetCodePath } from "@/internal/ts/transforms/SetCodePath";
+import {
+	type TsContainerOrDecl,
+	TsDeclClass,
+	TsFunParam,
+	TsFunSig,
+	TsIdent,
+	TsIdentConstructor,
+	TsIdentLibrary,
+	type TsMember,
+	TsMemberFunction,
+	TsMemberProperty,
+	TsParsedFile,
+	TsQIdent,
+	TsTypeRef,
+} from "@/internal/ts/trees";
+
+const libName = TsIdentLibrary.construct("mylib");
+const outputPkg = Name.typings;
+
+function parse(content: string): TsParsedFile {
+	const parsed = parseString(content);
+	if (parsed._tag === "Left") throw new Error(parsed.value);
+	return parsed.value;
+}
+
+function importLib(file: TsParsedFile): PackageTree {
+	const withCodePath = new SetCodePath().visitTsParsedFile(
+		CodePath.hasPath(libName, TsQIdent.empty()),
+	)(file);
+	const lib = LibTs.createMock(LibTsSource.createMock(libName), withCodePath);
+
+	const illegalNames = Phase2ToScalaJs.illegalNames(outputPkg);
+	const importName = AdaptiveNamingImport.apply(
+		outputPkg,
+		libName,
+		lib.parsed,
+		IArray.Empty,
+		illegalNames,
+		false,
+	);
+	const importType = new ImportType(new StdNames(outputPkg));
+	const importTree = new ImportTree(
+		outputPkg,
+		importName,
+		importType,
+		illegalNames,
+		new ImportExpr(importType, importName),
+		false,
+		Versions.Scala3,
+	);
+	return importTree.apply(lib, Logger.DevNull());
+}
+
+function fileWithClass(...members: TsMember[]): TsParsedFile {
+	const cls = TsDeclClass.create(
+		Comments.empty(),
+		true,
+		false,
+		TsIdent.simple("Foo"),
+		IArray.Empty,
+		none,
+		IArray.Empty,
+		IArray.fromArray(members),
+		JsLocation.zero(),
+		CodePath.noPath(),
+	);
+	return TsParsedFile.create(
+		Comments.empty(),
+		IArray.Empty,
+		IArray.apply<TsContainerOrDecl>(cls),
+		CodePath.noPath(),
+	);
+}
+
+function libContainer(pkg: PackageTree): ModuleTree {
+	const found = pkg.members.find(
+		(m) => m._tag === "ModuleTree" && m.name.unescaped === "mylib",
+	);
+	if (found === undefined) throw new Error("library module not found");
+	return found as ModuleTree;
+}
+
+function member<T extends Tree>(
+	container: ContainerTree | ClassTree,
+	tag: T["_tag"],
+	name: string,
+): T {
+	const found = container.members.find(
+		(m) => m._tag === tag && m.name.unescaped === name,
+	);
+	if (found === undefined) throw new Error(`${tag} ${name} not found`);
+	return found as T;
+}
+
+describe("ImportTree", () => {
+	test("wraps the library in the output package", () => {
+		const pkg = importLib(parse("declare var x: number;"));
+		expect(pkg._tag).toBe("PackageTree");
+		expect(pkg.name.unescaped).toBe(outputPkg.unescaped);
+		const container = libContainer(pkg);
+		expect(container.name.unescaped).toBe("mylib");
+		member<FieldTree>(container, "FieldTree", "x");
+		member<ModuleTree>(container, "ModuleTree", "mylibRequire");
+	});
+
+	test("translates an interface into a trait with its members", () => {
+		const pkg = importLib(
+			parse("interface Foo { bar: string; baz(n: number): boolean; }"),
+		);
+		const foo = member<ClassTree>(libContainer(pkg), "ClassTree", "Foo");
+
+		expect(foo.classType).toBe(ClassType.Trait);
+		const bar = member<FieldTree>(foo, "FieldTree", "bar");
+		expect(bar.tpe.typeName.parts.last.unescaped).toBe("String");
+		const baz = member<MethodTree>(foo, "MethodTree", "baz");
+		expect(baz.params.head.length).toBe(1);
+		expect(baz.resultType.typeName.parts.last.unescaped).toBe("Boolean");
+	});
+
+	test("translates a class into a class", () => {
+		const ctor = TsMemberFunction.create(
+			Comments.empty(),
+			TsProtectionLevel.default(),
+			TsIdentConstructor,
+			MethodType.normal(),
+			TsFunSig.simple(
+				IArray.apply(
+					TsFunParam.create(
+						Comments.empty(),
+						TsIdent.simple("a"),
+						some(TsTypeRef.string),
+					),
+				),
+				none,
+			),
+			false,
+			false,
+		);
+		const value = TsMemberProperty.create(
+			Comments.empty(),
+			TsProtectionLevel.default(),
+			TsIdent.simple("value"),
+			some(TsTypeRef.number),
+			none,
+			false,
+			false,
+		);
+		const foo = member<ClassTree>(
+			libContainer(importLib(fileWithClass(ctor, value))),
+			"ClassTree",
+			"Foo",
+		);
+
+		expect(foo.classType).toBe(ClassType.Class);
+		expect(foo.ctors.length).toBe(1);
+		member<FieldTree>(foo, "FieldTree", "value");
+	});
+
+	test("puts static members into a companion object", () => {
+		const create = TsMemberFunction.create(
+			Comments.empty(),
+			TsProtectionLevel.default(),
+			TsIdent.simple("create"),
+			MethodType.normal(),
+			TsFunSig.noParams(some(TsTypeRef.fromIdent(TsIdent.simple("Foo")))),
+			true,
+			false,
+		);
+		const container = libContainer(importLib(fileWithClass(create)));
+
+		const foo = member<ClassTree>(container, "ClassTree", "Foo");
+		expect(foo.members.length).toBe(0);
+		const companion = member<ModuleTree>(container, "ModuleTree", "Foo");
+		member<MethodTree>(companion, "MethodTree", "create");
+	});
+
+	test("translates a type alias", () => {
+		const pkg = importLib(parse("type Id = string;"));
+		const id = member<TypeAliasTree>(libContainer(pkg), "TypeAliasTree", "Id");
+		expect(id.alias.typeName.parts.last.unescaped).toBe("String");
+	});
+
+	test("translates a namespace into an object", () => {
+		const pkg = importLib(
+			parse("declare namespace ns { var x: number; function f(): void; }"),
+		);
+		const ns = member<ModuleTree>(libContainer(pkg), "ModuleTree", "ns");
+
+		member<FieldTree>(ns, "FieldTree", "x");
+		member<MethodTree>(ns, "MethodTree", "f");
+	});
+});
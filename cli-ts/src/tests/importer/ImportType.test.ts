@@ -0,0 +1,270 @@
+/**
+ * Tests for ImportType - the translation of typescript types into scala type references
+ */
+
+import { describe, expect, test } from "bun:test";
+import { some } from "fp-ts/Option";
+import { type IntLit, type StringLit, WasLiteral } from "@/internal/Comment";
+import { Comments } from "@/internal/Comments";
+import { IArray } from "@/internal/IArray";
+import { AdaptiveNamingImport } from "@/internal/importer/AdaptiveNamingImport";
+import { ImportType } from "@/internal/importer/ImportType";
+import { Phase2ToScalaJs } from "@/internal/importer/Phase2ToScalaJs";
+import { Logger } from "@/internal/logging";
+import { Name } from "@/internal/scalajs/Name";
+import { QualifiedName, StdNames } from "@/internal/scalajs/QualifiedName";
+import { TypeRef } from "@/internal/scalajs/Tree";
+import { CodePath } from "@/internal/ts/CodePath";
+import { parseString } from "@/internal/ts/parser/TsParser";
+import { TsTreeScope } from "@/internal/ts/TsTreeScope";
+import { SetCodePath } from "@/internal/ts/transforms/SetCodePath";
+import {
+	type TsDeclTypeAlias,
+	TsFunParam,
+	TsFunSig,
+	TsIdent,
+	TsIdentLibrary,
+	TsIdentThis,
+	type TsMember,
+	TsMemberIndex,
+	type TsParsedFile,
+	TsQIdent,
+	TsQIdentStd,
+	type TsType,
+	TsTypeFunction,
+	TsTypeIntersect,
+	TsTypeObject,
+	TsTypeRef,
+} from "@/internal/ts/trees";
+
+const libName = TsIdentLibrary.construct("mylib");
+const outputPkg = Name.typings;
+const importType = new ImportType(new StdNames(outputPkg));
+
+/**
+ * Parses `type T = <tpe>` (plus any extra declarations) and imports the right hand side of `T`.
+ * Types which the parser cannot express yet can be passed as trees, they are then imported
+ * in the scope of `T`.
+ */
+function importAlias(tpe: string | TsType, extra = ""): TypeRef {
+	const source = typeof tpe === "string" ? tpe : "any";
+	const parsed = parseString(`${extra}\ntype T = ${source};`);
+	if (parsed._tag === "Left") throw new Error(parsed.value);
+	const file: TsParsedFile = new SetCodePath().visitTsParsedFile(
+		CodePath.hasPath(libName, TsQIdent.empty()),
+	)(parsed.value);
+
+	const importName = AdaptiveNamingImport.apply(
+		outputPkg,
+		libName,
+		file,
+		IArray.Empty,
+		Phase2ToScalaJs.illegalNames(outputPkg),
+		false,
+	);
+	const scope = TsTreeScope.create(libName, false, new Map(), Logger.DevNull())[
+		"/"
+	](file);
+	const alias = file.members.last as TsDeclTypeAlias;
+	return importType.apply(
+		scope["/"](alias),
+		importName,
+	)(typeof tpe === "string" ? alias.alias : tpe);
+}
+
+const param = (name: string, tpe: TsType) =>
+	TsFunParam.create(Comments.empty(), TsIdent.simple(name), some(tpe));
+
+const expectType = (actual: TypeRef, expected: TypeRef) =>
+	expect(TypeRef.equals(actual, expected)).toBe(true);
+
+describe("ImportType", () => {
+	describe("primitives", () => {
+		test("maps primitive types", () => {
+			expectType(importAlias("string"), TypeRef.String);
+			expectType(importAlias("number"), TypeRef.Double);
+			expectType(importAlias("boolean"), TypeRef.Boolean);
+			expectType(importAlias("object"), TypeRef.JsObject);
+			expectType(importAlias("never"), TypeRef.Nothing);
+			expectType(importAlias(TsTypeRef.null), TypeRef.Null);
+			expectType(importAlias("void"), TypeRef.Unit);
+		});
+
+		test("maps any and unknown to Any", () => {
+			expectType(importAlias("any"), TypeRef.Any);
+			expectType(importAlias("unknown"), TypeRef.Any);
+		});
+
+		test("unwraps Readonly", () => {
+			expectType(
+				importAlias(
+					TsTypeRef.generic(
+						TsQIdentStd.Readonly,
+						IArray.apply<TsType>(TsTypeRef.string),
+					),
+				),
+				TypeRef.String,
+			);
+		});
+	});
+
+	describe("literals", () => {
+		test("string literals", () => {
+			expectType(importAlias(`"foo"`), TypeRef.StringLiteral("foo"));
+		});
+
+		test("widens string literals with special characters", () => {
+			const widened = importAlias(`"foo()"`);
+			expectType(widened, TypeRef.String);
+			expect(widened.comments.has(WasLiteral)).toBe(true);
+		});
+
+		test("number literals", () => {
+			expectType(importAlias("1"), TypeRef.IntLiteral("1"));
+			expectType(importAlias("1.5"), TypeRef.DoubleLiteral("1.5"));
+		});
+
+		test("boolean literals", () => {
+			expectType(importAlias("true"), TypeRef.BooleanLiteral("true"));
+		});
+	});
+
+	describe("composite types", () => {
+		test("arrays", () => {
+			expectType(
+				importAlias(
+					TsTypeRef.generic(
+						TsQIdentStd.Array,
+						IArray.apply<TsType>(TsTypeRef.string),
+					),
+				),
+				TypeRef.create(QualifiedName.JsArray, IArray.apply(TypeRef.String)),
+			);
+		});
+
+		test("undefined in a union becomes js.UndefOr", () => {
+			const imported = importAlias("string | undefined");
+			const undefOr = TypeRef.UndefOr.unapply(imported);
+			expect(undefOr).toBeDefined();
+			expectType(undefOr![0], TypeRef.String);
+		});
+
+		test("functions", () => {
+			expectType(
+				importAlias(
+					TsTypeFunction.create(
+						TsFunSig.simple(
+							IArray.apply(param("a", TsTypeRef.string)),
+							some(TsTypeRef.number),
+						),
+					),
+				),
+				TypeRef.JsFunction(
+					undefined,
+					IArray.apply(TypeRef.String),
+					TypeRef.Double,
+					TypeRef.Any.comments,
+				),
+			);
+		});
+
+		test("functions with a this parameter", () => {
+			const imported = importAlias(
+				TsTypeFunction.create(
+					TsFunSig.simple(
+						IArray.apply(
+							TsFunParam.create(
+								Comments.empty(),
+								TsIdentThis,
+								some(TsTypeRef.string),
+							),
+							param("a", TsTypeRef.number),
+						),
+						some(TsTypeRef.void),
+					),
+				),
+			);
+			expect(
+				imported.typeName.equals(QualifiedName.FunctionArity(true, 1)),
+			).toBe(true);
+		});
+
+		test("tuples", () => {
+			expectType(
+				importAlias("[string, number]"),
+				TypeRef.JsTuple(IArray.apply(TypeRef.String, TypeRef.Double)),
+			);
+		});
+
+		test("empty object types", () => {
+			expectType(importAlias("{}"), TypeRef.JsObject);
+		});
+
+		test("dictionaries", () => {
+			const imported = importAlias(
+				TsTypeObject.create(
+					Comments.empty(),
+					IArray.apply<TsMember>(TsMemberIndex.stringIndex(TsTypeRef.number)),
+				),
+			);
+			expect(imported.typeName.equals(QualifiedName.StringDictionary)).toBe(
+				true,
+			);
+			expectType(imported.targs.head, TypeRef.Double);
+		});
+
+		test("intersections drop js.Object", () => {
+			expectType(
+				importAlias(
+					TsTypeIntersect.create(
+						IArray.apply<TsType>(TsTypeRef.object, TsTypeRef.string),
+					),
+				),
+				TypeRef.String,
+			);
+		});
+	});
+
+	describe("references", () => {
+		test("references to declarations in the library", () => {
+			// phase 1 leaves references fully qualified
+			const imported = importAlias(
+				TsTypeRef.fromQIdent(TsQIdent.of(libName, TsIdent.simple("Foo"))),
+				"interface Foo {}",
+			);
+			expect(imported.typeName.parts.map((p) => p.unescaped).toArray()).toEqual(
+				["typings", "mylib", "Foo"],
+			);
+		});
+
+		test("keyof lists the member names", () => {
+			const imported = importAlias(
+				"keyof Foo",
+				"interface Foo { a: string; b: number }",
+			);
+			const union = TypeRef.Union.unapply(imported);
+			expect(union).toBeDefined();
+			expect(union![0].length).toBe(2);
+		});
+	});
+
+	describe("expressions", () => {
+		test("numberToExpr", () => {
+			const expr = ImportType.numberToExpr("42") as IntLit;
+			expect(expr._litTag).toBe("IntLit");
+			expect(expr.value).toBe("42");
+		});
+
+		test("stringToExpr", () => {
+			const expr = ImportType.stringToExpr(
+				"a",
+				ImportType.ShouldWiden.No,
+			) as StringLit;
+			expect(expr._litTag).toBe("StringLit");
+			expect(expr.value).toBe("a");
+			expect(
+				ImportType.stringToExpr("a", ImportType.ShouldWiden.Yes)._tag,
+			).toBe("Ref");
+		});
+	});
+});
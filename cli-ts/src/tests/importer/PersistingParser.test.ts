@@ -0,0 +1,173 @@
+/**
+ * Tests for PersistingParser - parsing with an on-disk cache keyed by file digest
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import * as E from "fp-ts/Either";
+import { none, some } from "fp-ts/Option";
+import { InFile, InFolder } from "@/internal/files";
+import { IArray } from "@/internal/IArray";
+import { PersistingParser } from "@/internal/importer/PersistingParser";
+import { Logger } from "@/internal/logging";
+import { TsParserVersion } from "@/internal/ts/parser/TsParser";
+import { TsTreeCodecVersion } from "@/internal/ts/TsTreeCodec";
+import type { TsParsedFile } from "@/internal/ts/trees";
+
+describe("PersistingParser", () => {
+	let tempDir: string;
+	let inputFolder: InFolder;
+	let cacheDir: string;
+
+	beforeEach(() => {
+		tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "persisting-parser-test-"));
+		inputFolder = new InFolder(path.join(tempDir, "node_modules"));
+		cacheDir = path.join(tempDir, "cache");
+		fs.mkdirSync(path.join(inputFolder.path, "lib"), { recursive: true });
+	});
+
+	afterEach(() => {
+		fs.rmSync(tempDir, { recursive: true, force: true });
+	});
+
+	const writeFile = (content: string): InFile => {
+		const filePath = path.join(inputFolder.path, "lib", "index.d.ts");
+		fs.writeFileSync(filePath, content);
+		return new InFile(filePath);
+	};
+
+	const cachedFiles = (): string[] =>
+		fs.existsSync(cacheDir)
+			? fs
+					.readdirSync(cacheDir, { recursive: true, withFileTypes: true })
+					.filter((entry) => entry.isFile())
+					.map((entry) => path.join(entry.parentPath, entry.name))
+			: [];
+
+	const memberCount = (result: E.Either<string, TsParsedFile>) =>
+		E.isRight(result) ? result.right.members.length : -1;
+
+	test("parses without a cache", () => {
+		const parser = PersistingParser.apply(
+			none,
+			IArray.apply(inputFolder),
+			Logger.DevNull(),
+		);
+		const result = parser(writeFile("declare const x: number;"));
+
+		expect(memberCount(result)).toBe(1);
+		expect(cachedFiles()).toEqual([]);
+	});
+
+	test("stores results under the path relative to the input folder", () => {
+		const parser = PersistingParser.apply(
+			some(cacheDir),
+			IArray.apply(inputFolder),
+			Logger.DevNull(),
+		);
+		parser(writeFile("declare const x: number;"));
+
+		const files = cachedFiles();
+		expect(files.length).toBe(1);
+		expect(path.relative(cacheDir, files[0])).toContain(
+			path.join("lib", "index.d.ts"),
+		);
+	});
+
+	test("keeps files outside the input folders inside the versioned cache directory", () => {
+		const outside = path.join(tempDir, "elsewhere", "index.d.ts");
+		fs.mkdirSync(path.dirname(outside), { recursive: true });
+		fs.writeFileSync(outside, "declare const x: number;");
+
+		const parser = PersistingParser.apply(
+			some(cacheDir),
+			IArray.apply(inputFolder),
+			Logger.DevNull(),
+		);
+		expect(memberCount(parser(new InFile(outside)))).toBe(1);
+
+		const files = cachedFiles();
+		expect(files.length).toBe(1);
+		expect(path.relative(cacheDir, files[0]).split(path.sep)[0]).toBe(
+			`${TsParserVersion}.${TsTreeCodecVersion}`,
+		);
+	});
+
+	test("caches files when there are no input folders", () => {
+		const parser = PersistingParser.apply(
+			some(cacheDir),
+			IArray.Empty,
+			Logger.DevNull(),
+		);
+		const file = writeFile("declare const x: number;");
+
+		expect(memberCount(parser(file))).toBe(1);
+		expect(memberCount(parser(file))).toBe(1);
+		expect(cachedFiles().length).toBe(1);
+	});
+
+	test("reuses cached results while the content is unchanged", () => {
+		const parser = PersistingParser.apply(
+			some(cacheDir),
+			IArray.apply(inputFolder),
+			Logger.DevNull(),
+		);
+		const file = writeFile("declare const x: number;");
+		expect(memberCount(parser(file))).toBe(1);
+
+		// tamper with the cached trees to observe that they are read back
+		const [cached] = cachedFiles();
+		const data = JSON.parse(fs.readFileSync(cached, "utf8"));
+		data.value.file.members.items = [];
+		fs.writeFileSync(cached, JSON.stringify(data));
+
+		expect(memberCount(parser(file))).toBe(0);
+	});
+
+	test("parses again when the content changes", () => {
+		const parser = PersistingParser.apply(
+			some(cacheDir),
+			IArray.apply(inputFolder),
+			Logger.DevNull(),
+		);
+		expect(memberCount(parser(writeFile("declare const x: number;")))).toBe(1);
+		expect(
+			memberCount(
+				parser(writeFile("declare const x: number; declare const y: number;")),
+			),
+		).toBe(2);
+		expect(cachedFiles().length).toBe(2);
+	});
+
+	test("caches parse failures", () => {
+		const parser = PersistingParser.apply(
+			some(cacheDir),
+			IArray.apply(inputFolder),
+			Logger.DevNull(),
+		);
+		const file = writeFile("interface {");
+
+		expect(E.isLeft(parser(file))).toBe(true);
+		expect(E.isLeft(parser(file))).toBe(true);
+		expect(cachedFiles().length).toBe(1);
+	});
+
+	test("parses again when a cached file cannot be decoded", () => {
+		const logger = Logger.Collecting();
+		const parser = PersistingParser.apply(
+			some(cacheDir),
+			IArray.apply(inputFolder),
+			logger,
+		);
+		const file = writeFile("declare const x: number;");
+		parser(file);
+		const [cached] = cachedFiles();
+		fs.writeFileSync(cached, "not json");
+
+		expect(memberCount(parser(file))).toBe(1);
+		expect(logger.getMessages().map((m) => m.level)).toContain("WARN");
+		expect(fs.readFileSync(cached, "utf8")).not.toBe("not json");
+	});
+});
@@ -0,0 +1,186 @@
+/**
+ * Tests for the TypeScript port of PhaseFlavour.scala
+ */
+
+import { describe, expect, test } from "bun:test";
+import { none, some } from "fp-ts/Option";
+import { CouldBeScalaJsDefined } from "../../internal/Comment";
+import { Comments } from "../../internal/Comments";
+import { SortedMap, type SortedSet } from "../../internal/collections";
+import { IArray } from "../../internal/IArray";
+import { NormalFlavourImpl } from "../../internal/importer/FlavourImpl";
+import { LibScalaJs } from "../../internal/importer/LibScalaJs";
+import { LibTsSource } from "../../internal/importer/LibTsSource";
+import { PhaseFlavour } from "../../internal/importer/PhaseFlavour";
+import "../../internal/importer/LibTsSource.mock";
+import { Logger } from "../../internal/logging";
+import { isOk, PhaseRes } from "../../internal/phases/PhaseRes";
+import { Name } from "../../internal/scalajs/Name";
+import { QualifiedName } from "../../internal/scalajs/QualifiedName";
+import {
+	ClassTree,
+	ClassType,
+	ExprTree,
+	FieldTree,
+	isMethodTree,
+	isModuleTree,
+	isPackageTree,
+	type MethodTree,
+	type ModuleTree,
+	PackageTree,
+	ProtectionLevel,
+	type Tree,
+	TypeRef,
+} from "../../internal/scalajs/Tree";
+import { TsIdentLibrary } from "../../internal/ts/trees";
+
+const outputPkg = Name.typings;
+
+const trait = (
+	libName: Name,
+	name: string,
+	parent: TypeRef,
+	fieldName: string,
+): ClassTree => {
+	const cp = QualifiedName.from([outputPkg, libName, new Name(name)]);
+	return ClassTree.create(
+		false,
+		IArray.Empty,
+		ProtectionLevel.Public,
+		new Name(name),
+		IArray.Empty,
+		IArray.apply(parent),
+		IArray.Empty,
+		IArray.apply<Tree>(
+			FieldTree.create(
+				IArray.Empty,
+				ProtectionLevel.Public,
+				new Name(fieldName),
+				TypeRef.String,
+				ExprTree.native,
+				false,
+				false,
+				Comments.empty(),
+				cp.add(new Name(fieldName)),
+			),
+		),
+		ClassType.Trait,
+		false,
+		Comments.apply([CouldBeScalaJsDefined.instance]),
+		cp,
+	);
+};
+
+const libWith = (
+	libName: string,
+	member: Tree,
+	dependencies: Map<LibTsSource, LibScalaJs> = new Map(),
+): LibScalaJs => {
+	const source = LibTsSource.createMock(TsIdentLibrary.construct(libName));
+	const mock = LibScalaJs.createMock(source);
+	const scalaName = new Name(libName);
+	const packageTree = PackageTree.create(
+		IArray.Empty,
+		outputPkg,
+		IArray.apply<Tree>(
+			PackageTree.create(
+				IArray.Empty,
+				scalaName,
+				IArray.apply(member),
+				Comments.empty(),
+				QualifiedName.from([outputPkg, scalaName]),
+			),
+		),
+		Comments.empty(),
+		QualifiedName.from([outputPkg]),
+	);
+	return new LibScalaJs(
+		source,
+		libName,
+		scalaName,
+		mock.libVersion,
+		packageTree,
+		dependencies,
+		false,
+		mock.names,
+	);
+};
+
+const base = libWith(
+	"base",
+	trait(new Name("base"), "Base", TypeRef.create(QualifiedName.StObject), "x"),
+);
+
+const props = libWith(
+	"mylib",
+	trait(
+		new Name("mylib"),
+		"Props",
+		TypeRef.create(
+			QualifiedName.from([outputPkg, new Name("base"), new Name("Base")]),
+		),
+		"y",
+	),
+	new Map([[base.source, base]]),
+);
+
+const getDeps = (_keys: SortedSet<LibTsSource>) =>
+	PhaseRes.Ok<LibTsSource, SortedMap<LibTsSource, LibScalaJs>>(
+		new SortedMap([[base.source, base]]),
+	);
+
+const run = (phase: PhaseFlavour, lib: LibScalaJs): LibScalaJs => {
+	const res = phase.apply(lib.source, lib, getDeps, false, Logger.DevNull());
+	if (!isOk(res)) throw new Error("PhaseFlavour did not succeed");
+	return res.value;
+};
+
+const companionApply = (lib: LibScalaJs): MethodTree | undefined => {
+	const libPkg = lib.packageTree.members.find(isPackageTree) as
+		| PackageTree
+		| undefined;
+	const companion = libPkg?.members.find(isModuleTree) as
+		| ModuleTree
+		| undefined;
+	return companion?.members.find(isMethodTree) as MethodTree | undefined;
+};
+
+describe("PhaseFlavour", () => {
+	test("rewrites the tree with the flavour, resolving parents through dependencies", () => {
+		const phase = PhaseFlavour.create({
+			flavour: NormalFlavourImpl.createMock(),
+			maybePrivateWithin: none,
+		});
+		const apply = companionApply(run(phase, props));
+		expect(apply?.params.head.toArray().map((p) => p.name.unescaped)).toEqual([
+			"x",
+			"y",
+		]);
+	});
+
+	test("keeps library metadata and uses the resolved dependencies", () => {
+		const phase = PhaseFlavour.createWithParams(NormalFlavourImpl.createMock());
+		const result = run(phase, props);
+		expect(result.scalaName.unescaped).toBe("mylib");
+		expect(result.libVersion).toBe(props.libVersion);
+		expect(Array.from(result.dependencies.keys())).toEqual([base.source]);
+	});
+
+	test("makes top-level declarations private to the privateWithin package", () => {
+		const phase = PhaseFlavour.create({
+			flavour: NormalFlavourImpl.createMock(),
+			maybePrivateWithin: some(new Name("mylib")),
+		});
+		const result = run(phase, props);
+		const libPkg = result.packageTree.members.find(isPackageTree) as
+			| PackageTree
+			| undefined;
+		const privateWithin = ProtectionLevel.PrivateWithin(new Name("mylib"));
+
+		expect(
+			libPkg?.members.map((m) => (m as ModuleTree).level).toArray(),
+		).toEqual([privateWithin, privateWithin]);
+		// members of classes and objects are covered by their owner
+		expect(companionApply(result)?.level).toBe(ProtectionLevel.Public);
+	});
+});
@@ -0,0 +1,244 @@
+/**
+ * Tests for ReadGit and InGitLibraryVersion - git metadata read from disk
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { deflateSync } from "node:zlib";
+import * as O from "fp-ts/Option";
+import { Comments } from "@/internal/Comments";
+import { InFolder } from "@/internal/files";
+import { InGitLibraryVersion } from "@/internal/importer/CalculateLibraryVersion";
+import { ReadGit } from "@/internal/importer/ReadGit";
+import { PackageJson } from "@/internal/ts/PackageJson";
+
+const sha = "0123456789abcdef0123456789abcdef01234567";
+// 2020-09-13T12:26:40Z
+const committedAt = 1600000000;
+
+describe("ReadGit", () => {
+	let repo: string;
+	let gitDir: string;
+	let libFolder: InFolder;
+
+	const write = (file: string, content: string | Buffer) => {
+		fs.mkdirSync(path.dirname(file), { recursive: true });
+		fs.writeFileSync(file, content);
+	};
+
+	const commitBody = `tree ${sha}\nauthor A <a@b.c> ${committedAt} +0200\ncommitter A <a@b.c> ${committedAt} +0200\n\nmessage\n`;
+
+	const writeCommit = () => {
+		write(
+			path.join(gitDir, "objects", sha.slice(0, 2), sha.slice(2)),
+			deflateSync(Buffer.from(`commit ${commitBody.length}\0${commitBody}`)),
+		);
+	};
+
+	/* a pack holding only the commit, with its version 2 index */
+	const writePackedCommit = () => {
+		const body = Buffer.from(commitBody);
+		const objectHeader = [(1 << 4) | (body.length & 0x0f)];
+		for (let rest = body.length >> 4; rest > 0; rest >>= 7) {
+			objectHeader[objectHeader.length - 1] |= 0x80;
+			objectHeader.push(rest & 0x7f);
+		}
+		const packHeader = Buffer.alloc(12);
+		packHeader.write("PACK", 0);
+		packHeader.writeUInt32BE(2, 4);
+		packHeader.writeUInt32BE(1, 8);
+		write(
+			path.join(gitDir, "objects", "pack", "pack-1.pack"),
+			Buffer.concat([packHeader, Buffer.from(objectHeader), deflateSync(body)]),
+		);
+
+		const idx = Buffer.alloc(8 + 256 * 4 + 20 + 4 + 4);
+		idx.writeUInt32BE(0xff744f63, 0);
+		idx.writeUInt32BE(2, 4);
+		const first = Number.parseInt(sha.slice(0, 2), 16);
+		for (let i = first; i < 256; i++) idx.writeUInt32BE(1, 8 + i * 4);
+		Buffer.from(sha, "hex").copy(idx, 8 + 256 * 4);
+		idx.writeUInt32BE(packHeader.length, 8 + 256 * 4 + 24);
+		write(path.join(gitDir, "objects", "pack", "pack-1.idx"), idx);
+	};
+
+	beforeEach(() => {
+		repo = fs.mkdtempSync(path.join(os.tmpdir(), "read-git-test-"));
+		gitDir = path.join(repo, ".git");
+		libFolder = new InFolder(path.join(repo, "types", "foo"));
+		fs.mkdirSync(libFolder.path, { recursive: true });
+
+		write(path.join(gitDir, "HEAD"), "ref: refs/heads/master\n");
+		write(path.join(gitDir, "refs", "heads", "master"), `${sha}\n`);
+		write(
+			path.join(gitDir, "config"),
+			'[core]\n\tbare = false\n[remote "origin"]\n\turl = git@github.com:DefinitelyTyped/DefinitelyTyped.git\n\tfetch = +refs/heads/*:refs/remotes/origin/*\n',
+		);
+	});
+
+	afterEach(() => {
+		fs.rmSync(repo, { recursive: true, force: true });
+	});
+
+	test("reads the repository, HEAD and commit date", () => {
+		writeCommit();
+		const inGit = ReadGit.inGit(libFolder);
+
+		expect(O.isSome(inGit)).toBe(true);
+		if (O.isSome(inGit)) {
+			expect(inGit.value.repo.href).toBe(
+				"https://github.com/DefinitelyTyped/DefinitelyTyped",
+			);
+			expect(inGit.value.isDefinitelyTyped).toBe(true);
+			expect(inGit.value.lastModified).toEqual(
+				O.some(new Date(committedAt * 1000)),
+			);
+			expect(inGit.value.format()).toBe("dt-20200913Z");
+		}
+	});
+
+	test("resolves packed refs", () => {
+		fs.rmSync(path.join(gitDir, "refs"), { recursive: true });
+		write(
+			path.join(gitDir, "packed-refs"),
+			`# pack-refs with: peeled fully-peeled sorted\n${sha} refs/heads/master\n`,
+		);
+		writeCommit();
+
+		const dirs = ReadGit.findGitDirs(libFolder.path);
+		expect(O.isSome(dirs)).toBe(true);
+		if (O.isSome(dirs)) {
+			const head = ReadGit.resolveHead(dirs.value);
+			expect(O.map((h: { sha: string }) => h.sha)(head)).toEqual(O.some(sha));
+		}
+	});
+
+	test("reads the commit date from pack files", () => {
+		writePackedCommit();
+		const inGit = ReadGit.inGit(libFolder);
+
+		expect(O.isSome(inGit)).toBe(true);
+		if (O.isSome(inGit)) {
+			expect(inGit.value.lastModified).toEqual(
+				O.some(new Date(committedAt * 1000)),
+			);
+		}
+	});
+
+	test("leaves the date out when the commit can't be read", () => {
+		const inGit = ReadGit.inGit(libFolder);
+
+		expect(O.isSome(inGit)).toBe(true);
+		if (O.isSome(inGit)) {
+			expect(O.isNone(inGit.value.lastModified)).toBe(true);
+			expect(inGit.value.format()).toBe("dt");
+		}
+	});
+
+	test("ignores the repository of the project a library is installed in", () => {
+		writeCommit();
+		const installed = new InFolder(path.join(repo, "node_modules", "lib"));
+		fs.mkdirSync(installed.path, { recursive: true });
+
+		expect(O.isNone(ReadGit.inGit(installed))).toBe(true);
+		expect(
+			O.isNone(ReadGit.inGit(new InFolder(path.join(installed.path, "dist")))),
+		).toBe(true);
+	});
+
+	test("reads a checkout inside node_modules", () => {
+		writeCommit();
+		const installed = path.join(repo, "node_modules", "lib");
+		fs.cpSync(gitDir, path.join(installed, ".git"), { recursive: true });
+
+		expect(O.isSome(ReadGit.inGit(new InFolder(installed)))).toBe(true);
+	});
+
+	test("follows .git files of linked worktrees", () => {
+		const worktree = path.join(repo, "worktree");
+		const worktreeGitDir = path.join(gitDir, "worktrees", "worktree");
+		write(path.join(worktree, ".git"), `gitdir: ${worktreeGitDir}\n`);
+		write(path.join(worktreeGitDir, "HEAD"), `${sha}\n`);
+		write(path.join(worktreeGitDir, "commondir"), "../..\n");
+		writeCommit();
+
+		const inGit = ReadGit.inGit(new InFolder(worktree));
+		expect(O.isSome(inGit)).toBe(true);
+		if (O.isSome(inGit)) {
+			expect(inGit.value.lastModified).toEqual(
+				O.some(new Date(committedAt * 1000)),
+			);
+		}
+	});
+
+	test("needs an origin remote", () => {
+		write(path.join(gitDir, "config"), "[core]\n\tbare = false\n");
+		expect(O.isNone(ReadGit.inGit(libFolder))).toBe(true);
+	});
+
+	test("is empty outside of git checkouts", () => {
+		fs.rmSync(gitDir, { recursive: true });
+		expect(O.isNone(ReadGit.inGit(libFolder))).toBe(true);
+	});
+
+	describe("InGitLibraryVersion", () => {
+		test("combines package.json version and git information", () => {
+			writeCommit();
+			const version = new InGitLibraryVersion().calculate(
+				libFolder,
+				false,
+				O.some(new PackageJson("1.2.3")),
+				Comments.empty(),
+			);
+
+			expect(version.libraryVersion).toEqual(O.some("1.2.3"));
+			expect(O.isSome(version.inGit)).toBe(true);
+		});
+
+		test("falls back to the DefinitelyTyped header", () => {
+			const version = new InGitLibraryVersion().calculate(
+				libFolder,
+				false,
+				O.none,
+				Comments.create(
+					"// Type definitions for foo 4.1\n// Project: https://foo.org",
+				),
+			);
+
+			expect(version.libraryVersion).toEqual(O.some("4.1"));
+		});
+
+		test("digests the typings and the converter version", () => {
+			const versionOf = (converterVersion: string) =>
+				new InGitLibraryVersion(converterVersion)
+					.calculate(
+						libFolder,
+						false,
+						O.some(new PackageJson("1.2.3")),
+						Comments.empty(),
+					)
+					.version();
+
+			write(path.join(libFolder.path, "index.d.ts"), "declare const x: 1;");
+			write(path.join(libFolder.path, "README.md"), "readme");
+			const first = versionOf("1.0.0");
+
+			expect(first).toMatch(/^1\.2\.3-.*-[0-9a-f]{6}$/);
+			expect(versionOf("1.0.0")).toBe(first);
+
+			write(path.join(libFolder.path, "README.md"), "changed readme");
+			write(
+				path.join(libFolder.path, "node_modules", "dep", "index.d.ts"),
+				"declare const y: 2;",
+			);
+			expect(versionOf("1.0.0")).toBe(first);
+
+			expect(versionOf("1.0.1")).not.toBe(first);
+
+			write(path.join(libFolder.path, "index.d.ts"), "declare const x: 2;");
+			expect(versionOf("1.0.0")).not.toBe(first);
+		});
+	});
+});
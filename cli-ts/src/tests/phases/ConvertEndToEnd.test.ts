@@ -0,0 +1,207 @@
+/**
+ * Converts a real library from `node_modules` all the way to scala sources:
+ * Bootstrap → Phase1ReadTypescript → Phase2ToScalaJs → PhaseFlavour → Printer
+ */
+
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import * as E from "fp-ts/Either";
+import * as O from "fp-ts/Option";
+import { Flavour } from "@/Flavour";
+import { InFolder } from "@/internal/files";
+import { Bootstrap } from "@/internal/importer/Bootstrap";
+import { MockCalculateLibraryVersion } from "@/internal/importer/CalculateLibraryVersion";
+import {
+	ConversionOptions,
+	Versions,
+} from "@/internal/importer/ConversionOptions";
+import { NormalFlavourImpl } from "@/internal/importer/FlavourImpl";
+import type { LibScalaJs } from "@/internal/importer/LibScalaJs";
+import type { LibTsSource } from "@/internal/importer/LibTsSource";
+import { PersistingParser } from "@/internal/importer/PersistingParser";
+import { Phase1ReadTypescript } from "@/internal/importer/Phase1ReadTypescript";
+import { Phase2ToScalaJs } from "@/internal/importer/Phase2ToScalaJs";
+import { PhaseFlavour } from "@/internal/importer/PhaseFlavour";
+import { Logger } from "@/internal/logging";
+import { CollectingPhaseListener } from "@/internal/phases/PhaseListener";
+import type { PhaseRes } from "@/internal/phases/PhaseRes";
+import {
+	Formatters,
+	Orderings,
+	PhaseRunner,
+} from "@/internal/phases/PhaseRunner";
+import { RecPhase } from "@/internal/phases/RecPhase";
+import { Selection } from "@/internal/Selection";
+import { Name } from "@/internal/scalajs/Name";
+import { ParentsResolver } from "@/internal/scalajs/ParentsResolver";
+import { Printer } from "@/internal/scalajs/Printer";
+import { TreeScope } from "@/internal/scalajs/TreeScope";
+import { TsIdentLibrary } from "@/internal/ts/trees";
+
+const versions = new Versions(Versions.Scala3, Versions.ScalaJs1);
+
+const options = new ConversionOptions(
+	false,
+	Flavour.Normal,
+	Name.typings,
+	new Set(["es6"]),
+	Selection.All(),
+	Selection.All(),
+	new Set(),
+	versions,
+	false,
+);
+
+const convert = (
+	nodeModules: string,
+	libName: string,
+): PhaseRes<LibTsSource, LibScalaJs> => {
+	const bootstrapped = Bootstrap.fromNodeModules(
+		new InFolder(nodeModules),
+		options,
+		new Set([TsIdentLibrary.construct(libName)]),
+	);
+	const sources = E.getOrElseW(() => {
+		throw new Error(`could not resolve ${libName}`);
+	})(bootstrapped.initialLibs);
+	const flavour = new NormalFlavourImpl(
+		false,
+		false,
+		options.outputPackage,
+		versions,
+	);
+
+	const phase1 = Phase1ReadTypescript.create({
+		resolve: bootstrapped.libraryResolver,
+		calculateLibraryVersion: new MockCalculateLibraryVersion(),
+		ignored: options.ignoredLibs,
+		ignoredModulePrefixes: options.ignoredModulePrefixes,
+		pedantic: false,
+		parser: PersistingParser.apply(
+			O.none,
+			bootstrapped.inputFolders,
+			Logger.DevNull(),
+		),
+		expandTypeMappings: options.expandTypeMappings,
+	});
+	const phase2 = Phase2ToScalaJs.create({
+		pedantic: false,
+		useDeprecatedModuleNames: false,
+		scalaVersion: versions.scala,
+		enableScalaJsDefined: options.enableScalaJsDefined,
+		outputPkg: options.outputPackage,
+		flavour,
+	});
+	const phase3 = PhaseFlavour.create({ flavour, maybePrivateWithin: O.none });
+
+	const pipeline = RecPhase.apply<LibTsSource>()
+		.next(phase1.apply.bind(phase1), "Phase1ReadTypescript")
+		.next(phase2.apply.bind(phase2), "Phase2ToScalaJs")
+		.next(phase3.apply.bind(phase3), "PhaseFlavour");
+
+	return PhaseRunner.apply(
+		pipeline,
+		() => Logger.DevNull(),
+		new CollectingPhaseListener<LibTsSource>(),
+		Formatters.create<LibTsSource>((s) => s.libName.value),
+		Orderings.create<LibTsSource>((a, b) =>
+			a.libName.value < b.libName.value
+				? -1
+				: a.libName.value > b.libName.value
+					? 1
+					: 0,
+		),
+	)(sources[0]);
+};
+
+const print = (lib: LibScalaJs): Map<string, string> =>
+	new Map(
+		Printer.apply(
+			new TreeScope.Root(
+				options.outputPackage,
+				lib.scalaName,
+				new Map([[lib.scalaName.unescaped, lib.packageTree]]),
+				Logger.DevNull(),
+				false,
+			),
+			new ParentsResolver(),
+			lib.packageTree,
+			options.outputPackage,
+			versions.scala,
+		)
+			.toArray()
+			.map(([p, content]) => [p, content] as const),
+	);
+
+describe("converting a library end to end", () => {
+	let tempDir: string;
+	let nodeModules: string;
+
+	beforeAll(() => {
+		tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "convert-e2e-"));
+		nodeModules = path.join(tempDir, "node_modules");
+		const mylib = path.join(nodeModules, "mylib");
+		fs.mkdirSync(mylib, { recursive: true });
+		fs.writeFileSync(
+			path.join(mylib, "package.json"),
+			JSON.stringify({ name: "mylib", version: "1.0.0", types: "index.d.ts" }),
+		);
+		fs.writeFileSync(
+			path.join(mylib, "index.d.ts"),
+			[
+				"export interface Options { name: string; size?: number }",
+				"export function create(opts: Options): void;",
+				"export const version: string;",
+			].join("\n"),
+		);
+		const broken = path.join(nodeModules, "broken");
+		fs.mkdirSync(broken, { recursive: true });
+		fs.writeFileSync(
+			path.join(broken, "package.json"),
+			JSON.stringify({ name: "broken", version: "1.0.0", types: "index.d.ts" }),
+		);
+		fs.writeFileSync(path.join(broken, "index.d.ts"), "interface {");
+		/* the standard library is read from the typescript package */
+		fs.symlinkSync(
+			path.dirname(Bun.resolveSync("typescript/package.json", import.meta.dir)),
+			path.join(nodeModules, "typescript"),
+		);
+	});
+
+	afterAll(() => {
+		fs.rmSync(tempDir, { recursive: true, force: true });
+	});
+
+	test("imports the exports of an es module from the module", () => {
+		const res = convert(nodeModules, "mylib");
+		if (res._tag !== "Ok") {
+			throw new Error(`conversion failed: ${JSON.stringify(res)}`);
+		}
+		const files = print(res.value);
+		const all = Array.from(files.values()).join("\n");
+
+		expect(all).toContain("object mod {");
+		expect(all).toContain('@JSImport("mylib", JSImport.Namespace)');
+		expect(all).toContain("type Options = ");
+		expect(all).toContain("def create(");
+		expect(all).toContain(
+			'@JSImport("mylib", "version")\n  @js.native\n  val version: String',
+		);
+		expect(all).not.toContain("@JSGlobal(");
+	});
+
+	test("fails with the name of a file which does not parse", () => {
+		const res = convert(nodeModules, "broken");
+		if (res._tag !== "Failure") {
+			throw new Error(`expected a failure: ${JSON.stringify(res)}`);
+		}
+		const messages = Array.from(res.errors.values()).map((e) =>
+			E.isLeft(e) ? e.left.message : e.right,
+		);
+		expect(messages.join("\n")).toContain(
+			`Couldn't parse ${path.join(nodeModules, "broken", "index.d.ts")}`,
+		);
+	});
+});
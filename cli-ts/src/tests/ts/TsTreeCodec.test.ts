@@ -0,0 +1,141 @@
+/**
+ * Tests for TsTreeCodec - the on-disk format of cached parser output
+ */
+
+import { describe, expect, test } from "bun:test";
+import { none, some } from "fp-ts/Option";
+import { Comments } from "@/internal/Comments.js";
+import { IArray } from "@/internal/IArray.js";
+import { CodePath } from "@/internal/ts/CodePath.js";
+import { JsLocation } from "@/internal/ts/JsLocation.js";
+import { ModuleSpec } from "@/internal/ts/ModuleSpec.js";
+import { parseString } from "@/internal/ts/parser/TsParser.js";
+import { TsProtectionLevel } from "@/internal/ts/TsProtectionLevel.js";
+import {
+	TsParsedFileDecoder,
+	TsParsedFileEncoder,
+	TsTreeCodecVersion,
+} from "@/internal/ts/TsTreeCodec.js";
+import {
+	type TsContainerOrDecl,
+	TsDeclClass,
+	type TsDeclNamespace,
+	TsIdent,
+	type TsMember,
+	TsMemberProperty,
+	TsParsedFile,
+	TsQIdent,
+	TsTypeRef,
+} from "@/internal/ts/trees.js";
+
+const roundTrip = (file: TsParsedFile): TsParsedFile =>
+	TsParsedFileDecoder.decode(
+		JSON.parse(JSON.stringify(TsParsedFileEncoder.encode(file))),
+	);
+
+const parse = (content: string): TsParsedFile => {
+	const result = parseString(content);
+	if (result._tag === "Left") throw new Error(result.value);
+	return result.value;
+};
+
+describe("TsTreeCodec", () => {
+	test("round trips parsed files", () => {
+		const file = parse(`
+			/// <reference types="node" />
+			export interface Foo<T extends string = "a"> {
+				readonly a?: T | undefined;
+				[key: string]: any;
+				method(x: number, ...rest: string[]): [string, number];
+			}
+			export declare function f(a: keyof Foo<"a">): Foo<"a">["a"];
+			export type Mapped = { [K in keyof Foo<"a">]?: Foo<"a">[K] };
+			declare enum E { A = 1, B }
+			declare namespace N { const x: number; }
+			export { f as g };
+			export * from "other";
+			import * as o from "other";
+		`);
+		const decoded = roundTrip(file);
+
+		expect(TsParsedFileEncoder.encode(decoded)).toEqual(
+			TsParsedFileEncoder.encode(file),
+		);
+		expect(decoded.members.length).toBe(file.members.length);
+		expect(decoded.directives.toArray()).toEqual(file.directives.toArray());
+	});
+
+	test("rebuilds nodes through their factories", () => {
+		const decoded = roundTrip(
+			parse("declare namespace N { const x: number; }"),
+		);
+		const ns = decoded.members.apply(0) as TsDeclNamespace;
+
+		expect(ns._tag).toBe("TsDeclNamespace");
+		expect(ns.nameds.length).toBe(1);
+		expect(ns.withMembers(IArray.Empty).members.length).toBe(0);
+	});
+
+	test("keeps comments, code paths and locations", () => {
+		const libName = TsIdent.librarySimple("lib");
+		const module = TsIdent.module(some("scope"), ["lib", "sub"]);
+		const prop = TsMemberProperty.create(
+			Comments.create("/** a property */"),
+			TsProtectionLevel.default(),
+			TsIdent.simple("p"),
+			some(TsTypeRef.string),
+			none,
+			false,
+			true,
+		);
+		const cls = TsDeclClass.create(
+			Comments.create("/** a class */"),
+			true,
+			false,
+			TsIdent.simple("C"),
+			IArray.Empty,
+			some(TsTypeRef.fromQIdent(TsQIdent.of(libName, TsIdent.simple("Base")))),
+			IArray.Empty,
+			IArray.apply<TsMember>(prop),
+			JsLocation.both(
+				JsLocation.module(
+					module,
+					ModuleSpec.specified(IArray.apply<TsIdent>(TsIdent.simple("C"))),
+				),
+				JsLocation.global(TsQIdent.ofStrings("C")),
+			),
+			CodePath.hasPath(libName, TsQIdent.ofStrings("C")),
+		);
+		const file = TsParsedFile.create(
+			Comments.empty(),
+			IArray.Empty,
+			IArray.apply<TsContainerOrDecl>(cls),
+			CodePath.hasPath(libName, TsQIdent.empty()),
+		);
+
+		const decoded = roundTrip(file).members.apply(0) as TsDeclClass;
+
+		expect(decoded.comments.rawCs).toEqual(["/** a class */"]);
+		expect(decoded.codePath.forceHasPath().codePath.asString).toBe(
+			"TsQIdent(lib.C)",
+		);
+		expect(decoded.jsLocation).toEqual(cls.jsLocation);
+		const decodedProp = decoded.members.apply(0) as TsMemberProperty;
+		expect(decodedProp.comments.rawCs).toEqual(["/** a property */"]);
+		expect(decodedProp.isReadOnly).toBe(true);
+		expect(decodedProp.expr._tag).toBe("None");
+	});
+
+	test("rejects data written by another version", () => {
+		const encoded = TsParsedFileEncoder.encode(
+			parse("declare const x: number;"),
+		);
+		expect(encoded.version).toBe(TsTreeCodecVersion);
+		expect(() =>
+			TsParsedFileDecoder.decode({
+				...encoded,
+				version: TsTreeCodecVersion + 1,
+			}),
+		).toThrow();
+	});
+});
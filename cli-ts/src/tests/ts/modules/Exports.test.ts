@@ -3,8 +3,8 @@
  * Tests for Exports.ts - comprehensive test coverage
  */
 
-import { none, some } from "fp-ts/Option";
 import { describe, expect, test } from "bun:test";
+import { none, some } from "fp-ts/Option";
 import { Comments } from "@/internal/Comments.js";
 import { IArray } from "@/internal/IArray.js";
 import { Logger } from "@/internal/logging/index.js";
@@ -262,6 +262,36 @@ describe("Exports", () => {
 			expect(result.length).toBeGreaterThanOrEqual(1);
 		});
 
+		test("places exported declarations under the owner", () => {
+			const var1 = createMockVar("version");
+			const export1 = createMockExport(
+				ExportType.named(),
+				TsExporteeTree.create(var1),
+			);
+			const scope = createScopedScope(createMockNamespace("TestScope"));
+			const owner = createMockModule(
+				"TestModule",
+				IArray.Empty,
+				createHasPath("test", "TestModule"),
+			);
+
+			const result = Exports.expandExport(
+				scope,
+				createJsLocationFunction(),
+				export1,
+				createMockLoopDetector(),
+				owner,
+			);
+
+			expect(result.length).toBe(1);
+			expect(result.get(0).codePath.asString).toBe(
+				CodePath.hasPath(
+					createSimpleIdent("TestModule"),
+					createQIdent("test", "TestModule", "version"),
+				).asString,
+			);
+		});
+
 		test("handles TsExportee.Tree with TsImport", () => {
 			const import1 = createMockImport(
 				IArray.fromArray([
@@ -9,6 +9,7 @@ import { IArray } from "@/internal/IArray.js";
 import { JsLocation } from "@/internal/ts/JsLocation.js";
 import { AbstractTreeTransformation } from "@/internal/ts/TreeTransformation.js";
 import { SetJsLocationTransform } from "@/internal/ts/transforms/SetJsLocation.js";
+import { type TsDeclNamespace, TsQIdent } from "@/internal/ts/trees.js";
 import {
 	createJsLocationBoth,
 	createJsLocationGlobal,
@@ -316,4 +317,29 @@ describe("SetJsLocation", () => {
 			expect(resultClass.jsLocation).toBe(jsLocation);
 		});
 	});
+
+	describe("Visiting trees", () => {
+		it("gives nested declarations the location of their own path", () => {
+			const ns = createMockNamespace(
+				"ns",
+				IArray.apply<any>(
+					createMockVariable("v"),
+					createMockFunction("f"),
+					createMockClass("C"),
+				),
+			);
+
+			const result = SetJsLocationTransform.visitTsContainer(
+				JsLocation.global(TsQIdent.empty()),
+			)(ns) as TsDeclNamespace;
+
+			const paths = [result, ...result.members.toArray()].map((m) => {
+				const loc = (m as any).jsLocation;
+				return JsLocation.isGlobal(loc)
+					? loc.jsPath.parts.toArray().map((p) => p.value)
+					: loc._tag;
+			});
+			expect(paths).toEqual([["ns"], ["ns", "v"], ["ns", "f"], ["ns", "C"]]);
+		});
+	});
 });
@@ -0,0 +1,212 @@
+/**
+ * Builders for scala trees in a `typings.mylib` library, shared by the tests of the scalajs transforms.
+ *
+ * Members are placed inside the library unless an owner path is given. Everything else defaults to the common case
+ * (native traits, `Double` fields, `Unit` methods) and is overridden through the options.
+ */
+
+import { Comments } from "@/internal/Comments.js";
+import { IArray } from "@/internal/IArray.js";
+import { Logger } from "@/internal/logging/index.js";
+import {
+	Annotation,
+	type AnnotationUnion,
+} from "@/internal/scalajs/Annotation.js";
+import { Name } from "@/internal/scalajs/Name.js";
+import { QualifiedName } from "@/internal/scalajs/QualifiedName.js";
+import {
+	ClassTree,
+	type ClassType,
+	type ContainerTree,
+	ExprTree,
+	FieldTree,
+	type ImplTree,
+	isClassTree,
+	MethodTree,
+	ModuleTree,
+	NotImplemented,
+	PackageTree,
+	ParamTree,
+	ProtectionLevel,
+	type Tree,
+	TypeParamTree,
+	TypeRef,
+} from "@/internal/scalajs/Tree.js";
+import { TreeScope } from "@/internal/scalajs/TreeScope.js";
+
+export const outputPkg = Name.typings;
+export const libName = new Name("mylib");
+export const libPath = QualifiedName.from([outputPkg, libName]);
+
+export const scopeFor = (
+	lib: Name = libName,
+	dependencies: Map<string, ContainerTree> = new Map(),
+): TreeScope =>
+	new TreeScope.Root(outputPkg, lib, dependencies, Logger.DevNull(), false);
+
+export const scope = scopeFor();
+
+/* a name inside the library, or an explicit path */
+type Owner = string | QualifiedName;
+
+const pathOf = (owner: Owner): QualifiedName =>
+	typeof owner === "string" ? libPath.add(new Name(owner)) : owner;
+
+/* `typings.mylib.<name>` */
+export const ref = (name: string, ...targs: TypeRef[]): TypeRef =>
+	TypeRef.create(libPath.add(new Name(name)), IArray.fromArray(targs));
+
+export const tparam = (name: string): TypeParamTree =>
+	TypeParamTree.create(
+		new Name(name),
+		IArray.Empty,
+		undefined,
+		Comments.empty(),
+		false,
+	);
+
+export const param = (name: string, tpe: TypeRef = TypeRef.String): ParamTree =>
+	ParamTree.create(
+		new Name(name),
+		false,
+		false,
+		tpe,
+		NotImplemented,
+		Comments.empty(),
+	);
+
+export interface FieldOptions {
+	tpe?: TypeRef;
+	isReadOnly?: boolean;
+	impl?: ImplTree;
+	annotations?: IArray<AnnotationUnion>;
+	comments?: Comments;
+}
+
+export const field = (
+	owner: Owner,
+	name: string,
+	{
+		tpe = TypeRef.Double,
+		isReadOnly = false,
+		impl = ExprTree.native,
+		annotations = IArray.Empty,
+		comments = Comments.empty(),
+	}: FieldOptions = {},
+): FieldTree =>
+	FieldTree.create(
+		annotations,
+		ProtectionLevel.Public,
+		new Name(name),
+		tpe,
+		impl,
+		isReadOnly,
+		false,
+		comments,
+		pathOf(owner).add(new Name(name)),
+	);
+
+export interface MethodOptions {
+	/* one parameter list, leave out for a method without one */
+	params?: ParamTree[];
+	resultType?: TypeRef;
+	tparams?: string[];
+	impl?: ImplTree;
+	annotations?: IArray<AnnotationUnion>;
+	comments?: Comments;
+}
+
+export const method = (
+	owner: Owner,
+	name: string,
+	{
+		params,
+		resultType = TypeRef.Unit,
+		tparams = [],
+		impl = ExprTree.native,
+		annotations = IArray.Empty,
+		comments = Comments.empty(),
+	}: MethodOptions = {},
+): MethodTree =>
+	MethodTree.create(
+		annotations,
+		ProtectionLevel.Public,
+		new Name(name),
+		IArray.fromArray(tparams.map(tparam)),
+		params === undefined
+			? IArray.Empty
+			: IArray.apply(IArray.fromArray(params)),
+		impl,
+		resultType,
+		false,
+		comments,
+		pathOf(owner).add(new Name(name)),
+		false,
+	);
+
+/* a native class or trait directly in the library */
+export const cls = (
+	name: string,
+	classType: ClassType,
+	parents: TypeRef[],
+	...members: Tree[]
+): ClassTree =>
+	ClassTree.create(
+		false,
+		IArray.apply<AnnotationUnion>(Annotation.JsNative),
+		ProtectionLevel.Public,
+		new Name(name),
+		IArray.Empty,
+		IArray.fromArray(parents),
+		IArray.Empty,
+		IArray.fromArray(members),
+		classType,
+		false,
+		Comments.empty(),
+		libPath.add(new Name(name)),
+	);
+
+/* a module directly in the library */
+export const module = (name: string, ...members: Tree[]): ModuleTree =>
+	ModuleTree.create(
+		IArray.Empty,
+		ProtectionLevel.Public,
+		new Name(name),
+		IArray.Empty,
+		IArray.fromArray(members),
+		Comments.empty(),
+		libPath.add(new Name(name)),
+		false,
+	);
+
+/* the package of the library itself */
+export const libPackage = (members: Tree[], lib: Name = libName): PackageTree =>
+	PackageTree.create(
+		IArray.Empty,
+		lib,
+		IArray.fromArray(members),
+		Comments.empty(),
+		QualifiedName.from([outputPkg, lib]),
+	);
+
+/* the `typings` package with the library inside, like `LibScalaJs.packageTree` */
+export const library = (members: Tree[], lib: Name = libName): PackageTree =>
+	PackageTree.create(
+		IArray.Empty,
+		outputPkg,
+		IArray.apply<Tree>(libPackage(members, lib)),
+		Comments.empty(),
+		QualifiedName.from([outputPkg]),
+	);
+
+/* the members of the library inside a tree built by `library` */
+export const libraryMembers = (tree: PackageTree): IArray<Tree> =>
+	(tree.members.head as PackageTree).members;
+
+export const classesByName = (members: IArray<Tree>): Map<string, ClassTree> =>
+	new Map(
+		members
+			.toArray()
+			.filter(isClassTree)
+			.map((c) => [c.name.unescaped, c] as const),
+	);